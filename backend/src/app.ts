@@ -4,8 +4,13 @@ import helmet from 'helmet'
 import config from './utils/config'
 import errorHandler from './middleware/errorHandler'
 import rateLimitMiddleware from './middleware/rateLimit'
+import { authenticate, requireRoles } from './middleware/auth'
 import chatRoutes from './routes/chat'
 import healthRoutes from './routes/health'
+import usageRoutes from './routes/usage'
+import taskRoutes from './routes/tasks'
+import auditRoutes from './routes/audit'
+import metricsRoutes from './routes/metrics'
 
 const app = express()
 
@@ -22,7 +27,15 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }))
 app.use(rateLimitMiddleware)
 
 app.use('/api/health', healthRoutes)
-app.use('/api/chat', chatRoutes)
+app.use('/api/chat', authenticate, chatRoutes)
+app.use('/api/usage', authenticate, usageRoutes)
+app.use('/api/tasks', authenticate, taskRoutes)
+app.use('/api/audit', authenticate, requireRoles(config.AUDIT_READ_ROLES), auditRoutes)
+
+// Prometheus scrape target - outside /api, so the nginx front end does not expose it
+if (config.METRICS_ENABLED) {
+  app.use('/metrics', metricsRoutes)
+}
 
 app.get('/api', (_, res) => {
   res.json({
@@ -0,0 +1,8 @@
+/**
+ * Tracing bootstrap. Imported first by server.ts: the OpenTelemetry instrumentations can only
+ * patch http and express if they are registered before those modules are loaded.
+ */
+
+import { tracingService } from './services/tracing.service'
+
+tracingService.start()
@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express'
+import logger from '../utils/logger'
+import { authService, AuthError, ANONYMOUS_PRINCIPAL, Principal } from '../services/auth.service'
+import { tracingService } from '../services/tracing.service'
+
+/**
+ * Attach the authenticated principal to the request, or answer 401 (503 when the signing keys
+ * cannot be read). With authentication disabled every request runs as the anonymous principal.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  if (!authService.isEnabled()) {
+    req.principal = ANONYMOUS_PRINCIPAL
+    tracingService.setRequestAttributes({ 'enduser.id': req.principal.id })
+    return next()
+  }
+
+  try {
+    req.principal = await authService.authenticate({
+      authorization: req.get('Authorization'),
+      apiKey: req.get('X-API-Key')
+    })
+    tracingService.setRequestAttributes({ 'enduser.id': req.principal.id })
+    return next()
+
+  } catch (error: any) {
+    if (!(error instanceof AuthError)) {
+      return next(error)
+    }
+
+    logger.warn('Authentication failed', {
+      code: error.code,
+      reason: error.message,
+      method: req.method,
+      url: req.originalUrl,
+      ip: req.ip
+    })
+
+    if (error.code === 'UNAVAILABLE') {
+      return res.status(503).json({
+        error: 'Authentication unavailable',
+        message: 'Credentials cannot be verified right now. Please try again later.'
+      })
+    }
+
+    res.setHeader('WWW-Authenticate', error.code === 'MISSING_CREDENTIALS'
+      ? 'Bearer realm="rp-sl1-chat"'
+      : 'Bearer realm="rp-sl1-chat", error="invalid_token"')
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: error.message
+    })
+  }
+}
+
+/**
+ * Only let principals holding one of the roles through. Open when authentication is disabled.
+ */
+export const requireRoles = (roles: string[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!authService.isEnabled() || req.principal?.roles.some(role => roles.includes(role))) {
+    return next()
+  }
+
+  logger.warn('Access denied - missing role', {
+    principal: req.principal?.id,
+    required: roles,
+    method: req.method,
+    url: req.originalUrl,
+    ip: req.ip
+  })
+
+  return res.status(403).json({
+    error: 'Forbidden',
+    message: `Requires one of the roles: ${roles.join(', ')}`
+  })
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express'
 import logger from '../utils/logger'
 import config from '../utils/config'
+import { redactor } from '../utils/redaction'
 
 interface AppError extends Error {
   statusCode?: number
@@ -16,9 +17,10 @@ const errorHandler = (
   let error = { ...err }
   error.message = err.message
 
+  // The stack only ever goes to the log - it exposes paths and internals to the client
   logger.error('Error occurred:', {
     error: error.message,
-    stack: error.stack,
+    stack: err.stack,
     url: req.url,
     method: req.method,
     ip: req.ip,
@@ -42,9 +44,8 @@ const errorHandler = (
   res.status(statusCode).json({
     success: false,
     error: message,
-    ...(config.NODE_ENV === 'development' && { 
-      stack: error.stack,
-      details: error 
+    ...(config.NODE_ENV === 'development' && {
+      details: redactor.redact(error)
     })
   })
 }
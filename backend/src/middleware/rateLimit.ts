@@ -1,10 +1,17 @@
+import { Request, Response, NextFunction } from 'express'
 import rateLimit from 'express-rate-limit'
 import config from '../utils/config'
 import logger from '../utils/logger'
+import { rateLimitService, describeRateLimit, RateLimitBucket, RateLimitDecision } from '../services/rate-limit.service'
 
+/**
+ * Coarse per-address flood protection. Per-user quotas are applied by limitPerPrincipal on the routes that cost something.
+ */
 const rateLimitMiddleware = rateLimit({
   windowMs: config.RATE_LIMIT_WINDOW_MS,
   max: config.RATE_LIMIT_MAX_REQUESTS,
+  // Load balancer probes and metric scrapes must never be locked out
+  skip: req => req.path.startsWith('/api/health') || req.path === '/metrics',
   message: {
     error: 'Too many requests',
     message: `Rate limit exceeded. Please try again in ${Math.ceil(config.RATE_LIMIT_WINDOW_MS / 60000)} minutes.`,
@@ -27,4 +34,56 @@ const rateLimitMiddleware = rateLimit({
   },
 })
 
-export default rateLimitMiddleware
\ No newline at end of file
+const setRateLimitHeaders = (res: Response, decision: RateLimitDecision) => {
+  res.setHeader('RateLimit-Limit', decision.limit)
+  res.setHeader('RateLimit-Remaining', decision.remaining)
+  res.setHeader('RateLimit-Reset', Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000)))
+}
+
+/**
+ * Enforce per-principal quotas (per client address when unauthenticated) before the route runs.
+ * 'chat' takes one turn from the bucket; 'token' only refuses once the token allowance is spent,
+ * the tokens themselves are charged by the chat service as completions report them.
+ * List 'token' first so a request refused for tokens does not use up a chat turn.
+ */
+export const limitPerPrincipal = (...buckets: Array<Exclude<RateLimitBucket, 'tool'>>) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const subject = rateLimitService.subjectFor(req.principal, req.ip)
+
+    try {
+      let headers: RateLimitDecision | undefined
+
+      for (const bucket of buckets) {
+        if (!rateLimitService.isEnabled(bucket)) continue
+
+        const decision = bucket === 'token'
+          ? await rateLimitService.check(bucket, subject)
+          : await rateLimitService.consume(bucket, subject)
+
+        if (!decision.allowed) {
+          setRateLimitHeaders(res, decision)
+          res.setHeader('Retry-After', decision.retryAfterSec)
+          return res.status(429).json({
+            error: 'Too many requests',
+            message: describeRateLimit(decision),
+            bucket,
+            limit: decision.limit,
+            retryAfter: decision.retryAfterSec
+          })
+        }
+        if (bucket === 'chat' || !headers) {
+          headers = decision
+        }
+      }
+
+      if (headers) {
+        setRateLimitHeaders(res, headers)
+      }
+      return next()
+
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+export default rateLimitMiddleware
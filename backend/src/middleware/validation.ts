@@ -30,7 +30,8 @@ const messageSchema = Joi.object({
       'string.max': 'Message is too long (max 500 characters)',
       'custom.invalidTopic': 'I can only help with Restorepoint network management topics. Please ask about devices, backups, commands, or network status.'
     }),
-  session_id: Joi.string().optional(),
+  session_id: Joi.string().max(128).optional(),
+  bypass_cache: Joi.boolean().optional(),
 })
 
 export const validateMessage = (req: Request, res: Response, next: NextFunction) => {
@@ -47,9 +48,11 @@ export const validateMessage = (req: Request, res: Response, next: NextFunction)
       constraint: detail.type,
     }))
 
+    // Log the shape of the body only - the message itself may contain credentials
     logger.warn('Validation failed', {
       errors,
-      body: req.body,
+      bodyKeys: req.body && typeof req.body === 'object' ? Object.keys(req.body) : typeof req.body,
+      messageLength: typeof req.body?.message === 'string' ? req.body.message.length : undefined,
       ip: req.ip,
     })
 
@@ -0,0 +1,197 @@
+import Joi from 'joi'
+
+/**
+ * Restorepoint entities as returned by the MCP tools, after normalization.
+ * Field names follow the Restorepoint API (PascalCase); IDs are always strings.
+ * Fields not listed here are kept as they are.
+ */
+
+export interface AssetField {
+  Name: string
+  Value: unknown
+}
+
+export interface Device {
+  ID: string
+  Name: string
+  Address: string
+  PluginName: string
+  Enabled?: boolean
+  AssetFields: AssetField[]
+  Server?: string // MCP server the device was listed on, set when several servers are federated
+  [key: string]: unknown
+}
+
+export interface Backup {
+  ID: string
+  DeviceID?: string
+  DeviceName?: string
+  Status?: string
+  Time?: string
+  Size?: number
+  Error?: string
+  [key: string]: unknown
+}
+
+export interface CommandExecution {
+  ID: string
+  DeviceIDs?: string[]
+  Command?: string
+  Status?: string
+  Output?: string
+  Time?: string
+  [key: string]: unknown
+}
+
+export interface Task {
+  ID: string
+  Status: string
+  Type?: string
+  Progress?: number
+  Result?: unknown
+  Error?: string
+  [key: string]: unknown
+}
+
+export type EntityKind = 'device' | 'backup' | 'command' | 'task'
+
+export interface EntityTypes {
+  device: Device
+  backup: Backup
+  command: CommandExecution
+  task: Task
+}
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+/**
+ * An MCP result no longer has the shape the backend relies on - a renamed field,
+ * a changed type or a different envelope
+ */
+export class SchemaDriftError extends Error {
+  readonly tool: string
+  readonly entity: EntityKind
+  readonly issues: SchemaIssue[]
+
+  constructor(tool: string, entity: EntityKind, issues: SchemaIssue[]) {
+    const summary = issues.map(issue => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ')
+    super(`${tool} returned data that does not match the expected ${entity} schema (${summary})`)
+    this.name = 'SchemaDriftError'
+    this.tool = tool
+    this.entity = entity
+    this.issues = issues
+  }
+
+  toJSON(): { tool: string; entity: EntityKind; issues: SchemaIssue[] } {
+    return { tool: this.tool, entity: this.entity, issues: this.issues }
+  }
+}
+
+// Issues listed per error - one drifted field usually repeats across every item of a list
+const MAX_REPORTED_ISSUES = 5
+
+// Report every issue, with the path kept out of the message ("is required", not "\"[0].ID\" is required")
+const VALIDATION_OPTIONS: Joi.ValidationOptions = { abortEarly: false, errors: { label: false } }
+
+// Restorepoint IDs are numeric, some MCP responses send them as strings
+const id = Joi.alternatives(Joi.string().min(1), Joi.number())
+  .custom(value => String(value))
+
+const optionalText = Joi.alternatives(Joi.string().allow(''), Joi.number())
+  .custom(value => String(value))
+
+const deviceSchema = Joi.object({
+  ID: id.required(),
+  Name: Joi.string().allow('').required(),
+  Address: Joi.string().allow('', null).empty(null).default(''),
+  PluginName: Joi.string().allow('', null).empty(null).default(''),
+  Enabled: Joi.boolean(),
+  AssetFields: Joi.array().items(Joi.object({
+    Name: Joi.string().allow('').required(),
+    Value: Joi.any()
+  }).unknown(true)).allow(null).empty(null).default([]),
+  Server: Joi.string()
+}).unknown(true)
+
+// Backups, commands and tasks also arrive camelCased from some MCP server versions
+const backupSchema = Joi.object({
+  ID: id.required(),
+  DeviceID: id,
+  DeviceName: Joi.string().allow(''),
+  Status: Joi.string(),
+  Time: optionalText,
+  Size: Joi.number(),
+  Error: Joi.string().allow('', null)
+}).unknown(true)
+  .rename('id', 'ID', { ignoreUndefined: true })
+  .rename('deviceId', 'DeviceID', { ignoreUndefined: true })
+  .rename('status', 'Status', { ignoreUndefined: true })
+
+const commandSchema = Joi.object({
+  ID: id.required(),
+  DeviceIDs: Joi.array().items(id),
+  Command: Joi.string().allow(''),
+  Status: Joi.string(),
+  Output: Joi.string().allow('', null),
+  Time: optionalText
+}).unknown(true)
+  .rename('id', 'ID', { ignoreUndefined: true })
+  .rename('deviceIds', 'DeviceIDs', { ignoreUndefined: true })
+  .rename('command', 'Command', { ignoreUndefined: true })
+  .rename('status', 'Status', { ignoreUndefined: true })
+  .rename('output', 'Output', { ignoreUndefined: true })
+
+const taskSchema = Joi.object({
+  ID: id.required(),
+  Status: Joi.string().required(),
+  Type: Joi.string(),
+  Progress: Joi.number().min(0).max(100),
+  Result: Joi.any(),
+  Error: Joi.string().allow('', null)
+}).unknown(true)
+  .rename('id', 'ID', { ignoreUndefined: true })
+  .rename('taskId', 'ID', { ignoreUndefined: true, override: true })
+  .rename('status', 'Status', { ignoreUndefined: true })
+  .rename('type', 'Type', { ignoreUndefined: true })
+  .rename('progress', 'Progress', { ignoreUndefined: true })
+  .rename('result', 'Result', { ignoreUndefined: true })
+  .rename('error', 'Error', { ignoreUndefined: true })
+
+const ENTITY_SCHEMAS: Record<EntityKind, Joi.ObjectSchema> = {
+  device: deviceSchema,
+  backup: backupSchema,
+  command: commandSchema,
+  task: taskSchema
+}
+
+/**
+ * Validate and normalize one entity. Throws SchemaDriftError when it does not match.
+ */
+export function parseEntity<K extends EntityKind>(tool: string, entity: K, value: unknown): EntityTypes[K] {
+  const { error, value: normalized } = ENTITY_SCHEMAS[entity].validate(value, VALIDATION_OPTIONS)
+  if (error) {
+    throw new SchemaDriftError(tool, entity, toIssues(error))
+  }
+  return normalized as EntityTypes[K]
+}
+
+/**
+ * Validate and normalize a list of entities. Throws SchemaDriftError naming the offending items.
+ */
+export function parseEntities<K extends EntityKind>(tool: string, entity: K, values: unknown[]): Array<EntityTypes[K]> {
+  const { error, value: normalized } = Joi.array().items(ENTITY_SCHEMAS[entity]).validate(values, VALIDATION_OPTIONS)
+  if (error) {
+    throw new SchemaDriftError(tool, entity, toIssues(error))
+  }
+  return normalized as Array<EntityTypes[K]>
+}
+
+function toIssues(error: Joi.ValidationError): SchemaIssue[] {
+  return error.details.slice(0, MAX_REPORTED_ISSUES).map(detail => ({
+    path: detail.path.map(part => typeof part === 'number' ? `[${part}]` : part).join('.').replace(/\.\[/g, '['),
+    message: detail.message
+  }))
+}
@@ -0,0 +1,73 @@
+import { findCreatedIds, normalizeToolResult, readToolData, SCHEMA_DRIFT } from './tool-results'
+import { SchemaDriftError } from './restorepoint'
+
+describe('normalizeToolResult', () => {
+  it('unwraps a list from its envelopes, keeps the paging fields and normalizes every item', () => {
+    const result = normalizeToolResult('list_devices', {
+      success: true,
+      data: { total: 2, page: 1, data: { items: [
+        { ID: 7, Name: 'core-1', Address: null, PluginName: 'Cisco IOS', AssetFields: null },
+        { ID: '8', Name: 'core-2', Address: '10.0.0.8', PluginName: 'Cisco IOS', AssetFields: [{ Name: 'Rack', Value: 4 }] }
+      ] } },
+      metadata: { toolName: 'list_devices' }
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        { ID: '7', Name: 'core-1', Address: '', PluginName: 'Cisco IOS', AssetFields: [] },
+        { ID: '8', Name: 'core-2', Address: '10.0.0.8', PluginName: 'Cisco IOS', AssetFields: [{ Name: 'Rack', Value: 4 }] }
+      ],
+      metadata: { toolName: 'list_devices', page: { total: 2, page: 1 } }
+    })
+  })
+
+  it('finds a single entity in its envelope and maps camelCased fields', () => {
+    const result = normalizeToolResult('get_task_status', {
+      success: true,
+      data: { result: { taskId: 12, status: 'running', progress: 40 } }
+    })
+
+    expect(result.data).toEqual({ ID: '12', Status: 'running', Progress: 40 })
+  })
+
+  it('turns a result that no longer matches its model into a SCHEMA_DRIFT failure', () => {
+    const result = normalizeToolResult('list_devices', {
+      success: true,
+      data: [{ ID: 7, Name: 'core-1' }, { ID: 8, Hostname: 'core-2' }]
+    })
+
+    expect(result).toMatchObject({
+      success: false,
+      error: {
+        code: SCHEMA_DRIFT,
+        message: expect.stringContaining('list_devices returned data that does not match the expected device schema'),
+        details: { tool: 'list_devices', entity: 'device', issues: [{ path: '[1].Name', message: 'is required' }] }
+      }
+    })
+    expect(() => readToolData('list_devices', result)).toThrow(SchemaDriftError)
+  })
+
+  it('reports drift when a list tool returns something other than a list', () => {
+    expect(normalizeToolResult('list_backups', { success: true, data: { message: 'ok' } }))
+      .toMatchObject({ success: false, error: { code: SCHEMA_DRIFT, details: { issues: [{ message: 'expected a list of backups, got an object with keys message' }] } } })
+  })
+
+  it('passes failures and tools without a model through unchanged', () => {
+    const failure = { success: false, error: { code: 'NOT_FOUND', message: 'Device 9 not found' } }
+    const other = { success: true, data: { version: '5.6' } }
+
+    expect(normalizeToolResult('get_device', failure)).toBe(failure)
+    expect(normalizeToolResult('get_version', other)).toBe(other)
+    expect(readToolData('get_device', failure)).toBeNull()
+  })
+})
+
+describe('findCreatedIds', () => {
+  it('collects the IDs a write tool reports as started, up to two envelopes deep', () => {
+    const ids = findCreatedIds({ taskId: 5, data: { backup_id: '9', result: { CommandID: 3 } } })
+
+    expect(Object.fromEntries(ids)).toEqual({ task: ['5'], backup: ['9'], command: ['3'] })
+    expect(findCreatedIds({ a: { b: { c: { taskId: 1 } } } }).size).toBe(0)
+  })
+})
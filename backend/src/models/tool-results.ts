@@ -0,0 +1,189 @@
+import type { McpResult } from '../services/mcp.service'
+import {
+  Backup,
+  CommandExecution,
+  Device,
+  EntityKind,
+  parseEntities,
+  parseEntity,
+  SchemaDriftError,
+  Task
+} from './restorepoint'
+
+/**
+ * Normalized data returned by each modelled MCP tool
+ */
+export interface ToolDataTypes {
+  list_devices: Device[]
+  get_device: Device
+  list_backups: Backup[]
+  get_backup: Backup
+  list_commands: CommandExecution[]
+  get_command: CommandExecution
+  get_task_status: Task
+}
+
+export type ModelledTool = keyof ToolDataTypes
+
+const TOOL_MODELS: Record<ModelledTool, { entity: EntityKind; many: boolean }> = {
+  list_devices: { entity: 'device', many: true },
+  get_device: { entity: 'device', many: false },
+  list_backups: { entity: 'backup', many: true },
+  get_backup: { entity: 'backup', many: false },
+  list_commands: { entity: 'command', many: true },
+  get_command: { entity: 'command', many: false },
+  get_task_status: { entity: 'task', many: false }
+}
+
+export const SCHEMA_DRIFT = 'SCHEMA_DRIFT'
+
+// Keys the MCP server has wrapped payloads in ({ data: { data: [...] } }, { result: [...] }, ...)
+const ENVELOPE_KEYS = ['data', 'result', 'items']
+
+// Envelope fields that describe the page rather than the items
+const PAGE_KEYS = ['total', 'count', 'limit', 'offset', 'page', 'pageSize', 'hasMore']
+
+// Result keys that carry the ID of something a write tool started
+const CREATED_ID_KEYS: Array<[RegExp, Exclude<EntityKind, 'device'>]> = [
+  [/^task_?id$/i, 'task'],
+  [/^backup_?id$/i, 'backup'],
+  [/^command_?id$/i, 'command']
+]
+
+export function isModelledTool(tool: string): tool is ModelledTool {
+  return Object.prototype.hasOwnProperty.call(TOOL_MODELS, tool)
+}
+
+/**
+ * The one adapter every successful MCP result passes through. Results of modelled tools are
+ * unwrapped from their envelope and validated, so data is always ToolDataTypes[tool];
+ * pagination fields of the envelope move to metadata.page. A result that no longer matches
+ * its model becomes a failed result with error code SCHEMA_DRIFT. Other tools pass unchanged.
+ */
+export function normalizeToolResult(tool: string, result: McpResult): McpResult {
+  if (!result.success || !isModelledTool(tool)) {
+    return result
+  }
+
+  const { entity, many } = TOOL_MODELS[tool]
+  try {
+    if (many) {
+      const { items, page } = unwrapList(tool, entity, result.data)
+      return {
+        ...result,
+        data: parseEntities(tool, entity, items),
+        ...(page && { metadata: { ...result.metadata, page } })
+      }
+    }
+    return { ...result, data: parseEntity(tool, entity, unwrapOne(result.data)) }
+  } catch (error) {
+    if (!(error instanceof SchemaDriftError)) {
+      throw error
+    }
+    return {
+      success: false,
+      error: {
+        code: SCHEMA_DRIFT,
+        message: error.message,
+        details: { ...error.toJSON() }
+      },
+      metadata: result.metadata
+    }
+  }
+}
+
+/**
+ * Typed data of a modelled tool's result. Throws SchemaDriftError when the adapter reported drift,
+ * and returns null for any other failure.
+ */
+export function readToolData<T extends ModelledTool>(tool: T, result: McpResult): ToolDataTypes[T] | null {
+  if (!result.success) {
+    if (result.error?.code === SCHEMA_DRIFT) {
+      const details = result.error.details as ReturnType<SchemaDriftError['toJSON']>
+      throw new SchemaDriftError(tool, details.entity, details.issues)
+    }
+    return null
+  }
+  return result.data as ToolDataTypes[T]
+}
+
+/**
+ * IDs of the tasks, backups and command executions a write tool's result reports as started
+ * (taskId, backup_id, CommandID, ...), looked up to two envelopes deep
+ */
+export function findCreatedIds(data: unknown, depth = 0): Map<Exclude<EntityKind, 'device'>, string[]> {
+  const found = new Map<Exclude<EntityKind, 'device'>, string[]>()
+  if (!isPlainObject(data) || depth > 2) {
+    return found
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    const kind = CREATED_ID_KEYS.find(([pattern]) => pattern.test(key))?.[1]
+    if (kind && (typeof value === 'string' || typeof value === 'number')) {
+      found.set(kind, [...(found.get(kind) || []), String(value)])
+    } else if (isPlainObject(value)) {
+      for (const [nestedKind, ids] of findCreatedIds(value, depth + 1)) {
+        found.set(nestedKind, [...(found.get(nestedKind) || []), ...ids])
+      }
+    }
+  }
+  return found
+}
+
+function unwrapList(
+  tool: string,
+  entity: EntityKind,
+  data: unknown
+): { items: unknown[]; page?: Record<string, unknown> } {
+  let current: unknown = data
+  let page: Record<string, unknown> | undefined
+
+  // A bare array, or an array up to three envelopes deep
+  for (let depth = 0; depth <= 3; depth++) {
+    if (Array.isArray(current)) {
+      return { items: current, page }
+    }
+    if (!isPlainObject(current)) {
+      break
+    }
+    const pageFields = Object.fromEntries(Object.entries(current).filter(([key]) => PAGE_KEYS.includes(key)))
+    if (Object.keys(pageFields).length > 0) {
+      page = { ...page, ...pageFields }
+    }
+    const envelope: Record<string, unknown> = current
+    const key = ENVELOPE_KEYS.find(candidate => candidate in envelope)
+    current = key ? envelope[key] : undefined
+  }
+
+  throw new SchemaDriftError(tool, entity, [{ path: '', message: `expected a list of ${entity}s, got ${describe(data)}` }])
+}
+
+function unwrapOne(data: unknown): unknown {
+  let current: unknown = data
+
+  // The entity is the first object in the envelope chain that carries an ID
+  for (let depth = 0; depth <= 3 && isPlainObject(current); depth++) {
+    if ('ID' in current || 'id' in current || 'taskId' in current) {
+      return current
+    }
+    const envelope: Record<string, unknown> = current
+    const key = ENVELOPE_KEYS.find(candidate => candidate in envelope)
+    if (!key) {
+      break
+    }
+    current = envelope[key]
+  }
+
+  // Let validation report what is missing
+  return data
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'an array'
+  if (isPlainObject(value)) return `an object with keys ${Object.keys(value).join(', ') || '(none)'}`
+  return value === null || value === undefined ? 'no data' : typeof value
+}
@@ -0,0 +1,157 @@
+import express from 'express'
+import logger from '../utils/logger'
+import { auditService, AuditExportFormat, AuditFilter, AuditStatus, AUDIT_STATUSES } from '../services/audit.service'
+
+const router = express.Router()
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+const EXPORT_FORMATS: Record<AuditExportFormat, { contentType: string; extension: string }> = {
+  jsonl: { contentType: 'application/x-ndjson', extension: 'jsonl' },
+  cef: { contentType: 'text/plain', extension: 'cef' },
+  syslog: { contentType: 'text/plain', extension: 'log' }
+}
+
+/**
+ * Wait until a backed-up response drains. Resolves false when the client disconnects first - drain never comes then.
+ */
+const drained = (res: express.Response): Promise<boolean> => {
+  if (res.destroyed) return Promise.resolve(false)
+  return new Promise(resolve => {
+    const onDrain = () => {
+      res.off('close', onClose)
+      resolve(true)
+    }
+    const onClose = () => {
+      res.off('drain', onDrain)
+      resolve(false)
+    }
+    res.once('drain', onDrain)
+    res.once('close', onClose)
+  })
+}
+
+const queryString = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined
+
+/**
+ * Filters shared by listing and export: principal, session_id, tool, status, since, until
+ */
+const parseFilter = (query: express.Request['query']): { filter: AuditFilter } | { error: string } => {
+  const status = queryString(query.status)
+  if (status && !AUDIT_STATUSES.includes(status as AuditStatus)) {
+    return { error: `status must be one of ${AUDIT_STATUSES.join(', ')}` }
+  }
+
+  const dates: Partial<Record<'since' | 'until', Date>> = {}
+  for (const key of ['since', 'until'] as const) {
+    const value = queryString(query[key])
+    if (value) {
+      const date = new Date(value)
+      if (Number.isNaN(date.getTime())) {
+        return { error: `${key} must be an ISO 8601 timestamp` }
+      }
+      dates[key] = date
+    }
+  }
+
+  return {
+    filter: {
+      principal: queryString(query.principal),
+      sessionId: queryString(query.session_id),
+      tool: queryString(query.tool),
+      status: status as AuditStatus | undefined,
+      ...dates
+    }
+  }
+}
+
+router.get('/', async (req, res) => {
+  const parsed = parseFilter(req.query)
+  if ('error' in parsed) {
+    return res.status(400).json({ error: 'Invalid filter', message: parsed.error })
+  }
+
+  const limit = req.query.limit === undefined ? DEFAULT_LIMIT : parseInt(String(req.query.limit), 10)
+  if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({ error: 'Invalid limit', message: `limit must be between 1 and ${MAX_LIMIT}` })
+  }
+
+  try {
+    const { records, total } = await auditService.query(parsed.filter, limit)
+    return res.json({
+      records,
+      count: records.length,
+      total,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error: any) {
+    logger.error('Audit log query failed:', { error: error.message })
+    return res.status(500).json({
+      error: 'Failed to read audit log',
+      message: 'An error occurred while reading the audit log'
+    })
+  }
+})
+
+/**
+ * Matching records, oldest first, as JSON Lines, CEF or RFC 5424 syslog lines carrying CEF
+ */
+router.get('/export', async (req, res) => {
+  const format = (queryString(req.query.format) || 'jsonl') as AuditExportFormat
+  if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format)) {
+    return res.status(400).json({
+      error: 'Invalid format',
+      message: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`
+    })
+  }
+
+  const parsed = parseFilter(req.query)
+  if ('error' in parsed) {
+    return res.status(400).json({ error: 'Invalid filter', message: parsed.error })
+  }
+
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  res.setHeader('Content-Type', `${contentType}; charset=utf-8`)
+  res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.${extension}"`)
+
+  logger.info('Audit log export', { format, filter: parsed.filter, principal: req.principal?.id, ip: req.ip })
+
+  try {
+    for await (const record of auditService.stream(parsed.filter)) {
+      if (!res.write(`${auditService.format(record, format)}\n`) && !(await drained(res))) {
+        // The client is gone - stop reading so the log file is closed
+        return
+      }
+    }
+    return res.end()
+
+  } catch (error: any) {
+    logger.error('Audit log export failed:', { format, error: error.message })
+    // Headers are gone once streaming started - cut the download short so it is not mistaken for complete
+    return res.headersSent ? res.destroy(error) : res.status(500).json({
+      error: 'Failed to export audit log',
+      message: 'An error occurred while exporting the audit log'
+    })
+  }
+})
+
+router.get('/verify', async (_, res) => {
+  try {
+    const result = await auditService.verify()
+    if (!result.valid) {
+      logger.error('Audit log hash chain is broken', result)
+    }
+    return res.json({ ...result, timestamp: new Date().toISOString() })
+
+  } catch (error: any) {
+    logger.error('Audit log verification failed:', { error: error.message })
+    return res.status(500).json({
+      error: 'Failed to verify audit log',
+      message: 'An error occurred while verifying the audit log'
+    })
+  }
+})
+
+export default router
@@ -1,17 +1,63 @@
 import express from 'express'
 import logger from '../utils/logger'
 import { validateMessage } from '../middleware/validation'
-import { chatService } from '../services/chat.service'
+import { limitPerPrincipal } from '../middleware/rateLimit'
+import { chatService, ChatEvent, ChatResult, PendingActionDecision } from '../services/chat.service'
+import { pendingActionService, PendingActionError } from '../services/pending-action.service'
+import { ANONYMOUS_PRINCIPAL } from '../services/auth.service'
+import { SessionBudgetExceededError } from '../services/usage.service'
+import { SessionAccessError } from '../services/conversation-store.service'
+import { workingSetService } from '../services/working-set.service'
 
 const router = express.Router()
 
-router.post('/', validateMessage, async (req, res) => {
+/**
+ * Shape a chat result for the API response body
+ */
+const toResponseBody = (result: ChatResult) => ({
+  id: Date.now().toString(),
+  response: result.response,
+  session_id: result.sessionId,
+  status: result.pendingAction
+    ? result.pendingAction.kind === 'clarification' ? 'needs_clarification' as const : 'pending_confirmation' as const
+    : 'success' as const,
+  tools_used: result.toolsUsed,
+  usage: result.usage,
+  usage_by_round: result.usageByRound,
+  execution_results: result.executionResults,
+  stop_reason: result.stopReason,
+  ...(result.pendingAction && { pending_action: result.pendingAction })
+})
+
+const sessionNotFound = (res: express.Response, error: SessionAccessError) => res.status(404).json({
+  error: 'Session not found',
+  message: error.message
+})
+
+/**
+ * Pending actions are only addressed together with their session
+ */
+const missingSession = (res: express.Response, source: 'query parameter' | 'field') => res.status(400).json({
+  error: 'Missing session',
+  message: `session_id ${source} is required`
+})
+
+const PENDING_ACTION_STATUS: Record<PendingActionError['code'], number> = {
+  NOT_FOUND: 404,
+  SESSION_MISMATCH: 404,
+  PRINCIPAL_MISMATCH: 404,
+  EXPIRED: 410,
+  INVALID_RESOLUTION: 409
+}
+
+router.post('/', validateMessage, limitPerPrincipal('token', 'chat'), async (req, res) => {
   // @ts-ignore - Express middleware doesn't need explicit return
   try {
-    const { message } = req.body
+    const { message, bypass_cache } = req.body
     
     logger.info('Chat message received', { 
       sessionId: req.sessionId,
+      principal: req.principal?.id,
       messageLength: message.length,
       ip: req.ip 
     })
@@ -20,18 +66,12 @@ router.post('/', validateMessage, async (req, res) => {
     const result = await chatService.processMessage({
       message,
       sessionId: req.sessionId || `session_${Date.now()}`,
-      conversationHistory: [] // TODO: Implement conversation persistence
+      bypassCache: bypass_cache === true,
+      principal: req.principal,
+      clientAddress: req.ip
     })
 
-    const response = {
-      id: Date.now().toString(),
-      response: result.response,
-      session_id: result.sessionId,
-      status: 'success' as const,
-      tools_used: result.toolsUsed,
-      usage: result.usage,
-      execution_results: result.executionResults
-    }
+    const response = toResponseBody(result)
 
     logger.info('Chat message processed successfully', {
       sessionId: result.sessionId,
@@ -51,7 +91,20 @@ router.post('/', validateMessage, async (req, res) => {
     })
     
     // Handle specific error cases
-    if (error.message.includes('z.ai API key')) {
+    if (error instanceof SessionAccessError) {
+      return sessionNotFound(res, error)
+    }
+
+    if (error instanceof SessionBudgetExceededError) {
+      return res.status(429).json({
+        error: 'Session budget exceeded',
+        message: error.message,
+        used: error.used,
+        budget: error.budget
+      })
+    }
+
+    if (error.message.includes('API key')) {
       return res.status(500).json({
         error: 'Service configuration error',
         message: 'AI service is not properly configured'
@@ -79,6 +132,184 @@ router.post('/', validateMessage, async (req, res) => {
   }
 })
 
+router.post('/stream', validateMessage, limitPerPrincipal('token', 'chat'), async (req, res) => {
+  const { message, bypass_cache } = req.body
+  const sessionId = req.sessionId || `session_${Date.now()}`
+  let clientClosed = false
+
+  logger.info('Streaming chat message received', {
+    sessionId,
+    principal: req.principal?.id,
+    messageLength: message.length,
+    ip: req.ip
+  })
+
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no') // Disable nginx proxy buffering
+  res.flushHeaders()
+
+  // Cancel in-flight tool calls when the client goes away
+  const abortController = new AbortController()
+  res.on('close', () => {
+    clientClosed = true
+    abortController.abort()
+  })
+
+  const send = (event: ChatEvent) => {
+    if (clientClosed) return
+
+    const data = event.type === 'final'
+      ? toResponseBody(event.result)
+      : event
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  // Comment lines keep idle proxies from closing the connection during long tool rounds
+  const heartbeat = setInterval(() => {
+    if (!clientClosed) res.write(': keep-alive\n\n')
+  }, 15000)
+
+  try {
+    await chatService.processMessage({
+      message,
+      sessionId,
+      signal: abortController.signal,
+      bypassCache: bypass_cache === true,
+      principal: req.principal,
+      clientAddress: req.ip
+    }, send)
+
+  } catch (error: any) {
+    // The error event has already been emitted by the chat service
+    logger.error('Streaming chat message processing failed:', {
+      error: error.message,
+      sessionId,
+      clientClosed,
+      ip: req.ip
+    })
+  } finally {
+    clearInterval(heartbeat)
+    if (!clientClosed) res.end()
+  }
+})
+
+router.get('/actions/:id', (req, res) => {
+  try {
+    const sessionId = typeof req.query.session_id === 'string' ? req.query.session_id : undefined
+    if (!sessionId) {
+      return missingSession(res, 'query parameter')
+    }
+    res.json(pendingActionService.get(req.params.id, sessionId, req.principal || ANONYMOUS_PRINCIPAL))
+
+  } catch (error: any) {
+    if (error instanceof PendingActionError) {
+      return res.status(PENDING_ACTION_STATUS[error.code]).json({
+        error: 'Pending action unavailable',
+        message: error.message
+      })
+    }
+    throw error
+  }
+})
+
+const resolveAction = (decision: PendingActionDecision) => async (req: express.Request, res: express.Response) => {
+  const actionId = req.params.id
+  const sessionId = typeof req.body?.session_id === 'string' ? req.body.session_id : undefined
+  if (!sessionId) {
+    return missingSession(res, 'field')
+  }
+
+  try {
+    logger.info('Pending action decision received', {
+      actionId,
+      decision,
+      sessionId,
+      principal: req.principal?.id,
+      ip: req.ip
+    })
+
+    const result = await chatService.resolvePendingAction(actionId, decision, sessionId, req.principal, req.ip)
+    return res.json(toResponseBody(result))
+
+  } catch (error: any) {
+    if (error instanceof PendingActionError) {
+      return res.status(PENDING_ACTION_STATUS[error.code]).json({
+        error: 'Pending action unavailable',
+        message: error.message
+      })
+    }
+
+    logger.error('Pending action processing failed:', {
+      actionId,
+      decision,
+      error: error.message,
+      stack: error.stack
+    })
+
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: 'Failed to complete the confirmed operation. Please try again.'
+    })
+  }
+}
+
+// Resuming a turn runs more completions - refuse once the token allowance is spent
+router.post('/actions/:id/approve', limitPerPrincipal('token'), resolveAction('approve'))
+router.post('/actions/:id/reject', limitPerPrincipal('token'), resolveAction('reject'))
+
+// Answer a device clarification with the chosen candidate IDs and resume the turn
+router.post('/actions/:id/select', limitPerPrincipal('token'), async (req, res) => {
+  const actionId = req.params.id
+  const sessionId = typeof req.body?.session_id === 'string' ? req.body.session_id : undefined
+  const deviceIds = req.body?.device_ids
+
+  if (!sessionId) {
+    return missingSession(res, 'field')
+  }
+
+  if (!Array.isArray(deviceIds) || deviceIds.length === 0 || !deviceIds.every(id => typeof id === 'string' || typeof id === 'number')) {
+    return res.status(400).json({
+      error: 'Invalid selection',
+      message: 'device_ids must be a non-empty array of device IDs'
+    })
+  }
+
+  try {
+    logger.info('Device selection received', {
+      actionId,
+      sessionId,
+      deviceIds,
+      principal: req.principal?.id,
+      ip: req.ip
+    })
+
+    const result = await chatService.resolveClarification(actionId, deviceIds.map(String), sessionId, req.principal, req.ip)
+    return res.json(toResponseBody(result))
+
+  } catch (error: any) {
+    if (error instanceof PendingActionError) {
+      return res.status(PENDING_ACTION_STATUS[error.code]).json({
+        error: 'Pending action unavailable',
+        message: error.message
+      })
+    }
+
+    logger.error('Device selection processing failed:', {
+      actionId,
+      error: error.message,
+      stack: error.stack
+    })
+
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: 'Failed to continue with the selected devices. Please try again.'
+    })
+  }
+})
+
 router.post('/validate', validateMessage, async (_, res) => {
   try {
     // Basic validation already passed in middleware
@@ -99,6 +330,96 @@ router.post('/validate', validateMessage, async (_, res) => {
   }
 })
 
+router.get('/sessions/:sessionId/history', async (req, res) => {
+  try {
+    const history = await chatService.getVisibleSessionHistory(req.params.sessionId, req.principal)
+
+    res.json({
+      session_id: req.params.sessionId,
+      messages: history
+    })
+
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      return sessionNotFound(res, error)
+    }
+
+    logger.error('Failed to load session history:', {
+      error: error.message,
+      sessionId: req.params.sessionId
+    })
+    res.status(500).json({
+      error: 'Failed to load session history',
+      message: 'An error occurred while loading the conversation'
+    })
+  }
+})
+
+// Devices, backups, commands and tasks the session has referenced, used to resolve "it", "the other two", ...
+router.get('/sessions/:sessionId/working-set', async (req, res, next) => {
+  try {
+    await chatService.assertSessionAccess(req.params.sessionId, req.principal)
+    const workingSet = workingSetService.getWorkingSet(req.params.sessionId)
+
+    res.json({
+      session_id: req.params.sessionId,
+      turn: workingSet?.turn ?? 0,
+      last_updated: workingSet?.lastUpdated ?? null,
+      entities: workingSet?.entities ?? [],
+      lists: workingSet?.lists ?? {},
+      focus: workingSet?.focus ?? {}
+    })
+
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      return sessionNotFound(res, error)
+    }
+    next(error)
+  }
+})
+
+router.delete('/sessions/:sessionId/working-set', async (req, res, next) => {
+  try {
+    await chatService.assertSessionAccess(req.params.sessionId, req.principal)
+
+    res.json({
+      session_id: req.params.sessionId,
+      cleared: workingSetService.clear(req.params.sessionId)
+    })
+
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      return sessionNotFound(res, error)
+    }
+    next(error)
+  }
+})
+
+router.delete('/sessions/:sessionId', async (req, res) => {
+  try {
+    const deleted = await chatService.clearSession(req.params.sessionId, req.principal)
+
+    res.json({
+      session_id: req.params.sessionId,
+      deleted
+    })
+
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      return sessionNotFound(res, error)
+    }
+
+    logger.error('Failed to clear session:', {
+      error: error.message,
+      sessionId: req.params.sessionId
+    })
+    res.status(500).json({
+      error: 'Failed to clear session',
+      message: 'An error occurred while clearing the conversation'
+    })
+  }
+})
+
 router.get('/status', async (_, res) => {
   try {
     const status = await chatService.healthCheck()
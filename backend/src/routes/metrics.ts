@@ -0,0 +1,135 @@
+import express from 'express'
+import { Counter, Gauge } from 'prom-client'
+import logger from '../utils/logger'
+import { metricsService, METRICS_PREFIX } from '../services/metrics.service'
+import { toolDiscoveryService, ToolCacheStatus } from '../services/tool-discovery.service'
+import { mcpService } from '../services/mcp.service'
+import { rateLimitService, RATE_LIMIT_BUCKETS } from '../services/rate-limit.service'
+
+const router = express.Router()
+
+const SYNC_STATUSES: ToolCacheStatus['syncStatus'][] = ['healthy', 'syncing', 'stale', 'error']
+
+const seconds = (date: Date | null): number => date ? new Date(date).getTime() / 1000 : 0
+
+const registers = [metricsService.registry]
+
+/*
+ * Status the owning services already keep, read at scrape time. Series are reset first
+ * so servers that went away do not linger; counters report the totals the services count.
+ */
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_discovery_sync_status`,
+  help: 'Tool list sync state - 1 for the current state',
+  labelNames: ['status'],
+  registers,
+  collect() {
+    const { syncStatus } = toolDiscoveryService.getServiceStatus()
+    SYNC_STATUSES.forEach(status => this.set({ status }, syncStatus === status ? 1 : 0))
+  }
+})
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_discovery_tools`,
+  help: 'Tools offered to the model after the last sync',
+  registers,
+  collect() {
+    this.set(toolDiscoveryService.getServiceStatus().toolCount)
+  }
+})
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_discovery_last_sync_timestamp_seconds`,
+  help: 'Unix time of the last successful tool sync (0 = never)',
+  registers,
+  collect() {
+    this.set(seconds(toolDiscoveryService.getServiceStatus().lastSync))
+  }
+})
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_discovery_server_tools`,
+  help: 'Tools discovered per MCP server',
+  labelNames: ['server'],
+  registers,
+  collect() {
+    this.reset()
+    Object.entries(toolDiscoveryService.getServiceStatus().servers)
+      .forEach(([server, status]) => this.set({ server }, status.toolCount))
+  }
+})
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_discovery_server_connected`,
+  help: 'Whether the MCP server is connected (1) or not (0)',
+  labelNames: ['server'],
+  registers,
+  collect() {
+    this.reset()
+    Object.entries(toolDiscoveryService.getServiceStatus().servers)
+      .forEach(([server, status]) => this.set({ server }, status.connected ? 1 : 0))
+  }
+})
+
+new Counter({
+  name: `${METRICS_PREFIX}tool_cache_lookups_total`,
+  help: 'Tool result cache lookups by result',
+  labelNames: ['result'],
+  registers,
+  collect() {
+    const cache = mcpService.getCacheStats()
+    this.reset()
+    this.inc({ result: 'hit' }, cache.hits)
+    this.inc({ result: 'miss' }, cache.misses)
+    this.inc({ result: 'bypass' }, cache.bypasses)
+  }
+})
+
+new Gauge({
+  name: `${METRICS_PREFIX}tool_cache_entries`,
+  help: 'Tool results currently cached',
+  registers,
+  collect() {
+    this.set(mcpService.getCacheStats().entries)
+  }
+})
+
+new Counter({
+  name: `${METRICS_PREFIX}rate_limit_rejections_total`,
+  help: 'Requests and tool calls refused by a per-principal or per-address quota',
+  labelNames: ['bucket'],
+  registers,
+  collect() {
+    const { rejections } = rateLimitService.getServiceStatus()
+    this.reset()
+    RATE_LIMIT_BUCKETS.forEach(bucket => this.inc({ bucket }, rejections[bucket]))
+  }
+})
+
+new Counter({
+  name: `${METRICS_PREFIX}rate_limit_store_errors_total`,
+  help: 'Rate limit store failures (the request was let through)',
+  registers,
+  collect() {
+    this.reset()
+    this.inc(rateLimitService.getServiceStatus().storeErrors)
+  }
+})
+
+router.get('/', async (_, res) => {
+  try {
+    const body = await metricsService.render()
+    res.setHeader('Content-Type', metricsService.contentType)
+    res.send(body)
+
+  } catch (error: any) {
+    logger.error('Failed to render metrics:', { error: error.message })
+    res.status(500).json({
+      error: 'Failed to render metrics',
+      message: 'An error occurred while collecting metrics'
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,99 @@
+import express from 'express'
+import logger from '../utils/logger'
+import { taskTrackerService, TaskEvent, TrackedTaskStatus } from '../services/task-tracker.service'
+import { chatService } from '../services/chat.service'
+import { ANONYMOUS_PRINCIPAL } from '../services/auth.service'
+import { SessionAccessError } from '../services/conversation-store.service'
+
+const router = express.Router()
+
+const STATUSES: TrackedTaskStatus[] = ['running', 'completed', 'failed', 'expired']
+
+// Callers only ever see the tasks of their own sessions
+router.get('/', (req, res) => {
+  const sessionId = typeof req.query.session_id === 'string' ? req.query.session_id : undefined
+  const status = typeof req.query.status === 'string' ? req.query.status : undefined
+
+  if (status && !STATUSES.includes(status as TrackedTaskStatus)) {
+    return res.status(400).json({
+      error: 'Invalid status',
+      message: `status must be one of ${STATUSES.join(', ')}`
+    })
+  }
+
+  const tasks = taskTrackerService.listTasks({
+    sessionId,
+    principalId: (req.principal || ANONYMOUS_PRINCIPAL).id,
+    status: status as TrackedTaskStatus | undefined
+  })
+  return res.json({
+    tasks,
+    count: tasks.length,
+    timestamp: new Date().toISOString()
+  })
+})
+
+/**
+ * Server-sent events for one session's tasks: task_started, task_progress, task_completed, task_failed, task_expired
+ */
+router.get('/events', async (req, res, next) => {
+  const sessionId = typeof req.query.session_id === 'string' ? req.query.session_id : undefined
+  if (!sessionId) {
+    res.status(400).json({
+      error: 'Missing session',
+      message: 'session_id query parameter is required'
+    })
+    return
+  }
+
+  try {
+    await chatService.assertSessionAccess(sessionId, req.principal)
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      res.status(404).json({
+        error: 'Session not found',
+        message: error.message
+      })
+      return
+    }
+    return next(error)
+  }
+
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no') // Disable nginx proxy buffering
+  res.flushHeaders()
+
+  const unsubscribe = taskTrackerService.subscribe(sessionId, (event: TaskEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.task)}\n\n`)
+  })
+
+  // Comment lines keep idle proxies from closing the connection between task updates
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000)
+
+  logger.debug('Task event stream opened', { sessionId, ip: req.ip })
+
+  res.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    logger.debug('Task event stream closed', { sessionId })
+  })
+})
+
+router.get('/:id', (req, res) => {
+  const task = taskTrackerService.getTask(req.params.id)
+
+  // Tasks of other principals' sessions are reported as missing, not forbidden
+  if (!task || task.principalId !== (req.principal || ANONYMOUS_PRINCIPAL).id) {
+    return res.status(404).json({
+      error: 'Task not found',
+      message: `No tracked task ${req.params.id}`
+    })
+  }
+
+  return res.json(task)
+})
+
+export default router
@@ -0,0 +1,59 @@
+import express from 'express'
+import logger from '../utils/logger'
+import { usageService } from '../services/usage.service'
+import { chatService } from '../services/chat.service'
+import { SessionAccessError } from '../services/conversation-store.service'
+
+const router = express.Router()
+
+router.get('/', async (req, res) => {
+  try {
+    const sessionId = typeof req.query.session_id === 'string' ? req.query.session_id : undefined
+    if (sessionId) {
+      await chatService.assertSessionAccess(sessionId, req.principal)
+    }
+
+    res.json({
+      ...usageService.getSummary(),
+      ...(sessionId && { session: usageService.getSessionUsage(sessionId) }),
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error: any) {
+    if (error instanceof SessionAccessError) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: error.message
+      })
+    }
+
+    logger.error('Usage lookup failed:', { error: error.message })
+    res.status(500).json({
+      error: 'Failed to load usage',
+      message: 'An error occurred while loading token usage'
+    })
+  }
+})
+
+// Sessions of other principals answer exactly like sessions without usage
+router.get('/sessions/:sessionId', async (req, res, next) => {
+  try {
+    const usage = await chatService.canAccessSession(req.params.sessionId, req.principal)
+      ? usageService.getSessionUsage(req.params.sessionId)
+      : null
+
+    if (!usage) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: `No usage recorded for session ${req.params.sessionId}`
+      })
+    }
+
+    return res.json(usage)
+
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
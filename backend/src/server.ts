@@ -1,9 +1,18 @@
+import './instrumentation'
 import app from './app'
 import config from './utils/config'
 import logger from './utils/logger'
 import { zaiService } from './services/zai.service'
 import { mcpService } from './services/mcp.service'
 import { toolDiscoveryService } from './services/tool-discovery.service'
+import { conversationStore } from './services/conversation-store.service'
+import { pendingActionService } from './services/pending-action.service'
+import { deviceIndexService } from './services/device-index.service'
+import { taskTrackerService } from './services/task-tracker.service'
+import { authService } from './services/auth.service'
+import { auditService } from './services/audit.service'
+import { rateLimitService } from './services/rate-limit.service'
+import { tracingService } from './services/tracing.service'
 
 const PORT = config.PORT || 4001
 
@@ -14,10 +23,38 @@ async function initializeServices(): Promise<void> {
   try {
     logger.info('Initializing services...')
 
+    // Conversation store has no external dependencies - start retention sweeps first
+    conversationStore.startRetentionSweep()
+    logger.info('✓ Conversation store ready', conversationStore.getServiceStatus())
+
+    pendingActionService.startExpirySweep()
+    logger.info('✓ Pending action confirmation ready', pendingActionService.getServiceStatus())
+
+    // API keys and signing keys load before the MCP connection, which may take a while
+    await authService.initialize()
+    logger.info('✓ Authentication ready', authService.getServiceStatus())
+
+    await auditService.initialize()
+    logger.info('✓ Audit log ready', auditService.getServiceStatus())
+
+    await rateLimitService.initialize()
+    logger.info('✓ Rate limits ready', rateLimitService.getServiceStatus())
+
+    // Started by instrumentation.ts before anything else was loaded
+    logger.info('✓ Tracing ready', tracingService.getServiceStatus())
+
     // Initialize MCP service first
     await mcpService.initialize()
     logger.info('✓ MCP service initialized')
 
+    // Device index loads in the background and keeps refreshing
+    deviceIndexService.startBackgroundRefresh()
+    logger.info('✓ Device index refresh started')
+
+    // Tasks started by backups and commands are polled until they finish
+    taskTrackerService.start()
+    logger.info('✓ Task tracker started', taskTrackerService.getServiceStatus())
+
     // Initialize ZAI service (will also initialize tool discovery)
     await zaiService.initialize()
     logger.info('✓ ZAI service initialized')
@@ -63,6 +100,28 @@ const gracefulShutdown = async (signal: string) => {
     
     await mcpService.disconnect()
     logger.info('✓ MCP service disconnected')
+
+    await conversationStore.shutdown()
+    logger.info('✓ Conversation store shut down')
+
+    pendingActionService.shutdown()
+    logger.info('✓ Pending actions cleared')
+
+    deviceIndexService.shutdown()
+    logger.info('✓ Device index refresh stopped')
+
+    taskTrackerService.shutdown()
+    logger.info('✓ Task tracker stopped')
+
+    await rateLimitService.shutdown()
+    logger.info('✓ Rate limit store closed')
+
+    // Last, so records of calls finishing during shutdown are still written
+    await auditService.shutdown()
+    logger.info('✓ Audit log flushed')
+
+    await tracingService.shutdown()
+    logger.info('✓ Spans exported')
     
     logger.info('All services shut down successfully')
   } catch (error: any) {
@@ -0,0 +1,90 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AuditService, AuditEntry } from './audit.service'
+
+const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  principal: { id: 'jwt::alice', subject: 'alice', type: 'user', roles: ['operator'] },
+  sessionId: 'session-1',
+  userMessage: 'back up core-sw-01',
+  tool: 'create_backup',
+  arguments: JSON.stringify({ deviceId: '12', password: 'hunter2' }),
+  status: 'success',
+  durationMs: 42,
+  ...overrides
+})
+
+describe('AuditService', () => {
+  let directory: string
+  let filePath: string
+
+  const readLines = () => fs.readFileSync(filePath, 'utf8').trim().split('\n')
+  const writeLines = (lines: string[]) => fs.writeFileSync(filePath, `${lines.join('\n')}\n`)
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'))
+    filePath = path.join(directory, 'audit.jsonl')
+
+    const service = new AuditService(filePath, '')
+    await service.record(entry())
+    await service.record(entry({ tool: 'delete_device', status: 'denied', error: { code: 'POLICY_DENIED', message: 'Denied' } }))
+    await service.record(entry({ principal: { id: 'key:bob', subject: 'bob', type: 'api_key', roles: [] }, sessionId: 'session-2' }))
+    await service.shutdown()
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('chains every record to the one before it', async () => {
+    const records = readLines().map(line => JSON.parse(line))
+
+    expect(records.map(record => record.seq)).toEqual([1, 2, 3])
+    expect(records[1].prevHash).toBe(records[0].hash)
+    expect(records[2].prevHash).toBe(records[1].hash)
+    expect(records[0].arguments.password).not.toBe('hunter2')
+    await expect(new AuditService(filePath, '').verify()).resolves.toEqual({ valid: true, records: 3 })
+  })
+
+  it('detects a record edited in place', async () => {
+    const lines = readLines()
+    const tampered = JSON.parse(lines[1])
+    tampered.status = 'success'
+    delete tampered.error
+    lines[1] = JSON.stringify(tampered)
+    writeLines(lines)
+
+    await expect(new AuditService(filePath, '').verify()).resolves.toMatchObject({ valid: false, records: 1, brokenAt: 2 })
+  })
+
+  it('detects a record removed from the middle', async () => {
+    const lines = readLines()
+    writeLines([lines[0], lines[2]])
+
+    await expect(new AuditService(filePath, '').verify()).resolves.toMatchObject({ valid: false, records: 1, brokenAt: 3 })
+  })
+
+  it('detects an unreadable line', async () => {
+    const lines = readLines()
+    writeLines([lines[0], '{not json', lines[2]])
+
+    await expect(new AuditService(filePath, '').verify()).resolves.toMatchObject({ valid: false, records: 1, brokenAt: 2 })
+  })
+
+  it('continues the chain after a restart', async () => {
+    const restarted = new AuditService(filePath, '')
+    await restarted.initialize()
+    const record = await restarted.record(entry({ sessionId: 'session-3' }))
+    await restarted.shutdown()
+
+    expect(record?.seq).toBe(4)
+    await expect(new AuditService(filePath, '').verify()).resolves.toEqual({ valid: true, records: 4 })
+  })
+
+  it('filters records by principal and status', async () => {
+    const service = new AuditService(filePath, '')
+
+    await expect(service.query({ principal: 'key:bob' }, 10)).resolves.toMatchObject({ total: 1, records: [{ sessionId: 'session-2' }] })
+    await expect(service.query({ status: 'denied' }, 10)).resolves.toMatchObject({ total: 1, records: [{ tool: 'delete_device' }] })
+  })
+})
@@ -0,0 +1,490 @@
+/**
+ * Audit Service
+ * Append-only, hash-chained record of every tool invocation the model asked for: who,
+ * in which session and from which message, with which (redacted) arguments, and how it
+ * ended. Records go to a JSON Lines file and, optionally, to a syslog collector as CEF.
+ */
+
+import { promises as fs, createReadStream } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import dgram from 'dgram'
+import net from 'net'
+import os from 'os'
+import readline from 'readline'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import { redactor } from '../utils/redaction'
+import { TOOL_NAME_SEPARATOR } from './mcp.service'
+import type { Principal } from './auth.service'
+
+/**
+ * denied: refused by the tool policy, rejected: the user declined the confirmation
+ */
+export type AuditStatus = 'success' | 'error' | 'denied' | 'rejected'
+
+export const AUDIT_STATUSES: AuditStatus[] = ['success', 'error', 'denied', 'rejected']
+
+export interface AuditEntry {
+  principal: Principal
+  sessionId: string
+  userMessage: string
+  tool: string // as called, server-qualified when several servers are federated
+  server?: string
+  arguments: string // raw JSON from the model - redacted before it is written
+  status: AuditStatus
+  error?: { code?: string; message: string }
+  durationMs: number
+  mcp?: Record<string, unknown> // result metadata (execution time, server, cache)
+}
+
+export interface AuditRecord {
+  seq: number
+  id: string
+  timestamp: string
+  principal: { id: string; type: Principal['type']; name?: string }
+  sessionId: string
+  userMessage: string
+  tool: string
+  server?: string
+  arguments: unknown
+  status: AuditStatus
+  error?: { code?: string; message: string }
+  durationMs: number
+  mcp?: Record<string, unknown>
+  prevHash: string
+  hash: string // sha256 over prevHash and every other field
+}
+
+export interface AuditFilter {
+  principal?: string
+  sessionId?: string
+  tool?: string // plain or qualified tool name
+  status?: AuditStatus
+  since?: Date
+  until?: Date
+}
+
+export interface AuditVerification {
+  valid: boolean
+  records: number
+  brokenAt?: number // seq of the first record that does not match the chain
+  reason?: string
+}
+
+export type AuditExportFormat = 'jsonl' | 'cef' | 'syslog'
+
+const GENESIS_HASH = '0'.repeat(64)
+
+// Bytes read from the end of the log per step while looking for the last record
+const TAIL_CHUNK_BYTES = 64 * 1024
+
+const CEF_VENDOR = 'Restorepoint'
+const CEF_PRODUCT = 'RP_SL1_Chat'
+const CEF_VERSION = '1.0.0'
+const SYSLOG_APP_NAME = 'rp-sl1-chat'
+const SYSLOG_FACILITY_LOG_AUDIT = 13
+
+// CEF severity (0-10) and syslog severity (0-7) per outcome
+const SEVERITY: Record<AuditStatus, { cef: number; syslog: number }> = {
+  success: { cef: 3, syslog: 6 },
+  rejected: { cef: 4, syslog: 5 },
+  error: { cef: 6, syslog: 4 },
+  denied: { cef: 8, syslog: 4 }
+}
+
+function hashRecord(prevHash: string, record: Omit<AuditRecord, 'hash'>): string {
+  return crypto.createHash('sha256').update(`${prevHash}\n${JSON.stringify(record)}`).digest('hex')
+}
+
+function escapeCefHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ')
+}
+
+function escapeCefExtension(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/\r?\n|\r/g, '\\n')
+}
+
+/**
+ * Sends syslog messages to udp://host:port or tcp://host:port (octet-counted framing, RFC 6587)
+ */
+class SyslogForwarder {
+  private readonly protocol: 'udp' | 'tcp'
+  private readonly host: string
+  private readonly port: number
+  private udp: dgram.Socket | null = null
+  private tcp: net.Socket | null = null
+  private lastError: string | null = null
+
+  constructor(target: string) {
+    const url = new URL(target)
+    if (url.protocol !== 'udp:' && url.protocol !== 'tcp:') {
+      throw new Error(`Unsupported syslog protocol ${url.protocol} (use udp:// or tcp://)`)
+    }
+    this.protocol = url.protocol === 'udp:' ? 'udp' : 'tcp'
+    this.host = url.hostname
+    this.port = parseInt(url.port || '514', 10)
+  }
+
+  send(message: string): void {
+    if (this.protocol === 'udp') {
+      this.udp = this.udp || dgram.createSocket(this.host.includes(':') ? 'udp6' : 'udp4')
+      this.udp.send(Buffer.from(message), this.port, this.host, error => {
+        if (error) this.fail(error)
+      })
+      return
+    }
+
+    if (!this.tcp || this.tcp.destroyed) {
+      this.tcp = net.createConnection({ host: this.host, port: this.port })
+      this.tcp.on('error', error => this.fail(error))
+      this.tcp.on('close', () => {
+        this.tcp = null
+      })
+    }
+    this.tcp.write(`${Buffer.byteLength(message)} ${message}`)
+  }
+
+  getStatus(): { target: string; error?: string } {
+    return {
+      target: `${this.protocol}://${this.host}:${this.port}`,
+      ...(this.lastError && { error: this.lastError })
+    }
+  }
+
+  close(): void {
+    this.udp?.close()
+    this.udp = null
+    this.tcp?.end()
+    this.tcp = null
+  }
+
+  private fail(error: Error): void {
+    this.lastError = error.message
+    logger.warn('Audit syslog forwarding failed', { target: `${this.protocol}://${this.host}:${this.port}`, error: error.message, service: 'AuditService' })
+  }
+}
+
+/**
+ * File-backed audit log. Records are chained in the order they are written; the log is
+ * never rotated or rewritten by the application.
+ */
+export class AuditService {
+  private readonly filePath: string
+  private readonly forwarder: SyslogForwarder | null
+  private ready: Promise<void> | null = null
+  private writes: Promise<unknown> = Promise.resolve()
+  private seq = 0
+  private lastHash = GENESIS_HASH
+  private lastError: string | null = null
+  private written = 0
+
+  constructor(filePath: string, syslogTarget: string) {
+    this.filePath = path.resolve(filePath)
+
+    let forwarder: SyslogForwarder | null = null
+    if (syslogTarget) {
+      try {
+        forwarder = new SyslogForwarder(syslogTarget)
+      } catch (error: any) {
+        logger.error('Invalid audit syslog target - forwarding disabled', { target: syslogTarget, error: error.message, service: 'AuditService' })
+      }
+    }
+    this.forwarder = forwarder
+  }
+
+  /**
+   * Pick the chain up where the existing log ends
+   */
+  async initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadTail().catch(error => {
+        this.ready = null
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  /**
+   * Append one record. Never throws - a failed write is logged and reported by the status.
+   */
+  record(entry: AuditEntry): Promise<AuditRecord | null> {
+    const write = this.writes.then(() => this.append(entry)).catch(error => {
+      this.lastError = error.message
+      logger.error('Failed to write audit record', {
+        tool: entry.tool,
+        sessionId: entry.sessionId,
+        error: error.message,
+        service: 'AuditService'
+      })
+      return null
+    })
+    this.writes = write
+    return write
+  }
+
+  /**
+   * Matching records, newest first
+   */
+  async query(filter: AuditFilter, limit: number): Promise<{ records: AuditRecord[]; total: number }> {
+    const records: AuditRecord[] = []
+    let total = 0
+
+    for await (const record of this.stream(filter)) {
+      total++
+      records.push(record)
+      if (records.length > limit) {
+        records.shift()
+      }
+    }
+
+    return { records: records.reverse(), total }
+  }
+
+  /**
+   * Matching records, oldest first, read from the log as it is on disk
+   */
+  async *stream(filter: AuditFilter = {}): AsyncGenerator<AuditRecord> {
+    await this.writes
+    for await (const { record } of this.readRecords()) {
+      if (record && this.matches(record, filter)) {
+        yield record
+      }
+    }
+  }
+
+  /**
+   * Recompute the hash chain from the first record
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.writes
+    let prevHash = GENESIS_HASH
+    let records = 0
+
+    for await (const { record, line } of this.readRecords()) {
+      if (!record) {
+        return { valid: false, records, brokenAt: records + 1, reason: `Unreadable record on line ${line}` }
+      }
+      const { hash, ...rest } = record
+      if (record.prevHash !== prevHash || hashRecord(prevHash, rest) !== hash) {
+        return { valid: false, records, brokenAt: record.seq, reason: 'Record does not match the hash chain' }
+      }
+      prevHash = hash
+      records++
+    }
+
+    return { valid: true, records }
+  }
+
+  format(record: AuditRecord, format: AuditExportFormat): string {
+    switch (format) {
+      case 'cef':
+        return this.toCef(record)
+      case 'syslog':
+        return this.toSyslog(record)
+      case 'jsonl':
+      default:
+        return JSON.stringify(record)
+    }
+  }
+
+  getServiceStatus(): { file: string; records: number; lastHash: string; writtenSinceStart: number; syslog?: { target: string; error?: string }; error?: string } {
+    return {
+      file: this.filePath,
+      records: this.seq,
+      lastHash: this.lastHash,
+      writtenSinceStart: this.written,
+      ...(this.forwarder && { syslog: this.forwarder.getStatus() }),
+      ...(this.lastError && { error: this.lastError })
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    await this.writes
+    this.forwarder?.close()
+  }
+
+  private async append(entry: AuditEntry): Promise<AuditRecord> {
+    await this.initialize()
+
+    const { principal } = entry
+    const unsigned: Omit<AuditRecord, 'hash'> = {
+      seq: this.seq + 1,
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      principal: { id: principal.id, type: principal.type, ...(principal.name && { name: principal.name }) },
+      sessionId: entry.sessionId,
+      userMessage: redactor.redactText(entry.userMessage),
+      tool: entry.tool,
+      ...(entry.server && { server: entry.server }),
+      arguments: this.parseArguments(entry.tool, entry.arguments),
+      status: entry.status,
+      ...(entry.error && { error: { ...entry.error, message: redactor.redactText(entry.error.message) } }),
+      durationMs: entry.durationMs,
+      ...(entry.mcp && { mcp: redactor.redact(entry.mcp) }),
+      prevHash: this.lastHash
+    }
+    const record: AuditRecord = { ...unsigned, hash: hashRecord(this.lastHash, unsigned) }
+
+    // seq and lastHash only live in this process - a second writer to the same file would break the chain
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, { encoding: 'utf8', flag: 'a', mode: 0o640 })
+    this.seq = record.seq
+    this.lastHash = record.hash
+    this.written++
+    this.lastError = null
+
+    if (this.forwarder) {
+      this.forwarder.send(this.toSyslog(record))
+    }
+    return record
+  }
+
+  private parseArguments(tool: string, raw: string): unknown {
+    try {
+      return redactor.redactToolArguments(tool, JSON.parse(raw || '{}'))
+    } catch {
+      return redactor.redactText(raw)
+    }
+  }
+
+  private async loadTail(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(this.filePath, 'r')
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.info('Audit log started', { file: this.filePath, service: 'AuditService' })
+        return
+      }
+      throw error
+    }
+
+    try {
+      const { size } = await handle.stat()
+      let start = size
+      let tail = ''
+      // Read backwards until a complete record turns up - a crash may have cut the last line short
+      while (start > 0) {
+        const length = Math.min(TAIL_CHUNK_BYTES, start)
+        start -= length
+        const buffer = Buffer.alloc(length)
+        await handle.read(buffer, 0, length, start)
+        tail = buffer.toString('utf8') + tail
+
+        const lines = tail.trimEnd().split('\n')
+        const complete = start === 0 ? lines : lines.slice(1) // the first line may continue further back
+        const last = complete.reverse().map(line => this.parseRecord(line)).find(Boolean)
+        if (last) {
+          this.seq = last.seq
+          this.lastHash = last.hash
+          break
+        }
+      }
+    } finally {
+      await handle.close()
+    }
+
+    logger.info('Audit log opened', { file: this.filePath, records: this.seq, service: 'AuditService' })
+  }
+
+  private parseRecord(line: string): AuditRecord | null {
+    try {
+      const record = JSON.parse(line)
+      return typeof record?.seq === 'number' && typeof record?.hash === 'string' ? record : null
+    } catch {
+      return null
+    }
+  }
+
+  private async *readRecords(): AsyncGenerator<{ record: AuditRecord | null; line: number }> {
+    let input
+    try {
+      await fs.access(this.filePath)
+      input = createReadStream(this.filePath, { encoding: 'utf8' })
+    } catch {
+      return
+    }
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity })
+    let line = 0
+    try {
+      for await (const text of lines) {
+        line++
+        if (!text.trim()) {
+          continue
+        }
+        yield { record: this.parseRecord(text), line }
+      }
+    } finally {
+      // Closing readline leaves its input open when a reader stops early
+      input.destroy()
+    }
+  }
+
+  private matches(record: AuditRecord, filter: AuditFilter): boolean {
+    const time = new Date(record.timestamp).getTime()
+    return (!filter.principal || record.principal.id === filter.principal)
+      && (!filter.sessionId || record.sessionId === filter.sessionId)
+      && (!filter.tool || record.tool === filter.tool || record.tool.endsWith(`${TOOL_NAME_SEPARATOR}${filter.tool}`))
+      && (!filter.status || record.status === filter.status)
+      && (!filter.since || time >= filter.since.getTime())
+      && (!filter.until || time <= filter.until.getTime())
+  }
+
+  private toCef(record: AuditRecord): string {
+    // Custom fields carry their name in a matching ...Label key
+    const custom: Array<[string, string, string | number | undefined]> = [
+      ['cs1', 'sessionId', record.sessionId],
+      ['cs2', 'arguments', JSON.stringify(record.arguments)],
+      ['cs3', 'userMessage', record.userMessage],
+      ['cs4', 'server', record.server],
+      ['cs5', 'hash', record.hash],
+      ['cs6', 'prevHash', record.prevHash],
+      ['cn1', 'durationMs', record.durationMs],
+      ['cn2', 'seq', record.seq]
+    ]
+    const extensions: Array<[string, string | number | undefined]> = [
+      ['rt', new Date(record.timestamp).getTime()],
+      ['externalId', record.id],
+      ['suser', record.principal.id],
+      ['suid', record.principal.type],
+      ['act', record.tool],
+      ['outcome', record.status],
+      ['msg', record.error?.message],
+      ...custom
+        .filter(([, , value]) => value !== undefined)
+        .flatMap(([key, label, value]): Array<[string, string | number]> => [[`${key}Label`, label], [key, value!]])
+    ]
+
+    const header = [
+      'CEF:0',
+      CEF_VENDOR,
+      CEF_PRODUCT,
+      CEF_VERSION,
+      `tool:${record.tool}`,
+      `Tool ${record.tool} ${record.status}`,
+      String(SEVERITY[record.status].cef)
+    ].map(escapeCefHeader).join('|')
+
+    const extension = extensions
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}=${escapeCefExtension(String(value))}`)
+      .join(' ')
+
+    return `${header}|${extension}`
+  }
+
+  /**
+   * RFC 5424 message (facility log audit) carrying the CEF line
+   */
+  private toSyslog(record: AuditRecord): string {
+    const priority = SYSLOG_FACILITY_LOG_AUDIT * 8 + SEVERITY[record.status].syslog
+    return `<${priority}>1 ${record.timestamp} ${os.hostname()} ${SYSLOG_APP_NAME} ${process.pid} audit - ${this.toCef(record)}`
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService(config.AUDIT_LOG_PATH, config.AUDIT_SYSLOG_TARGET)
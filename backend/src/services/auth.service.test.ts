@@ -0,0 +1,132 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AuthService, AuthError, AuthOptions, ANONYMOUS_PRINCIPAL } from './auth.service'
+
+const ISSUER = 'https://idp.example.com/'
+const AUDIENCE = 'rp-sl1-chat'
+
+const base64Url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+describe('AuthService', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+  let directory: string
+  let service: AuthService
+
+  const sign = (claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: 'k1' }) => {
+    const input = `${base64Url(header)}.${base64Url(claims)}`
+    const signature = crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url')
+    return `${input}.${signature}`
+  }
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    sub: 'alice',
+    iss: ISSUER,
+    aud: AUDIENCE,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    roles: ['operator'],
+    ...overrides
+  })
+
+  const expectRejected = async (token: string, message: RegExp) => {
+    const error = await service.verifyToken(token).catch(caught => caught)
+    expect(error).toBeInstanceOf(AuthError)
+    expect(error.code).toBe('INVALID_TOKEN')
+    expect(error.message).toMatch(message)
+  }
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'))
+    const jwksFile = path.join(directory, 'jwks.json')
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' }] }))
+
+    const apiKeysFile = path.join(directory, 'api-keys.json')
+    const hash = (key: string) => `sha256:${crypto.createHash('sha256').update(key).digest('hex')}`
+    fs.writeFileSync(apiKeysFile, JSON.stringify([
+      { id: 'ci', hash: hash('ci-secret'), roles: ['operator'] },
+      { id: 'old', hash: hash('old-secret'), roles: [], expiresAt: '2000-01-01T00:00:00Z' },
+      { id: 'alice', hash: hash('alice-secret'), roles: [] },
+      { id: 'anonymous', hash: hash('anonymous-secret'), roles: [] }
+    ]))
+
+    const options: AuthOptions = {
+      enabled: true,
+      jwksUri: jwksFile,
+      issuer: ISSUER,
+      audiences: [AUDIENCE],
+      rolesClaim: 'roles',
+      clockToleranceSec: 0,
+      jwksCacheMs: 600000,
+      apiKeysFile
+    }
+    service = new AuthService(options)
+    await service.initialize()
+  })
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('accepts an RS256 token signed by a JWKS key', async () => {
+    const principal = await service.verifyToken(sign(claims()))
+
+    expect(principal).toMatchObject({ id: `jwt:${ISSUER}:alice`, subject: 'alice', type: 'user', roles: ['operator'], issuer: ISSUER })
+  })
+
+  it('keeps API key IDs apart from token subjects and the anonymous principal', async () => {
+    const user = await service.verifyToken(sign(claims()))
+
+    expect(service.verifyApiKey('alice-secret').id).not.toBe(user.id)
+    expect(service.verifyApiKey('anonymous-secret').id).not.toBe(ANONYMOUS_PRINCIPAL.id)
+  })
+
+  it('rejects an HS256 token keyed with the public key', async () => {
+    const header = base64Url({ alg: 'HS256', kid: 'k1' })
+    const payload = base64Url(claims())
+    const secret = publicKey.export({ format: 'pem', type: 'spki' })
+    const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+
+    await expectRejected(`${header}.${payload}.${signature}`, /Unsupported signing algorithm: HS256/)
+  })
+
+  it('rejects an unsigned alg:none token', async () => {
+    await expectRejected(`${base64Url({ alg: 'none', kid: 'k1' })}.${base64Url(claims())}.`, /Unsupported signing algorithm: none/)
+  })
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    const [header, , signature] = sign(claims()).split('.')
+
+    await expectRejected(`${header}.${base64Url(claims({ roles: ['admin'] }))}.${signature}`, /Invalid token signature/)
+  })
+
+  it('rejects a token from another issuer', async () => {
+    await expectRejected(sign(claims({ iss: 'https://evil.example.com/' })), /untrusted issuer/)
+  })
+
+  it('rejects a token for another audience', async () => {
+    await expectRejected(sign(claims({ aud: ['other-api'] })), /not meant for this API/)
+  })
+
+  it('rejects an expired token', async () => {
+    await expectRejected(sign(claims({ exp: Math.floor(Date.now() / 1000) - 10 })), /expired/)
+  })
+
+  it('rejects a token without an expiry', async () => {
+    await expectRejected(sign(claims({ exp: undefined })), /no expiry/)
+  })
+
+  it('rejects a token signed with an unknown key ID', async () => {
+    await expectRejected(sign(claims(), { alg: 'RS256', kid: 'k2' }), /Unknown signing key/)
+  })
+
+  it('authenticates API keys by their hash', () => {
+    expect(service.verifyApiKey('ci-secret')).toMatchObject({ id: 'key:ci', subject: 'ci', type: 'api_key', roles: ['operator'] })
+    expect(() => service.verifyApiKey('ci-secret ')).toThrow('Invalid API key')
+    expect(() => service.verifyApiKey('old-secret')).toThrow('API key has expired')
+  })
+
+  it('requires credentials', async () => {
+    await expect(service.authenticate({})).rejects.toMatchObject({ code: 'MISSING_CREDENTIALS' })
+  })
+})
@@ -0,0 +1,457 @@
+/**
+ * Auth Service
+ * Authenticates API callers - OIDC-issued JWTs verified against a JWKS (URL or local file),
+ * or API keys for automation, stored only as SHA-256 hashes - and turns them into the
+ * principal the chat, the logs and the MCP calls run as
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import axios from 'axios'
+import Joi from 'joi'
+import config from '../utils/config'
+import logger from '../utils/logger'
+
+export type PrincipalType = 'user' | 'api_key' | 'anonymous'
+
+/**
+ * Who a request runs as. Roles feed the tool policy.
+ */
+export interface Principal {
+  id: string // unique across principal types - see principalId
+  subject: string // JWT subject or API key ID as issued
+  type: PrincipalType
+  name?: string
+  email?: string
+  roles: string[]
+  issuer?: string
+  expiresAt?: string
+}
+
+export type AuthErrorCode = 'MISSING_CREDENTIALS' | 'INVALID_TOKEN' | 'INVALID_API_KEY' | 'UNAVAILABLE'
+
+/**
+ * Credentials missing or rejected, or the JWKS could not be read (UNAVAILABLE)
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.code = code
+  }
+}
+
+export interface AuthOptions {
+  enabled: boolean
+  jwksUri: string // http(s) URL or path of a JWKS file
+  issuer: string
+  audiences: string[]
+  rolesClaim: string // dotted path, e.g. realm_access.roles
+  clockToleranceSec: number
+  jwksCacheMs: number
+  apiKeysFile: string
+}
+
+interface ApiKeyEntry {
+  id: string
+  name?: string
+  hash: string // sha256:<hex digest of the key>
+  roles: string[]
+  expiresAt?: string
+}
+
+interface SigningKey {
+  key: crypto.KeyObject
+  alg?: string // when the JWKS pins the key to one algorithm
+}
+
+interface JwtHeader {
+  alg?: string
+  kid?: string
+  typ?: string
+}
+
+/**
+ * Used when authentication is disabled - the tool policy applies its default roles
+ */
+export const ANONYMOUS_PRINCIPAL: Principal = Object.freeze({ id: 'anonymous', subject: 'anonymous', type: 'anonymous' as const, roles: [] })
+
+/**
+ * Sessions, tasks and pending actions are owned by this ID. JWT subjects are only unique per issuer
+ * and API key IDs are chosen freely, so each gets its own namespace - an API key with the ID of a
+ * user (or "anonymous") must not own that user's sessions.
+ */
+export function principalId(type: Exclude<PrincipalType, 'anonymous'>, subject: string, issuer = ''): string {
+  return type === 'user' ? `jwt:${issuer}:${subject}` : `key:${subject}`
+}
+
+// Asymmetric algorithms only - a JWKS holds public keys, and "none" or HS* must never verify
+const ALGORITHMS: Record<string, { digest: string | null; options?: Partial<crypto.VerifyKeyObjectInput> }> = {
+  RS256: { digest: 'sha256' },
+  RS384: { digest: 'sha384' },
+  RS512: { digest: 'sha512' },
+  PS256: { digest: 'sha256', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { digest: 'sha384', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { digest: 'sha512', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { digest: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { digest: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { digest: 'sha512', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { digest: null }
+}
+
+// A token signed with an unknown key ID refetches the JWKS (key rotation), at most this often
+const JWKS_REFETCH_COOLDOWN_MS = 30000
+
+const JWKS_FETCH_TIMEOUT_MS = 5000
+
+const apiKeysSchema = Joi.array().items(Joi.object({
+  id: Joi.string().min(1).required(),
+  name: Joi.string(),
+  hash: Joi.string().pattern(/^sha256:[0-9a-f]{64}$/i).required(),
+  roles: Joi.array().items(Joi.string()).default([]),
+  expiresAt: Joi.string().isoDate()
+}))
+
+function base64UrlJson(part: string): any {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+}
+
+function hashApiKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key, 'utf8').digest()
+}
+
+/**
+ * Roles from a claim that may be an array or a space/comma separated string
+ */
+function readRoles(claims: Record<string, unknown>, claimPath: string): string[] {
+  const value = claimPath.split('.').reduce<unknown>(
+    (current, key) => current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    claims
+  )
+  const roles = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,]+/) : []
+  return roles.filter((role): role is string => typeof role === 'string' && role.length > 0)
+}
+
+export class AuthService {
+  private readonly options: AuthOptions
+  private keys = new Map<string, SigningKey>() // kid (or index for keys without one) -> public key
+  private jwksFetchedAt = 0
+  private jwksRetryAt = 0 // no refetch before this after a failed one
+  private jwksFetching: Promise<void> | null = null
+  private jwksError: string | null = null
+  private apiKeys: Array<ApiKeyEntry & { digest: Buffer }> = []
+  private apiKeysError: string | null = null
+
+  constructor(options: AuthOptions) {
+    this.options = options
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled
+  }
+
+  /**
+   * Load the API keys and the JWKS. Failures are logged - requests fail until they are fixed.
+   */
+  async initialize(): Promise<void> {
+    if (!this.options.enabled) {
+      logger.warn('Authentication is disabled - the chat API accepts anonymous requests', { service: 'AuthService' })
+      return
+    }
+    if (!this.options.jwksUri && !this.options.apiKeysFile) {
+      logger.error('Authentication is enabled but neither AUTH_JWKS_URI nor AUTH_API_KEYS_FILE is set - every request will be rejected', {
+        service: 'AuthService'
+      })
+    }
+
+    this.loadApiKeys()
+    if (this.options.jwksUri) {
+      try {
+        await this.refreshJwks()
+      } catch (error: any) {
+        logger.error('JWKS could not be loaded', { jwksUri: this.options.jwksUri, error: error.message, service: 'AuthService' })
+      }
+    }
+  }
+
+  /**
+   * Authenticate a request from its Authorization (Bearer JWT) or X-API-Key header
+   */
+  async authenticate(credentials: { authorization?: string; apiKey?: string }): Promise<Principal> {
+    if (credentials.apiKey) {
+      return this.verifyApiKey(credentials.apiKey)
+    }
+
+    const [scheme, value] = (credentials.authorization || '').trim().split(/\s+/, 2)
+    if (/^bearer$/i.test(scheme) && value) {
+      return this.verifyToken(value)
+    }
+    if (/^apikey$/i.test(scheme) && value) {
+      return this.verifyApiKey(value)
+    }
+
+    throw new AuthError('MISSING_CREDENTIALS', 'A bearer token or API key is required')
+  }
+
+  /**
+   * Verify a JWT's signature against the JWKS and check exp, nbf, iss and aud
+   */
+  async verifyToken(token: string): Promise<Principal> {
+    if (!this.options.jwksUri) {
+      throw new AuthError('INVALID_TOKEN', 'Bearer tokens are not accepted - no JWKS is configured')
+    }
+
+    const parts = token.split('.')
+    if (parts.length !== 3) {
+      throw new AuthError('INVALID_TOKEN', 'Malformed token')
+    }
+
+    let header: JwtHeader
+    let claims: Record<string, any>
+    try {
+      header = base64UrlJson(parts[0])
+      claims = base64UrlJson(parts[1])
+    } catch {
+      throw new AuthError('INVALID_TOKEN', 'Malformed token')
+    }
+    if (!claims || typeof claims !== 'object') {
+      throw new AuthError('INVALID_TOKEN', 'Malformed token')
+    }
+
+    if (typeof header.alg !== 'string' || !Object.prototype.hasOwnProperty.call(ALGORITHMS, header.alg)) {
+      throw new AuthError('INVALID_TOKEN', `Unsupported signing algorithm: ${header.alg}`)
+    }
+    const algorithm = ALGORITHMS[header.alg]
+
+    const signingKey = await this.getSigningKey(header.kid)
+    if (signingKey.alg && signingKey.alg !== header.alg) {
+      throw new AuthError('INVALID_TOKEN', `Signing key does not use ${header.alg}`)
+    }
+
+    let valid: boolean
+    try {
+      valid = crypto.verify(
+        algorithm.digest,
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        { key: signingKey.key, ...algorithm.options },
+        Buffer.from(parts[2], 'base64url')
+      )
+    } catch {
+      valid = false // key type does not fit the algorithm
+    }
+    if (!valid) {
+      throw new AuthError('INVALID_TOKEN', 'Invalid token signature')
+    }
+
+    this.checkClaims(claims)
+
+    return {
+      id: principalId('user', claims.sub, typeof claims.iss === 'string' ? claims.iss : ''),
+      subject: claims.sub,
+      type: 'user',
+      ...(typeof (claims.name || claims.preferred_username) === 'string' && { name: claims.name || claims.preferred_username }),
+      ...(typeof claims.email === 'string' && { email: claims.email }),
+      roles: readRoles(claims, this.options.rolesClaim),
+      ...(typeof claims.iss === 'string' && { issuer: claims.iss }),
+      expiresAt: new Date(claims.exp * 1000).toISOString()
+    }
+  }
+
+  /**
+   * Look an API key up by its hash. Every entry is compared, in constant time.
+   */
+  verifyApiKey(key: string): Principal {
+    const digest = hashApiKey(key)
+    const entry = this.apiKeys.reduce<(typeof this.apiKeys)[number] | null>(
+      (found, candidate) => crypto.timingSafeEqual(candidate.digest, digest) ? candidate : found,
+      null
+    )
+
+    if (!entry) {
+      throw new AuthError('INVALID_API_KEY', 'Invalid API key')
+    }
+    if (entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now()) {
+      throw new AuthError('INVALID_API_KEY', 'API key has expired')
+    }
+
+    return {
+      id: principalId('api_key', entry.id),
+      subject: entry.id,
+      type: 'api_key',
+      ...(entry.name && { name: entry.name }),
+      roles: entry.roles,
+      ...(entry.expiresAt && { expiresAt: entry.expiresAt })
+    }
+  }
+
+  getServiceStatus(): {
+    enabled: boolean
+    jwks: { source: string | null; keys: number; fetchedAt: string | null; error?: string }
+    apiKeys: { file: string | null; count: number; error?: string }
+  } {
+    return {
+      enabled: this.options.enabled,
+      jwks: {
+        source: this.options.jwksUri || null,
+        keys: this.keys.size,
+        fetchedAt: this.jwksFetchedAt ? new Date(this.jwksFetchedAt).toISOString() : null,
+        ...(this.jwksError && { error: this.jwksError })
+      },
+      apiKeys: {
+        file: this.options.apiKeysFile || null,
+        count: this.apiKeys.length,
+        ...(this.apiKeysError && { error: this.apiKeysError })
+      }
+    }
+  }
+
+  private checkClaims(claims: Record<string, any>): void {
+    const now = Date.now() / 1000
+    const tolerance = this.options.clockToleranceSec
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthError('INVALID_TOKEN', 'Token has no subject')
+    }
+    if (typeof claims.exp !== 'number') {
+      throw new AuthError('INVALID_TOKEN', 'Token has no expiry')
+    }
+    if (claims.exp + tolerance <= now) {
+      throw new AuthError('INVALID_TOKEN', 'Token has expired')
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      throw new AuthError('INVALID_TOKEN', 'Token is not valid yet')
+    }
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new AuthError('INVALID_TOKEN', 'Token was issued by an untrusted issuer')
+    }
+    if (this.options.audiences.length > 0) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+      if (!audiences.some(audience => this.options.audiences.includes(audience))) {
+        throw new AuthError('INVALID_TOKEN', 'Token is not meant for this API')
+      }
+    }
+  }
+
+  /**
+   * Public key for a key ID, refetching the JWKS when it is stale or the key is new
+   */
+  private async getSigningKey(kid: string | undefined): Promise<SigningKey> {
+    const age = Date.now() - this.jwksFetchedAt
+    const unknown = !this.findKey(kid)
+    if (Date.now() >= this.jwksRetryAt && (age > this.options.jwksCacheMs || (unknown && age > JWKS_REFETCH_COOLDOWN_MS))) {
+      try {
+        await this.refreshJwks()
+      } catch (error: any) {
+        logger.warn('JWKS refresh failed', { jwksUri: this.options.jwksUri, error: error.message, service: 'AuthService' })
+        if (this.keys.size === 0) {
+          throw new AuthError('UNAVAILABLE', 'Signing keys are unavailable')
+        }
+      }
+    }
+
+    const key = this.findKey(kid)
+    if (!key) {
+      throw new AuthError('INVALID_TOKEN', kid ? `Unknown signing key: ${kid}` : 'Token names no signing key and the JWKS has several')
+    }
+    return key
+  }
+
+  private findKey(kid: string | undefined): SigningKey | undefined {
+    if (kid) {
+      return this.keys.get(kid)
+    }
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined
+  }
+
+  private async refreshJwks(): Promise<void> {
+    // Concurrent requests share one fetch
+    if (!this.jwksFetching) {
+      this.jwksFetching = this.fetchJwks().finally(() => {
+        this.jwksFetching = null
+      })
+    }
+    return this.jwksFetching
+  }
+
+  private async fetchJwks(): Promise<void> {
+    const source = this.options.jwksUri
+    try {
+      const jwks = /^https?:\/\//i.test(source)
+        ? (await axios.get(source, { timeout: JWKS_FETCH_TIMEOUT_MS })).data
+        : JSON.parse(fs.readFileSync(path.resolve(source.replace(/^file:\/\//, '')), 'utf8'))
+
+      if (!jwks || !Array.isArray(jwks.keys)) {
+        throw new Error('JWKS has no keys array')
+      }
+
+      const keys = new Map<string, SigningKey>()
+      jwks.keys.forEach((jwk: crypto.JsonWebKey, index: number) => {
+        if (jwk.use && jwk.use !== 'sig') {
+          return
+        }
+        try {
+          keys.set(typeof jwk.kid === 'string' ? jwk.kid : `#${index}`, {
+            key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+            ...(typeof jwk.alg === 'string' && { alg: jwk.alg })
+          })
+        } catch (error: any) {
+          logger.warn('Skipping unusable JWKS key', { kid: jwk.kid, error: error.message, service: 'AuthService' })
+        }
+      })
+
+      this.keys = keys
+      this.jwksFetchedAt = Date.now()
+      this.jwksError = null
+      logger.info('JWKS loaded', { jwksUri: source, keys: keys.size, service: 'AuthService' })
+    } catch (error: any) {
+      // Keep the previous keys, and wait the cooldown before trying again
+      this.jwksRetryAt = Date.now() + JWKS_REFETCH_COOLDOWN_MS
+      this.jwksError = error.message
+      throw error
+    }
+  }
+
+  private loadApiKeys(): void {
+    if (!this.options.apiKeysFile) {
+      return
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.resolve(this.options.apiKeysFile), 'utf8'))
+      const { error, value } = apiKeysSchema.validate(raw, { abortEarly: false })
+      if (error) {
+        throw new Error(error.details.map(detail => detail.message).join('; '))
+      }
+
+      this.apiKeys = (value as ApiKeyEntry[]).map(entry => ({
+        ...entry,
+        digest: Buffer.from(entry.hash.slice('sha256:'.length), 'hex')
+      }))
+      this.apiKeysError = null
+      logger.info('API keys loaded', { file: this.options.apiKeysFile, count: this.apiKeys.length, service: 'AuthService' })
+    } catch (error: any) {
+      this.apiKeys = []
+      this.apiKeysError = error.message
+      logger.error('API keys could not be loaded - API key authentication is unavailable', {
+        file: this.options.apiKeysFile,
+        error: error.message,
+        service: 'AuthService'
+      })
+    }
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService({
+  enabled: config.AUTH_ENABLED,
+  jwksUri: config.AUTH_JWKS_URI,
+  issuer: config.AUTH_ISSUER,
+  audiences: config.AUTH_AUDIENCE,
+  rolesClaim: config.AUTH_ROLES_CLAIM,
+  clockToleranceSec: config.AUTH_CLOCK_TOLERANCE_SEC,
+  jwksCacheMs: config.AUTH_JWKS_CACHE_MS,
+  apiKeysFile: config.AUTH_API_KEYS_FILE
+})
@@ -0,0 +1,351 @@
+import config from '../utils/config'
+import { ChatService, ChatEvent } from './chat.service'
+import { zaiService, ChatResponse, SendMessageOptions, ToolCall } from './zai.service'
+import { mcpService } from './mcp.service'
+import { PendingActionError } from './pending-action.service'
+import { usageService } from './usage.service'
+import { deviceIndexService, DeviceMatch } from './device-index.service'
+import type { Device } from '../models/restorepoint'
+import { Principal } from './auth.service'
+
+jest.mock('./zai.service', () => ({
+  zaiService: {
+    sendMessage: jest.fn(),
+    validateTopic: jest.fn(() => ({ isValid: true }))
+  }
+}))
+
+jest.mock('./mcp.service', () => ({
+  mcpService: {
+    parseToolName: (name: string) => ({ server: null, tool: name }),
+    executeTool: jest.fn()
+  }
+}))
+
+const ALICE: Principal = { id: 'key:alice', subject: 'alice', type: 'api_key', roles: ['operator'] }
+const BOB: Principal = { id: 'key:bob', subject: 'bob', type: 'api_key', roles: ['operator'] }
+const CAROL: Principal = { id: 'key:carol', subject: 'carol', type: 'api_key', roles: ['admin'] }
+
+const sendMessage = zaiService.sendMessage as jest.Mock
+const executeTool = mcpService.executeTool as jest.Mock
+
+let counter = 0
+
+const toolCall = (name: string, args: Record<string, unknown> = {}): ToolCall => ({
+  id: `call-${++counter}`,
+  type: 'function',
+  function: { name, arguments: JSON.stringify(args) }
+})
+
+const reply = (content: string, toolCalls?: ToolCall[], totalTokens = 100): ChatResponse => ({
+  content,
+  ...(toolCalls && { tool_calls: toolCalls }),
+  usage: { prompt_tokens: totalTokens - 10, completion_tokens: 10, total_tokens: totalTokens }
+})
+
+describe('ChatService', () => {
+  let service: ChatService
+  let sessionId: string
+
+  beforeEach(() => {
+    service = new ChatService()
+    sessionId = `session-${++counter}`
+    sendMessage.mockReset()
+    executeTool.mockReset()
+  })
+
+  describe('progress events', () => {
+    it('reports streamed tokens, tool calls and results, round boundaries and the final result', async () => {
+      sendMessage
+        .mockImplementationOnce(async (_message: string, _history: unknown, options: SendMessageOptions) => {
+          options.onToken?.('Listing ')
+          options.onToken?.('devices')
+          return reply('Listing devices', [toolCall('list_devices')])
+        })
+        .mockResolvedValueOnce(reply('There are 2 devices'))
+      executeTool.mockResolvedValue({ success: true, data: [{ ID: '1' }, { ID: '2' }] })
+
+      const events: ChatEvent[] = []
+      const result = await service.processMessage({ message: 'list all devices', sessionId }, event => events.push(event))
+
+      expect(events.map(event => event.type)).toEqual(['token', 'token', 'tool_call_started', 'tool_result', 'round_completed', 'final'])
+      expect(events[0]).toEqual({ type: 'token', round: 1, content: 'Listing ' })
+      expect(events[3]).toMatchObject({ type: 'tool_result', round: 1, toolName: 'list_devices', success: true })
+      expect(events[5]).toEqual({ type: 'final', result })
+      expect(result).toMatchObject({ response: 'There are 2 devices', toolsUsed: ['list_devices'], stopReason: 'completed' })
+    })
+
+    it('reports a tool call that returned an error as failed', async () => {
+      sendMessage
+        .mockResolvedValueOnce(reply('Checking', [toolCall('get_device', { id: '9' })]))
+        .mockResolvedValueOnce(reply('Device 9 does not exist'))
+      executeTool.mockResolvedValue({ success: false, error: { code: 'NOT_FOUND', message: 'Device 9 not found' } })
+
+      const events: ChatEvent[] = []
+      const result = await service.processMessage({ message: 'show device 9', sessionId }, event => events.push(event))
+
+      expect(events.find(event => event.type === 'tool_result')).toMatchObject({ success: false, error: 'Device 9 not found' })
+      expect(result.executionResults).toEqual([expect.objectContaining({ success: false, error: 'Device 9 not found' })])
+    })
+
+    it('ends the stream with an error event when the model cannot be reached', async () => {
+      sendMessage.mockRejectedValue(new Error('connect ECONNREFUSED'))
+
+      const events: ChatEvent[] = []
+      await expect(service.processMessage({ message: 'list all devices', sessionId }, event => events.push(event)))
+        .rejects.toThrow('Chat processing failed: connect ECONNREFUSED')
+      expect(events).toEqual([{ type: 'error', message: 'connect ECONNREFUSED' }])
+    })
+  })
+
+  describe('confirmation pauses', () => {
+    const pauseForDelete = async () => {
+      sendMessage.mockResolvedValueOnce(reply('Deleting old-switch', [toolCall('delete_device', { name: 'old-switch' })]))
+      const paused = await service.processMessage({ message: 'delete device old-switch', sessionId, principal: ALICE })
+      return paused.pendingAction!
+    }
+
+    it('holds a destructive call for confirmation instead of running it', async () => {
+      sendMessage.mockResolvedValueOnce(reply('Deleting old-switch', [toolCall('delete_device', { name: 'old-switch' })]))
+
+      const result = await service.processMessage({ message: 'delete device old-switch', sessionId, principal: ALICE })
+
+      expect(result.stopReason).toBe('pending_confirmation')
+      expect(result.pendingAction).toMatchObject({
+        sessionId,
+        principalId: ALICE.id,
+        kind: 'confirmation',
+        actions: [{ toolName: 'delete_device', destructive: true, arguments: { name: 'old-switch' } }]
+      })
+      expect(executeTool).not.toHaveBeenCalled()
+    })
+
+    it('runs the held call once approved and finishes the turn', async () => {
+      const pendingAction = await pauseForDelete()
+      executeTool.mockResolvedValue({ success: true })
+      sendMessage.mockResolvedValueOnce(reply('old-switch was deleted'))
+
+      const result = await service.resolvePendingAction(pendingAction.id, 'approve', sessionId, ALICE)
+
+      expect(executeTool).toHaveBeenCalledTimes(1)
+      expect(result).toMatchObject({ response: 'old-switch was deleted', toolsUsed: ['delete_device'], stopReason: 'completed' })
+      await expect(service.resolvePendingAction(pendingAction.id, 'approve', sessionId, ALICE))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('tells the model a rejected call was not executed', async () => {
+      const pendingAction = await pauseForDelete()
+      sendMessage.mockResolvedValueOnce(reply('Nothing was deleted'))
+
+      const result = await service.resolvePendingAction(pendingAction.id, 'reject', sessionId, ALICE)
+
+      expect(executeTool).not.toHaveBeenCalled()
+      expect(result.executionResults).toEqual([expect.objectContaining({ toolName: 'delete_device', success: false, error: expect.stringContaining('Rejected by user') })])
+      expect(sendMessage.mock.calls[1][1]).toContainEqual(expect.objectContaining({ role: 'tool', content: expect.stringContaining('"rejected":true') }))
+    })
+
+    it('lets only the requester or an approver resolve the action, and resumes as whoever resolved it', async () => {
+      const pendingAction = await pauseForDelete()
+      executeTool.mockResolvedValue({ success: true })
+      sendMessage.mockResolvedValueOnce(reply('old-switch was deleted'))
+
+      await expect(service.resolvePendingAction(pendingAction.id, 'approve', sessionId, BOB)).rejects.toThrow(PendingActionError)
+      await service.resolvePendingAction(pendingAction.id, 'approve', sessionId, CAROL)
+
+      expect(executeTool).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ principal: CAROL, roles: ['admin'] }))
+    })
+
+    it('does not count the time spent waiting for confirmation against the turn time limit', async () => {
+      const maxDuration = config.MAX_TURN_DURATION_MS
+      const now = jest.spyOn(Date, 'now')
+      try {
+        config.MAX_TURN_DURATION_MS = 60 * 1000
+        const pendingAction = await pauseForDelete()
+        const pausedAt = Date.now()
+        now.mockReturnValue(pausedAt + 5 * 60 * 1000)
+        executeTool.mockResolvedValue({ success: true })
+        sendMessage.mockResolvedValueOnce(reply('old-switch was deleted'))
+
+        const result = await service.resolvePendingAction(pendingAction.id, 'approve', sessionId, ALICE)
+
+        expect(result.stopReason).toBe('completed')
+        expect(executeTool).toHaveBeenCalledTimes(1)
+      } finally {
+        config.MAX_TURN_DURATION_MS = maxDuration
+        now.mockRestore()
+      }
+    })
+  })
+
+  describe('device clarification', () => {
+    const device = (ID: string, Name: string): Device => ({ ID, Name, Address: `10.0.0.${ID}`, PluginName: 'Cisco IOS', AssetFields: [] })
+    const SWITCHES = [device('1', 'core-switch-01'), device('2', 'core-switch-02')]
+    const match = (matched: Device): DeviceMatch =>
+      ({ device: matched, score: 0.807, reason: 'prefix', field: 'Name', term: 'core-switch', matchedValue: matched.Name })
+
+    let spies: jest.SpyInstance[]
+
+    // An index in which "core-switch" is a prefix of two device names
+    beforeEach(() => {
+      spies = [
+        jest.spyOn(deviceIndexService, 'ensureFresh').mockResolvedValue(),
+        jest.spyOn(deviceIndexService, 'getServiceStatus').mockReturnValue({ loaded: true } as ReturnType<typeof deviceIndexService.getServiceStatus>),
+        jest.spyOn(deviceIndexService, 'getDevices').mockResolvedValue(SWITCHES),
+        jest.spyOn(deviceIndexService, 'search').mockImplementation(term => term === 'core-switch' ? SWITCHES.map(match) : [])
+      ]
+    })
+
+    afterEach(() => {
+      spies.forEach(spy => spy.mockRestore())
+    })
+
+    const pauseForBackup = async () => {
+      sendMessage.mockResolvedValueOnce(reply('Backing up', [toolCall('create_backup', { deviceId: '2' })]))
+      return service.processMessage({ message: 'run a backup of core-switch', sessionId, principal: ALICE })
+    }
+
+    it('holds a write on a device an ambiguous name may mean until the user picks one', async () => {
+      const result = await pauseForBackup()
+
+      expect(result.stopReason).toBe('needs_clarification')
+      expect(result.pendingAction).toMatchObject({
+        kind: 'clarification',
+        clarifications: [{ term: 'core-switch', reason: 'ambiguous', candidates: [{ id: '1' }, { id: '2' }] }]
+      })
+      expect(result.response).toContain('"core-switch" could be core-switch-01 (10.0.0.1), core-switch-02 (10.0.0.2)')
+      expect(executeTool).not.toHaveBeenCalled()
+    })
+
+    it('runs writes on devices outside the ambiguous candidates without asking', async () => {
+      sendMessage
+        .mockResolvedValueOnce(reply('Backing up', [toolCall('create_backup', { deviceId: '9' })]))
+        .mockResolvedValueOnce(reply('The backup is running'))
+      executeTool.mockResolvedValue({ success: true })
+
+      const result = await service.processMessage({ message: 'run a backup of core-switch', sessionId, principal: ALICE })
+
+      expect(result.stopReason).toBe('completed')
+      expect(executeTool).toHaveBeenCalledTimes(1)
+    })
+
+    it('hands the selection to the model, which re-issues the write for the chosen device', async () => {
+      const { pendingAction } = await pauseForBackup()
+      sendMessage
+        .mockResolvedValueOnce(reply('Backing up core-switch-01', [toolCall('create_backup', { deviceId: '1' })]))
+        .mockResolvedValueOnce(reply('The backup of core-switch-01 is running'))
+      executeTool.mockResolvedValue({ success: true })
+
+      const result = await service.resolveClarification(pendingAction!.id, ['1'], sessionId, ALICE)
+
+      expect(sendMessage.mock.calls[1][1]).toContainEqual(expect.objectContaining({
+        role: 'tool',
+        content: expect.stringContaining('"selectedDevices":[{"id":"1","name":"core-switch-01"')
+      }))
+      expect(executeTool).toHaveBeenCalledTimes(1)
+      expect(executeTool.mock.calls[0][0].function.arguments).toBe('{"deviceId":"1"}')
+      expect(result).toMatchObject({ response: 'The backup of core-switch-01 is running', stopReason: 'completed' })
+    })
+
+    it('refuses a selection of devices that were not offered', async () => {
+      const { pendingAction } = await pauseForBackup()
+
+      await expect(service.resolveClarification(pendingAction!.id, ['1', '7'], sessionId, ALICE))
+        .rejects.toMatchObject({ code: 'INVALID_RESOLUTION', message: expect.stringContaining('Devices 7 were not offered') })
+      await expect(service.resolveClarification(pendingAction!.id, [], sessionId, ALICE))
+        .rejects.toMatchObject({ code: 'INVALID_RESOLUTION' })
+    })
+  })
+
+  describe('execution limits', () => {
+    const defaults = {
+      MAX_TOOL_ROUNDS: config.MAX_TOOL_ROUNDS,
+      MAX_TOOL_CALLS_PER_TURN: config.MAX_TOOL_CALLS_PER_TURN,
+      MAX_TURN_DURATION_MS: config.MAX_TURN_DURATION_MS,
+      MAX_TURN_TOKENS: config.MAX_TURN_TOKENS,
+      MAX_IDENTICAL_TOOL_CALLS: config.MAX_IDENTICAL_TOOL_CALLS
+    }
+
+    afterEach(() => {
+      Object.assign(config, defaults)
+    })
+
+    // A model that never stops asking for another device
+    const keepCallingTools = (callsPerRound = 1) => {
+      sendMessage.mockImplementation(async () => reply('Checking', Array.from({ length: callsPerRound }, () => toolCall('get_device', { id: String(counter) }))))
+      executeTool.mockResolvedValue({ success: true })
+    }
+
+    it('stops after the maximum number of tool rounds', async () => {
+      config.MAX_TOOL_ROUNDS = 2
+      keepCallingTools()
+
+      const result = await service.processMessage({ message: 'check every device', sessionId })
+
+      expect(result.stopReason).toBe('max_rounds')
+      expect(executeTool).toHaveBeenCalledTimes(2)
+      expect(result.response).toContain('the turn reached the limit of 2 tool rounds')
+      expect(result.executionResults?.[2]).toMatchObject({ toolName: 'get_device', skipped: true })
+    })
+
+    it('stops before a round that would exceed the tool call limit', async () => {
+      config.MAX_TOOL_CALLS_PER_TURN = 3
+      keepCallingTools(2)
+
+      const result = await service.processMessage({ message: 'check every device', sessionId })
+
+      expect(result.stopReason).toBe('max_tool_calls')
+      expect(executeTool).toHaveBeenCalledTimes(2)
+    })
+
+    it('stops when the model repeats a call with the same arguments in any key order', async () => {
+      config.MAX_IDENTICAL_TOOL_CALLS = 2
+      const calls = [{ deviceId: '1', type: 'full' }, { type: 'full', deviceId: '1' }, { deviceId: '1', type: 'full' }]
+      calls.forEach(args => sendMessage.mockResolvedValueOnce(reply('Backing up', [toolCall('get_backups', args)])))
+      executeTool.mockResolvedValue({ success: true })
+
+      const result = await service.processMessage({ message: 'show the backups of device 1', sessionId })
+
+      expect(result.stopReason).toBe('repeated_tool_call')
+      expect(executeTool).toHaveBeenCalledTimes(2)
+    })
+
+    it('stops once the turn has used its token budget', async () => {
+      config.MAX_TURN_TOKENS = 150
+      keepCallingTools()
+
+      const result = await service.processMessage({ message: 'check every device', sessionId })
+
+      expect(result.stopReason).toBe('token_budget')
+      expect(executeTool).toHaveBeenCalledTimes(1)
+      expect(result.usage?.total_tokens).toBe(200)
+    })
+
+    it('stops when the turn runs out of time', async () => {
+      config.MAX_TURN_DURATION_MS = 0
+      keepCallingTools()
+
+      const result = await service.processMessage({ message: 'check every device', sessionId })
+
+      expect(result.stopReason).toBe('timeout')
+      expect(executeTool).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('token usage', () => {
+    it('reports the token usage of every round and their sum', async () => {
+      sendMessage
+        .mockResolvedValueOnce(reply('Listing devices', [toolCall('list_devices')], 100))
+        .mockResolvedValueOnce(reply('There are 2 devices', undefined, 300))
+      executeTool.mockResolvedValue({ success: true, data: [] })
+
+      const result = await service.processMessage({ message: 'list all devices', sessionId })
+
+      expect(result.usageByRound).toEqual([
+        { round: 1, prompt_tokens: 90, completion_tokens: 10, total_tokens: 100 },
+        { round: 2, prompt_tokens: 290, completion_tokens: 10, total_tokens: 300 }
+      ])
+      expect(result.usage).toEqual({ prompt_tokens: 380, completion_tokens: 20, total_tokens: 400 })
+      expect(usageService.getSessionUsage(sessionId)).toMatchObject({ total_tokens: 400, requests: 2 })
+    })
+  })
+})
@@ -1,6 +1,31 @@
-import { zaiService, ToolCall } from './zai.service'
-import { mcpService } from './mcp.service'
+import { zaiService, ToolCall, ChatResponse, SendMessageOptions } from './zai.service'
+import { mcpService, McpResult } from './mcp.service'
+import { conversationStore, SessionAccessError } from './conversation-store.service'
+import {
+  pendingActionService,
+  DeviceCandidate,
+  DeviceClarification,
+  PendingActionError,
+  PendingActionPayload,
+  PendingToolAction
+} from './pending-action.service'
+import { usageService, SessionBudgetExceededError, TokenUsage } from './usage.service'
+import { deviceIndexService, DeviceMatch } from './device-index.service'
+import { localToolService, RESOLVE_DEVICES_TOOL, ResolveDevicesResult } from './local-tools.service'
+import { workingSetService } from './working-set.service'
+import { taskTrackerService } from './task-tracker.service'
+import { policyService } from './policy.service'
+import { rateLimitService, describeRateLimit } from './rate-limit.service'
+import { authService, ANONYMOUS_PRINCIPAL, Principal } from './auth.service'
+import { auditService, AuditEntry } from './audit.service'
+import { metricsService } from './metrics.service'
+import { Span, SpanStatusCode } from '@opentelemetry/api'
+import { tracingService } from './tracing.service'
+import { parseAddressSelectors } from '../utils/address-selector'
+import { Device } from '../models/restorepoint'
+import config from '../utils/config'
 import logger from '../utils/logger'
+import { redactor } from '../utils/redaction'
 
 interface ConversationMessage {
   role: 'system' | 'user' | 'assistant' | 'tool'
@@ -13,227 +38,219 @@ interface ChatRequest {
   message: string
   sessionId: string
   conversationHistory?: ConversationMessage[]
+  signal?: AbortSignal // cancels in-flight tool calls and ends the turn, e.g. on client disconnect
+  bypassCache?: boolean // read fresh results instead of cached read-only tool results
+  principal?: Principal // who sent the message; its roles select the tool policy role (policy defaults when it has none)
+  clientAddress?: string // quotas of unauthenticated callers are counted per address
 }
 
-interface ChatResult {
+export interface ChatResult {
   response: string
   sessionId: string
   toolsUsed: string[]
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
+  usage?: TokenUsage // summed across every completion of the turn
+  usageByRound?: RoundUsage[]
   executionResults?: any[]
+  pendingAction?: PendingActionPayload
+  stopReason: StopReason
 }
 
-interface DeviceResolutionResult {
-  success: boolean
-  data?: any[] | {
-    data?: any[]
-    result?: any
-    [key: string]: unknown
-  }
-  [key: string]: unknown
+/**
+ * Why a turn ended - anything other than completed, off_topic, pending_confirmation or
+ * needs_clarification means an execution limit or an unavailable LLM cut the turn short
+ */
+export type StopReason =
+  | 'completed'
+  | 'off_topic'
+  | 'pending_confirmation'
+  | 'needs_clarification'
+  | 'max_rounds'
+  | 'max_tool_calls'
+  | 'timeout'
+  | 'token_budget'
+  | 'repeated_tool_call'
+  | 'llm_unavailable'
+  | 'cancelled'
+
+type LimitStopReason = Exclude<StopReason, 'completed' | 'off_topic' | 'pending_confirmation' | 'needs_clarification'>
+
+export type PendingActionDecision = 'approve' | 'reject'
+
+export interface RoundUsage extends TokenUsage {
+  round: number
+}
+
+/**
+ * Progress events emitted while a chat turn runs (forwarded to SSE clients)
+ */
+export type ChatEvent =
+  | { type: 'token'; round: number; content: string }
+  | { type: 'tool_call_started'; round: number; toolCallId: string; toolName: string; arguments: string }
+  | { type: 'tool_result'; round: number; toolCallId: string; toolName: string; success: boolean; result?: unknown; error?: string }
+  | { type: 'round_completed'; round: number; toolsUsed: string[] }
+  | { type: 'final'; result: ChatResult }
+  | { type: 'error'; message: string }
+
+export type ChatEventListener = (event: ChatEvent) => void
+
+/**
+ * Everything needed to continue a turn - kept across a confirmation pause
+ */
+interface TurnState {
+  sessionId: string
+  userMessage: string // the message that started the turn, for the audit log
+  clockStartedAt: number
+  elapsedMs: number // active time before the last confirmation pause
+  historyLength: number
+  history: ConversationMessage[]
+  toolsUsed: string[]
+  executionResults: any[]
+  executionRound: number
+  usageByRound: RoundUsage[]
+  tokensUsed: number
+  tokenBudget: number
+  toolCallCounts: Record<string, number>
+  lastContent: string
+  signal?: AbortSignal // only for the request currently driving the turn
+  bypassCache: boolean
+  principal: Principal // caller of the request currently driving the turn
+  ownerId: string // principal that started the turn and owns the session - kept when an approver resumes it
+  clientAddress?: string // address of the request currently driving the turn
+  roles: string[] // tool policy roles every tool call of the turn is checked against
+  deviceClarifications: DeviceClarification[] // unresolved ambiguous names - write tools on them are held
+}
+
+// Devices listed individually in the device context; the ID list always covers every match
+const MAX_CONTEXT_DEVICES = 50
+
+/**
+ * Tool calls held back by a pause. With clarifications the user picks devices, otherwise approves or rejects.
+ */
+interface HeldToolCalls {
+  calls: ToolCall[]
+  clarifications: DeviceClarification[]
+}
+
+/**
+ * What to do with a held call on resume: run it, skip it, or re-plan it for the selected devices
+ */
+type ToolCallDecision = PendingActionDecision | { selectedDevices: Array<Omit<DeviceCandidate, 'score' | 'reason'>> }
+
+interface DeviceResolution {
+  matchedDevices: Device[]
+  deviceContext: string
+  clarifications: DeviceClarification[] // names that did not clearly point at one device
 }
 
 export class ChatService {
-  private async resolveDeviceIdentifiers(message: string): Promise<{ matchedDevices: any[], deviceContext: string }> {
+  private async resolveDeviceIdentifiers(message: string, bypassCache = false): Promise<DeviceResolution> {
     try {
       // Extract potential device identifiers from the message
-      const ipAddresses = this.extractIPAddresses(message)
+      const addressSelectors = parseAddressSelectors(message)
       const deviceNames = this.extractDeviceNames(message)
       const keywords = this.extractKeywords(message)
       
       logger.info('Extracted device identifiers', {
-        ipAddresses,
+        addressSelectors: addressSelectors.map(selector => `${selector.kind}:${selector.text}`),
         deviceNames,
         keywords,
-        message
+        messageLength: message.length
       })
       
       // Skip resolution if no identifiers found
-      if (ipAddresses.length === 0 && deviceNames.length === 0 && keywords.length === 0) {
-        return { matchedDevices: [], deviceContext: '' }
+      if (addressSelectors.length === 0 && deviceNames.length === 0 && keywords.length === 0) {
+        return { matchedDevices: [], deviceContext: '', clarifications: [] }
       }
       
-      // Get all devices to have a complete list
-      const devicesResult = await mcpService.executeTool({
-        id: 'list-devices-resolution',
-        type: 'function',
-        function: {
-          name: 'list_devices',
-          arguments: '{}'
-        }
-      }) as DeviceResolutionResult
-      
-      if (!devicesResult.success || !devicesResult.data) {
-        logger.warn('Device resolution failed - no data returned')
-        return { matchedDevices: [], deviceContext: '' }
+      await deviceIndexService.ensureFresh(bypassCache)
+      if (!deviceIndexService.getServiceStatus().loaded) {
+        return { matchedDevices: [], deviceContext: '', clarifications: [] }
       }
-      
-      // Handle different response structures
-      let allDevices: any[] = []
-      const dataResponse = devicesResult.data
-      
-      // Log the actual structure for debugging
-      logger.info('Device resolution - raw data structure', {
-        devicesResultType: typeof devicesResult,
-        dataResponseType: typeof dataResponse,
-        dataResponseKeys: dataResponse && typeof dataResponse === 'object' ? Object.keys(dataResponse) : 'N/A',
-        dataResponseIsArray: Array.isArray(dataResponse),
-        dataResponseLength: Array.isArray(dataResponse) ? dataResponse.length : 'N/A',
-        ipAddresses,
-        message
-      })
-      
-      if (dataResponse && typeof dataResponse === 'object' && 'data' in dataResponse && dataResponse.data && Array.isArray((dataResponse as any).data.data)) {
-        allDevices = (dataResponse as any).data.data
-        logger.info('Device resolution - using data.data.data structure', { count: allDevices.length })
-      } else if (Array.isArray(dataResponse)) {
-        allDevices = dataResponse
-        logger.info('Device resolution - using direct array structure', { count: allDevices.length })
-      } else if (dataResponse && typeof dataResponse === 'object') {
-        // Handle nested data structure
-        if (dataResponse.data && Array.isArray(dataResponse.data)) {
-          allDevices = dataResponse.data
-          logger.info('Device resolution - using data array structure', { count: allDevices.length })
-        } else if (dataResponse.result && Array.isArray(dataResponse.result)) {
-          allDevices = dataResponse.result
-          logger.info('Device resolution - using result array structure', { count: allDevices.length })
-        } else {
-          logger.warn('Device resolution failed - unexpected object structure', { 
-            structure: typeof dataResponse, 
-            keys: Object.keys(dataResponse),
-            hasData: !!dataResponse.data,
-            hasResult: !!dataResponse.result,
-            dataType: typeof dataResponse.data
-          })
-          return { matchedDevices: [], deviceContext: '' }
+
+      // Addresses, CIDR blocks, ranges and wildcards match by numeric containment
+      const selectorMatches = addressSelectors.map(selector => ({
+        selector,
+        matches: deviceIndexService.selectByAddress(selector)
+      }))
+
+      const nameMatches = deviceNames.map(name => ({
+        name,
+        matches: deviceIndexService.search(name, { fields: ['Name', 'Address'] })
+      }))
+
+      // A name should point at one device; selectors and vendor keywords are meant to cover many
+      const clarifications = nameMatches
+        .map(({ name, matches }) => deviceIndexService.assessAmbiguity(name, matches))
+        .filter((clarification): clarification is DeviceClarification => clarification !== null)
+
+      const matches: DeviceMatch[] = [
+        ...selectorMatches.flatMap(({ matches }) => matches),
+        ...nameMatches.flatMap(({ matches }) => matches),
+        // Manufacturer and device-type keywords (cisco, firewall, ...) live in the plugin name and asset fields
+        ...keywords.flatMap(keyword => deviceIndexService.search(keyword, { fields: ['PluginName', 'AssetFields'] }))
+      ]
+
+      // Keep each device once, with its best match, best matches first
+      const bestMatches = new Map<string, DeviceMatch>()
+      for (const match of matches) {
+        const key = `${match.device.Server || ''}:${match.device.ID}`
+        const current = bestMatches.get(key)
+        if (!current || match.score > current.score) {
+          bestMatches.set(key, match)
         }
-      } else {
-        logger.warn('Device resolution failed - unexpected data structure', { 
-          structure: typeof dataResponse,
-          isArray: Array.isArray(dataResponse),
-          isNull: dataResponse === null,
-          isUndefined: dataResponse === undefined
-        })
-        return { matchedDevices: [], deviceContext: '' }
-      }
-      
-      if (!Array.isArray(allDevices)) {
-        logger.warn('Device resolution failed - devices is not an array')
-        return { matchedDevices: [], deviceContext: '' }
       }
-      
-      logger.info('Device resolution - analyzing devices', {
-        totalDevices: allDevices.length,
-        message
-      })
-      
-      logger.info('Device resolution - analyzing devices', {
-        totalDevices: allDevices.length,
-        message
-      })
-      
-      const matchedDevices: any[] = []
-      
-      // Match by IP addresses (exact match)
-      for (const ip of ipAddresses) {
-        const matches = allDevices.filter((device: any) => {
-          const deviceIP = device.Address || ''
-          const exactMatch = deviceIP === ip
-          const containsMatch = deviceIP.includes(ip) || ip.includes(deviceIP)
-          
-          if (exactMatch || containsMatch) {
-            logger.info('Found IP match', { ip, deviceIP, deviceName: device.Name, matchType: exactMatch ? 'exact' : 'contains' })
-            return true
-          }
-          return false
-        })
-        matchedDevices.push(...matches)
-      }
-      
-      // Match by device names (exact or partial)
-      for (const name of deviceNames) {
-        const matches = allDevices.filter((device: any) => {
-          const deviceName = device.Name || ''
-          const deviceNameLower = deviceName.toLowerCase()
-          const nameLower = name.toLowerCase()
-          
-          if (deviceNameLower.includes(nameLower) || nameLower.includes(deviceNameLower)) {
-            logger.info('Found name match', { name, deviceName })
-            return true
-          }
-          return false
-        })
-        matchedDevices.push(...matches)
-      }
-      
-      // Match by keywords (manufacturer, device type, etc.)
-      for (const keyword of keywords) {
-        const matches = allDevices.filter((device: any) => {
-          const pluginName = device.PluginName || ''
-          const pluginNameLower = pluginName.toLowerCase()
-          const keywordLower = keyword.toLowerCase()
-          
-          if (pluginNameLower.includes(keywordLower)) {
-            logger.info('Found keyword match', { keyword, pluginName })
-            return true
-          }
-          
-          // Check asset fields
-          const assetFields = device.AssetFields || []
-          const hasAssetMatch = assetFields.some((field: any) => {
-            const fieldValue = field.Value || ''
-            return fieldValue.toLowerCase().includes(keywordLower)
-          })
-          
-          if (hasAssetMatch) {
-            logger.info('Found asset keyword match', { keyword, deviceName: device.Name })
-            return true
-          }
-          
-          return false
-        })
-        matchedDevices.push(...matches)
-      }
-      
-      // Remove duplicates
-      const uniqueDevices = matchedDevices.filter((device: any, index, self) =>
-        index === self.findIndex((d: any) => d.ID === device.ID)
-      )
+      const ranked = [...bestMatches.values()].sort((a, b) => b.score - a.score)
+      const uniqueDevices = ranked.map(match => match.device)
       
       logger.info('Device resolution completed', {
         matchedCount: uniqueDevices.length,
-        matchedDevices: uniqueDevices.map(d => ({ id: d.ID, name: d.Name, ip: d.Address }))
+        matchedDevices: ranked.map(m => ({
+          id: m.device.ID,
+          name: m.device.Name,
+          ip: m.device.Address,
+          score: m.score,
+          reason: m.reason,
+          field: m.field
+        }))
       })
       
       // Create device context for AI
       let deviceContext = ''
-      if (uniqueDevices.length > 0) {
-        deviceContext = `\n\n## Device Matches Found:\n`
-        uniqueDevices.forEach(device => {
-          deviceContext += `- ${device.Name} (ID: ${device.ID}, IP: ${device.Address}, Type: ${device.PluginName})\n`
+      if (ranked.length > 0 || addressSelectors.length > 0) {
+        deviceContext = `\n\n## Device Matches Found (best match first):\n`
+        // Selectors that expand to many devices get a count, so the model knows the full scope
+        selectorMatches
+          .filter(({ selector }) => selector.kind !== 'address')
+          .forEach(({ selector, matches }) => {
+            deviceContext += `- Selector ${selector.text} (${selector.kind}) covers ${matches.length} device(s)\n`
+          })
+        ranked.slice(0, MAX_CONTEXT_DEVICES).forEach(({ device, reason, field, term, score }) => {
+          const server = device.Server ? `, Server: ${device.Server}` : ''
+          deviceContext += `- ${device.Name} (ID: ${device.ID}, IP: ${device.Address}, Type: ${device.PluginName}${server}) - ${reason} ${field} match for "${term}", score ${score.toFixed(2)}\n`
         })
-        deviceContext += `\nUse these device IDs for any operations: ${uniqueDevices.map(d => d.ID).join(', ')}\n`
+        if (ranked.length > MAX_CONTEXT_DEVICES) {
+          deviceContext += `- ... and ${ranked.length - MAX_CONTEXT_DEVICES} more\n`
+        }
+        if (uniqueDevices.length > 0) {
+          deviceContext += `\nUse these device IDs for any operations: ${uniqueDevices.map(d => d.ID).join(', ')}\n`
+        }
+        if (clarifications.length > 0) {
+          deviceContext += `\n## Ambiguous Device References:\n`
+          clarifications.forEach(({ term, candidates }) => {
+            deviceContext += `- "${term}" could be ${candidates.map(c => `${c.name} (ID: ${c.id})`).join(', ')}\n`
+          })
+          deviceContext += `Do not guess between these devices - write operations on them wait for the user to choose.\n`
+        }
       }
       
-      return { matchedDevices: uniqueDevices, deviceContext }
+      return { matchedDevices: uniqueDevices, deviceContext, clarifications }
       
     } catch (error: any) {
       logger.error('Error resolving device identifiers', { error: error.message, stack: error.stack })
-      return { matchedDevices: [], deviceContext: '' }
+      return { matchedDevices: [], deviceContext: '', clarifications: [] }
     }
   }
-  
-  private extractIPAddresses(message: string): string[] {
-    // Match IPv4 addresses (simple regex)
-    const ipRegex = /\b(?:[0-9]{1,3}\.){3}[0-9]{1,3}\b/g
-    const matches = message.match(ipRegex) || []
-    return [...new Set(matches)] // Remove duplicates
-  }
-  
+
   private extractDeviceNames(message: string): string[] {
     // Extract quoted device names first
     const quotedNames = message.match(/"([^"]+)"/g) || []
@@ -269,28 +286,71 @@ export class ChatService {
     return foundKeywords
   }
 
-  async processMessage(request: ChatRequest): Promise<ChatResult> {
+  /**
+   * Run one chat turn. When onEvent is given, progress is reported as it happens
+   * (streamed tokens, tool calls, tool results and round boundaries).
+   */
+  async processMessage(request: ChatRequest, onEvent?: ChatEventListener): Promise<ChatResult> {
+    return tracingService.withSpan('chat.turn', {
+      attributes: {
+        'chat.session_id': request.sessionId,
+        'enduser.id': request.principal?.id,
+        'chat.message_length': request.message.length
+      }
+    }, async span => {
+      const result = await this.runTurn(request, onEvent)
+      this.traceResult(span, result)
+      return result
+    })
+  }
+
+  private async runTurn(request: ChatRequest, onEvent?: ChatEventListener): Promise<ChatResult> {
     const startTime = Date.now()
     
     try {
       logger.info('Processing chat message', {
         sessionId: request.sessionId,
+        principal: request.principal?.id,
         messageLength: request.message.length,
         hasHistory: !!(request.conversationHistory?.length)
       })
 
+      // The first principal to use a session ID owns it - nobody else may continue that conversation
+      const principal = request.principal || ANONYMOUS_PRINCIPAL
+      if (!await conversationStore.claimSession(request.sessionId, principal.id)) {
+        throw new SessionAccessError(request.sessionId)
+      }
+
+      // Load prior turns from the conversation store unless the caller supplied them
+      const conversationHistory = request.conversationHistory
+        || await this.getSessionHistory(request.sessionId)
+
       // Validate topic first
       const topicValidation = zaiService.validateTopic(request.message)
       if (!topicValidation.isValid) {
-        return {
+        const rejection: ChatResult = {
           response: topicValidation.reason || 'I can only help with Restorepoint network management topics. Please ask about devices, backups, commands, or network status.',
           sessionId: request.sessionId,
-          toolsUsed: []
+          toolsUsed: [],
+          stopReason: 'off_topic'
         }
+        metricsService.observeTurn('off_topic', Date.now() - startTime, 0)
+        this.emit(onEvent, { type: 'final', result: rejection })
+        return rejection
       }
 
+      // Refuse sessions that already spent their token budget
+      usageService.assertWithinBudget(request.sessionId)
+
       // Resolve device identifiers from user message
-      const { matchedDevices, deviceContext } = await this.resolveDeviceIdentifiers(request.message)
+      const { matchedDevices, deviceContext, clarifications } = await tracingService.withSpan('chat.resolve_devices', {}, async span => {
+        const resolution = await this.resolveDeviceIdentifiers(request.message, request.bypassCache)
+        span.setAttributes({
+          'chat.devices.matched': resolution.matchedDevices.length,
+          'chat.devices.ambiguous': resolution.clarifications.length
+        })
+        return resolution
+      })
       
       logger.info('Device resolution completed', {
         sessionId: request.sessionId,
@@ -299,215 +359,994 @@ export class ChatService {
         deviceIds: matchedDevices.map(d => d.ID)
       })
 
+      // Follow-up references ("it", "the other two") resolve against what earlier turns touched
+      const workingSetContext = workingSetService.buildContext(request.sessionId, request.message)
+      workingSetService.beginTurn(request.sessionId)
+      workingSetService.recordMentionedDevices(request.sessionId, matchedDevices)
+
       // Enhance user message with device context for AI
       let enhancedMessage = request.message
       if (deviceContext) {
         enhancedMessage += deviceContext
       }
+      if (workingSetContext) {
+        enhancedMessage += workingSetContext
+      }
+
+      const state: TurnState = {
+        sessionId: request.sessionId,
+        userMessage: request.message,
+        clockStartedAt: startTime,
+        elapsedMs: 0,
+        historyLength: conversationHistory.length,
+        history: [...conversationHistory],
+        toolsUsed: [],
+        executionResults: [],
+        executionRound: 1,
+        usageByRound: [],
+        tokensUsed: 0,
+        // The turn may not spend more than the session has left
+        tokenBudget: Math.min(config.MAX_TURN_TOKENS, usageService.getRemainingBudget(request.sessionId)),
+        toolCallCounts: {},
+        lastContent: '',
+        signal: request.signal,
+        bypassCache: request.bypassCache === true,
+        principal,
+        ownerId: principal.id,
+        clientAddress: request.clientAddress,
+        roles: policyService.resolveRoles(request.principal?.roles),
+        deviceClarifications: clarifications
+      }
 
       // Get AI response with potential tool calls
       const aiResponse = await zaiService.sendMessage(
         enhancedMessage,
-        request.conversationHistory || []
+        conversationHistory,
+        this.createSendOptions(state, onEvent)
       )
 
-      const toolsUsed: string[] = []
-      const executionResults: any[] = []
-      let finalResponse = aiResponse.content
-      let executionRound = 1  // Move declaration outside the if block
+      this.recordUsage(state, aiResponse.usage)
+      state.lastContent = aiResponse.content
+      state.history.push(
+        { role: 'user' as const, content: request.message },
+        { role: 'assistant' as const, content: aiResponse.content, tool_calls: aiResponse.tool_calls }
+      )
 
-      // Execute tool calls if any
       if (aiResponse.tool_calls && aiResponse.tool_calls.length > 0) {
         logger.info('Processing tool calls', {
           toolCount: aiResponse.tool_calls.length,
           tools: aiResponse.tool_calls.map(t => t.function.name)
         })
+      }
 
-        const updatedHistory = [
-          ...(request.conversationHistory || []),
-          { role: 'user' as const, content: request.message },
-          { role: 'assistant' as const, content: aiResponse.content, tool_calls: aiResponse.tool_calls }
-        ]
-
-        // Execute each tool call
-        for (const toolCall of aiResponse.tool_calls) {
-          try {
-            toolsUsed.push(toolCall.function.name)
-            
-            const result = await mcpService.executeTool(toolCall)
-            executionResults.push({
-              toolName: toolCall.function.name,
-              success: true,
-              result
-            })
-
-            // Add tool result to conversation history
-            updatedHistory.push({
-              role: 'tool' as const,
-              tool_call_id: toolCall.id,
-              content: JSON.stringify(result)
-            })
-
-            logger.info('Tool execution successful', {
-              toolName: toolCall.function.name,
-              resultSize: JSON.stringify(result).length
-            })
-
-          } catch (error: any) {
-            logger.error('Tool execution failed', {
-              toolName: toolCall.function.name,
-              error: error.message
-            })
-
-            executionResults.push({
-              toolName: toolCall.function.name,
-              success: false,
-              error: error.message
-            })
-
-            // Add error result to conversation history
-            updatedHistory.push({
-              role: 'tool' as const,
-              tool_call_id: toolCall.id,
-              content: JSON.stringify({ error: error.message })
-            })
-          }
+      return await this.runToolLoop(state, aiResponse.tool_calls || [], onEvent)
+
+    } catch (error: any) {
+      const processingTime = Date.now() - startTime
+      
+      logger.error('Chat message processing failed', {
+        sessionId: request.sessionId,
+        error: error.message,
+        stack: error.stack,
+        processingTimeMs: processingTime
+      })
+      metricsService.observeTurn('error', processingTime, 0)
+
+      this.emit(onEvent, { type: 'error', message: error.message })
+      if (error instanceof SessionBudgetExceededError || error instanceof SessionAccessError) {
+        throw error
+      }
+      throw new Error(`Chat processing failed: ${error.message}`)
+    }
+  }
+
+  /**
+   * Approve or reject a paused destructive action and resume the turn it belongs to
+   */
+  async resolvePendingAction(
+    actionId: string,
+    decision: PendingActionDecision,
+    sessionId: string,
+    principal: Principal = ANONYMOUS_PRINCIPAL,
+    clientAddress?: string
+  ): Promise<ChatResult> {
+    // Throws PendingActionError when the action is unknown, expired or foreign
+    if (pendingActionService.get(actionId, sessionId, principal).kind !== 'confirmation') {
+      throw new PendingActionError('INVALID_RESOLUTION', `Pending action ${actionId} needs a device selection, not approval`)
+    }
+    const record = pendingActionService.take(actionId, sessionId, principal)
+    const state = this.prepareResume(record.state as TurnState, principal, clientAddress)
+
+    logger.info('Pending action resolved', {
+      actionId,
+      decision,
+      sessionId: state.sessionId,
+      principal: state.principal.id,
+      tools: record.toolCalls.map(t => t.function.name)
+    })
+
+    const decisions = new Map<string, ToolCallDecision>(record.toolCalls.map(call => [call.id, decision]))
+    return this.resumeTurn(actionId, state, record.toolCalls, decisions)
+  }
+
+  /**
+   * Resume a turn that was paused for an ambiguous device with the devices the user picked.
+   * The held calls are not run - the model is told the selection and re-issues them for those devices.
+   */
+  async resolveClarification(
+    actionId: string,
+    deviceIds: string[],
+    sessionId: string,
+    principal: Principal = ANONYMOUS_PRINCIPAL,
+    clientAddress?: string
+  ): Promise<ChatResult> {
+    const payload = pendingActionService.get(actionId, sessionId, principal)
+    if (payload.kind !== 'clarification') {
+      throw new PendingActionError('INVALID_RESOLUTION', `Pending action ${actionId} does not ask for a device selection`)
+    }
+
+    const candidates = new Map((payload.clarifications || [])
+      .flatMap(clarification => clarification.candidates)
+      .map(candidate => [candidate.id, candidate]))
+    const unknown = deviceIds.filter(id => !candidates.has(id))
+    if (deviceIds.length === 0 || unknown.length > 0) {
+      throw new PendingActionError('INVALID_RESOLUTION', unknown.length > 0
+        ? `Devices ${unknown.join(', ')} were not offered for pending action ${actionId}`
+        : 'Select at least one device')
+    }
+
+    const record = pendingActionService.take(actionId, sessionId, principal)
+    const state = this.prepareResume(record.state as TurnState, principal, clientAddress)
+    const resolvedTerms = new Set((payload.clarifications || []).map(clarification => clarification.term))
+    state.deviceClarifications = state.deviceClarifications.filter(clarification => !resolvedTerms.has(clarification.term))
+
+    const selectedDevices = deviceIds.map(id => {
+      const { score, reason, ...device } = candidates.get(id)!
+      return device
+    })
+
+    logger.info('Device clarification resolved', {
+      actionId,
+      sessionId: state.sessionId,
+      principal: state.principal.id,
+      terms: [...resolvedTerms],
+      selectedDeviceIds: deviceIds
+    })
+
+    const decisions = new Map<string, ToolCallDecision>(record.toolCalls.map(call => [call.id, { selectedDevices }]))
+    return this.resumeTurn(actionId, state, record.toolCalls, decisions)
+  }
+
+  /**
+   * Reset the clock, signal and budget of a turn coming back from a pause.
+   * The rest of the turn runs as - and with the roles of - whoever resumed it.
+   */
+  private prepareResume(state: TurnState, principal: Principal, clientAddress?: string): TurnState {
+    // Time spent waiting for a human does not count against the turn duration limit
+    state.clockStartedAt = Date.now()
+    state.signal = undefined // the request that started the turn is long gone
+    state.principal = principal
+    state.clientAddress = clientAddress
+    state.roles = policyService.resolveRoles(principal.roles)
+    state.tokenBudget = Math.min(
+      state.tokenBudget,
+      state.tokensUsed + usageService.getRemainingBudget(state.sessionId)
+    )
+    return state
+  }
+
+  private async resumeTurn(
+    actionId: string,
+    state: TurnState,
+    toolCalls: ToolCall[],
+    decisions: Map<string, ToolCallDecision>
+  ): Promise<ChatResult> {
+    try {
+      return await tracingService.withSpan('chat.resume', {
+        attributes: {
+          'chat.session_id': state.sessionId,
+          'chat.pending_action_id': actionId,
+          'enduser.id': state.principal.id
+        }
+      }, async span => {
+        const result = await this.runToolLoop(state, toolCalls, undefined, decisions)
+        this.traceResult(span, result)
+        return result
+      })
+
+    } catch (error: any) {
+      logger.error('Resumed chat turn failed', {
+        actionId,
+        sessionId: state.sessionId,
+        error: error.message,
+        stack: error.stack
+      })
+
+      throw new Error(`Chat processing failed: ${error.message}`)
+    }
+  }
+
+  /**
+   * Execute tool rounds until the model stops asking for tools or a destructive call needs confirmation
+   */
+  private async runToolLoop(
+    state: TurnState,
+    toolCalls: ToolCall[],
+    onEvent?: ChatEventListener,
+    decisions: Map<string, ToolCallDecision> = new Map()
+  ): Promise<ChatResult> {
+    const sendOptions = this.createSendOptions(state, onEvent)
+    let pendingCalls = toolCalls
+
+    // Multi-round tool execution loop - continue while AI generates tool calls
+    while (pendingCalls.length > 0) {
+      const exceeded = this.findExceededLimit(state, pendingCalls)
+      if (exceeded) {
+        return this.stopTurn(state, pendingCalls, exceeded, onEvent)
+      }
+
+      const held = await tracingService.withSpan('chat.tool_round', {
+        attributes: {
+          'chat.round': state.executionRound,
+          'chat.tool_calls': pendingCalls.length
         }
+      }, () => this.executeToolRound(pendingCalls, state, onEvent, decisions))
+      if (held) {
+        return this.pauseTurn(state, held, onEvent)
+      }
+
+      if (state.signal?.aborted) {
+        return this.stopTurn(state, [], { reason: 'cancelled', detail: 'the request was cancelled' }, onEvent)
+      }
+
+      logger.info('Tool execution round completed', {
+        executionRound: state.executionRound,
+        sessionId: state.sessionId,
+        toolsUsedThisRound: state.toolsUsed.length
+      })
+      this.emit(onEvent, { type: 'round_completed', round: state.executionRound, toolsUsed: [...state.toolsUsed] })
+      state.executionRound++
+
+      // Don't spend another completion once the time or token budget is gone
+      const budgetExceeded = this.findExceededLimit(state, [])
+      if (budgetExceeded) {
+        return this.stopTurn(state, [], budgetExceeded, onEvent)
+      }
+
+      // Ask AI to process tool results and possibly generate more tool calls.
+      // The tools have already run, so if the LLM is gone keep their results rather than failing the turn.
+      let nextAiResponse: ChatResponse
+      try {
+        nextAiResponse = await zaiService.sendMessage(
+          'Based on the tool results, continue executing any necessary tools. If all required work is done, provide a summary.',
+          state.history,
+          { ...sendOptions, round: state.executionRound }
+        )
+      } catch (error: any) {
+        return this.stopTurn(state, [], {
+          reason: 'llm_unavailable',
+          detail: `the language model could not be reached (${error.message})`
+        }, onEvent)
+      }
+
+      // Add AI response to history
+      state.history.push({
+        role: 'assistant' as const,
+        content: nextAiResponse.content,
+        tool_calls: nextAiResponse.tool_calls
+      })
+      state.lastContent = nextAiResponse.content || state.lastContent
+      this.recordUsage(state, nextAiResponse.usage)
+
+      pendingCalls = nextAiResponse.tool_calls || []
+      if (pendingCalls.length > 0) {
+        logger.info('Processing additional tool calls', {
+          executionRound: state.executionRound,
+          toolCount: pendingCalls.length,
+          tools: pendingCalls.map(t => t.function.name)
+        })
+      }
+    }
+
+    return this.completeTurn(state, onEvent)
+  }
+
+  /**
+   * Execute every tool call of one round, recording results in the turn history.
+   * Returns the calls that were held back for confirmation or device selection, or null when the round finished.
+   */
+  private async executeToolRound(
+    toolCalls: ToolCall[],
+    state: TurnState,
+    onEvent: ChatEventListener | undefined,
+    decisions: Map<string, ToolCallDecision>
+  ): Promise<HeldToolCalls | null> {
+    const { executionRound, history, toolsUsed, executionResults } = state
 
-        // Multi-round tool execution loop - continue while AI generates tool calls
-        let nextAiResponse: any
+    for (const [index, toolCall] of toolCalls.entries()) {
+      const decision = decisions.get(toolCall.id)
+      const { tool } = mcpService.parseToolName(toolCall.function.name)
+
+      // Hold this call and everything after it until a human decides - unless the policy refuses it anyway
+      if (!decision && policyService.evaluate(state.roles, toolCall.function.name, toolCall.function.arguments).allowed) {
+        const clarifications = pendingActionService.isWrite(tool) ? this.findUnclearTargets(toolCall, state) : []
+        if (clarifications.length > 0 || pendingActionService.isDestructive(tool)) {
+          return { calls: toolCalls.slice(index), clarifications }
+        }
+      }
+
+      if (typeof decision === 'object') {
+        const error = 'Not executed - the target device was ambiguous and the user has now selected the devices to use'
+        executionResults.push({
+          toolName: toolCall.function.name,
+          success: false,
+          error
+        })
+        history.push({
+          role: 'tool' as const,
+          tool_call_id: toolCall.id,
+          content: JSON.stringify({
+            error,
+            selectedDevices: decision.selectedDevices,
+            instruction: 'Re-issue this operation for exactly the selected device IDs'
+          })
+        })
+        continue
+      }
+
+      if (decision === 'reject') {
+        const error = 'Rejected by user - the operation was not executed'
+        executionResults.push({
+          toolName: toolCall.function.name,
+          success: false,
+          error
+        })
+        history.push({
+          role: 'tool' as const,
+          tool_call_id: toolCall.id,
+          content: JSON.stringify({ error, rejected: true })
+        })
+        this.audit(state, toolCall, { status: 'rejected', durationMs: 0, error: { message: error } })
+        continue
+      }
+
+      this.emit(onEvent, {
+        type: 'tool_call_started',
+        round: executionRound,
+        toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
+        arguments: redactor.redactToolArguments(toolCall.function.name, toolCall.function.arguments)
+      })
+
+      const callStartedAt = Date.now()
+      try {
+        toolsUsed.push(toolCall.function.name)
+        const signature = this.toolCallSignature(toolCall)
+        state.toolCallCounts[signature] = (state.toolCallCounts[signature] || 0) + 1
         
-        do {
-          logger.info('Tool execution round completed', {
+        const { server } = mcpService.parseToolName(toolCall.function.name)
+        const result = await tracingService.withSpan('chat.tool_call', {
+          attributes: {
+            'tool.name': toolCall.function.name,
+            'tool.server': server || undefined,
+            'tool.call_id': toolCall.id,
+            'chat.round': executionRound
+          }
+        }, async (span): Promise<McpResult> => {
+          const outcome = await this.dispatchToolCall(toolCall, state)
+          span.setAttributes({ 'tool.success': outcome.success, 'tool.error_code': outcome.error?.code })
+          if (!outcome.success) {
+            span.setStatus({ code: SpanStatusCode.ERROR, message: outcome.error?.message })
+          }
+          return outcome
+        })
+        this.audit(state, toolCall, {
+          status: result.success ? 'success' : ['POLICY_DENIED', 'RATE_LIMITED'].includes(result.error?.code || '') ? 'denied' : 'error',
+          durationMs: Date.now() - callStartedAt,
+          error: result.error && { code: result.error.code, message: result.error.message },
+          mcp: result.metadata
+        })
+        if (toolCall.function.name === RESOLVE_DEVICES_TOOL && result.success) {
+          this.recordResolvedAmbiguity(state, result.data as ResolveDevicesResult)
+        }
+        workingSetService.recordToolCall(state.sessionId, toolCall.function.name, toolCall.function.arguments, result)
+        // Backups and commands run on after the call returns - watch them and tell the session when they finish
+        taskTrackerService.registerFromResult(state.sessionId, state.ownerId, toolCall.function.name, toolCall.function.arguments, result)
+        // The model gets the full result; anything shown in the browser has secrets masked
+        const visibleResult = redactor.redact(result)
+        executionResults.push({
+          toolName: toolCall.function.name,
+          success: result.success,
+          result: visibleResult,
+          ...(visibleResult.error && { error: visibleResult.error.message })
+        })
+
+        // Add tool result to conversation history
+        history.push({
+          role: 'tool' as const,
+          tool_call_id: toolCall.id,
+          content: JSON.stringify(result)
+        })
+
+        if (result.success) {
+          logger.info('Tool execution successful', {
             executionRound,
-            sessionId: request.sessionId,
-            toolsUsedThisRound: toolsUsed.length
+            toolName: toolCall.function.name,
+            principal: state.principal.id,
+            resultSize: JSON.stringify(result).length
           })
-
-          // Ask AI to process tool results and possibly generate more tool calls
-          nextAiResponse = await zaiService.sendMessage(
-            'Based on the tool results, continue executing any necessary tools. If all required work is done, provide a summary.',
-            updatedHistory
-          )
-
-          // Add AI response to history
-          updatedHistory.push({
-            role: 'assistant' as const,
-            content: nextAiResponse.content,
-            tool_calls: nextAiResponse.tool_calls
+        } else {
+          logger.warn('Tool execution returned an error', {
+            executionRound,
+            toolName: toolCall.function.name,
+            principal: state.principal.id,
+            errorCode: visibleResult.error?.code,
+            error: visibleResult.error?.message
           })
+        }
 
-          // Execute new tool calls if any
-          if (nextAiResponse.tool_calls && nextAiResponse.tool_calls.length > 0) {
-            logger.info('Processing additional tool calls', {
-              executionRound,
-              toolCount: nextAiResponse.tool_calls.length,
-              tools: nextAiResponse.tool_calls.map((t: any) => t.function.name)
-            })
-
-            for (const toolCall of nextAiResponse.tool_calls) {
-              try {
-                toolsUsed.push(toolCall.function.name)
-                
-                const result = await mcpService.executeTool(toolCall)
-                executionResults.push({
-                  toolName: toolCall.function.name,
-                  success: true,
-                  result
-                })
-
-                // Add tool result to conversation history
-                updatedHistory.push({
-                  role: 'tool' as const,
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify(result)
-                })
-
-                logger.info('Tool execution successful', {
-                  executionRound,
-                  toolName: toolCall.function.name,
-                  resultSize: JSON.stringify(result).length
-                })
-
-              } catch (error: any) {
-                logger.error('Tool execution failed', {
-                  executionRound,
-                  toolName: toolCall.function.name,
-                  error: error.message
-                })
-
-                executionResults.push({
-                  toolName: toolCall.function.name,
-                  success: false,
-                  error: error.message
-                })
-
-                // Add error result to conversation history
-                updatedHistory.push({
-                  role: 'tool' as const,
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify({ error: error.message })
-                })
-              }
-            }
+        this.emit(onEvent, {
+          type: 'tool_result',
+          round: executionRound,
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          success: result.success,
+          result: visibleResult,
+          error: visibleResult.error?.message
+        })
+
+      } catch (error: any) {
+        this.audit(state, toolCall, { status: 'error', durationMs: Date.now() - callStartedAt, error: { message: error.message } })
+        logger.error('Tool execution failed', {
+          executionRound,
+          toolName: toolCall.function.name,
+          error: error.message
+        })
+
+        executionResults.push({
+          toolName: toolCall.function.name,
+          success: false,
+          error: error.message
+        })
+
+        // Add error result to conversation history
+        history.push({
+          role: 'tool' as const,
+          tool_call_id: toolCall.id,
+          content: JSON.stringify({ error: error.message })
+        })
+
+        this.emit(onEvent, {
+          type: 'tool_result',
+          round: executionRound,
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          success: false,
+          error: error.message
+        })
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Park the turn until the held tool calls are approved or rejected, or the ambiguous devices are chosen
+   */
+  private async pauseTurn(
+    state: TurnState,
+    held: HeldToolCalls,
+    onEvent?: ChatEventListener
+  ): Promise<ChatResult> {
+    const { calls: heldCalls, clarifications } = held
+    const clarifying = clarifications.length > 0
+    const actions = await this.describePendingActions(heldCalls, state.bypassCache)
+    state.elapsedMs += Date.now() - state.clockStartedAt
+    const pendingAction = pendingActionService.create(
+      state.sessionId,
+      state.ownerId,
+      heldCalls,
+      actions,
+      state,
+      clarifying ? clarifications : undefined
+    )
+
+    let response: string
+    if (clarifying) {
+      const choices = clarifications
+        .map(({ term, candidates }) =>
+          `- "${term}" could be ${candidates.map(c => `${c.name || c.id} (${c.address || c.id})`).join(', ')}`)
+        .join('\n')
+      response = `Which device did you mean? These names match more than one device, or none clearly:\n${choices}\n\nSelect the devices to continue.`
+    } else {
+      const summary = actions
+        .filter(action => action.destructive)
+        .map(action => {
+          const targets = action.devices.map(d => d.name ? `${d.name} (${d.id})` : d.id).join(', ')
+          return `- ${action.toolName}${targets ? ` on ${targets}` : ''}`
+        })
+        .join('\n')
+      response = `The following operations need your confirmation before they run:\n${summary}\n\nApprove or reject the pending action to continue.`
+    }
+
+    const result: ChatResult = {
+      response,
+      sessionId: state.sessionId,
+      toolsUsed: state.toolsUsed,
+      usage: this.summarizeUsage(state),
+      usageByRound: state.usageByRound,
+      executionResults: state.executionResults,
+      pendingAction,
+      stopReason: clarifying ? 'needs_clarification' : 'pending_confirmation'
+    }
+
+    logger.info(clarifying ? 'Chat turn paused for device selection' : 'Chat turn paused for confirmation', {
+      sessionId: state.sessionId,
+      principal: state.principal.id,
+      actionId: pendingAction.id,
+      executionRound: state.executionRound,
+      heldTools: heldCalls.map(t => t.function.name)
+    })
+
+    this.emit(onEvent, { type: 'final', result })
+    return result
+  }
+
+  /**
+   * Names the model resolved to several devices guard later write calls just like ambiguous names in the message
+   */
+  private recordResolvedAmbiguity(state: TurnState, result: ResolveDevicesResult | undefined): void {
+    const known = new Set(state.deviceClarifications.map(clarification => clarification.term))
+    for (const clarification of result?.ambiguous || []) {
+      if (!known.has(clarification.term)) {
+        known.add(clarification.term)
+        state.deviceClarifications.push(clarification)
+      }
+    }
+  }
+
+  /**
+   * Ambiguous names whose candidates include a device this call would act on
+   */
+  private findUnclearTargets(toolCall: ToolCall, state: TurnState): DeviceClarification[] {
+    if (!state.deviceClarifications || state.deviceClarifications.length === 0) {
+      return []
+    }
+
+    let args: Record<string, any> = {}
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}')
+    } catch {
+      return []
+    }
+
+    const targets = new Set(this.targetDeviceIds(args))
+    return state.deviceClarifications.filter(({ candidates }) => candidates.some(c => targets.has(c.id)))
+  }
+
+  private targetDeviceIds(args: Record<string, any>): string[] {
+    return [
+      ...(args.deviceId !== undefined ? [args.deviceId] : []),
+      ...(Array.isArray(args.deviceIds) ? args.deviceIds : [])
+    ].map(String)
+  }
+
+  /**
+   * Build the confirmation payload, resolving device IDs in the arguments to inventory entries
+   */
+  private async describePendingActions(toolCalls: ToolCall[], bypassCache: boolean): Promise<PendingToolAction[]> {
+    const parsed = toolCalls.map(toolCall => {
+      let args: Record<string, any> = {}
+      try {
+        args = JSON.parse(toolCall.function.arguments || '{}')
+      } catch {
+        args = { raw: toolCall.function.arguments }
+      }
+
+      return { toolCall, args, deviceIds: this.targetDeviceIds(args) }
+    })
+
+    const needsInventory = parsed.some(p => p.deviceIds.length > 0)
+    const inventory = needsInventory ? await deviceIndexService.getDevices(bypassCache) || [] : []
+
+    return parsed.map(({ toolCall, args, deviceIds }) => {
+      // Device IDs are only unique within one server
+      const { server, tool } = mcpService.parseToolName(toolCall.function.name)
 
-            executionRound++
+      return {
+        toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
+        arguments: redactor.redactToolArguments(toolCall.function.name, args),
+        destructive: pendingActionService.isDestructive(tool),
+        devices: deviceIds.map(id => {
+          const device = inventory.find(d => d.ID === id && (!server || d.Server === server))
+          return {
+            id,
+            name: device?.Name,
+            address: device?.Address,
+            type: device?.PluginName
           }
+        })
+      }
+    })
+  }
 
-        } while (nextAiResponse.tool_calls && nextAiResponse.tool_calls.length > 0)
+  /**
+   * Persist the finished turn and build the final result
+   */
+  private async completeTurn(
+    state: TurnState,
+    onEvent?: ChatEventListener,
+    stopReason: StopReason = 'completed'
+  ): Promise<ChatResult> {
+    await this.persistTurn(state.sessionId, state.history.slice(state.historyLength))
 
-        finalResponse = nextAiResponse.content || finalResponse
-      } else {
-        // No tool calls were made, so executionRound remains 1
-        executionRound = 1
+    const processingTime = this.elapsedTime(state)
+    
+    const result: ChatResult = {
+      response: state.lastContent,
+      sessionId: state.sessionId,
+      toolsUsed: state.toolsUsed,
+      usage: this.summarizeUsage(state),
+      usageByRound: state.usageByRound,
+      executionResults: state.executionResults,
+      stopReason
+    }
+
+    logger.info('Chat message processed successfully', {
+      sessionId: state.sessionId,
+      principal: state.principal.id,
+      processingTimeMs: processingTime,
+      stopReason,
+      executionRounds: state.executionRound,
+      totalToolsUsed: state.toolsUsed.length,
+      toolsUsed: state.toolsUsed,
+      responseLength: state.lastContent.length,
+      tokensUsed: state.tokensUsed,
+      executionResultsCount: state.executionResults.length
+    })
+    // executionRound is advanced after every finished round
+    metricsService.observeTurn(stopReason, processingTime, state.executionRound - 1)
+    tracingService.activeSpan()?.setAttributes({ 'chat.tool_rounds': state.executionRound - 1 })
+
+    this.emit(onEvent, { type: 'final', result })
+    return result
+  }
+
+  /**
+   * Check the turn against the configured execution limits before running nextCalls
+   */
+  private findExceededLimit(
+    state: TurnState,
+    nextCalls: ToolCall[]
+  ): { reason: LimitStopReason; detail: string } | null {
+    if (this.elapsedTime(state) >= config.MAX_TURN_DURATION_MS) {
+      return {
+        reason: 'timeout',
+        detail: `the turn exceeded its ${Math.round(config.MAX_TURN_DURATION_MS / 1000)}s time limit`
       }
+    }
 
-      const processingTime = Date.now() - startTime
-      
-      const result: ChatResult = {
-        response: finalResponse,
-        sessionId: request.sessionId,
-        toolsUsed,
-        usage: aiResponse.usage,
-        executionResults
+    if (state.tokensUsed >= state.tokenBudget) {
+      return {
+        reason: 'token_budget',
+        detail: `the turn used ${state.tokensUsed} tokens, exceeding its budget of ${state.tokenBudget}`
       }
+    }
 
-      logger.info('Chat message processed successfully', {
-        sessionId: request.sessionId,
-        processingTimeMs: processingTime,
-        executionRounds: executionRound,
-        totalToolsUsed: toolsUsed.length,
-        toolsUsed: toolsUsed,
-        responseLength: finalResponse.length,
-        hasUsage: !!(aiResponse.usage),
-        executionResultsCount: executionResults.length
+    if (nextCalls.length === 0) {
+      return null
+    }
+
+    if (state.executionRound > config.MAX_TOOL_ROUNDS) {
+      return {
+        reason: 'max_rounds',
+        detail: `the turn reached the limit of ${config.MAX_TOOL_ROUNDS} tool rounds`
+      }
+    }
+
+    if (state.toolsUsed.length + nextCalls.length > config.MAX_TOOL_CALLS_PER_TURN) {
+      return {
+        reason: 'max_tool_calls',
+        detail: `the turn would exceed the limit of ${config.MAX_TOOL_CALLS_PER_TURN} tool calls`
+      }
+    }
+
+    const roundCounts: Record<string, number> = {}
+    for (const toolCall of nextCalls) {
+      const signature = this.toolCallSignature(toolCall)
+      roundCounts[signature] = (roundCounts[signature] || 0) + 1
+      if ((state.toolCallCounts[signature] || 0) + roundCounts[signature] > config.MAX_IDENTICAL_TOOL_CALLS) {
+        return {
+          reason: 'repeated_tool_call',
+          detail: `${toolCall.function.name} was requested with identical arguments more than ${config.MAX_IDENTICAL_TOOL_CALLS} times`
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * End the turn early with a partial summary. Skipped calls still get a tool
+   * message so the persisted history stays a valid tool-call sequence.
+   */
+  private async stopTurn(
+    state: TurnState,
+    skippedCalls: ToolCall[],
+    limit: { reason: LimitStopReason; detail: string },
+    onEvent?: ChatEventListener
+  ): Promise<ChatResult> {
+    const error = `Not executed: ${limit.detail}`
+
+    for (const toolCall of skippedCalls) {
+      state.executionResults.push({
+        toolName: toolCall.function.name,
+        success: false,
+        skipped: true,
+        error
       })
+      state.history.push({
+        role: 'tool' as const,
+        tool_call_id: toolCall.id,
+        content: JSON.stringify({ error, skipped: true })
+      })
+    }
 
-      return result
+    const completedTools = [...new Set(state.toolsUsed)]
+    const summary = [
+      state.lastContent,
+      `I stopped before finishing because ${limit.detail}.`,
+      completedTools.length > 0
+        ? `Completed ${state.toolsUsed.length} tool call(s): ${completedTools.join(', ')}.`
+        : 'No tools were executed.',
+      skippedCalls.length > 0
+        ? `Not executed: ${skippedCalls.map(t => t.function.name).join(', ')}.`
+        : '',
+      'Ask me to continue if you want me to carry on from here.'
+    ].filter(Boolean).join('\n\n')
+
+    state.history.push({ role: 'assistant' as const, content: summary })
+    state.lastContent = summary
+
+    logger.warn('Chat turn stopped early', {
+      sessionId: state.sessionId,
+      stopReason: limit.reason,
+      detail: limit.detail,
+      executionRound: state.executionRound,
+      toolCalls: state.toolsUsed.length,
+      tokensUsed: state.tokensUsed,
+      elapsedMs: this.elapsedTime(state)
+    })
+
+    return this.completeTurn(state, onEvent, limit.reason)
+  }
+
+  /**
+   * Identity of a tool call for repetition detection - name plus canonical arguments
+   */
+  private toolCallSignature(toolCall: ToolCall): string {
+    const canonicalize = (value: any): any => {
+      if (Array.isArray(value)) return value.map(canonicalize)
+      if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((acc: Record<string, any>, key) => {
+          acc[key] = canonicalize(value[key])
+          return acc
+        }, {})
+      }
+      return value
+    }
+
+    try {
+      return `${toolCall.function.name}:${JSON.stringify(canonicalize(JSON.parse(toolCall.function.arguments || '{}')))}`
+    } catch {
+      return `${toolCall.function.name}:${toolCall.function.arguments}`
+    }
+  }
+
+  /**
+   * Account the usage of one completion against the turn, session and day
+   */
+  private recordUsage(state: TurnState, usage: TokenUsage | undefined): void {
+    if (!usage) {
+      return
+    }
+
+    state.usageByRound.push({ round: state.executionRound, ...usage })
+    state.tokensUsed += usage.total_tokens || 0
+    usageService.record(state.sessionId, usage)
+    rateLimitService.charge('token', rateLimitService.subjectFor(state.principal, state.clientAddress), usage.total_tokens || 0)
+  }
+
+  private summarizeUsage(state: TurnState): TokenUsage | undefined {
+    if (state.usageByRound.length === 0) {
+      return undefined
+    }
+
+    return state.usageByRound.reduce((total, round) => ({
+      prompt_tokens: total.prompt_tokens + (round.prompt_tokens || 0),
+      completion_tokens: total.completion_tokens + (round.completion_tokens || 0),
+      total_tokens: total.total_tokens + (round.total_tokens || 0)
+    }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 })
+  }
+
+  /**
+   * Active processing time of the turn, excluding confirmation pauses
+   */
+  private elapsedTime(state: TurnState): number {
+    return state.elapsedMs + (Date.now() - state.clockStartedAt)
+  }
+
+  /**
+   * Offer the tools the turn's roles may use, and forward streamed tokens only when someone is listening
+   */
+  private createSendOptions(state: TurnState, onEvent?: ChatEventListener): SendMessageOptions {
+    if (!onEvent) {
+      return { roles: state.roles, round: state.executionRound }
+    }
+    return {
+      roles: state.roles,
+      round: state.executionRound,
+      onToken: (token: string) => this.emit(onEvent, { type: 'token', round: state.executionRound, content: token })
+    }
+  }
+
+  /**
+   * Run one tool call locally or on its MCP server, unless the caller's tool quota is used up
+   */
+  private async dispatchToolCall(toolCall: ToolCall, state: TurnState): Promise<McpResult> {
+    // Every executed call counts against the caller's tool quota, whichever server answers it
+    const allowance = await rateLimitService.consume('tool', rateLimitService.subjectFor(state.principal, state.clientAddress))
+    if (!allowance.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: describeRateLimit(allowance),
+          details: { retryAfter: allowance.retryAfterSec }
+        }
+      }
+    }
+
+    if (localToolService.has(toolCall.function.name)) {
+      return localToolService.executeTool(toolCall, { roles: state.roles, sessionId: state.sessionId, principal: state.principal })
+    }
+    return mcpService.executeTool(toolCall, {
+      signal: state.signal,
+      bypassCache: state.bypassCache,
+      roles: state.roles,
+      sessionId: state.sessionId,
+      principal: state.principal
+    })
+  }
+
+  /**
+   * Outcome of a turn (or resumed turn) on its span
+   */
+  private traceResult(span: Span, result: ChatResult): void {
+    span.setAttributes({
+      'chat.stop_reason': result.stopReason,
+      'chat.tools_used': result.toolsUsed.length,
+      'gen_ai.usage.input_tokens': result.usage?.prompt_tokens,
+      'gen_ai.usage.output_tokens': result.usage?.completion_tokens
+    })
+  }
 
+  /**
+   * Append a tool call to the audit log. The write is queued - the turn does not wait for it.
+   */
+  private audit(
+    state: TurnState,
+    toolCall: ToolCall,
+    outcome: Pick<AuditEntry, 'status' | 'durationMs' | 'error' | 'mcp'>
+  ): void {
+    const { server } = mcpService.parseToolName(toolCall.function.name)
+    auditService.record({
+      principal: state.principal,
+      sessionId: state.sessionId,
+      userMessage: state.userMessage,
+      tool: toolCall.function.name,
+      ...(server && { server }),
+      arguments: toolCall.function.arguments,
+      ...outcome
+    })
+  }
+
+  private emit(onEvent: ChatEventListener | undefined, event: ChatEvent): void {
+    if (!onEvent) return
+    try {
+      onEvent(event)
     } catch (error: any) {
-      const processingTime = Date.now() - startTime
-      
-      logger.error('Chat message processing failed', {
-        sessionId: request.sessionId,
-        error: error.message,
-        stack: error.stack,
-        processingTimeMs: processingTime
+      logger.warn('Chat event listener failed', { type: event.type, error: error.message })
+    }
+  }
+
+  /**
+   * Persist the messages of a completed turn - a storage failure must not fail the turn
+   */
+  private async persistTurn(sessionId: string, messages: ConversationMessage[]): Promise<void> {
+    try {
+      await conversationStore.appendMessages(sessionId, messages)
+    } catch (error: any) {
+      logger.warn('Failed to persist conversation turn', {
+        sessionId,
+        messageCount: messages.length,
+        error: error.message
       })
+    }
+  }
 
-      throw new Error(`Chat processing failed: ${error.message}`)
+  async getSessionHistory(sessionId: string): Promise<ConversationMessage[]> {
+    try {
+      return await conversationStore.getHistory(sessionId)
+    } catch (error: any) {
+      logger.warn('Failed to load conversation history, starting fresh', {
+        sessionId,
+        error: error.message
+      })
+      return []
     }
   }
 
-  async getSessionHistory(_sessionId: string): Promise<ConversationMessage[]> {
-    // In a real implementation, this would fetch from a database
-    // For now, return empty history
-    return []
+  /**
+   * Whether the principal owns the session (or nobody does yet)
+   */
+  async canAccessSession(sessionId: string, principal?: Principal): Promise<boolean> {
+    return conversationStore.isAccessibleBy(sessionId, (principal || ANONYMOUS_PRINCIPAL).id)
+  }
+
+  /**
+   * Throw SessionAccessError unless the principal may access the session
+   */
+  async assertSessionAccess(sessionId: string, principal?: Principal): Promise<void> {
+    if (!await this.canAccessSession(sessionId, principal)) {
+      throw new SessionAccessError(sessionId)
+    }
+  }
+
+  /**
+   * Session history for display, with secrets in tool arguments and tool results masked
+   */
+  async getVisibleSessionHistory(sessionId: string, principal?: Principal): Promise<ConversationMessage[]> {
+    await this.assertSessionAccess(sessionId, principal)
+    const history = await this.getSessionHistory(sessionId)
+
+    return history.map(message => {
+      if (message.role === 'tool' && message.content) {
+        let content: string
+        try {
+          content = JSON.stringify(redactor.redact(JSON.parse(message.content)))
+        } catch {
+          content = redactor.redactText(message.content)
+        }
+        return { ...message, content }
+      }
+
+      if (message.tool_calls?.length) {
+        return {
+          ...message,
+          tool_calls: message.tool_calls.map(toolCall => ({
+            ...toolCall,
+            function: {
+              ...toolCall.function,
+              arguments: redactor.redactToolArguments(toolCall.function.name, toolCall.function.arguments)
+            }
+          }))
+        }
+      }
+
+      return message
+    })
+  }
+
+  async validateSession(sessionId: string): Promise<boolean> {
+    return conversationStore.hasSession(sessionId)
   }
 
-  async validateSession(_sessionId: string): Promise<boolean> {
-    // In a real implementation, this would validate the session
-    return true
+  async clearSession(sessionId: string, principal?: Principal): Promise<boolean> {
+    await this.assertSessionAccess(sessionId, principal)
+    workingSetService.clear(sessionId)
+    return conversationStore.clearSession(sessionId)
   }
 
   async healthCheck(): Promise<{ status: string; services: any }> {
@@ -521,7 +1360,17 @@ export class ChatService {
           zai_service: zaiStatus.initialized ? 'connected' : 'initializing',
           zai_tool_discovery: zaiStatus.toolDiscoveryStatus,
           mcp_service: mcpHealth.status,
-          mcp_connected: mcpHealth.mcp_connected
+          mcp_connected: mcpHealth.mcp_connected,
+          mcp_servers: mcpHealth.services?.servers,
+          tool_cache: mcpService.getCacheStats(),
+          device_index: deviceIndexService.getServiceStatus(),
+          working_set: workingSetService.getServiceStatus(),
+          task_tracker: taskTrackerService.getServiceStatus(),
+          policy: policyService.getServiceStatus(),
+          auth: authService.getServiceStatus(),
+          audit: auditService.getServiceStatus(),
+          rate_limit: rateLimitService.getServiceStatus(),
+          tracing: tracingService.getServiceStatus()
         }
       }
     } catch (error: any) {
@@ -0,0 +1,141 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  ConversationStore,
+  ConversationStoreOptions,
+  FileConversationRepository,
+  InMemoryConversationRepository
+} from './conversation-store.service'
+import type { ChatMessage } from './zai.service'
+
+const HOUR = 60 * 60 * 1000
+
+const OPTIONS: ConversationStoreOptions = { retentionMs: HOUR, maxMessages: 100, maxBytes: 1024 * 1024 }
+
+const turn = (question: string, answer: string): ChatMessage[] => [
+  { role: 'user', content: question },
+  { role: 'assistant', content: answer }
+]
+
+describe('ConversationStore', () => {
+  let repository: InMemoryConversationRepository
+
+  beforeEach(() => {
+    repository = new InMemoryConversationRepository()
+  })
+
+  it('returns the stored turns without their timestamps', async () => {
+    const store = new ConversationStore(repository, OPTIONS)
+
+    await store.appendMessages('session-1', turn('list devices', 'There are 3 devices'))
+
+    await expect(store.getHistory('session-1')).resolves.toEqual(turn('list devices', 'There are 3 devices'))
+    await expect(store.getHistory('unknown')).resolves.toEqual([])
+  })
+
+  it('keeps the newest messages and starts history on a user message', async () => {
+    const store = new ConversationStore(repository, { ...OPTIONS, maxMessages: 5 })
+    const toolTurn: ChatMessage[] = [
+      { role: 'user', content: 'back up core-1' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'backup_device', arguments: '{}' } }] },
+      { role: 'tool', content: '{"ok":true}', tool_call_id: 'call-1' },
+      { role: 'assistant', content: 'Backup started' }
+    ]
+
+    await store.appendMessages('session-1', turn('list devices', 'There are 3 devices'))
+    await store.appendMessages('session-1', toolTurn)
+
+    // The last 5 start with the first turn's answer, which would be left without its question
+    await expect(store.getHistory('session-1')).resolves.toEqual(toolTurn)
+  })
+
+  it('drops the oldest turns until the session fits in maxBytes', async () => {
+    const store = new ConversationStore(repository, { ...OPTIONS, maxBytes: 400 })
+
+    await store.appendMessages('session-1', turn('first question', 'x'.repeat(200)))
+    await store.appendMessages('session-1', turn('second question', 'short answer'))
+
+    await expect(store.getHistory('session-1')).resolves.toEqual(turn('second question', 'short answer'))
+  })
+
+  it('forgets sessions idle for longer than the retention window', async () => {
+    const store = new ConversationStore(repository, OPTIONS)
+    const idleSince = new Date(Date.now() - 2 * HOUR).toISOString()
+    await repository.saveSession({
+      sessionId: 'idle',
+      createdAt: idleSince,
+      updatedAt: idleSince,
+      messages: [{ role: 'user', content: 'hello', timestamp: idleSince }]
+    })
+    await store.appendMessages('active', turn('list devices', 'There are 3 devices'))
+
+    await expect(store.hasSession('idle')).resolves.toBe(false)
+    await expect(repository.getSession('idle')).resolves.toBeNull()
+    await expect(store.hasSession('active')).resolves.toBe(true)
+  })
+
+  it('purges only expired sessions in a retention sweep', async () => {
+    const store = new ConversationStore(repository, OPTIONS)
+    const idleSince = new Date(Date.now() - 2 * HOUR).toISOString()
+    for (const sessionId of ['idle-1', 'idle-2']) {
+      await repository.saveSession({ sessionId, createdAt: idleSince, updatedAt: idleSince, messages: [] })
+    }
+    await store.appendMessages('active', turn('list devices', 'There are 3 devices'))
+
+    await expect(store.purgeExpired()).resolves.toBe(2)
+    await expect(repository.listSessions()).resolves.toEqual([{ sessionId: 'active', updatedAt: expect.any(String) }])
+  })
+
+  it('lets only the owner claim a session again', async () => {
+    const store = new ConversationStore(repository, OPTIONS)
+
+    await expect(store.claimSession('session-1', 'key:alice')).resolves.toBe(true)
+    await expect(store.claimSession('session-1', 'key:alice')).resolves.toBe(true)
+    await expect(store.claimSession('session-1', 'key:bob')).resolves.toBe(false)
+    await expect(store.isAccessibleBy('session-1', 'key:bob')).resolves.toBe(false)
+    await expect(store.isAccessibleBy('unknown', 'key:bob')).resolves.toBe(true)
+  })
+
+  it('does not lose turns appended concurrently', async () => {
+    const store = new ConversationStore(repository, OPTIONS)
+
+    await Promise.all([
+      store.appendMessages('session-1', turn('one', '1')),
+      store.appendMessages('session-1', turn('two', '2')),
+      store.appendMessages('session-1', turn('three', '3'))
+    ])
+
+    await expect(store.getHistory('session-1')).resolves.toHaveLength(6)
+  })
+})
+
+describe('FileConversationRepository', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('stores sessions under hashed file names that survive a restart', async () => {
+    const now = new Date().toISOString()
+    await new FileConversationRepository(directory).saveSession({
+      sessionId: '../../etc/passwd',
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    })
+
+    expect(fs.readdirSync(directory)).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)])
+
+    const reopened = new FileConversationRepository(directory)
+    await expect(reopened.getSession('../../etc/passwd')).resolves.toMatchObject({ sessionId: '../../etc/passwd' })
+    await expect(reopened.listSessions()).resolves.toEqual([{ sessionId: '../../etc/passwd', updatedAt: now }])
+    await expect(reopened.deleteSession('../../etc/passwd')).resolves.toBe(true)
+    await expect(reopened.getSession('../../etc/passwd')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,395 @@
+/**
+ * Conversation Store Service
+ * Persists per-session conversation turns (user, assistant and tool messages)
+ * behind a pluggable repository so follow-up questions keep their context
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import type { ChatMessage } from './zai.service'
+
+export interface StoredMessage extends ChatMessage {
+  timestamp: string
+}
+
+export interface ConversationSession {
+  sessionId: string
+  ownerId?: string // principal that started the session - only it may read, continue or delete it
+  createdAt: string
+  updatedAt: string
+  messages: StoredMessage[]
+}
+
+/**
+ * Storage backend contract - implementations only deal with whole sessions,
+ * retention and size limits are enforced by ConversationStore
+ */
+export interface ConversationRepository {
+  readonly name: string
+  getSession(sessionId: string): Promise<ConversationSession | null>
+  saveSession(session: ConversationSession): Promise<void>
+  deleteSession(sessionId: string): Promise<boolean>
+  listSessions(): Promise<Array<{ sessionId: string; updatedAt: string }>>
+}
+
+/**
+ * The session belongs to another principal. Reported as "not found" so session IDs cannot be probed.
+ */
+export class SessionAccessError extends Error {
+  readonly sessionId: string
+
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} not found`)
+    this.name = 'SessionAccessError'
+    this.sessionId = sessionId
+  }
+}
+
+export interface ConversationStoreOptions {
+  retentionMs: number
+  maxMessages: number
+  maxBytes: number
+  sweepIntervalMs?: number
+}
+
+/**
+ * Keeps sessions in process memory - lost on restart
+ */
+export class InMemoryConversationRepository implements ConversationRepository {
+  readonly name = 'memory'
+  private sessions = new Map<string, ConversationSession>()
+
+  async getSession(sessionId: string): Promise<ConversationSession | null> {
+    const session = this.sessions.get(sessionId)
+    return session ? { ...session, messages: [...session.messages] } : null
+  }
+
+  async saveSession(session: ConversationSession): Promise<void> {
+    this.sessions.set(session.sessionId, { ...session, messages: [...session.messages] })
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId)
+  }
+
+  async listSessions(): Promise<Array<{ sessionId: string; updatedAt: string }>> {
+    return [...this.sessions.values()].map(s => ({ sessionId: s.sessionId, updatedAt: s.updatedAt }))
+  }
+}
+
+/**
+ * Stores one JSON document per session in a directory on disk.
+ * File names are derived from a hash of the session ID because session IDs are client supplied.
+ */
+export class FileConversationRepository implements ConversationRepository {
+  readonly name = 'file'
+  private readonly directory: string
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory)
+  }
+
+  async getSession(sessionId: string): Promise<ConversationSession | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(sessionId), 'utf8')
+      return JSON.parse(raw) as ConversationSession
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async saveSession(session: ConversationSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+
+    // Write to a temp file first so a crash never leaves a half-written session
+    const target = this.filePath(session.sessionId)
+    const tempFile = `${target}.${process.pid}.tmp`
+    await fs.writeFile(tempFile, JSON.stringify(session), 'utf8')
+    await fs.rename(tempFile, target)
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(sessionId))
+      return true
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false
+      }
+      throw error
+    }
+  }
+
+  async listSessions(): Promise<Array<{ sessionId: string; updatedAt: string }>> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.directory)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const sessions: Array<{ sessionId: string; updatedAt: string }> = []
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const raw = await fs.readFile(path.join(this.directory, file), 'utf8')
+        const session = JSON.parse(raw) as ConversationSession
+        sessions.push({ sessionId: session.sessionId, updatedAt: session.updatedAt })
+      } catch (error: any) {
+        logger.warn('Skipping unreadable conversation file', {
+          file,
+          error: error.message,
+          service: 'ConversationStore'
+        })
+      }
+    }
+    return sessions
+  }
+
+  private filePath(sessionId: string): string {
+    const hash = crypto.createHash('sha256').update(sessionId).digest('hex')
+    return path.join(this.directory, `${hash}.json`)
+  }
+}
+
+/**
+ * Applies retention and per-session size limits on top of a repository
+ */
+export class ConversationStore {
+  private readonly repository: ConversationRepository
+  private readonly options: ConversationStoreOptions
+  private sweepInterval: NodeJS.Timeout | null = null
+  private sessionLocks = new Map<string, Promise<void>>()
+
+  constructor(repository: ConversationRepository, options: ConversationStoreOptions) {
+    this.repository = repository
+    this.options = options
+  }
+
+  /**
+   * Get prior turns for a session in the shape expected by ZAIService
+   */
+  async getHistory(sessionId: string): Promise<ChatMessage[]> {
+    const session = await this.loadActiveSession(sessionId)
+    if (!session) {
+      return []
+    }
+
+    return session.messages.map(({ timestamp: _timestamp, ...message }) => message)
+  }
+
+  /**
+   * Check whether a session exists and has not expired
+   */
+  async hasSession(sessionId: string): Promise<boolean> {
+    return (await this.loadActiveSession(sessionId)) !== null
+  }
+
+  /**
+   * Record the principal as owner of a new session (or of one stored before owners were recorded).
+   * Returns false when the session belongs to another principal.
+   */
+  async claimSession(sessionId: string, ownerId: string): Promise<boolean> {
+    return this.withSessionLock(sessionId, async () => {
+      const existing = await this.loadActiveSession(sessionId)
+      if (existing?.ownerId) {
+        return existing.ownerId === ownerId
+      }
+
+      const now = new Date().toISOString()
+      await this.repository.saveSession({
+        sessionId,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+        ...existing,
+        ownerId
+      })
+      return true
+    })
+  }
+
+  /**
+   * Whether the principal may see the session - unknown and ownerless sessions hold nothing to protect
+   */
+  async isAccessibleBy(sessionId: string, ownerId: string): Promise<boolean> {
+    const session = await this.loadActiveSession(sessionId)
+    return !session?.ownerId || session.ownerId === ownerId
+  }
+
+  /**
+   * Append the messages produced by one chat turn
+   */
+  async appendMessages(sessionId: string, messages: ChatMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return
+    }
+
+    await this.withSessionLock(sessionId, async () => {
+      const now = new Date().toISOString()
+      const existing = await this.loadActiveSession(sessionId)
+      const session: ConversationSession = existing || {
+        sessionId,
+        createdAt: now,
+        updatedAt: now,
+        messages: []
+      }
+
+      session.messages.push(...messages.map(message => ({ ...message, timestamp: now })))
+      session.messages = this.applySizeLimits(session.messages)
+      session.updatedAt = now
+
+      await this.repository.saveSession(session)
+
+      logger.debug('Conversation turn persisted', {
+        sessionId,
+        appended: messages.length,
+        storedMessages: session.messages.length,
+        service: 'ConversationStore'
+      })
+    })
+  }
+
+  async clearSession(sessionId: string): Promise<boolean> {
+    return this.withSessionLock(sessionId, () => this.repository.deleteSession(sessionId))
+  }
+
+  /**
+   * Remove every session that has been idle longer than the retention window
+   */
+  async purgeExpired(): Promise<number> {
+    const sessions = await this.repository.listSessions()
+    let purged = 0
+
+    for (const session of sessions) {
+      if (this.isExpired(session.updatedAt)) {
+        if (await this.clearSession(session.sessionId)) {
+          purged++
+        }
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Purged expired conversations', { purged, service: 'ConversationStore' })
+    }
+    return purged
+  }
+
+  /**
+   * Start periodic retention sweeps
+   */
+  startRetentionSweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval)
+    }
+
+    const interval = this.options.sweepIntervalMs || Math.min(this.options.retentionMs, 15 * 60 * 1000)
+    this.sweepInterval = setInterval(async () => {
+      try {
+        await this.purgeExpired()
+      } catch (error: any) {
+        logger.warn('Conversation retention sweep failed', {
+          error: error.message,
+          service: 'ConversationStore'
+        })
+      }
+    }, interval)
+  }
+
+  getServiceStatus(): {
+    backend: string
+    retentionMs: number
+    maxMessages: number
+    maxBytes: number
+  } {
+    return {
+      backend: this.repository.name,
+      retentionMs: this.options.retentionMs,
+      maxMessages: this.options.maxMessages,
+      maxBytes: this.options.maxBytes
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval)
+      this.sweepInterval = null
+    }
+    await Promise.all(this.sessionLocks.values())
+  }
+
+  private async loadActiveSession(sessionId: string): Promise<ConversationSession | null> {
+    const session = await this.repository.getSession(sessionId)
+    if (!session) {
+      return null
+    }
+
+    if (this.isExpired(session.updatedAt)) {
+      await this.repository.deleteSession(sessionId)
+      return null
+    }
+
+    return session
+  }
+
+  private isExpired(updatedAt: string): boolean {
+    return Date.now() - new Date(updatedAt).getTime() > this.options.retentionMs
+  }
+
+  /**
+   * Drop the oldest messages until the session fits, then make sure history
+   * starts on a user message so no tool result is left without its tool call
+   */
+  private applySizeLimits(messages: StoredMessage[]): StoredMessage[] {
+    let trimmed = messages.slice(-this.options.maxMessages)
+    let size = trimmed.reduce((total, message) => total + Buffer.byteLength(JSON.stringify(message)), 0)
+
+    while (trimmed.length > 0 && size > this.options.maxBytes) {
+      size -= Buffer.byteLength(JSON.stringify(trimmed[0]))
+      trimmed = trimmed.slice(1)
+    }
+
+    const firstUserIndex = trimmed.findIndex(message => message.role === 'user')
+    return firstUserIndex === -1 ? [] : trimmed.slice(firstUserIndex)
+  }
+
+  /**
+   * Serialize read-modify-write cycles per session
+   */
+  private async withSessionLock<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.sessionLocks.get(sessionId) || Promise.resolve()
+    const run = previous.then(operation)
+    const settled = run.then(() => undefined, () => undefined)
+    this.sessionLocks.set(sessionId, settled)
+
+    try {
+      return await run
+    } finally {
+      if (this.sessionLocks.get(sessionId) === settled) {
+        this.sessionLocks.delete(sessionId)
+      }
+    }
+  }
+}
+
+function createConversationRepository(): ConversationRepository {
+  if (config.CONVERSATION_STORE === 'file') {
+    return new FileConversationRepository(config.CONVERSATION_STORE_PATH)
+  }
+  return new InMemoryConversationRepository()
+}
+
+// Export singleton instance
+export const conversationStore = new ConversationStore(createConversationRepository(), {
+  retentionMs: config.CONVERSATION_RETENTION_MS,
+  maxMessages: config.CONVERSATION_MAX_MESSAGES,
+  maxBytes: config.CONVERSATION_MAX_BYTES
+})
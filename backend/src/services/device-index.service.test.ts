@@ -0,0 +1,115 @@
+import { DeviceIndexService } from './device-index.service'
+import { mcpService } from './mcp.service'
+import { toolResultCache } from './tool-result-cache.service'
+import type { Device } from '../models/restorepoint'
+
+jest.mock('./mcp.service', () => ({
+  mcpService: {
+    getServerNames: () => ['sl1'],
+    isFederated: () => false,
+    qualifyToolName: (_server: string, tool: string) => tool,
+    executeTool: jest.fn()
+  }
+}))
+
+const executeTool = mcpService.executeTool as jest.Mock
+
+const device = (ID: string, Name: string, Address: string, PluginName: string, assets: string[] = []): Device => ({
+  ID,
+  Name,
+  Address,
+  PluginName,
+  AssetFields: assets.map((Value, i) => ({ Name: `Field ${i}`, Value }))
+})
+
+const DEVICES = [
+  device('1', 'core-switch-01', '10.0.0.1', 'Cisco IOS'),
+  device('2', 'core-switch-02', '10.0.0.2', 'Cisco IOS'),
+  device('3', 'edge-router', '10.0.0.10', 'Juniper JunOS', ['Rack 4']),
+  device('4', 'fw', '10.0.0.11', 'Fortinet FortiGate'),
+  device('5', 'lab-printer', '', 'Generic SNMP')
+]
+
+describe('DeviceIndexService', () => {
+  let index: DeviceIndexService
+
+  beforeEach(async () => {
+    executeTool.mockReset()
+    executeTool.mockResolvedValue({ success: true, data: DEVICES })
+    index = new DeviceIndexService(60000, 0.5, 2, 0.9, 0.05)
+    await index.refresh()
+  })
+
+  const ranked = (term: string) => index.search(term).map(({ device, score, reason, field }) => ({ id: device.ID, score, reason, field }))
+
+  it('ranks an exact name above a near miss', () => {
+    expect(ranked('core-switch-01')).toEqual([
+      { id: '1', score: 1, reason: 'exact', field: 'Name' },
+      { id: '2', score: 0.55, reason: 'fuzzy', field: 'Name' }
+    ])
+  })
+
+  it('scores prefixes and whole tokens, ordering ties by name', () => {
+    expect(ranked('core')).toEqual([
+      { id: '1', score: 0.807, reason: 'prefix', field: 'Name' },
+      { id: '2', score: 0.807, reason: 'prefix', field: 'Name' }
+    ])
+    expect(ranked('switch')).toEqual([
+      { id: '1', score: 0.633, reason: 'token', field: 'Name' },
+      { id: '2', score: 0.633, reason: 'token', field: 'Name' }
+    ])
+  })
+
+  it('weights matches outside the name lower', () => {
+    expect(ranked('juniper')[0]).toMatchObject({ id: '3', reason: 'prefix', field: 'PluginName', score: 0.772 })
+    expect(ranked('rack 4')[0]).toMatchObject({ id: '3', reason: 'exact', field: 'AssetFields', score: 0.8 })
+  })
+
+  it('tolerates typos within the edit limit', () => {
+    expect(ranked('edge-rooter')).toEqual([{ id: '3', score: 0.55, reason: 'fuzzy', field: 'Name' }])
+    expect(ranked('edgy-ruoter')).toEqual([])
+  })
+
+  it('matches addresses exactly only', () => {
+    expect(ranked('10.0.0.1')).toEqual([{ id: '1', score: 1, reason: 'exact', field: 'Address' }])
+  })
+
+  it('matches short terms only exactly or by whole token', () => {
+    expect(ranked('fw')).toEqual([{ id: '4', score: 1, reason: 'exact', field: 'Name' }])
+    expect(ranked('co')).toEqual([])
+  })
+
+  it('searches only the fields asked for and honours the limit', () => {
+    expect(index.search('cisco', { fields: ['Name'] })).toEqual([])
+    expect(index.search('core', { limit: 1 }).map(match => match.device.ID)).toEqual(['1'])
+  })
+
+  it('calls a name ambiguous when the best matches score close together, and uncertain when none scores high', () => {
+    expect(index.assessAmbiguity('core', index.search('core'))).toMatchObject({
+      reason: 'ambiguous',
+      candidates: [{ id: '1', name: 'core-switch-01' }, { id: '2', name: 'core-switch-02' }]
+    })
+    expect(index.assessAmbiguity('edge-rooter', index.search('edge-rooter'))).toMatchObject({ reason: 'low_confidence' })
+    expect(index.assessAmbiguity('core-switch-01', index.search('core-switch-01'))).toBeNull()
+  })
+
+  it('reloads the inventory after a write invalidated the cached device list', async () => {
+    await index.ensureFresh()
+    expect(executeTool).toHaveBeenCalledTimes(1)
+
+    toolResultCache.invalidateFor('sl1', 'update_device', { id: '1' })
+    executeTool.mockResolvedValue({ success: true, data: [...DEVICES, device('6', 'core-switch-03', '10.0.0.3', 'Cisco IOS')] })
+    await index.ensureFresh()
+
+    expect(executeTool).toHaveBeenCalledTimes(2)
+    expect(index.search('core').map(match => match.device.ID)).toEqual(['1', '2', '6'])
+  })
+
+  it('keeps the previous index when the inventory cannot be loaded', async () => {
+    executeTool.mockResolvedValue({ success: false, error: { code: 'EXECUTION_ERROR', message: 'connect ECONNREFUSED' } })
+
+    await expect(index.refresh()).resolves.toBe(false)
+
+    expect(index.getServiceStatus()).toMatchObject({ loaded: true, deviceCount: 5, error: 'No device inventory available' })
+  })
+})
@@ -0,0 +1,464 @@
+/**
+ * Device Index Service
+ * Keeps an in-memory index of the device inventory (list_devices on every MCP server)
+ * and answers ranked searches over Name, Address, PluginName and AssetFields
+ */
+
+import { mcpService } from './mcp.service'
+import { toolResultCache } from './tool-result-cache.service'
+import config from '../utils/config'
+import { AddressSelector, ParsedAddress, parseIPAddress, selectorContains } from '../utils/address-selector'
+import logger from '../utils/logger'
+import { Device } from '../models/restorepoint'
+import { readToolData } from '../models/tool-results'
+import type { DeviceClarification } from './pending-action.service'
+
+export type DeviceField = 'Name' | 'Address' | 'PluginName' | 'AssetFields'
+
+export type MatchReason = 'exact' | 'prefix' | 'token' | 'fuzzy' | 'contains'
+
+export interface DeviceMatch {
+  device: Device
+  score: number // 0-1, higher is better
+  reason: MatchReason
+  field: DeviceField
+  term: string
+  matchedValue: string
+}
+
+export interface DeviceSearchOptions {
+  fields?: DeviceField[]
+  minScore?: number
+  limit?: number
+}
+
+interface IndexedValue {
+  field: DeviceField
+  value: string
+  normalized: string
+  tokens: string[]
+}
+
+interface IndexedDevice {
+  device: Device
+  values: IndexedValue[]
+  address: ParsedAddress | null // Address parsed as an IP literal, null for hostnames
+}
+
+// Devices offered as choices for one ambiguous name
+const MAX_CLARIFICATION_CANDIDATES = 10
+
+const ALL_FIELDS: DeviceField[] = ['Name', 'Address', 'PluginName', 'AssetFields']
+
+// A hit on the name counts for more than one buried in an asset field
+const FIELD_WEIGHTS: Record<DeviceField, number> = {
+  Name: 1,
+  Address: 1,
+  PluginName: 0.9,
+  AssetFields: 0.8
+}
+
+/**
+ * Device Index Service - built from list_devices results and refreshed in the background.
+ * Write tools that invalidate cached list_devices results mark the index stale, so the next
+ * lookup reloads it instead of waiting for the timer.
+ */
+export class DeviceIndexService {
+  private devices: IndexedDevice[] = []
+  private tokenIndex = new Map<string, Set<number>>() // token -> positions in devices
+  private lastRefresh: Date | null = null
+  private stale = true
+  private refreshing: Promise<boolean> | null = null
+  private refreshInterval: NodeJS.Timeout | null = null
+  private lastError: string | undefined
+  private readonly refreshIntervalMs: number
+  private readonly minScore: number
+  private readonly maxEdits: number
+  private readonly confidentScore: number
+  private readonly ambiguityMargin: number
+
+  constructor(
+    refreshIntervalMs: number = config.DEVICE_INDEX_REFRESH_MS,
+    minScore: number = config.DEVICE_MATCH_MIN_SCORE,
+    maxEdits: number = config.DEVICE_MATCH_MAX_EDITS,
+    confidentScore: number = config.DEVICE_MATCH_CONFIDENT_SCORE,
+    ambiguityMargin: number = config.DEVICE_AMBIGUITY_MARGIN
+  ) {
+    this.refreshIntervalMs = refreshIntervalMs
+    this.minScore = minScore
+    this.maxEdits = maxEdits
+    this.confidentScore = confidentScore
+    this.ambiguityMargin = ambiguityMargin
+
+    toolResultCache.onInvalidate((_server, _writeTool, targets) => {
+      if (targets.includes('list_devices')) {
+        this.stale = true
+      }
+    })
+  }
+
+  /**
+   * Reload the inventory from every MCP server. Concurrent callers share one reload.
+   * Returns false (keeping the previous index) when no server returned devices.
+   */
+  async refresh(bypassCache = false): Promise<boolean> {
+    if (this.refreshing) {
+      return this.refreshing
+    }
+
+    this.refreshing = (async () => {
+      try {
+        const inventory = await this.fetchAllDevices(bypassCache)
+        if (!inventory) {
+          this.lastError = 'No device inventory available'
+          return false
+        }
+
+        this.build(inventory)
+        this.lastRefresh = new Date()
+        this.stale = false
+        this.lastError = undefined
+
+        logger.debug('Device index refreshed', {
+          deviceCount: this.devices.length,
+          tokenCount: this.tokenIndex.size,
+          service: 'DeviceIndexService'
+        })
+        return true
+      } catch (error: any) {
+        this.lastError = error.message
+        logger.warn('Device index refresh failed', {
+          error: error.message,
+          service: 'DeviceIndexService'
+        })
+        return false
+      } finally {
+        this.refreshing = null
+      }
+    })()
+
+    return this.refreshing
+  }
+
+  /**
+   * The indexed inventory, loading it first when it is missing or stale.
+   * Returns null when no inventory could ever be loaded.
+   */
+  async getDevices(bypassCache = false): Promise<Device[] | null> {
+    await this.ensureFresh(bypassCache)
+    return this.lastRefresh ? this.devices.map(entry => entry.device) : null
+  }
+
+  async ensureFresh(bypassCache = false): Promise<void> {
+    if (bypassCache || this.stale || !this.lastRefresh) {
+      await this.refresh(bypassCache)
+    }
+  }
+
+  /**
+   * Rank devices against one search term. Each device appears once, with its best match.
+   */
+  search(term: string, options: DeviceSearchOptions = {}): DeviceMatch[] {
+    const normalizedTerm = this.normalize(term)
+    if (!normalizedTerm) {
+      return []
+    }
+
+    const fields = options.fields || ALL_FIELDS
+    const minScore = options.minScore ?? this.minScore
+    const termTokens = this.tokenize(normalizedTerm)
+    const candidates = this.candidatePositions(normalizedTerm, termTokens)
+    const matches: DeviceMatch[] = []
+
+    for (const position of candidates) {
+      const entry = this.devices[position]
+      let best: DeviceMatch | null = null
+
+      for (const indexed of entry.values) {
+        if (!fields.includes(indexed.field)) {
+          continue
+        }
+        const scored = this.scoreValue(indexed, normalizedTerm, termTokens)
+        if (!scored) {
+          continue
+        }
+        const score = Math.round(scored.score * FIELD_WEIGHTS[indexed.field] * 1000) / 1000
+        if (score >= minScore && (!best || score > best.score)) {
+          best = {
+            device: entry.device,
+            score,
+            reason: scored.reason,
+            field: indexed.field,
+            term,
+            matchedValue: indexed.value
+          }
+        }
+      }
+
+      if (best) {
+        matches.push(best)
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score || String(a.device.Name).localeCompare(String(b.device.Name)))
+    return options.limit ? matches.slice(0, options.limit) : matches
+  }
+
+  /**
+   * Whether a name search failed to single out one device. A name is ambiguous when its best
+   * matches score within the ambiguity margin of each other, and uncertain when even the best
+   * match scores below the confident score. Returns the candidates to choose from, or null.
+   */
+  assessAmbiguity(term: string, matches: DeviceMatch[]): DeviceClarification | null {
+    if (matches.length === 0) {
+      return null
+    }
+
+    const [best, runnerUp] = matches
+    const ambiguous = runnerUp !== undefined && best.score - runnerUp.score <= this.ambiguityMargin
+    const lowConfidence = best.score < this.confidentScore
+    if (!ambiguous && !lowConfidence) {
+      return null
+    }
+
+    return {
+      term,
+      reason: ambiguous ? 'ambiguous' : 'low_confidence',
+      candidates: matches.slice(0, MAX_CLARIFICATION_CANDIDATES).map(({ device, score, reason }) => ({
+        id: String(device.ID),
+        name: device.Name,
+        address: device.Address,
+        type: device.PluginName,
+        ...(device.Server && { server: device.Server }),
+        score,
+        reason
+      }))
+    }
+  }
+
+  /**
+   * Devices whose address lies inside a selector (CIDR block, range, wildcard or single address).
+   * Addresses are compared numerically, so 10.1.1.1 never matches 10.1.1.10.
+   */
+  selectByAddress(selector: AddressSelector): DeviceMatch[] {
+    return this.devices
+      .filter(entry => selectorContains(selector, entry.address))
+      .map(entry => ({
+        device: entry.device,
+        score: selector.kind === 'address' ? 1 : 0.9,
+        reason: selector.kind === 'address' ? 'exact' as const : 'contains' as const,
+        field: 'Address' as const,
+        term: selector.text,
+        matchedValue: String(entry.device.Address)
+      }))
+      .sort((a, b) => this.compareAddresses(a.device, b.device))
+  }
+
+  startBackgroundRefresh(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval)
+    }
+
+    this.refresh().catch(() => { /* logged in refresh */ })
+    this.refreshInterval = setInterval(() => {
+      this.refresh().catch(() => { /* logged in refresh */ })
+    }, this.refreshIntervalMs)
+  }
+
+  getServiceStatus(): {
+    loaded: boolean
+    deviceCount: number
+    tokenCount: number
+    lastRefresh: Date | null
+    stale: boolean
+    refreshIntervalMs: number
+    error?: string
+  } {
+    return {
+      loaded: this.lastRefresh !== null,
+      deviceCount: this.devices.length,
+      tokenCount: this.tokenIndex.size,
+      lastRefresh: this.lastRefresh,
+      stale: this.stale,
+      refreshIntervalMs: this.refreshIntervalMs,
+      error: this.lastError
+    }
+  }
+
+  shutdown(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval)
+      this.refreshInterval = null
+    }
+  }
+
+  private build(inventory: Device[]): void {
+    const devices: IndexedDevice[] = []
+    const tokenIndex = new Map<string, Set<number>>()
+
+    inventory.forEach((device, position) => {
+      const values: IndexedValue[] = []
+      const add = (field: DeviceField, raw: unknown) => {
+        const value = raw === undefined || raw === null ? '' : String(raw).trim()
+        const normalized = this.normalize(value)
+        // Empty values are never indexed, so a device without an address cannot match every query
+        if (!normalized) return
+        values.push({ field, value, normalized, tokens: this.tokenize(normalized) })
+      }
+
+      add('Name', device.Name)
+      add('Address', device.Address)
+      add('PluginName', device.PluginName)
+      for (const field of device.AssetFields) {
+        add('AssetFields', field.Value)
+      }
+
+      for (const indexed of values) {
+        for (const token of [indexed.normalized, ...indexed.tokens]) {
+          const positions = tokenIndex.get(token) || new Set<number>()
+          positions.add(position)
+          tokenIndex.set(token, positions)
+        }
+      }
+
+      devices.push({ device, values, address: parseIPAddress(device.Address) })
+    })
+
+    this.devices = devices
+    this.tokenIndex = tokenIndex
+  }
+
+  /**
+   * Devices worth scoring. Terms under three characters only match exactly or by token,
+   * which the token index answers; longer terms may match by prefix or edit distance and need a full scan.
+   */
+  private candidatePositions(term: string, termTokens: string[]): Iterable<number> {
+    const all = this.devices.map((_, position) => position)
+    if (term.length >= 3) {
+      return all
+    }
+
+    const positions = new Set<number>()
+    for (const token of [term, ...termTokens]) {
+      this.tokenIndex.get(token)?.forEach(position => positions.add(position))
+    }
+    return positions
+  }
+
+  private scoreValue(
+    indexed: IndexedValue,
+    term: string,
+    termTokens: string[]
+  ): { score: number; reason: MatchReason } | null {
+    if (indexed.normalized === term) {
+      return { score: 1, reason: 'exact' }
+    }
+
+    // 10.1.1.1 is not a prefix or near-miss of 10.1.1.10 - addresses only match exactly
+    if (indexed.field === 'Address' && parseIPAddress(indexed.normalized)) {
+      return null
+    }
+
+    if (term.length >= 3 && indexed.normalized.startsWith(term)) {
+      return { score: 0.75 + 0.2 * (term.length / indexed.normalized.length), reason: 'prefix' }
+    }
+
+    if (termTokens.length > 0 && termTokens.every(token => indexed.tokens.includes(token))) {
+      return { score: 0.6 + 0.1 * (termTokens.length / indexed.tokens.length), reason: 'token' }
+    }
+
+    const allowedEdits = Math.min(this.maxEdits, Math.floor(term.length / 4))
+    if (allowedEdits > 0) {
+      const distance = Math.min(
+        ...[indexed.normalized, ...indexed.tokens].map(candidate => this.editDistance(term, candidate, allowedEdits))
+      )
+      if (distance <= allowedEdits) {
+        return { score: 0.65 - 0.1 * distance, reason: 'fuzzy' }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Levenshtein distance, giving up once it exceeds limit
+   */
+  private editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) {
+      return limit + 1
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      let rowMin = i
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+        rowMin = Math.min(rowMin, current[j])
+      }
+      if (rowMin > limit) {
+        return limit + 1
+      }
+      previous = current
+    }
+    return previous[b.length]
+  }
+
+  private compareAddresses(a: Device, b: Device): number {
+    const left = parseIPAddress(a.Address)
+    const right = parseIPAddress(b.Address)
+    if (!left || !right || left.version !== right.version) {
+      return 0
+    }
+    return left.value < right.value ? -1 : left.value > right.value ? 1 : 0
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().trim().replace(/\s+/g, ' ')
+  }
+
+  private tokenize(normalized: string): string[] {
+    return normalized.split(/[^a-z0-9]+/).filter(Boolean)
+  }
+
+  /**
+   * Fetch the full device inventory via list_devices on every MCP server. With several
+   * servers each device is tagged with the Server it belongs to. Returns null when unavailable.
+   */
+  private async fetchAllDevices(bypassCache: boolean): Promise<Device[] | null> {
+    const inventories = await Promise.all(mcpService.getServerNames().map(async server => {
+      const devices = await this.fetchServerDevices(server, bypassCache)
+      return devices && mcpService.isFederated()
+        ? devices.map(device => ({ ...device, Server: server }))
+        : devices
+    }))
+
+    const available = inventories.filter((devices): devices is Device[] => devices !== null)
+    return available.length > 0 ? available.flat() : null
+  }
+
+  /**
+   * Fetch one server's inventory. Returns null when unavailable; a response that
+   * no longer matches the Device model throws SchemaDriftError.
+   */
+  private async fetchServerDevices(server: string, bypassCache: boolean): Promise<Device[] | null> {
+    const result = await mcpService.executeTool({
+      id: 'list-devices-resolution',
+      type: 'function',
+      function: {
+        name: mcpService.qualifyToolName(server, 'list_devices'),
+        arguments: '{}'
+      }
+    }, { bypassCache })
+
+    const devices = readToolData('list_devices', result)
+    if (!devices) {
+      logger.warn('Device resolution failed - no data returned', { server, error: result.error })
+    }
+    return devices
+  }
+}
+
+// Export singleton instance
+export const deviceIndexService = new DeviceIndexService()
@@ -0,0 +1,92 @@
+/**
+ * LLM provider selection
+ * Picks the completion backend configured through LLM_PROVIDER and wraps it
+ * with retries, a circuit breaker and the optional LLM_FALLBACK_* provider
+ */
+
+import config from '../../utils/config'
+import { OpenAICompatibleProvider } from './openai-compatible.provider'
+import { ZaiProvider } from './zai.provider'
+import { MockProvider } from './mock.provider'
+import { ResilientProvider } from './resilient.provider'
+import type { LLMProvider } from './types'
+
+export * from './types'
+export { OpenAICompatibleProvider } from './openai-compatible.provider'
+export { ZaiProvider } from './zai.provider'
+export { MockProvider } from './mock.provider'
+export { ResilientProvider } from './resilient.provider'
+
+interface ProviderSettings {
+  provider: 'zai' | 'openai' | 'mock'
+  model: string
+  baseURL: string
+  apiKey: string
+}
+
+export function createLLMProvider(): LLMProvider {
+  const primary: ProviderSettings = {
+    provider: config.LLM_PROVIDER,
+    model: config.LLM_MODEL,
+    baseURL: config.LLM_BASE_URL,
+    apiKey: config.LLM_API_KEY
+  }
+  const providers = [buildProvider(primary, 'LLM')]
+
+  if (config.LLM_FALLBACK_PROVIDER || config.LLM_FALLBACK_MODEL) {
+    // A fallback that only names a model reuses the primary endpoint and credentials
+    const sameBackend = !config.LLM_FALLBACK_PROVIDER || config.LLM_FALLBACK_PROVIDER === primary.provider
+    providers.push(buildProvider({
+      provider: config.LLM_FALLBACK_PROVIDER || primary.provider,
+      model: config.LLM_FALLBACK_MODEL,
+      baseURL: config.LLM_FALLBACK_BASE_URL || (sameBackend ? primary.baseURL : ''),
+      apiKey: config.LLM_FALLBACK_API_KEY || (sameBackend ? primary.apiKey : '')
+    }, 'LLM_FALLBACK'))
+  }
+
+  return new ResilientProvider(
+    providers,
+    {
+      maxAttempts: config.LLM_RETRY_MAX_ATTEMPTS,
+      baseDelayMs: config.LLM_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.LLM_RETRY_MAX_DELAY_MS
+    },
+    {
+      failureThreshold: config.LLM_BREAKER_FAILURE_THRESHOLD,
+      resetTimeoutMs: config.LLM_BREAKER_RESET_MS
+    }
+  )
+}
+
+function buildProvider(settings: ProviderSettings, envPrefix: string): LLMProvider {
+  switch (settings.provider) {
+    case 'mock':
+      return new MockProvider({
+        scriptPath: config.LLM_MOCK_SCRIPT || undefined,
+        model: settings.model || undefined
+      })
+
+    case 'openai':
+      if (!settings.baseURL) {
+        throw new Error(`${envPrefix}_BASE_URL is required when ${envPrefix}_PROVIDER=openai`)
+      }
+      if (!settings.model) {
+        throw new Error(`${envPrefix}_MODEL is required when ${envPrefix}_PROVIDER=openai`)
+      }
+      return new OpenAICompatibleProvider({
+        baseURL: settings.baseURL,
+        model: settings.model,
+        apiKey: settings.apiKey || undefined,
+        timeoutMs: config.LLM_TIMEOUT_MS
+      })
+
+    case 'zai':
+    default:
+      return new ZaiProvider({
+        apiKey: settings.apiKey || config.ZAI_API_KEY,
+        model: settings.model || undefined,
+        baseURL: settings.baseURL || undefined,
+        timeoutMs: config.LLM_TIMEOUT_MS
+      })
+  }
+}
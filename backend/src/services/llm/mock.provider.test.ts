@@ -0,0 +1,93 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { MockProvider, MockScript } from './mock.provider'
+import type { CachedTool } from '../tool-discovery.service'
+import type { ChatMessage, CompletionRequest } from './types'
+
+const tool = (name: string): CachedTool => ({
+  type: 'function',
+  function: { name, description: name, parameters: { type: 'object', properties: {}, required: [] } }
+})
+
+const SCRIPT: MockScript = {
+  scenarios: [{
+    match: '\\bbackup\\b',
+    steps: [
+      { content: 'Starting the backup.', tool_calls: [{ name: 'create_backup', arguments: { deviceId: '7' } }] },
+      { content: 'The backup is running.' }
+    ]
+  }],
+  fallback: { content: 'No script for that.' }
+}
+
+const request = (messages: ChatMessage[], tools = [tool('create_backup')]): CompletionRequest => ({
+  messages,
+  tools,
+  temperature: 0.1,
+  maxTokens: 1000
+})
+
+describe('MockProvider', () => {
+  it('answers the first step of the scenario matching the user message', async () => {
+    const provider = new MockProvider({ script: SCRIPT })
+
+    const response = await provider.complete(request([{ role: 'user', content: 'Run a BACKUP of device 7' }]))
+
+    expect(response.content).toBe('Starting the backup.')
+    expect(response.tool_calls).toEqual([{
+      id: expect.stringMatching(/^mock_call_/),
+      type: 'function',
+      function: { name: 'create_backup', arguments: '{"deviceId":"7"}' }
+    }])
+    expect(response.usage?.total_tokens).toBe((response.usage?.prompt_tokens || 0) + (response.usage?.completion_tokens || 0))
+  })
+
+  it('moves to the next step once the tool results are in, skipping the continuation prompt', async () => {
+    const provider = new MockProvider({ script: SCRIPT })
+
+    const response = await provider.complete(request([
+      { role: 'user', content: 'run a backup of device 7' },
+      { role: 'assistant', content: 'Starting the backup.', tool_calls: [] },
+      { role: 'tool', content: '{"success":true}', tool_call_id: 'mock_call_1' },
+      { role: 'user', content: 'Based on the tool results, continue executing any necessary tools.' }
+    ]))
+
+    expect(response).toMatchObject({ content: 'The backup is running.' })
+    expect(response.tool_calls).toBeUndefined()
+  })
+
+  it('does not call tools the model was not offered', async () => {
+    const provider = new MockProvider({ script: SCRIPT })
+
+    const response = await provider.complete(request([{ role: 'user', content: 'run a backup' }], [tool('list_devices')]))
+
+    expect(response.content).toBe('Starting the backup.')
+    expect(response.tool_calls).toBeUndefined()
+  })
+
+  it('falls back when no scenario matches and streams the content as tokens', async () => {
+    const provider = new MockProvider({ script: SCRIPT })
+    const tokens: string[] = []
+
+    const response = await provider.complete(request([{ role: 'user', content: 'hello there' }]), { onToken: token => tokens.push(token) })
+
+    expect(response.content).toBe('No script for that.')
+    expect(tokens.join('')).toBe('No script for that.')
+    expect(tokens.length).toBeGreaterThan(1)
+  })
+
+  it('loads a bare scenario array from a script file', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-script-'))
+    try {
+      const scriptPath = path.join(directory, 'script.json')
+      fs.writeFileSync(scriptPath, JSON.stringify(SCRIPT.scenarios))
+
+      const response = await new MockProvider({ scriptPath }).complete(request([{ role: 'user', content: 'backup please' }]))
+
+      expect(response.content).toBe('Starting the backup.')
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})
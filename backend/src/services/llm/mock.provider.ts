@@ -0,0 +1,141 @@
+/**
+ * Scripted mock LLM provider
+ * Replays canned responses (including tool calls) so the backend can run fully offline
+ * for demos and integration tests
+ */
+
+import fs from 'fs'
+import type { ChatMessage, ChatResponse, CompletionOptions, CompletionRequest, LLMProvider } from './types'
+
+export interface MockStep {
+  content?: string
+  tool_calls?: Array<{ name: string; arguments?: Record<string, unknown> }>
+}
+
+export interface MockScenario {
+  /** Regular expression (case-insensitive) matched against the user message that started the turn */
+  match: string
+  /** One step per completion within the turn - step N answers the Nth model call */
+  steps: MockStep[]
+}
+
+export interface MockScript {
+  scenarios: MockScenario[]
+  fallback?: MockStep
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  scenarios: [
+    {
+      match: '\\b(list|show)\\b.*\\bdevices?\\b',
+      steps: [
+        { content: 'Listing the devices managed by Restorepoint.', tool_calls: [{ name: 'list_devices', arguments: {} }] },
+        { content: 'Here are the devices returned by Restorepoint (mock provider).' }
+      ]
+    },
+    {
+      match: '\\bbackups?\\b',
+      steps: [
+        { content: 'Checking the backup history.', tool_calls: [{ name: 'list_backups', arguments: {} }] },
+        { content: 'Here is the current backup status (mock provider).' }
+      ]
+    },
+    {
+      match: '\\bstatus\\b',
+      steps: [
+        { content: 'Checking system status.', tool_calls: [{ name: 'get_status', arguments: {} }] },
+        { content: 'Here is the current status (mock provider).' }
+      ]
+    }
+  ],
+  fallback: {
+    content: 'I am running with the offline mock provider and have no scripted answer for that request.'
+  }
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock'
+  readonly model: string
+  private readonly script: MockScript
+  private callCounter = 0
+
+  constructor(options: { scriptPath?: string; script?: MockScript; model?: string } = {}) {
+    this.model = options.model || 'mock-scripted'
+    this.script = options.script
+      || (options.scriptPath ? MockProvider.loadScript(options.scriptPath) : DEFAULT_MOCK_SCRIPT)
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<ChatResponse> {
+    const { turnMessage, step } = this.locateTurn(request.messages)
+    const scenario = this.script.scenarios.find(s => new RegExp(s.match, 'i').test(turnMessage))
+    const availableTools = new Set(request.tools.map(t => t.function.name))
+
+    let reply: MockStep
+    if (!scenario) {
+      reply = this.script.fallback || { content: '' }
+    } else if (step < scenario.steps.length) {
+      reply = scenario.steps[step]
+    } else {
+      // Script exhausted - finish the turn without further tool calls
+      reply = { content: scenario.steps[scenario.steps.length - 1]?.content || '' }
+    }
+
+    const content = reply.content || ''
+    if (options.onToken && content) {
+      for (const token of content.split(/(?<=\s)/)) {
+        options.onToken(token)
+      }
+    }
+
+    const toolCalls = (reply.tool_calls || [])
+      .filter(call => availableTools.size === 0 || availableTools.has(call.name))
+      .map(call => ({
+        id: `mock_call_${++this.callCounter}`,
+        type: 'function' as const,
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments || {})
+        }
+      }))
+
+    const promptTokens = Math.ceil(JSON.stringify(request.messages).length / 4)
+    const completionTokens = Math.ceil((content.length + JSON.stringify(toolCalls).length) / 4)
+
+    return {
+      content,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    }
+  }
+
+  /**
+   * Find the user message that started the current turn and how many model calls
+   * have already happened in it. Continuation prompts follow tool results and are skipped.
+   */
+  private locateTurn(messages: ChatMessage[]): { turnMessage: string; step: number } {
+    let index = messages.length - 1
+    if (index > 0 && messages[index].role === 'user' && messages[index - 1].role === 'tool') {
+      index--
+    }
+    while (index >= 0 && messages[index].role !== 'user') {
+      index--
+    }
+
+    if (index < 0) {
+      return { turnMessage: '', step: 0 }
+    }
+
+    const step = messages.slice(index + 1).filter(m => m.role === 'assistant').length
+    return { turnMessage: messages[index].content || '', step }
+  }
+
+  private static loadScript(scriptPath: string): MockScript {
+    const raw = JSON.parse(fs.readFileSync(scriptPath, 'utf8'))
+    // Accept a bare scenario array as shorthand
+    return Array.isArray(raw) ? { scenarios: raw } : raw
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * OpenAI-compatible LLM provider
+ * Works with any /chat/completions endpoint that speaks the OpenAI wire format
+ * (z.ai, OpenAI, local Ollama or vLLM servers)
+ */
+
+import axios from 'axios'
+import type { ChatResponse, CompletionOptions, CompletionRequest, LLMProvider } from './types'
+
+export interface OpenAICompatibleProviderOptions {
+  name?: string
+  baseURL: string
+  model: string
+  apiKey?: string
+  timeoutMs?: number
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  readonly model: string
+  protected readonly baseURL: string
+  protected readonly apiKey?: string
+  protected readonly timeoutMs: number
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.name = options.name || 'openai-compatible'
+    this.baseURL = options.baseURL.replace(/\/+$/, '')
+    this.model = options.model
+    this.apiKey = options.apiKey
+    this.timeoutMs = options.timeoutMs || 120000
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<ChatResponse> {
+    const requestBody = {
+      model: this.model,
+      messages: request.messages,
+      tools: request.tools,
+      tool_choice: 'auto',
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    }
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`
+    }
+
+    if (options.onToken) {
+      // Streamed completion - forward content deltas as they arrive
+      const response = await axios.post(`${this.baseURL}/chat/completions`, {
+        ...requestBody,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, {
+        headers,
+        timeout: this.timeoutMs,
+        responseType: 'stream'
+      })
+
+      return this.readStreamedCompletion(response.data, options.onToken)
+    }
+
+    const response = await axios.post(`${this.baseURL}/chat/completions`, requestBody, {
+      headers,
+      timeout: this.timeoutMs
+    })
+
+    const data = response.data
+    const choice = data.choices?.[0]
+    if (!choice?.message) {
+      throw new Error(`No response from ${this.name} API`)
+    }
+
+    return this.toChatResponse(choice.message.content, choice.message.tool_calls, data.usage)
+  }
+
+  /**
+   * Consume an OpenAI-style SSE completion stream, reassembling content and tool call deltas
+   */
+  private async readStreamedCompletion(
+    stream: NodeJS.ReadableStream,
+    onToken: (token: string) => void
+  ): Promise<ChatResponse> {
+    let buffer = ''
+    let content = ''
+    let usage: any
+    let receivedChoice = false
+    const toolCalls: Array<{ id: string; function: { name: string; arguments: string } }> = []
+
+    const handleLine = (line: string) => {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith('data:')) {
+        return
+      }
+
+      const payload = trimmed.slice(5).trim()
+      if (!payload || payload === '[DONE]') {
+        return
+      }
+
+      const chunk = JSON.parse(payload)
+      if (chunk.usage) {
+        usage = chunk.usage
+      }
+
+      const delta = chunk.choices?.[0]?.delta
+      if (!delta) {
+        return
+      }
+      receivedChoice = true
+
+      if (delta.content) {
+        content += delta.content
+        onToken(delta.content)
+      }
+
+      for (const call of delta.tool_calls || []) {
+        const index = typeof call.index === 'number' ? call.index : toolCalls.length
+        if (!toolCalls[index]) {
+          toolCalls[index] = { id: '', function: { name: '', arguments: '' } }
+        }
+        const entry = toolCalls[index]
+        if (call.id) entry.id = call.id
+        if (call.function?.name) entry.function.name += call.function.name
+        if (call.function?.arguments) entry.function.arguments += call.function.arguments
+      }
+    }
+
+    for await (const chunk of stream) {
+      buffer += chunk.toString()
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      lines.forEach(handleLine)
+    }
+    handleLine(buffer)
+
+    if (!receivedChoice) {
+      throw new Error(`No response from ${this.name} API`)
+    }
+
+    return this.toChatResponse(content, toolCalls.filter(Boolean), usage)
+  }
+
+  /**
+   * Map a completion message (streamed or not) to the service response shape
+   */
+  private toChatResponse(content: string | null | undefined, toolCalls: any[] | undefined, usage: any): ChatResponse {
+    const chatResponse: ChatResponse = {
+      content: content || '',
+      usage: usage ? {
+        prompt_tokens: usage.prompt_tokens,
+        completion_tokens: usage.completion_tokens,
+        total_tokens: usage.total_tokens
+      } : undefined
+    }
+
+    if (toolCalls && toolCalls.length > 0) {
+      chatResponse.tool_calls = toolCalls.map((call: any) => ({
+        id: call.id,
+        type: 'function',
+        function: {
+          name: call.function.name,
+          arguments: call.function.arguments || '{}'
+        }
+      }))
+    }
+
+    return chatResponse
+  }
+}
@@ -0,0 +1,110 @@
+import { ResilientProvider, RetryPolicy } from './resilient.provider'
+import type { ChatResponse, CompletionRequest, LLMProvider } from './types'
+
+const RETRY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1000 }
+const BREAKER = { failureThreshold: 10, resetTimeoutMs: 60000 }
+
+const REQUEST: CompletionRequest = { messages: [{ role: 'user', content: 'list devices' }], tools: [], temperature: 0.1, maxTokens: 1000 }
+
+const OK: ChatResponse = { content: 'There are 3 devices' }
+
+const provider = (name: string, complete: jest.Mock): LLMProvider => ({ name, model: `${name}-model`, complete })
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } })
+
+describe('ResilientProvider', () => {
+  let setTimeoutSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout')
+  })
+
+  afterEach(() => {
+    setTimeoutSpy.mockRestore()
+  })
+
+  const retryDelays = () => setTimeoutSpy.mock.calls.map(([, delay]) => delay)
+
+  it('retries transient failures until a completion succeeds', async () => {
+    const complete = jest.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce(OK)
+
+    await expect(new ResilientProvider([provider('zai', complete)], RETRY, BREAKER).complete(REQUEST)).resolves.toBe(OK)
+    expect(complete).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry requests the provider rejected as invalid', async () => {
+    const complete = jest.fn().mockRejectedValue(httpError(400))
+
+    await expect(new ResilientProvider([provider('zai', complete)], RETRY, BREAKER).complete(REQUEST)).rejects.toThrow('status code 400')
+    expect(complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits as long as Retry-After asks, capped at the maximum delay', async () => {
+    const complete = jest.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0.05' }))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3600' }))
+      .mockResolvedValueOnce(OK)
+
+    await new ResilientProvider([provider('zai', complete)], { ...RETRY, maxDelayMs: 100 }, BREAKER).complete(REQUEST)
+
+    expect(retryDelays()).toEqual([50, 100])
+  })
+
+  it('accepts Retry-After as an HTTP date', async () => {
+    const complete = jest.fn()
+      .mockRejectedValueOnce(httpError(503, { 'retry-after': new Date(Date.now() + 60000).toUTCString() }))
+      .mockResolvedValueOnce(OK)
+
+    await new ResilientProvider([provider('zai', complete)], { ...RETRY, maxDelayMs: 80 }, BREAKER).complete(REQUEST)
+
+    expect(retryDelays()).toEqual([80])
+  })
+
+  it('fails over to the next provider once retries are used up', async () => {
+    const primary = jest.fn().mockRejectedValue(httpError(502))
+    const fallback = jest.fn().mockResolvedValue(OK)
+
+    const resilient = new ResilientProvider([provider('zai', primary), provider('openai', fallback)], { ...RETRY, maxAttempts: 2 }, BREAKER)
+
+    await expect(resilient.complete(REQUEST)).resolves.toBe(OK)
+    expect(primary).toHaveBeenCalledTimes(2)
+    expect(fallback).toHaveBeenCalledTimes(1)
+  })
+
+  it('neither retries nor fails over once tokens have reached the client', async () => {
+    const primary = jest.fn().mockImplementation(async (_request, options) => {
+      options.onToken('There are')
+      throw httpError(503)
+    })
+    const fallback = jest.fn().mockResolvedValue(OK)
+    const tokens: string[] = []
+
+    const resilient = new ResilientProvider([provider('zai', primary), provider('openai', fallback)], RETRY, BREAKER)
+
+    await expect(resilient.complete(REQUEST, { onToken: token => tokens.push(token) })).rejects.toThrow('status code 503')
+    expect(tokens).toEqual(['There are'])
+    expect(primary).toHaveBeenCalledTimes(1)
+    expect(fallback).not.toHaveBeenCalled()
+  })
+
+  it('skips a provider whose circuit is open', async () => {
+    const primary = jest.fn().mockRejectedValue(httpError(503))
+    const fallback = jest.fn().mockResolvedValue(OK)
+
+    const resilient = new ResilientProvider(
+      [provider('zai', primary), provider('openai', fallback)],
+      { ...RETRY, maxAttempts: 1 },
+      { failureThreshold: 1, resetTimeoutMs: 60000 }
+    )
+    await resilient.complete(REQUEST)
+    await resilient.complete(REQUEST)
+
+    expect(primary).toHaveBeenCalledTimes(1)
+    expect(fallback).toHaveBeenCalledTimes(2)
+    expect(resilient.getStatus()[0].circuit.state).toBe('open')
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Resilient LLM provider
+ * Wraps one or more providers with jittered exponential backoff (honouring Retry-After),
+ * a circuit breaker per provider and ordered failover to the next provider
+ */
+
+import logger from '../../utils/logger'
+import { metricsService } from '../metrics.service'
+import { SpanKind } from '@opentelemetry/api'
+import { tracingService } from '../tracing.service'
+import { CircuitBreaker, CircuitBreakerStatus, CircuitOpenError } from '../../utils/circuit-breaker'
+import type { ChatResponse, CompletionOptions, CompletionRequest, LLMProvider } from './types'
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface BreakerPolicy {
+  failureThreshold: number
+  resetTimeoutMs: number
+}
+
+interface ProviderEntry {
+  provider: LLMProvider
+  breaker: CircuitBreaker
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504])
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE'])
+
+export class ResilientProvider implements LLMProvider {
+  private readonly entries: ProviderEntry[]
+  private readonly retry: RetryPolicy
+
+  constructor(providers: LLMProvider[], retry: RetryPolicy, breaker: BreakerPolicy) {
+    if (providers.length === 0) {
+      throw new Error('ResilientProvider needs at least one provider')
+    }
+
+    this.retry = retry
+    this.entries = providers.map(provider => ({
+      provider,
+      breaker: new CircuitBreaker({
+        name: `llm:${provider.name}:${provider.model}`,
+        failureThreshold: breaker.failureThreshold,
+        resetTimeoutMs: breaker.resetTimeoutMs
+      })
+    }))
+  }
+
+  get name(): string {
+    return this.entries[0].provider.name
+  }
+
+  get model(): string {
+    return this.entries[0].provider.model
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<ChatResponse> {
+    // Once tokens have reached the client a retry would duplicate them, so stop retrying
+    let tokensForwarded = false
+    const trackedOptions: CompletionOptions = options.onToken
+      ? {
+          onToken: (token: string) => {
+            tokensForwarded = true
+            options.onToken!(token)
+          }
+        }
+      : {}
+
+    let lastError: any
+
+    for (const [index, entry] of this.entries.entries()) {
+      if (!entry.breaker.canExecute()) {
+        const circuit = entry.breaker.getStatus()
+        lastError = new CircuitOpenError(circuit.name, new Date(circuit.nextAttemptAt || Date.now()))
+        logger.warn('Skipping LLM provider with open circuit', {
+          provider: entry.provider.name,
+          model: entry.provider.model,
+          service: 'ResilientProvider'
+        })
+        continue
+      }
+
+      try {
+        return await this.completeWithRetry(entry, request, trackedOptions, () => tokensForwarded)
+      } catch (error: any) {
+        lastError = error
+
+        if (tokensForwarded || !this.isRetryable(error)) {
+          throw error
+        }
+
+        const next = this.entries[index + 1]
+        if (next) {
+          logger.warn('Failing over to next LLM provider', {
+            from: `${entry.provider.name}:${entry.provider.model}`,
+            to: `${next.provider.name}:${next.provider.model}`,
+            error: error.message,
+            service: 'ResilientProvider'
+          })
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  getStatus(): Array<{ provider: string; model: string; circuit: CircuitBreakerStatus }> {
+    return this.entries.map(entry => ({
+      provider: entry.provider.name,
+      model: entry.provider.model,
+      circuit: entry.breaker.getStatus()
+    }))
+  }
+
+  private async completeWithRetry(
+    entry: ProviderEntry,
+    request: CompletionRequest,
+    options: CompletionOptions,
+    tokensForwarded: () => boolean
+  ): Promise<ChatResponse> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await entry.breaker.execute(
+          () => this.timedComplete(entry.provider, request, options),
+          error => this.isRetryable(error)
+        )
+      } catch (error: any) {
+        const canRetry = attempt < this.retry.maxAttempts
+          && this.isRetryable(error)
+          && !(error instanceof CircuitOpenError)
+          && !tokensForwarded()
+
+        if (!canRetry) {
+          throw error
+        }
+
+        const delay = this.retryDelay(attempt, error)
+        logger.warn('LLM completion failed, retrying', {
+          provider: entry.provider.name,
+          model: entry.provider.model,
+          attempt,
+          maxAttempts: this.retry.maxAttempts,
+          status: error.response?.status,
+          code: error.code,
+          delayMs: delay,
+          service: 'ResilientProvider'
+        })
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  /**
+   * One completion attempt - its own span and metrics, with the HTTP status (or error code) and reported token usage
+   */
+  private async timedComplete(provider: LLMProvider, request: CompletionRequest, options: CompletionOptions): Promise<ChatResponse> {
+    return tracingService.withSpan('llm.request', {
+      kind: SpanKind.CLIENT,
+      attributes: { 'gen_ai.system': provider.name, 'gen_ai.request.model': provider.model }
+    }, async span => {
+      const startedAt = Date.now()
+      try {
+        const response = await provider.complete(request, options)
+        metricsService.observeLlmRequest(provider.name, provider.model, 200, Date.now() - startedAt, response.usage)
+        return response
+      } catch (error: any) {
+        const status = error.response?.status || error.code || 'error'
+        metricsService.observeLlmRequest(provider.name, provider.model, status, Date.now() - startedAt)
+        span.setAttributes({ 'http.response.status_code': error.response?.status, 'error.type': String(status) })
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Full-jitter exponential backoff, or the server's Retry-After when it asks for longer
+   */
+  private retryDelay(attempt: number, error: any): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1))
+    const backoff = Math.round(Math.random() * ceiling)
+    const retryAfter = this.parseRetryAfter(error.response?.headers?.['retry-after'])
+
+    return retryAfter !== null
+      ? Math.min(this.retry.maxDelayMs, Math.max(backoff, retryAfter))
+      : backoff
+  }
+
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null
+    }
+
+    const seconds = Number(value)
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+
+    const date = Date.parse(String(value))
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+  }
+
+  private isRetryable(error: any): boolean {
+    if (error instanceof CircuitOpenError) {
+      return true
+    }
+    if (error.response?.status) {
+      return RETRYABLE_STATUS.has(error.response.status)
+    }
+    return RETRYABLE_CODES.has(error.code)
+  }
+}
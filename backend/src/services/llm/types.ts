@@ -0,0 +1,50 @@
+/**
+ * LLM Provider Types
+ * Vendor-neutral contract for chat completions with tool calling
+ */
+
+import type { CachedTool } from '../tool-discovery.service'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content?: string
+  tool_calls?: any[]
+  tool_call_id?: string
+}
+
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+export interface ChatResponse {
+  content: string
+  tool_calls?: ToolCall[]
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  }
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  tools: CachedTool[]
+  temperature: number
+  maxTokens: number
+}
+
+export interface CompletionOptions {
+  /** When set, the completion is streamed and each content delta is passed here */
+  onToken?: (token: string) => void
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly model: string
+  complete(request: CompletionRequest, options?: CompletionOptions): Promise<ChatResponse>
+}
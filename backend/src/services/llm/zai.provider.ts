@@ -0,0 +1,25 @@
+/**
+ * z.ai LLM provider
+ * OpenAI-compatible endpoint with z.ai defaults (GLM models on the coding plan)
+ */
+
+import { OpenAICompatibleProvider } from './openai-compatible.provider'
+
+export const ZAI_DEFAULT_BASE_URL = 'https://api.z.ai/api/coding/paas/v4'
+export const ZAI_DEFAULT_MODEL = 'glm-4.6'
+
+export class ZaiProvider extends OpenAICompatibleProvider {
+  constructor(options: { apiKey: string; model?: string; baseURL?: string; timeoutMs?: number }) {
+    if (!options.apiKey) {
+      throw new Error('ZAI_API_KEY is required. Please configure the API key in your environment variables.')
+    }
+
+    super({
+      name: 'zai',
+      baseURL: options.baseURL || ZAI_DEFAULT_BASE_URL,
+      model: options.model || ZAI_DEFAULT_MODEL,
+      apiKey: options.apiKey,
+      timeoutMs: options.timeoutMs
+    })
+  }
+}
@@ -0,0 +1,95 @@
+import { localToolService, RESOLVE_DEVICES_TOOL } from './local-tools.service'
+import { mcpService } from './mcp.service'
+import type { Device } from '../models/restorepoint'
+import type { ToolCall } from './zai.service'
+
+jest.mock('./mcp.service', () => ({
+  mcpService: {
+    getServerNames: () => ['sl1'],
+    isFederated: () => false,
+    qualifyToolName: (_server: string, tool: string) => tool,
+    executeTool: jest.fn()
+  }
+}))
+
+const executeTool = mcpService.executeTool as jest.Mock
+
+const device = (ID: string, Name: string, Address: string, PluginName: string, assets: string[] = []): Device => ({
+  ID,
+  Name,
+  Address,
+  PluginName,
+  AssetFields: assets.map((Value, i) => ({ Name: `Field ${i}`, Value }))
+})
+
+const DEVICES = [
+  device('1', 'core-switch-01', '10.0.0.1', 'Cisco IOS', ['datacenter']),
+  device('2', 'core-switch-02', '10.0.0.2', 'Cisco IOS', ['datacenter']),
+  device('3', 'edge-router', '10.0.1.1', 'Juniper JunOS'),
+  device('4', 'branch-fw', 'fw.branch.example', 'Fortinet FortiGate')
+]
+
+const resolve = (args: Record<string, unknown> | string) => localToolService.executeTool({
+  id: 'call-resolve',
+  type: 'function',
+  function: { name: RESOLVE_DEVICES_TOOL, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+} as ToolCall)
+
+const ids = (result: any) => result.data.devices.map((found: { id: string }) => found.id)
+
+describe('resolve_devices', () => {
+  beforeAll(() => {
+    executeTool.mockResolvedValue({ success: true, data: DEVICES })
+  })
+
+  it('is offered to the model next to the MCP tools', () => {
+    expect(localToolService.has(RESOLVE_DEVICES_TOOL)).toBe(true)
+    expect(localToolService.getDefinitions().map(definition => definition.function.name)).toContain(RESOLVE_DEVICES_TOOL)
+  })
+
+  it('resolves names, tolerating typos, and reports names that matched nothing', async () => {
+    const result = await resolve({ names: ['edge-rooter', 'branch-fw', 'dmz-proxy'] })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      devices: [
+        { id: '4', name: 'branch-fw', reason: 'exact', selector: { kind: 'name', value: 'branch-fw' } },
+        { id: '3', name: 'edge-router', reason: 'fuzzy' }
+      ],
+      unresolved: ['dmz-proxy']
+    })
+  })
+
+  it('lists a name that matches several devices as ambiguous', async () => {
+    const result = await resolve({ names: 'core-switch' })
+
+    expect(ids(result)).toEqual(['1', '2'])
+    expect(result.data).toMatchObject({
+      ambiguous: [{ term: 'core-switch', reason: 'ambiguous', candidates: [{ id: '1' }, { id: '2' }] }]
+    })
+  })
+
+  it('selects by CIDR block, hostname, vendor and tag', async () => {
+    expect(ids(await resolve({ addresses: '10.0.0.0/24' }))).toEqual(['1', '2'])
+    expect(ids(await resolve({ addresses: 'fw.branch.example' }))).toEqual(['4'])
+    expect(ids(await resolve({ vendors: 'juniper' }))).toEqual(['3'])
+    expect(ids(await resolve({ tags: 'datacenter' }))).toEqual(['1', '2'])
+  })
+
+  it('keeps each device once and truncates to the limit', async () => {
+    const result = await resolve({ vendors: 'cisco', tags: 'datacenter', addresses: '10.0.0.0/16', limit: 2 })
+
+    expect(result.data).toMatchObject({ total: 3, truncated: true })
+    expect(ids(result)).toHaveLength(2)
+  })
+
+  it('rejects calls without a selector or with malformed arguments', async () => {
+    await expect(resolve({ limit: 5 })).resolves.toMatchObject({ success: false, error: { code: 'INVALID_ARGUMENTS' } })
+    await expect(resolve('[1, 2]')).resolves.toMatchObject({ success: false, error: { code: 'INVALID_ARGUMENTS' } })
+  })
+
+  it('answers unknown local tools with an error result', async () => {
+    await expect(localToolService.executeTool({ id: 'call-1', type: 'function', function: { name: 'resolve_backups', arguments: '{}' } }))
+      .resolves.toMatchObject({ success: false, error: { code: 'UNKNOWN_TOOL' } })
+  })
+})
@@ -0,0 +1,293 @@
+/**
+ * Local Tool Service
+ * Tools implemented by the backend itself. They are offered to the model next to the
+ * MCP tools and answered in-process instead of being sent to an MCP server.
+ */
+
+import { deviceIndexService, DeviceField, DeviceMatch, MatchReason } from './device-index.service'
+import { parseSelector } from '../utils/address-selector'
+import logger from '../utils/logger'
+import { policyService } from './policy.service'
+import type { CachedTool } from './tool-discovery.service'
+import type { McpResult, ToolExecutionOptions } from './mcp.service'
+import type { ToolCall } from './zai.service'
+import type { DeviceClarification } from './pending-action.service'
+
+export interface LocalTool {
+  definition: CachedTool
+  execute(args: Record<string, unknown>): Promise<McpResult>
+}
+
+export type DeviceSelectorKind = 'name' | 'address' | 'vendor' | 'tag' | 'query'
+
+export interface ResolvedDevice {
+  id: string
+  name: string
+  address: string
+  type: string
+  server?: string
+  score: number
+  reason: MatchReason
+  field: DeviceField
+  selector: { kind: DeviceSelectorKind; value: string }
+}
+
+export interface ResolveDevicesResult {
+  devices: ResolvedDevice[]
+  ambiguous: DeviceClarification[] // names that did not single out one device
+  unresolved: string[] // selectors that matched nothing
+  total: number
+  truncated: boolean
+}
+
+export const RESOLVE_DEVICES_TOOL = 'resolve_devices'
+
+const DEFAULT_RESOLVE_LIMIT = 50
+const MAX_RESOLVE_LIMIT = 500
+
+// Fields searched for each kind of selector. Addresses that parse as IPs, CIDRs, ranges or wildcards are matched numerically
+const SELECTOR_FIELDS: Record<Exclude<DeviceSelectorKind, 'address'>, DeviceField[]> = {
+  name: ['Name', 'Address'],
+  vendor: ['PluginName'],
+  tag: ['AssetFields'],
+  query: ['Name', 'Address', 'PluginName', 'AssetFields']
+}
+
+/**
+ * Registry of local tools, keyed by tool name
+ */
+export class LocalToolService {
+  private tools = new Map<string, LocalTool>()
+
+  register(tool: LocalTool): void {
+    this.tools.set(tool.definition.function.name, tool)
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  getDefinitions(): CachedTool[] {
+    return Array.from(this.tools.values(), tool => tool.definition)
+  }
+
+  /**
+   * Run a local tool call. Failures come back as an unsuccessful result, like MCP tool errors.
+   * With roles set the tool policy is checked first, as for MCP tools.
+   */
+  async executeTool(toolCall: ToolCall, options: Pick<ToolExecutionOptions, 'roles' | 'sessionId' | 'principal'> = {}): Promise<McpResult> {
+    const tool = this.tools.get(toolCall.function.name)
+    if (!tool) {
+      return {
+        success: false,
+        error: { code: 'UNKNOWN_TOOL', message: `Unknown local tool: ${toolCall.function.name}` }
+      }
+    }
+
+    if (options.roles) {
+      const decision = policyService.authorize(options.roles, toolCall.function.name, toolCall.function.arguments, {
+        sessionId: options.sessionId,
+        principal: options.principal?.id
+      })
+      if (!decision.allowed) {
+        return {
+          success: false,
+          error: {
+            code: 'POLICY_DENIED',
+            message: `${toolCall.function.name} is not permitted: ${decision.reason}`,
+            details: { roles: decision.roles }
+          }
+        }
+      }
+    }
+
+    let args: Record<string, unknown>
+    try {
+      const parsed = JSON.parse(toolCall.function.arguments || '{}')
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Arguments must be a JSON object')
+      }
+      args = parsed
+    } catch (error: any) {
+      return {
+        success: false,
+        error: { code: 'INVALID_ARGUMENTS', message: error.message }
+      }
+    }
+
+    try {
+      logger.info('Executing local tool', {
+        toolName: toolCall.function.name,
+        principal: options.principal?.id,
+        arguments: toolCall.function.arguments,
+        service: 'LocalToolService'
+      })
+      return await tool.execute(args)
+    } catch (error: any) {
+      logger.error('Local tool execution failed', {
+        toolName: toolCall.function.name,
+        error: error.message,
+        service: 'LocalToolService'
+      })
+      return {
+        success: false,
+        error: { code: 'EXECUTION_ERROR', message: error.message }
+      }
+    }
+  }
+
+  getServiceStatus(): { tools: string[] } {
+    return { tools: Array.from(this.tools.keys()) }
+  }
+}
+
+/**
+ * Strings from an argument that may be one string or an array of them
+ */
+function stringList(value: unknown): string[] {
+  return ([] as unknown[]).concat(value ?? [])
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(Boolean)
+}
+
+/**
+ * resolve_devices - look devices up in the device index by name, address selector, vendor or tag
+ */
+async function resolveDevices(args: Record<string, unknown>): Promise<McpResult<ResolveDevicesResult>> {
+  const selectors: Array<{ kind: DeviceSelectorKind; value: string }> = [
+    ...stringList(args.names).map(value => ({ kind: 'name' as const, value })),
+    ...stringList(args.addresses).map(value => ({ kind: 'address' as const, value })),
+    ...stringList(args.vendors).map(value => ({ kind: 'vendor' as const, value })),
+    ...stringList(args.tags).map(value => ({ kind: 'tag' as const, value })),
+    ...stringList(args.query).map(value => ({ kind: 'query' as const, value }))
+  ]
+
+  if (selectors.length === 0) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_ARGUMENTS',
+        message: 'Provide at least one of names, addresses, vendors, tags or query'
+      }
+    }
+  }
+
+  const requestedLimit = Number(args.limit)
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_RESOLVE_LIMIT)
+    : DEFAULT_RESOLVE_LIMIT
+  const server = typeof args.server === 'string' && args.server ? args.server : undefined
+
+  if (await deviceIndexService.getDevices() === null) {
+    return {
+      success: false,
+      error: {
+        code: 'INVENTORY_UNAVAILABLE',
+        message: 'The device inventory could not be loaded - use list_devices instead'
+      }
+    }
+  }
+
+  const resolved = new Map<string, ResolvedDevice>() // server + device ID -> best match
+  const ambiguous: DeviceClarification[] = []
+  const unresolved: string[] = []
+
+  for (const selector of selectors) {
+    let matches: DeviceMatch[]
+    const addressSelector = selector.kind === 'address' || selector.kind === 'query'
+      ? parseSelector(selector.value)
+      : null
+
+    if (addressSelector) {
+      matches = deviceIndexService.selectByAddress(addressSelector)
+    } else {
+      // Hostnames given as addresses are matched against the Address field as text
+      const fields = selector.kind === 'address' ? ['Address' as const] : SELECTOR_FIELDS[selector.kind]
+      matches = deviceIndexService.search(selector.value, { fields })
+    }
+
+    if (server) {
+      matches = matches.filter(match => match.device.Server === server)
+    }
+
+    if (matches.length === 0) {
+      unresolved.push(selector.value)
+      continue
+    }
+
+    if (selector.kind === 'name') {
+      const clarification = deviceIndexService.assessAmbiguity(selector.value, matches)
+      if (clarification) {
+        ambiguous.push(clarification)
+      }
+    }
+
+    for (const match of matches) {
+      const key = `${match.device.Server || ''}\u0000${match.device.ID}`
+      const existing = resolved.get(key)
+      if (existing && existing.score >= match.score) {
+        continue
+      }
+      resolved.set(key, {
+        id: String(match.device.ID),
+        name: match.device.Name,
+        address: match.device.Address,
+        type: match.device.PluginName,
+        ...(match.device.Server && { server: match.device.Server }),
+        score: match.score,
+        reason: match.reason,
+        field: match.field,
+        selector
+      })
+    }
+  }
+
+  const devices = Array.from(resolved.values())
+    .sort((a, b) => b.score - a.score || String(a.name).localeCompare(String(b.name)))
+
+  return {
+    success: true,
+    data: {
+      devices: devices.slice(0, limit),
+      ambiguous,
+      unresolved,
+      total: devices.length,
+      truncated: devices.length > limit
+    }
+  }
+}
+
+// Export singleton instance
+export const localToolService = new LocalToolService()
+
+localToolService.register({
+  definition: {
+    type: 'function',
+    function: {
+      name: RESOLVE_DEVICES_TOOL,
+      description: 'Find devices in the inventory and return their IDs. Accepts device names (typos tolerated), ' +
+        'IP addresses, CIDR blocks (10.0.0.0/24), ranges (10.0.0.1-50), wildcards (10.1.*.1), vendor or device type ' +
+        'names and asset tags. Use it to get the device IDs other tools need. Names that match several devices are ' +
+        'listed under "ambiguous" - ask the user which one they mean before changing anything.',
+      parameters: {
+        type: 'object',
+        properties: {
+          names: { type: 'array', items: { type: 'string' }, description: 'Device names or hostnames' },
+          addresses: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IP addresses, CIDR blocks, ranges or wildcards'
+          },
+          vendors: { type: 'array', items: { type: 'string' }, description: 'Vendors or device types (e.g. cisco, fortigate)' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Asset tags or asset field values (e.g. datacenter, site)' },
+          query: { type: 'string', description: 'Free text searched across every field' },
+          server: { type: 'string', description: 'Only return devices managed by this MCP server' },
+          limit: { type: 'number', description: `Maximum devices to return (default ${DEFAULT_RESOLVE_LIMIT})` }
+        },
+        required: []
+      }
+    }
+  },
+  execute: resolveDevices
+})
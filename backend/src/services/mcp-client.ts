@@ -0,0 +1,110 @@
+/**
+ * MCP client abstraction
+ * One interface over the REST facade and the native MCP transports (stdio, Streamable HTTP),
+ * selected per server through its transport setting
+ */
+
+import config, { MCPServerConfig, MCPTransportKind } from '../utils/config'
+import type { CircuitBreakerStatus } from '../utils/circuit-breaker'
+import { MCPHttpService } from './mcp-http.service'
+import { MCPSdkService } from './mcp-sdk.service'
+import type { ToolCall } from './zai.service'
+import type { Principal } from './auth.service'
+
+export type { MCPTransportKind } from '../utils/config'
+
+export interface MCPToolResponse {
+  success: boolean
+  data?: unknown
+  error?: {
+    code: string
+    message: string
+    details?: unknown
+  }
+  metadata?: {
+    executionTime: number
+    timestamp: string
+    toolName: string
+  }
+}
+
+export interface MCPHealthResponse {
+  status: string
+  timestamp: string
+  uptime: number
+  server: string
+  version: string
+  tools?: number
+  memory?: {
+    used: number
+    total: number
+  }
+}
+
+export interface MCPToolDefinition {
+  name: string
+  description: string
+  parameters: unknown
+}
+
+export interface MCPClientStatus {
+  server: string
+  initialized: boolean
+  transport: MCPTransportKind
+  endpoint: string
+  health: {
+    lastCheck: Date | null
+    status: string
+    responseTime?: number
+    tools?: number
+  }
+  circuit?: CircuitBreakerStatus
+}
+
+export interface MCPCallOptions {
+  signal?: AbortSignal // aborts the in-flight call, e.g. when the chat client disconnects
+  principal?: Principal // who the call is made for, forwarded to the MCP server for its own audit trail
+}
+
+/**
+ * What MCPService needs from a connection to the MCP server
+ */
+export interface MCPClient {
+  readonly serverName: string
+  readonly transport: MCPTransportKind
+  initialize(): Promise<void>
+  healthCheck(): Promise<MCPHealthResponse>
+  getAvailableTools(): Promise<MCPToolDefinition[]>
+  executeTool(toolCall: ToolCall, options?: MCPCallOptions): Promise<MCPToolResponse>
+  executeTools(toolCalls: ToolCall[], options?: MCPCallOptions): Promise<MCPToolResponse[]>
+  getServiceStatus(): MCPClientStatus
+  disconnect(): Promise<void>
+
+  /**
+   * Register a listener for server-side tool list changes.
+   * Transports without server notifications never call it.
+   */
+  onToolsChanged(listener: () => void): void
+}
+
+/**
+ * Timeout for one call of a tool - MCP_TOOL_TIMEOUTS override, else MCP_TOOL_TIMEOUT_MS
+ */
+export function getToolTimeout(toolName: string): number {
+  return config.MCP_TOOL_TIMEOUTS[toolName] ?? config.MCP_TOOL_TIMEOUT_MS
+}
+
+/**
+ * Build the client for one configured MCP server
+ */
+export function createMCPClient(server: MCPServerConfig): MCPClient {
+  switch (server.transport) {
+    case 'stdio':
+    case 'streamable-http':
+      return new MCPSdkService(server)
+
+    case 'rest':
+    default:
+      return new MCPHttpService(server)
+  }
+}
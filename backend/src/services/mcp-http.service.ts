@@ -4,43 +4,25 @@
  */
 
 import axios, { AxiosInstance, AxiosResponse } from 'axios'
-import config from '../utils/config'
+import config, { MCPServerConfig } from '../utils/config'
 import logger from '../utils/logger'
+import { CircuitBreaker, CircuitOpenError } from '../utils/circuit-breaker'
 import type { ZAIService, ToolCall } from './zai.service'
+import {
+  getToolTimeout,
+  MCPCallOptions,
+  MCPClient,
+  MCPClientStatus,
+  MCPHealthResponse,
+  MCPToolDefinition,
+  MCPToolResponse
+} from './mcp-client'
 
 interface MCPToolCall {
   tool: string
   arguments?: Record<string, unknown>
 }
 
-interface MCPToolResponse {
-  success: boolean
-  data?: unknown
-  error?: {
-    code: string
-    message: string
-    details?: unknown
-  }
-  metadata?: {
-    executionTime: number
-    timestamp: string
-    toolName: string
-  }
-}
-
-interface MCPHealthResponse {
-  status: string
-  timestamp: string
-  uptime: number
-  server: string
-  version: string
-  tools?: number
-  memory?: {
-    used: number
-    total: number
-  }
-}
-
 interface MCPInfoResponse {
   server: string
   version: string
@@ -59,10 +41,15 @@ interface MCPInfoResponse {
 
 /**
  * HTTP MCP Client for connecting to remote MCP server
+ * Uses the REST facade the server exposes with ENABLE_HTTP_SERVER=true
  */
-export class MCPHttpService {
+export class MCPHttpService implements MCPClient {
+  readonly serverName: string
+  readonly transport = 'rest' as const
   private readonly client: AxiosInstance
   private readonly baseURL: string
+  private readonly breaker: CircuitBreaker
+  private readonly inFlight = new Set<AbortController>()
   private isInitialized = false
   private healthStatus: {
     lastCheck: Date | null
@@ -74,20 +61,27 @@ export class MCPHttpService {
     status: 'uninitialized'
   }
 
-  constructor() {
-    this.baseURL = `http://${config.MCP_SERVER_HOST}:${config.MCP_SERVER_PORT}`
+  constructor(server: MCPServerConfig) {
+    this.serverName = server.name
+    this.baseURL = server.url
     
     // Create axios client with proper configuration
     this.client = axios.create({
       baseURL: this.baseURL,
-      timeout: 30000, // 30 seconds timeout
+      timeout: config.MCP_TOOL_TIMEOUT_MS, // tool calls override this per tool
       headers: {
         'Content-Type': 'application/json',
         'User-Agent': 'rp-sl1-chat-backend/2.0.0'
       }
     })
 
-      }
+    // Fail fast while the server is down instead of every turn waiting out the timeout
+    this.breaker = new CircuitBreaker({
+      name: `mcp:${server.name}`,
+      failureThreshold: config.MCP_BREAKER_FAILURE_THRESHOLD,
+      resetTimeoutMs: config.MCP_BREAKER_RESET_MS
+    })
+  }
 
   /**
    * Initialize the HTTP MCP client
@@ -110,6 +104,7 @@ export class MCPHttpService {
 
     } catch (error: any) {
       logger.error('Failed to initialize MCP HTTP client', {
+        server: this.serverName,
         baseURL: this.baseURL,
         error: error.message,
         stack: error.stack,
@@ -169,24 +164,49 @@ export class MCPHttpService {
   }
 
   /**
-   * Execute a tool via HTTP API
+   * Execute a tool via HTTP API, bounded by the tool's timeout and cancellable through options.signal
    */
-  async executeTool(toolCall: ToolCall): Promise<MCPToolResponse> {
+  async executeTool(toolCall: ToolCall, options: MCPCallOptions = {}): Promise<MCPToolResponse> {
+    const toolName = toolCall.function.name
+    const timeoutMs = getToolTimeout(toolName)
+    const startTime = Date.now()
+
+    // Own controller per call so disconnect() can cancel it as well as the caller
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    if (options.signal?.aborted) {
+      controller.abort()
+    } else {
+      options.signal?.addEventListener('abort', abort, { once: true })
+    }
+    this.inFlight.add(controller)
+
     try {
       if (!this.isInitialized) {
         throw new Error('MCP HTTP client not initialized')
       }
 
       const mcpToolCall: MCPToolCall = {
-        tool: toolCall.function.name,
+        tool: toolName,
         arguments: JSON.parse(toolCall.function.arguments)
       }
 
-      const response: AxiosResponse<MCPToolResponse> = await this.client.post('/tools/execute', mcpToolCall)
+      const response: AxiosResponse<MCPToolResponse> = await this.breaker.execute(
+        () => this.client.post('/tools/execute', mcpToolCall, {
+          timeout: timeoutMs,
+          signal: controller.signal,
+          // Lets the MCP server attribute the call to the chat user
+          ...(options.principal && {
+            headers: { 'X-Principal-Id': options.principal.id, 'X-Principal-Type': options.principal.type }
+          })
+        }),
+        error => this.isServerFailure(error)
+      )
       const result = response.data
 
       if (result.error) {
         logger.error('MCP tool execution returned error', {
+          server: this.serverName,
           tool: mcpToolCall.tool,
           error: result.error,
           service: 'MCPHttpService'
@@ -196,40 +216,61 @@ export class MCPHttpService {
       return result
 
     } catch (error: any) {
+      const code = error instanceof CircuitOpenError
+        ? 'CIRCUIT_OPEN'
+        : axios.isCancel(error)
+          ? 'CANCELLED'
+          : this.isTimeout(error) ? 'TIMEOUT' : 'EXECUTION_ERROR'
+
       logger.error('Failed to execute MCP tool', {
-        tool: toolCall.function.name,
+        server: this.serverName,
+        tool: toolName,
         arguments: toolCall.function.arguments,
+        code,
+        timeoutMs,
         error: error.message,
         service: 'MCPHttpService'
       })
 
+      const messages: Record<string, string> = {
+        CIRCUIT_OPEN: `MCP server ${this.serverName} is temporarily unavailable after repeated failures`,
+        CANCELLED: `${toolName} was cancelled`,
+        TIMEOUT: `${toolName} timed out after ${timeoutMs} ms`
+      }
+
       // Return a structured error response instead of throwing
       return {
         success: false,
         error: {
-          code: 'EXECUTION_ERROR',
-          message: error.message || 'Failed to execute tool',
-          details: this.handleAxiosError(error, 'tool execution')
+          code,
+          message: messages[code] || error.message || 'Failed to execute tool',
+          details: code === 'CIRCUIT_OPEN'
+            ? { retryAt: (error as CircuitOpenError).retryAt.toISOString() }
+            : this.handleAxiosError(error, 'tool execution')
         },
         metadata: {
-          executionTime: 0,
+          executionTime: Date.now() - startTime,
           timestamp: new Date().toISOString(),
-          toolName: toolCall.function.name
+          toolName
         }
       }
+
+    } finally {
+      options.signal?.removeEventListener('abort', abort)
+      this.inFlight.delete(controller)
     }
   }
 
   /**
    * Execute multiple tools in parallel
    */
-  async executeTools(toolCalls: ToolCall[]): Promise<MCPToolResponse[]> {
+  async executeTools(toolCalls: ToolCall[], options: MCPCallOptions = {}): Promise<MCPToolResponse[]> {
     if (!toolCalls || toolCalls.length === 0) {
       return []
     }
 
     try {
-      const promises = toolCalls.map(toolCall => this.executeTool(toolCall))
+      const promises = toolCalls.map(toolCall => this.executeTool(toolCall, options))
       const results = await Promise.all(promises)
 
       return results
@@ -260,9 +301,12 @@ export class MCPHttpService {
   /**
    * Get available tools from MCP server
    */
-  async getAvailableTools(): Promise<Array<{ name: string; description: string; parameters: unknown }>> {
+  async getAvailableTools(): Promise<MCPToolDefinition[]> {
     try {
-      const response: AxiosResponse<any> = await this.client.get('/tools')
+      const response: AxiosResponse<any> = await this.breaker.execute(
+        () => this.client.get('/tools'),
+        error => this.isServerFailure(error)
+      )
       
       if (response.data.success && Array.isArray(response.data.data)) {
         return response.data.data
@@ -274,6 +318,7 @@ export class MCPHttpService {
 
     } catch (error: any) {
       logger.error('Failed to get available tools', {
+        server: this.serverName,
         error: error.message,
         service: 'MCPHttpService'
       })
@@ -281,23 +326,22 @@ export class MCPHttpService {
     }
   }
 
+  /**
+   * The REST facade has no server push, so tool list changes are only seen on the next sync
+   */
+  onToolsChanged(listener: () => void): void {}
+
   /**
    * Get service status
    */
-  getServiceStatus(): {
-    initialized: boolean
-    baseURL: string
-    health: {
-      lastCheck: Date | null
-      status: string
-      responseTime?: number
-      tools?: number
-    }
-  } {
+  getServiceStatus(): MCPClientStatus {
     return {
+      server: this.serverName,
       initialized: this.isInitialized,
-      baseURL: this.baseURL,
-      health: this.healthStatus
+      transport: this.transport,
+      endpoint: this.baseURL,
+      health: this.healthStatus,
+      circuit: this.breaker.getStatus()
     }
   }
 
@@ -306,7 +350,9 @@ export class MCPHttpService {
    */
   async disconnect(): Promise<void> {
     try {
-      // For HTTP client, we just mark as disconnected
+      // Cancel whatever is still in flight, then mark as disconnected
+      this.inFlight.forEach(controller => controller.abort())
+      this.inFlight.clear()
       this.isInitialized = false
       this.healthStatus = {
         lastCheck: new Date(),
@@ -315,6 +361,7 @@ export class MCPHttpService {
 
     } catch (error: any) {
       logger.error('Error during MCP HTTP disconnection', {
+        server: this.serverName,
         baseURL: this.baseURL,
         error: error.message,
         service: 'MCPHttpService'
@@ -322,6 +369,24 @@ export class MCPHttpService {
     }
   }
 
+  /**
+   * Whether an error says the server is unhealthy (counts towards opening the circuit).
+   * Cancellations and 4xx answers come from a working server and do not count.
+   */
+  private isServerFailure(error: any): boolean {
+    if (axios.isCancel(error)) {
+      return false
+    }
+    if (error.response) {
+      return error.response.status >= 500
+    }
+    return true
+  }
+
+  private isTimeout(error: any): boolean {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+  }
+
   /**
    * Handle Axios errors consistently
    */
@@ -352,7 +417,7 @@ export class MCPHttpService {
       } else if (error.code === 'ETIMEDOUT') {
         return `Timeout during ${operation}`
       } else if (error.code === 'ENOTFOUND') {
-        return `MCP server host not found: ${config.MCP_SERVER_HOST}`
+        return `MCP server host not found: ${new URL(this.baseURL).hostname}`
       }
 
       return `Network error during ${operation}: ${error.code}`
@@ -363,6 +428,3 @@ export class MCPHttpService {
     }
   }
 }
-
-// Export singleton instance
-export const mcpHttpService = new MCPHttpService()
\ No newline at end of file
@@ -0,0 +1,84 @@
+import path from 'path'
+import { MCPSdkService } from './mcp-sdk.service'
+import type { ToolCall } from './zai.service'
+
+// A small MCP server on stdio, run with the SDK this package already depends on
+const SERVER_SCRIPT = `
+const { McpServer } = require('@modelcontextprotocol/sdk/server/mcp.js')
+const { StdioServerTransport } = require('@modelcontextprotocol/sdk/server/stdio.js')
+const { z } = require('zod')
+
+const server = new McpServer({ name: 'test-server', version: '1.2.3' })
+const text = value => ({ content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }] })
+
+server.registerTool('get_device', { inputSchema: { id: z.string() } }, async ({ id }) => text({ success: true, data: { ID: id } }))
+server.registerTool('get_version', {}, async () => text('1.2.3'))
+server.registerTool('delete_device', { inputSchema: { id: z.string() } }, async ({ id }) =>
+  ({ isError: true, ...text({ error: { code: 'NOT_FOUND', message: 'Device ' + id + ' not found' } }) }))
+server.registerTool('read_env', { inputSchema: { name: z.string() } }, async ({ name }) => text({ value: process.env[name] ?? null }))
+server.connect(new StdioServerTransport())
+`
+
+const call = (name: string, args: Record<string, unknown> = {}): ToolCall => ({
+  id: `call-${name}`,
+  type: 'function',
+  function: { name, arguments: JSON.stringify(args) }
+})
+
+describe('MCPSdkService over stdio', () => {
+  let client: MCPSdkService
+
+  beforeAll(async () => {
+    process.env.MCP_TEST_FORWARDED = 'forwarded'
+    process.env.MCP_TEST_SECRET = 'secret'
+    client = new MCPSdkService({
+      name: 'test',
+      transport: 'stdio',
+      url: '',
+      command: process.execPath,
+      args: ['-e', SERVER_SCRIPT],
+      cwd: path.resolve(__dirname, '../..'),
+      env: ['MCP_TEST_FORWARDED']
+    })
+    await client.initialize()
+  })
+
+  afterAll(async () => {
+    await client.disconnect()
+    delete process.env.MCP_TEST_FORWARDED
+    delete process.env.MCP_TEST_SECRET
+  })
+
+  it('completes the handshake and lists the server tools', async () => {
+    await expect(client.healthCheck()).resolves.toMatchObject({ status: 'healthy', server: 'test-server', version: '1.2.3', tools: 4 })
+
+    const tools = await client.getAvailableTools()
+    expect(tools.map(tool => tool.name).sort()).toEqual(['delete_device', 'get_device', 'get_version', 'read_env'])
+    expect(tools.find(tool => tool.name === 'get_device')?.parameters).toMatchObject({ properties: { id: { type: 'string' } } })
+  })
+
+  it('passes a { success, data } envelope through and wraps any other result', async () => {
+    await expect(client.executeTool(call('get_device', { id: '7' })))
+      .resolves.toMatchObject({ success: true, data: { ID: '7' }, metadata: { toolName: 'get_device' } })
+    await expect(client.executeTool(call('get_version')))
+      .resolves.toMatchObject({ success: true, data: '1.2.3' })
+  })
+
+  it('reports a tool error with the code and message the server gave', async () => {
+    await expect(client.executeTool(call('delete_device', { id: '7' })))
+      .resolves.toMatchObject({ success: false, error: { code: 'NOT_FOUND', message: 'Device 7 not found' } })
+  })
+
+  it('returns an error instead of throwing for unparseable arguments', async () => {
+    const response = await client.executeTool({ ...call('get_device'), function: { name: 'get_device', arguments: '{' } })
+
+    expect(response).toMatchObject({ success: false, error: { code: 'EXECUTION_ERROR' } })
+  })
+
+  it('passes only the listed environment variables to the server', async () => {
+    await expect(client.executeTool(call('read_env', { name: 'MCP_TEST_FORWARDED' })))
+      .resolves.toMatchObject({ data: { value: 'forwarded' } })
+    await expect(client.executeTool(call('read_env', { name: 'MCP_TEST_SECRET' })))
+      .resolves.toMatchObject({ data: { value: null } })
+  })
+})
@@ -0,0 +1,450 @@
+/**
+ * Native MCP Client Service
+ * Speaks the MCP protocol through @modelcontextprotocol/sdk over stdio
+ * (spawning the server in its configured directory) or Streamable HTTP
+ */
+
+import path from 'path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { ErrorCode, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServerConfig } from '../utils/config'
+import logger from '../utils/logger'
+import type { ToolCall } from './zai.service'
+import {
+  getToolTimeout,
+  MCPCallOptions,
+  MCPClient,
+  MCPClientStatus,
+  MCPHealthResponse,
+  MCPToolDefinition,
+  MCPToolResponse
+} from './mcp-client'
+
+interface CallToolResult {
+  content?: Array<{ type: string; text?: unknown }>
+  structuredContent?: Record<string, unknown>
+  isError?: boolean
+}
+
+const REQUEST_TIMEOUT_MS = 30000 // matches the REST client
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * { error: { code?, message?, details? } } - how servers describe a failure inside a tool result
+ */
+function hasErrorEnvelope(payload: unknown): payload is { error: Record<string, unknown> } {
+  return isRecord(payload) && isRecord(payload.error)
+}
+
+/**
+ * A payload already in the REST facade's { success, data?, error? } shape
+ */
+function isToolResponseEnvelope(payload: unknown): payload is MCPToolResponse {
+  return isRecord(payload) && typeof payload.success === 'boolean'
+}
+
+/**
+ * MCP client for the stdio and Streamable HTTP transports.
+ * Connects lazily and reconnects on the next request after the transport closes.
+ */
+export class MCPSdkService implements MCPClient {
+  readonly serverName: string
+  readonly transport: 'stdio' | 'streamable-http'
+  private readonly server: MCPServerConfig
+  private readonly endpoint: string
+  private client: Client | null = null
+  private connecting: Promise<Client> | null = null
+  private connectedAt: number | null = null
+  private isInitialized = false
+  private toolsChangedListeners: Array<() => void> = []
+  private healthStatus: MCPClientStatus['health'] = {
+    lastCheck: null,
+    status: 'uninitialized'
+  }
+
+  constructor(server: MCPServerConfig) {
+    if (server.transport === 'rest') {
+      throw new Error(`MCP server ${server.name} uses the REST facade - use MCPHttpService`)
+    }
+
+    this.server = server
+    this.serverName = server.name
+    this.transport = server.transport
+    this.endpoint = server.transport === 'stdio'
+      ? `${server.command} ${server.args.join(' ')} (cwd ${path.resolve(server.cwd)})`
+      : server.url
+  }
+
+  /**
+   * Connect to the MCP server and complete the protocol handshake
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.connect()
+      const health = await this.healthCheck()
+
+      this.isInitialized = true
+      this.healthStatus = {
+        lastCheck: new Date(),
+        status: 'connected',
+        responseTime: this.healthStatus.responseTime,
+        tools: health.tools
+      }
+
+    } catch (error: any) {
+      logger.error('Failed to initialize MCP client', {
+        server: this.serverName,
+        transport: this.transport,
+        endpoint: this.endpoint,
+        error: error.message,
+        stack: error.stack,
+        service: 'MCPSdkService'
+      })
+      this.isInitialized = true // Mark as initialized to prevent retry loops
+      throw new Error(`Failed to connect to MCP server: ${error.message}`)
+    }
+  }
+
+  /**
+   * Check MCP server health with a protocol ping
+   */
+  async healthCheck(): Promise<MCPHealthResponse> {
+    try {
+      const client = await this.connect()
+      const startTime = Date.now()
+      await client.ping({ timeout: REQUEST_TIMEOUT_MS })
+      const responseTime = Date.now() - startTime
+
+      const { tools } = await client.listTools(undefined, { timeout: REQUEST_TIMEOUT_MS })
+      const serverVersion = client.getServerVersion()
+
+      this.healthStatus = {
+        lastCheck: new Date(),
+        status: 'connected',
+        responseTime,
+        tools: tools.length
+      }
+
+      return {
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        uptime: this.connectedAt ? Math.round((Date.now() - this.connectedAt) / 1000) : 0,
+        server: serverVersion?.name || 'unknown',
+        version: serverVersion?.version || 'unknown',
+        tools: tools.length
+      }
+
+    } catch (error: any) {
+      this.healthStatus = {
+        lastCheck: new Date(),
+        status: 'error'
+      }
+      throw new Error(`MCP health check failed over ${this.transport}: ${error.message}`)
+    }
+  }
+
+  /**
+   * List tools via tools/list, following pagination cursors
+   */
+  async getAvailableTools(): Promise<MCPToolDefinition[]> {
+    try {
+      const client = await this.connect()
+      const tools: MCPToolDefinition[] = []
+      let cursor: string | undefined
+
+      do {
+        const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: REQUEST_TIMEOUT_MS })
+        tools.push(...page.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description || '',
+          parameters: tool.inputSchema
+        })))
+        cursor = page.nextCursor
+      } while (cursor)
+
+      return tools
+
+    } catch (error: any) {
+      logger.error('Failed to get available tools', {
+        server: this.serverName,
+        transport: this.transport,
+        error: error.message,
+        service: 'MCPSdkService'
+      })
+      throw new Error(`Failed to list MCP tools over ${this.transport}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Execute a tool via tools/call, bounded by the tool's timeout and cancellable through options.signal
+   */
+  async executeTool(toolCall: ToolCall, options: MCPCallOptions = {}): Promise<MCPToolResponse> {
+    const toolName = toolCall.function.name
+    const startTime = Date.now()
+
+    try {
+      if (!this.isInitialized) {
+        throw new Error('MCP client not initialized')
+      }
+
+      const client = await this.connect()
+      const result = await client.callTool({
+        name: toolName,
+        arguments: JSON.parse(toolCall.function.arguments || '{}'),
+        // Lets the MCP server attribute the call to the chat user
+        ...(options.principal && { _meta: { principal: { id: options.principal.id, type: options.principal.type } } })
+      }, undefined, { timeout: getToolTimeout(toolName), signal: options.signal })
+
+      const metadata = {
+        executionTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        toolName
+      }
+
+      const response = this.toToolResponse(result as CallToolResult, metadata)
+      if (response.error) {
+        logger.error('MCP tool execution returned error', {
+          tool: toolName,
+          error: response.error,
+          service: 'MCPSdkService'
+        })
+      }
+
+      return response
+
+    } catch (error: any) {
+      logger.error('Failed to execute MCP tool', {
+        tool: toolName,
+        arguments: toolCall.function.arguments,
+        server: this.serverName,
+        transport: this.transport,
+        error: error.message,
+        service: 'MCPSdkService'
+      })
+
+      const code = options.signal?.aborted
+        ? 'CANCELLED'
+        : error.code === ErrorCode.RequestTimeout ? 'TIMEOUT' : 'EXECUTION_ERROR'
+
+      // Return a structured error response instead of throwing
+      return {
+        success: false,
+        error: {
+          code,
+          message: error.message || 'Failed to execute tool',
+          details: `tools/call over ${this.transport} failed`
+        },
+        metadata: {
+          executionTime: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+          toolName
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute multiple tools in parallel
+   */
+  async executeTools(toolCalls: ToolCall[], options: MCPCallOptions = {}): Promise<MCPToolResponse[]> {
+    if (!toolCalls || toolCalls.length === 0) {
+      return []
+    }
+
+    // executeTool never throws, so a plain Promise.all is safe here
+    return Promise.all(toolCalls.map(toolCall => this.executeTool(toolCall, options)))
+  }
+
+  onToolsChanged(listener: () => void): void {
+    this.toolsChangedListeners.push(listener)
+  }
+
+  /**
+   * Get service status
+   */
+  getServiceStatus(): MCPClientStatus {
+    return {
+      server: this.serverName,
+      initialized: this.isInitialized,
+      transport: this.transport,
+      endpoint: this.endpoint,
+      health: this.healthStatus
+    }
+  }
+
+  /**
+   * Close the MCP session (terminates the spawned server for stdio)
+   */
+  async disconnect(): Promise<void> {
+    const client = this.client
+    this.client = null
+    this.connecting = null
+    this.connectedAt = null
+    this.isInitialized = false
+    this.healthStatus = {
+      lastCheck: new Date(),
+      status: 'disconnected'
+    }
+
+    if (!client) {
+      return
+    }
+
+    try {
+      await client.close()
+    } catch (error: any) {
+      logger.error('Error during MCP disconnection', {
+        server: this.serverName,
+        transport: this.transport,
+        error: error.message,
+        service: 'MCPSdkService'
+      })
+    }
+  }
+
+  /**
+   * Return the live client, connecting first if needed.
+   * Concurrent callers share a single connection attempt.
+   */
+  private async connect(): Promise<Client> {
+    if (this.client) {
+      return this.client
+    }
+    if (this.connecting) {
+      return this.connecting
+    }
+
+    this.connecting = (async () => {
+      const client = new Client({ name: 'rp-sl1-chat-backend', version: '2.0.0' })
+      const transport = this.createTransport()
+
+      client.onclose = () => {
+        if (this.client === client) {
+          logger.warn('MCP connection closed, will reconnect on next request', {
+            server: this.serverName,
+            transport: this.transport,
+            service: 'MCPSdkService'
+          })
+          this.client = null
+          this.connectedAt = null
+          this.healthStatus = { lastCheck: new Date(), status: 'disconnected' }
+        }
+      }
+      client.onerror = error => {
+        logger.warn('MCP transport error', {
+          server: this.serverName,
+          transport: this.transport,
+          error: error.message,
+          service: 'MCPSdkService'
+        })
+      }
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        logger.info('MCP server reported a tool list change', {
+          server: this.serverName,
+          transport: this.transport,
+          service: 'MCPSdkService'
+        })
+        this.toolsChangedListeners.forEach(listener => listener())
+      })
+
+      await client.connect(transport, { timeout: REQUEST_TIMEOUT_MS })
+
+      logger.info('Connected to MCP server', {
+        server: this.serverName,
+        transport: this.transport,
+        endpoint: this.endpoint,
+        serverInfo: client.getServerVersion(),
+        service: 'MCPSdkService'
+      })
+
+      this.client = client
+      this.connectedAt = Date.now()
+      return client
+    })()
+
+    try {
+      return await this.connecting
+    } finally {
+      this.connecting = null
+    }
+  }
+
+  private createTransport(): Transport {
+    if (this.transport === 'streamable-http') {
+      return new StreamableHTTPClientTransport(new URL(this.server.url))
+    }
+
+    // Only the SDK's safe defaults (PATH, HOME, ...) and the listed variables - the backend's own
+    // environment holds LLM keys, exporter headers and store credentials the server has no use for
+    const env: Record<string, string> = { ...getDefaultEnvironment() }
+    for (const name of this.server.env) {
+      const value = process.env[name]
+      if (value !== undefined) {
+        env[name] = value
+      }
+    }
+
+    const transport = new StdioClientTransport({
+      command: this.server.command,
+      args: this.server.args,
+      cwd: path.resolve(this.server.cwd),
+      env,
+      stderr: 'pipe'
+    })
+
+    // Surface the server's own logging through ours instead of mixing it into stdout
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      logger.debug('MCP server stderr', {
+        output: chunk.toString().trim(),
+        service: 'MCPSdkService'
+      })
+    })
+
+    return transport
+  }
+
+  /**
+   * Convert a tools/call result into the response shape of the REST facade.
+   * Servers that wrap their payload in a { success, data, error } envelope are passed through.
+   */
+  private toToolResponse(result: CallToolResult, metadata: NonNullable<MCPToolResponse['metadata']>): MCPToolResponse {
+    const text = (result.content || [])
+      .filter(item => item.type === 'text' && typeof item.text === 'string')
+      .map(item => item.text as string)
+      .join('\n')
+
+    let payload: unknown = result.structuredContent ?? text
+    if (result.structuredContent === undefined && text) {
+      try {
+        payload = JSON.parse(text)
+      } catch {
+        // Plain text result - keep it as is
+      }
+    }
+
+    if (result.isError) {
+      const envelopeError = hasErrorEnvelope(payload) ? payload.error : undefined
+      return {
+        success: false,
+        error: {
+          code: (typeof envelopeError?.code === 'string' && envelopeError.code) || 'TOOL_ERROR',
+          message: (typeof envelopeError?.message === 'string' && envelopeError.message) || text || 'Tool reported an error',
+          details: envelopeError?.details
+        },
+        metadata
+      }
+    }
+
+    if (isToolResponseEnvelope(payload)) {
+      return { ...payload, metadata }
+    }
+
+    return { success: true, data: payload, metadata }
+  }
+}
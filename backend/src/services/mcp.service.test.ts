@@ -0,0 +1,98 @@
+import { MCPService } from './mcp.service'
+import type { MCPClient } from './mcp-client'
+import type { MCPServerConfig } from '../utils/config'
+import type { ToolCall } from './zai.service'
+
+const server = (name: string): MCPServerConfig => ({
+  name,
+  transport: 'rest',
+  url: `http://${name}.example:3000`,
+  command: '',
+  args: [],
+  cwd: '.',
+  env: []
+})
+
+const call = (name: string): ToolCall => ({ id: `call-${name}`, type: 'function', function: { name, arguments: '{}' } })
+
+/**
+ * Fake connection offering the given tools - each call answers with the server and bare tool name it received
+ */
+const fakeClient = (config: MCPServerConfig, tools: string[], down = false): MCPClient => ({
+  serverName: config.name,
+  transport: 'rest',
+  initialize: jest.fn(async () => {
+    if (down) throw new Error('connect ECONNREFUSED')
+  }),
+  healthCheck: jest.fn(),
+  getAvailableTools: jest.fn(async () => tools.map(name => ({ name, description: `${name} tool`, parameters: { type: 'object', properties: {} } }))),
+  executeTool: jest.fn(async toolCall => ({ success: true, data: { server: config.name, tool: toolCall.function.name } })),
+  executeTools: jest.fn(),
+  getServiceStatus: () => ({ server: config.name, initialized: !down, transport: 'rest', endpoint: config.url, health: { lastCheck: null, status: 'ok' } }),
+  disconnect: jest.fn(),
+  onToolsChanged: jest.fn()
+})
+
+const TOOLS: Record<string, string[]> = {
+  eu: ['ping_device', 'get_region'],
+  us: ['ping_device', 'get_license']
+}
+
+describe('MCPService federation', () => {
+  it('keeps plain tool names with a single server', async () => {
+    const service = new MCPService([server('eu')], config => fakeClient(config, TOOLS[config.name]))
+    await service.initialize()
+
+    const tools = await service.getAvailableTools()
+
+    expect(service.isFederated()).toBe(false)
+    expect(tools.map(tool => tool.name)).toEqual(['ping_device', 'get_region'])
+    await expect(service.executeTool(call('ping_device'))).resolves.toMatchObject({ data: { server: 'eu', tool: 'ping_device' } })
+  })
+
+  it('qualifies tool names with their server when several are configured', async () => {
+    const service = new MCPService([server('eu'), server('us')], config => fakeClient(config, TOOLS[config.name]))
+    await service.initialize()
+
+    const tools = await service.getAvailableTools()
+
+    expect(tools.map(tool => tool.name)).toEqual(['eu__ping_device', 'eu__get_region', 'us__ping_device', 'us__get_license'])
+    expect(tools[0]).toMatchObject({ description: '[eu] ping_device tool', server: 'eu' })
+    expect(service.parseToolName('us__get_license')).toEqual({ server: 'us', tool: 'get_license' })
+    expect(service.parseToolName('apac__get_license')).toEqual({ server: null, tool: 'apac__get_license' })
+  })
+
+  it('routes a qualified call to its server under the bare tool name', async () => {
+    const service = new MCPService([server('eu'), server('us')], config => fakeClient(config, TOOLS[config.name]))
+    await service.initialize()
+
+    await expect(service.executeTool(call('us__ping_device'))).resolves.toMatchObject({
+      success: true,
+      data: { server: 'us', tool: 'ping_device' },
+      metadata: { server: 'us' }
+    })
+  })
+
+  it('routes an unqualified call only when exactly one server offers the tool', async () => {
+    const service = new MCPService([server('eu'), server('us')], config => fakeClient(config, TOOLS[config.name]))
+    await service.initialize()
+
+    await expect(service.executeTool(call('get_region'))).resolves.toMatchObject({ data: { server: 'eu', tool: 'get_region' } })
+    await expect(service.executeTool(call('ping_device'))).resolves.toMatchObject({
+      success: false,
+      error: { code: 'AMBIGUOUS_TOOL', message: expect.stringContaining('eu__ping_device, us__ping_device') }
+    })
+    await expect(service.executeTool(call('get_backups'))).resolves.toMatchObject({ success: false, error: { code: 'UNKNOWN_TOOL' } })
+  })
+
+  it('starts with the servers that are up and fails only when none is', async () => {
+    const partial = new MCPService([server('eu'), server('us')], config => fakeClient(config, TOOLS[config.name], config.name === 'us'))
+    await partial.initialize()
+
+    expect((await partial.getAvailableTools()).map(tool => tool.name)).toEqual(['eu__ping_device', 'eu__get_region'])
+    expect(partial.getServiceStatus().servers.us.error).toBe('connect ECONNREFUSED')
+
+    const down = new MCPService([server('eu'), server('us')], config => fakeClient(config, TOOLS[config.name], true))
+    await expect(down.initialize()).rejects.toThrow('MCP service initialization failed')
+  })
+})
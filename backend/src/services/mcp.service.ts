@@ -1,18 +1,26 @@
 /**
  * MCP Service Implementation
- * Connects to remote MCP server via HTTP API
- * Handles tool execution for Restorepoint operations
+ * Federates one or more named MCP servers (REST facade, stdio or Streamable HTTP)
+ * Handles tool routing and execution for Restorepoint operations
  */
 
-import { mcpHttpService } from './mcp-http.service'
-import config from '../utils/config'
+import { createMCPClient, MCPCallOptions, MCPClient, MCPClientStatus } from './mcp-client'
+import config, { MCPServerConfig } from '../utils/config'
 import logger from '../utils/logger'
+import { redactor } from '../utils/redaction'
+import { toolResultCache, ToolCacheStats } from './tool-result-cache.service'
+import { normalizeToolResult } from '../models/tool-results'
+import { policyService } from './policy.service'
+import { metricsService } from './metrics.service'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { tracingService } from './tracing.service'
 import type { ZAIService, ToolCall } from './zai.service'
 
 export interface MCPTool {
   name: string
   description: string
   inputSchema: any
+  server?: string // owning server, set on the federated tool list
 }
 
 export interface McpResult<T = unknown> {
@@ -28,13 +36,289 @@ export interface McpResult<T = unknown> {
   metadata?: Record<string, unknown>
 }
 
+export interface MCPServerStatus {
+  connection: MCPClientStatus
+  toolCount: number
+  toolSource: 'server' | 'fallback' | 'none'
+  lastToolSync: Date | null
+  error?: string
+}
+
+export interface ToolExecutionOptions extends MCPCallOptions {
+  bypassCache?: boolean // skip cached read-only results and fetch fresh ones
+  /**
+   * Roles the call is checked against by the tool policy. Calls the model asked for always carry them;
+   * the backend's own calls (device index refresh, task polling) leave them out and are not checked.
+   */
+  roles?: string[]
+  sessionId?: string // recorded with policy denials
+}
+
 /**
- * MCP Service - connects to remote HTTP MCP server
- * Handles tool execution via HTTP API calls
+ * Separator between server name and tool name in qualified tool names (e.g. emea__list_devices).
+ * Server names cannot contain it, so the first occurrence always splits correctly.
+ */
+export const TOOL_NAME_SEPARATOR = '__'
+
+interface ServerConnection {
+  name: string
+  client: MCPClient
+  tools: MCPTool[] // unqualified names, as the server knows them
+  toolSource: MCPServerStatus['toolSource']
+  lastToolSync: Date | null
+  error?: string
+}
+
+/**
+ * Used for a server that is reachable but fails to list its tools
+ */
+const FALLBACK_TOOLS: MCPTool[] = [
+  {
+    name: 'list_devices',
+    description: 'List all network devices managed by Restorepoint',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', default: 50 },
+        offset: { type: 'number', default: 0 },
+        sortBy: { type: 'string', enum: ['name', 'type', 'status'], default: 'name' },
+        sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'asc' }
+      }
+    }
+  },
+  {
+    name: 'get_device',
+    description: 'Get detailed information about a specific device',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceId: { type: 'string' },
+        includeConnections: { type: 'boolean', default: false }
+      },
+      required: ['deviceId']
+    }
+  },
+  {
+    name: 'create_device',
+    description: 'Add a new device to the Restorepoint management system',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Device name (1-200 characters)' },
+        type: { type: 'string', description: 'Device type identifier (cisco-ios, palo-alto, linux, etc.)' },
+        credentials: { 
+          type: 'object', 
+          properties: {
+            username: { type: 'string', description: 'Device username' },
+            password: { type: 'string', description: 'Device password' }
+          },
+          required: ['username', 'password']
+        },
+        ipAddress: { type: 'string', description: 'Device IP address' },
+        hostname: { type: 'string', description: 'Device hostname' },
+        description: { type: 'string', description: 'Device description' },
+        enabled: { type: 'boolean', description: 'Whether device is enabled' }
+      },
+      required: ['name', 'type', 'credentials']
+    }
+  },
+  {
+    name: 'update_device',
+    description: 'Update an existing device configuration',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceId: { type: 'string' },
+        updates: { type: 'object' }
+      },
+      required: ['deviceId', 'updates']
+    }
+  },
+  {
+    name: 'delete_device',
+    description: 'Remove a device from the Restorepoint management system',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceId: { type: 'string' }
+      },
+      required: ['deviceId']
+    }
+  },
+  {
+    name: 'list_backups',
+    description: 'List backup history and current status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', default: 50 },
+        offset: { type: 'number', default: 0 }
+      }
+    }
+  },
+  {
+    name: 'get_backup',
+    description: 'Get detailed information about a specific backup',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        backupId: { type: 'string' }
+      },
+      required: ['backupId']
+    }
+  },
+  {
+    name: 'create_backup',
+    description: 'Start backup operation on specified devices',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceIds: { type: 'array', items: { type: 'string' } },
+        backupName: { type: 'string' },
+        backupType: { type: 'string', enum: ['full', 'incremental', 'config'] }
+      },
+      required: ['deviceIds']
+    }
+  },
+  {
+    name: 'list_commands',
+    description: 'List command execution history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', default: 50 },
+        offset: { type: 'number', default: 0 }
+      }
+    }
+  },
+  {
+    name: 'get_command',
+    description: 'Get details of a specific command execution',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commandId: { type: 'string' }
+      },
+      required: ['commandId']
+    }
+  },
+  {
+    name: 'execute_command',
+    description: 'Execute command on devices',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceIds: { type: 'array', items: { type: 'string' } },
+        command: { type: 'string' },
+        timeout: { type: 'number', default: 300 }
+      },
+      required: ['deviceIds', 'command']
+    }
+  },
+  {
+    name: 'get_task_status',
+    description: 'Check status of background tasks (backups, commands, etc.)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string' }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'get_device_requirements',
+    description: 'Get comprehensive device creation requirements including supported types and examples',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceType: { type: 'string', description: 'Optional: Get requirements for specific device type' }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'validate_device_request',
+    description: 'Validate device creation request before submission to create_device',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        request: { 
+          type: 'object', 
+          description: 'Device creation request to validate',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string' },
+            ipAddress: { type: 'string' },
+            hostname: { type: 'string' },
+            credentials: { type: 'object' },
+            description: { type: 'string' },
+            enabled: { type: 'boolean' }
+          }
+        }
+      },
+      required: ['request']
+    }
+  },
+  {
+    name: 'get_device',
+    description: 'Get detailed information about a specific device',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        deviceId: { type: 'string', description: 'Unique identifier of the device' },
+        includeConnections: { type: 'boolean', default: false, description: 'Include device connection information' }
+      },
+      required: ['deviceId']
+    }
+  },
+  {
+    name: 'get_status',
+    description: 'Get device and network status information',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  }
+]
+
+/**
+ * MCP Service - federates the configured MCP servers behind one tool list.
+ * With a single server tools keep their plain names; with several, every tool is
+ * exposed as <server>__<tool> and calls are routed to the owning server.
  */
 export class MCPService {
+  private readonly connections: Map<string, ServerConnection>
   private isInitialized = false
   private availableTools: MCPTool[] = []
+  private toolsChangedListeners: Array<() => void> = []
+
+  constructor(
+    servers: MCPServerConfig[] = config.MCP_SERVERS,
+    clientFactory: (server: MCPServerConfig) => MCPClient = createMCPClient
+  ) {
+    this.connections = new Map(servers.map(server => [server.name, {
+      name: server.name,
+      client: clientFactory(server),
+      tools: [],
+      toolSource: 'none' as const,
+      lastToolSync: null
+    }]))
+
+    // Servers that push tools/list_changed get their new tool list picked up straight away
+    for (const connection of this.connections.values()) {
+      connection.client.onToolsChanged(() => {
+        this.loadServerTools(connection)
+          .then(() => this.toolsChangedListeners.forEach(listener => listener()))
+          .catch(error => logger.warn('Failed to reload tools after change notification', {
+            server: connection.name,
+            error: error.message,
+            service: 'MCPService'
+          }))
+      })
+    }
+  }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -42,322 +326,341 @@ export class MCPService {
       return
     }
 
-    try {
-      logger.info('Initializing MCP service', {
-        serverHost: config.MCP_SERVER_HOST,
-        serverPort: config.MCP_SERVER_PORT,
-        baseURL: `http://${config.MCP_SERVER_HOST}:${config.MCP_SERVER_PORT}`,
-        service: 'MCPService'
-      })
+    logger.info('Initializing MCP service', {
+      servers: [...this.connections.values()].map(c => ({
+        name: c.name,
+        transport: c.client.transport,
+        endpoint: c.client.getServiceStatus().endpoint
+      })),
+      service: 'MCPService'
+    })
 
-      // Initialize the HTTP client
-      await mcpHttpService.initialize()
+    // Connect every server independently - one region being down must not take the others with it
+    const results = await Promise.allSettled(
+      [...this.connections.values()].map(connection => this.initializeServer(connection))
+    )
+    const failed = [...this.connections.values()].filter((_, index) => results[index].status === 'rejected')
 
-      // Get available tools from the server
-      await this.loadAvailableTools()
+    this.isInitialized = true // Mark as initialized to prevent retry loops
 
-      this.isInitialized = true
+    if (failed.length === this.connections.size) {
+      logger.error('Failed to initialize MCP service', {
+        errors: failed.map(c => ({ server: c.name, error: c.error })),
+        service: 'MCPService'
+      })
+      throw new Error(`MCP service initialization failed: ${failed.map(c => `${c.name}: ${c.error}`).join('; ')}`)
+    }
 
-      logger.info('MCP service initialized successfully', {
-        serverHost: config.MCP_SERVER_HOST,
-        serverPort: config.MCP_SERVER_PORT,
-        toolCount: this.availableTools.length,
-        tools: this.availableTools.map(t => t.name),
+    if (failed.length > 0) {
+      logger.warn('Some MCP servers are unavailable', {
+        unavailable: failed.map(c => ({ server: c.name, error: c.error })),
         service: 'MCPService'
       })
+    }
+
+    logger.info('MCP service initialized successfully', {
+      servers: this.connections.size,
+      connected: this.connections.size - failed.length,
+      toolCount: this.availableTools.length,
+      tools: this.availableTools.map(t => t.name),
+      service: 'MCPService'
+    })
+  }
+
+  /**
+   * Whether more than one server is configured, i.e. tool names are server-qualified
+   */
+  isFederated(): boolean {
+    return this.connections.size > 1
+  }
 
+  getServerNames(): string[] {
+    return [...this.connections.keys()]
+  }
+
+  /**
+   * Name under which a server's tool is exposed to the model
+   */
+  qualifyToolName(server: string, tool: string): string {
+    return this.isFederated() ? `${server}${TOOL_NAME_SEPARATOR}${tool}` : tool
+  }
+
+  /**
+   * Split an exposed tool name into its server (null when unqualified) and plain tool name
+   */
+  parseToolName(name: string): { server: string | null; tool: string } {
+    const separatorIndex = name.indexOf(TOOL_NAME_SEPARATOR)
+    if (separatorIndex > 0 && this.connections.has(name.slice(0, separatorIndex))) {
+      return {
+        server: name.slice(0, separatorIndex),
+        tool: name.slice(separatorIndex + TOOL_NAME_SEPARATOR.length)
+      }
+    }
+    return { server: null, tool: name }
+  }
+
+  /**
+   * Tool arguments as an object, or null when the model sent something unparseable
+   */
+  private parseArguments(raw: string): Record<string, unknown> | null {
+    try {
+      const parsed = JSON.parse(raw || '{}')
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+
+  private async initializeServer(connection: ServerConnection): Promise<void> {
+    try {
+      await connection.client.initialize()
+      connection.error = undefined
     } catch (error: any) {
-      logger.error('Failed to initialize MCP service', {
-        serverHost: config.MCP_SERVER_HOST,
-        serverPort: config.MCP_SERVER_PORT,
+      connection.error = error.message
+      logger.error('Failed to initialize MCP server connection', {
+        server: connection.name,
         error: error.message,
-        stack: error.stack,
         service: 'MCPService'
       })
-      
-      this.isInitialized = true // Mark as initialized to prevent retry loops
-      throw new Error(`MCP service initialization failed: ${error.message}`)
+      throw error
     }
+
+    await this.loadServerTools(connection)
   }
 
   /**
-   * Load available tools from the MCP server
+   * Load available tools from one MCP server and rebuild the federated list
    */
-  private async loadAvailableTools(): Promise<void> {
+  private async loadServerTools(connection: ServerConnection): Promise<void> {
     try {
-      const tools = await mcpHttpService.getAvailableTools()
-      
-      this.availableTools = tools.map(tool => ({
+      const tools = await connection.client.getAvailableTools()
+
+      connection.tools = tools.map(tool => ({
         name: tool.name,
         description: tool.description,
         inputSchema: tool.parameters
       }))
+      connection.toolSource = 'server'
 
       logger.debug('Loaded available tools from MCP server', {
-        toolCount: this.availableTools.length,
-        tools: this.availableTools.map(t => t.name),
+        server: connection.name,
+        toolCount: connection.tools.length,
+        tools: connection.tools.map(t => t.name),
         service: 'MCPService'
       })
 
     } catch (error: any) {
       logger.warn('Failed to load tools from MCP server, using fallback', {
+        server: connection.name,
         error: error.message,
         service: 'MCPService'
       })
 
       // Fallback to default tools list
-      this.availableTools = [
-        {
-          name: 'list_devices',
-          description: 'List all network devices managed by Restorepoint',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              limit: { type: 'number', default: 50 },
-              offset: { type: 'number', default: 0 },
-              sortBy: { type: 'string', enum: ['name', 'type', 'status'], default: 'name' },
-              sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'asc' }
-            }
-          }
-        },
-        {
-          name: 'get_device',
-          description: 'Get detailed information about a specific device',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceId: { type: 'string' },
-              includeConnections: { type: 'boolean', default: false }
-            },
-            required: ['deviceId']
-          }
-        },
-        {
-          name: 'create_device',
-          description: 'Add a new device to the Restorepoint management system',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              name: { type: 'string', description: 'Device name (1-200 characters)' },
-              type: { type: 'string', description: 'Device type identifier (cisco-ios, palo-alto, linux, etc.)' },
-              credentials: { 
-                type: 'object', 
-                properties: {
-                  username: { type: 'string', description: 'Device username' },
-                  password: { type: 'string', description: 'Device password' }
-                },
-                required: ['username', 'password']
-              },
-              ipAddress: { type: 'string', description: 'Device IP address' },
-              hostname: { type: 'string', description: 'Device hostname' },
-              description: { type: 'string', description: 'Device description' },
-              enabled: { type: 'boolean', description: 'Whether device is enabled' }
-            },
-            required: ['name', 'type', 'credentials']
-          }
-        },
-        {
-          name: 'update_device',
-          description: 'Update an existing device configuration',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceId: { type: 'string' },
-              updates: { type: 'object' }
-            },
-            required: ['deviceId', 'updates']
-          }
-        },
-        {
-          name: 'delete_device',
-          description: 'Remove a device from the Restorepoint management system',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceId: { type: 'string' }
-            },
-            required: ['deviceId']
-          }
-        },
-        {
-          name: 'list_backups',
-          description: 'List backup history and current status',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              limit: { type: 'number', default: 50 },
-              offset: { type: 'number', default: 0 }
-            }
-          }
-        },
-        {
-          name: 'get_backup',
-          description: 'Get detailed information about a specific backup',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              backupId: { type: 'string' }
-            },
-            required: ['backupId']
-          }
-        },
-        {
-          name: 'create_backup',
-          description: 'Start backup operation on specified devices',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceIds: { type: 'array', items: { type: 'string' } },
-              backupName: { type: 'string' },
-              backupType: { type: 'string', enum: ['full', 'incremental', 'config'] }
-            },
-            required: ['deviceIds']
-          }
-        },
-        {
-          name: 'list_commands',
-          description: 'List command execution history',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              limit: { type: 'number', default: 50 },
-              offset: { type: 'number', default: 0 }
-            }
-          }
-        },
-        {
-          name: 'get_command',
-          description: 'Get details of a specific command execution',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              commandId: { type: 'string' }
-            },
-            required: ['commandId']
-          }
-        },
-        {
-          name: 'execute_command',
-          description: 'Execute command on devices',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceIds: { type: 'array', items: { type: 'string' } },
-              command: { type: 'string' },
-              timeout: { type: 'number', default: 300 }
-            },
-            required: ['deviceIds', 'command']
-          }
-        },
-        {
-          name: 'get_task_status',
-          description: 'Check status of background tasks (backups, commands, etc.)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              taskId: { type: 'string' }
-            },
-            required: ['taskId']
-          }
-        },
-        {
-          name: 'get_device_requirements',
-          description: 'Get comprehensive device creation requirements including supported types and examples',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceType: { type: 'string', description: 'Optional: Get requirements for specific device type' }
-            },
-            required: []
-          }
-        },
-        {
-          name: 'validate_device_request',
-          description: 'Validate device creation request before submission to create_device',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              request: { 
-                type: 'object', 
-                description: 'Device creation request to validate',
-                properties: {
-                  name: { type: 'string' },
-                  type: { type: 'string' },
-                  ipAddress: { type: 'string' },
-                  hostname: { type: 'string' },
-                  credentials: { type: 'object' },
-                  description: { type: 'string' },
-                  enabled: { type: 'boolean' }
-                }
-              }
-            },
-            required: ['request']
-          }
-        },
-        {
-          name: 'get_device',
-          description: 'Get detailed information about a specific device',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              deviceId: { type: 'string', description: 'Unique identifier of the device' },
-              includeConnections: { type: 'boolean', default: false, description: 'Include device connection information' }
-            },
-            required: ['deviceId']
-          }
-        },
-        {
-          name: 'get_status',
-          description: 'Get device and network status information',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: []
-          }
-        }
-      ]
+      connection.tools = FALLBACK_TOOLS
+      connection.toolSource = 'fallback'
 
       logger.info('Using fallback tool definitions', {
-        toolCount: this.availableTools.length,
-        tools: this.availableTools.map(t => t.name),
+        server: connection.name,
+        toolCount: connection.tools.length,
+        tools: connection.tools.map(t => t.name),
         service: 'MCPService'
       })
     }
+
+    connection.lastToolSync = new Date()
+    this.rebuildToolList()
+  }
+
+  private rebuildToolList(): void {
+    const federated = this.isFederated()
+
+    this.availableTools = [...this.connections.values()].flatMap(connection =>
+      connection.tools.map(tool => ({
+        ...tool,
+        name: this.qualifyToolName(connection.name, tool.name),
+        description: federated ? `[${connection.name}] ${tool.description}` : tool.description,
+        server: connection.name
+      }))
+    )
+
+    // Clients log bare names, the chat loop logs exposed names - teach the redactor both
+    for (const connection of this.connections.values()) {
+      for (const tool of connection.tools) {
+        redactor.registerToolSchema(tool.name, tool.inputSchema)
+        redactor.registerToolSchema(this.qualifyToolName(connection.name, tool.name), tool.inputSchema)
+      }
+    }
+  }
+
+  /**
+   * Find the server a tool call belongs to. Unqualified names are accepted
+   * when exactly one server offers the tool.
+   */
+  private routeToolCall(name: string): { connection: ServerConnection; tool: string } | { error: { code: string; message: string } } {
+    const { server, tool } = this.parseToolName(name)
+
+    if (server) {
+      return { connection: this.connections.get(server)!, tool }
+    }
+
+    if (!this.isFederated()) {
+      return { connection: this.connections.values().next().value!, tool }
+    }
+
+    const owners = [...this.connections.values()].filter(c => c.tools.some(t => t.name === tool))
+    if (owners.length === 1) {
+      return { connection: owners[0], tool }
+    }
+
+    return owners.length === 0
+      ? {
+          error: {
+            code: 'UNKNOWN_TOOL',
+            message: `No MCP server offers tool ${name}`
+          }
+        }
+      : {
+          error: {
+            code: 'AMBIGUOUS_TOOL',
+            message: `Tool ${name} exists on several MCP servers - use one of: ${owners.map(c => this.qualifyToolName(c.name, tool)).join(', ')}`
+          }
+        }
   }
 
   /**
-   * Execute a single tool call
+   * Execute a single tool call on the server that owns it
    */
-  async executeTool(toolCall: ToolCall): Promise<McpResult> {
+  async executeTool(toolCall: ToolCall, options: ToolExecutionOptions = {}): Promise<McpResult> {
     try {
       if (!this.isInitialized) {
         await this.initialize()
       }
 
+      const route = this.routeToolCall(toolCall.function.name)
+      if ('error' in route) {
+        logger.warn('MCP tool call could not be routed', {
+          toolName: toolCall.function.name,
+          error: route.error,
+          service: 'MCPService'
+        })
+        return { success: false, error: route.error }
+      }
+
+      const { connection, tool } = route
+
+      if (options.roles) {
+        const decision = policyService.authorize(options.roles, toolCall.function.name, toolCall.function.arguments, {
+          sessionId: options.sessionId,
+          principal: options.principal?.id
+        })
+        if (!decision.allowed) {
+          return {
+            success: false,
+            error: {
+              code: 'POLICY_DENIED',
+              message: `${tool} is not permitted: ${decision.reason}`,
+              details: { roles: decision.roles }
+            }
+          }
+        }
+      }
+
+      const args = this.parseArguments(toolCall.function.arguments)
+
+      if (args && toolResultCache.isCacheable(tool)) {
+        if (options.bypassCache) {
+          toolResultCache.recordBypass()
+        } else {
+          const cached = toolResultCache.get(connection.name, tool, args)
+          if (cached) {
+            logger.debug('Serving MCP tool result from cache', {
+              toolName: toolCall.function.name,
+              server: connection.name,
+              ageMs: cached.ageMs,
+              service: 'MCPService'
+            })
+            tracingService.activeSpan()?.setAttributes({ 'tool.cached': true, 'tool.cache_age_ms': cached.ageMs })
+            return {
+              ...cached.value,
+              metadata: { ...cached.value.metadata, cached: true, cacheAgeMs: cached.ageMs }
+            }
+          }
+        }
+      }
+
       logger.info('Executing MCP tool', {
         toolName: toolCall.function.name,
+        server: connection.name,
+        principal: options.principal?.id,
         arguments: toolCall.function.arguments,
         service: 'MCPService'
       })
 
-      const result = await mcpHttpService.executeTool(toolCall)
+      // The MCP HTTP client sends this span's context as a W3C traceparent header
+      const callStartedAt = Date.now()
+      const result = await tracingService.withSpan('mcp.tool_call', {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'mcp.server': connection.name,
+          'mcp.tool': tool,
+          'mcp.transport': connection.client.getServiceStatus().transport
+        }
+      }, async span => {
+        const response = await connection.client.executeTool({
+          ...toolCall,
+          function: { ...toolCall.function, name: tool }
+        }, { signal: options.signal, principal: options.principal }).catch(error => {
+          metricsService.observeMcpCall(connection.name, tool, Date.now() - callStartedAt, 'EXECUTION_ERROR')
+          throw error
+        })
+        const errorCode = response.success ? undefined : response.error?.code || 'TOOL_EXECUTION_FAILED'
+        metricsService.observeMcpCall(connection.name, tool, Date.now() - callStartedAt, errorCode)
+        span.setAttributes({ 'mcp.success': response.success, 'mcp.error_code': errorCode })
+        if (errorCode) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: response.error?.message })
+        }
+        return response
+      })
+      const metadata = this.isFederated()
+        ? { ...result.metadata, server: connection.name }
+        : result.metadata
+
+      // Even a failed write may have changed something, so invalidate regardless of the outcome
+      toolResultCache.invalidateFor(connection.name, tool, args || {})
 
       if (result.success) {
         logger.info('MCP tool execution successful', {
           toolName: toolCall.function.name,
+          server: connection.name,
           hasData: !!result.data,
           metadata: result.metadata,
           service: 'MCPService'
         })
 
-        return {
+        const normalized = normalizeToolResult(tool, {
           success: true,
           data: result.data,
-          metadata: result.metadata
+          metadata
+        })
+        if (!normalized.success) {
+          logger.error('MCP tool result does not match its model', {
+            toolName: toolCall.function.name,
+            server: connection.name,
+            error: normalized.error,
+            service: 'MCPService'
+          })
+          return normalized
+        }
+
+        if (args) {
+          toolResultCache.set(connection.name, tool, args, normalized)
         }
+        return normalized
       } else {
         logger.warn('MCP tool execution failed', {
           toolName: toolCall.function.name,
+          server: connection.name,
           error: result.error,
           metadata: result.metadata,
           service: 'MCPService'
@@ -370,7 +673,7 @@ export class MCPService {
             message: result.error?.message || 'Tool execution failed',
             details: result.error?.details as Record<string, unknown> | undefined
           },
-          metadata: result.metadata
+          metadata
         }
       }
 
@@ -383,6 +686,7 @@ export class MCPService {
         service: 'MCPService'
       })
 
+      // Details reach the browser and the model - no stack, and arguments only with secrets masked
       return {
         success: false,
         error: {
@@ -390,8 +694,7 @@ export class MCPService {
           message: error.message || 'Tool execution failed',
           details: {
             toolName: toolCall.function.name,
-            arguments: toolCall.function.arguments,
-            stack: error.stack
+            arguments: redactor.redactToolArguments(toolCall.function.name, toolCall.function.arguments)
           }
         }
       }
@@ -399,62 +702,39 @@ export class MCPService {
   }
 
   /**
-   * Execute multiple tool calls in parallel
+   * Execute multiple tool calls in parallel, each on its own server
    */
-  async executeTools(toolCalls: ToolCall[]): Promise<McpResult[]> {
+  async executeTools(toolCalls: ToolCall[], options: ToolExecutionOptions = {}): Promise<McpResult[]> {
     if (!toolCalls || toolCalls.length === 0) {
       return []
     }
 
-    try {
-      if (!this.isInitialized) {
-        await this.initialize()
-      }
-
-      logger.info('Executing multiple MCP tools', {
-        toolCount: toolCalls.length,
-        toolNames: toolCalls.map(call => call.function.name),
-        service: 'MCPService'
-      })
-
-      const results = await mcpHttpService.executeTools(toolCalls)
+    logger.info('Executing multiple MCP tools', {
+      toolCount: toolCalls.length,
+      toolNames: toolCalls.map(call => call.function.name),
+      service: 'MCPService'
+    })
 
-      const successCount = results.filter(r => r.success).length
-      const errorCount = results.length - successCount
+    // executeTool never throws, so a plain Promise.all is safe here
+    const results = await Promise.all(toolCalls.map(toolCall => this.executeTool(toolCall, options)))
 
-      logger.info('Multiple MCP tools execution completed', {
-        total: results.length,
-        success: successCount,
-        errors: errorCount,
-        service: 'MCPService'
-      })
+    const successCount = results.filter(r => r.success).length
 
-      return results.map(result => ({
-        success: result.success,
-        data: result.data,
-        error: result.error ? {
-          ...result.error,
-          details: result.error.details as Record<string, unknown> | undefined
-        } : undefined,
-        metadata: result.metadata
-      }))
+    logger.info('Multiple MCP tools execution completed', {
+      total: results.length,
+      success: successCount,
+      errors: results.length - successCount,
+      service: 'MCPService'
+    })
 
-    } catch (error: any) {
-      logger.error('Failed to execute multiple MCP tools', {
-        toolCount: toolCalls.length,
-        error: error.message,
-        service: 'MCPService'
-      })
+    return results
+  }
 
-      // Return error results for all tools
-      return toolCalls.map(toolCall => ({
-        success: false,
-        error: {
-          code: 'BATCH_EXECUTION_ERROR',
-          message: error.message || 'Failed to execute tools in batch'
-        }
-      }))
-    }
+  /**
+   * Register a listener that runs after the tool list was reloaded on a server notification
+   */
+  onToolsChanged(listener: () => void): void {
+    this.toolsChangedListeners.push(listener)
   }
 
   /**
@@ -485,7 +765,8 @@ export class MCPService {
   }
 
   /**
-   * Health check for MCP service
+   * Health check for every MCP server. Healthy when all servers are,
+   * degraded when only some are reachable.
    */
   async healthCheck(): Promise<{ 
     status: string; 
@@ -493,85 +774,121 @@ export class MCPService {
     details?: any;
     services?: any;
   }> {
-    try {
-      const health = await mcpHttpService.healthCheck()
-      const status = mcpHttpService.getServiceStatus()
-
-      return {
-        status: health.status === 'healthy' ? 'healthy' : 'unhealthy',
-        mcp_connected: status.initialized && status.health.status === 'connected',
-        services: {
-          mcp_service: health.status,
-          mcp_connected: status.initialized,
+    const servers: Record<string, any> = {}
+
+    await Promise.all([...this.connections.values()].map(async connection => {
+      const status = connection.client.getServiceStatus()
+      try {
+        const health = await connection.client.healthCheck()
+        const refreshed = connection.client.getServiceStatus()
+
+        servers[connection.name] = {
+          status: health.status === 'healthy' ? 'healthy' : 'unhealthy',
+          mcp_connected: refreshed.initialized && refreshed.health.status === 'connected',
+          transport: status.transport,
           server: health.server,
           version: health.version,
           tools: health.tools,
           uptime: health.uptime,
-          responseTime: status.health.responseTime
+          responseTime: refreshed.health.responseTime
         }
-      }
 
-    } catch (error: any) {
-      logger.error('MCP health check failed', {
-        error: error.message,
-        service: 'MCPService'
-      })
+      } catch (error: any) {
+        logger.error('MCP health check failed', {
+          server: connection.name,
+          error: error.message,
+          service: 'MCPService'
+        })
 
-      return {
-        status: 'unhealthy',
-        mcp_connected: false,
-        services: {
-          mcp_service: 'error',
+        servers[connection.name] = {
+          status: 'unhealthy',
           mcp_connected: false,
+          transport: status.transport,
           error: error.message
         }
       }
+    }))
+
+    const healthyCount = Object.values(servers).filter(s => s.status === 'healthy').length
+    const status = healthyCount === this.connections.size
+      ? 'healthy'
+      : healthyCount > 0 ? 'degraded' : 'unhealthy'
+
+    return {
+      status,
+      mcp_connected: Object.values(servers).some(s => s.mcp_connected),
+      services: {
+        mcp_service: status,
+        mcp_connected: Object.values(servers).some(s => s.mcp_connected),
+        servers
+      }
     }
   }
 
   /**
-   * Disconnect from MCP server
+   * Disconnect from every MCP server
    */
   async disconnect(): Promise<void> {
-    try {
-      logger.info('Disconnecting from MCP server', {
-        service: 'MCPService'
-      })
-
-      await mcpHttpService.disconnect()
-      this.isInitialized = false
+    logger.info('Disconnecting from MCP servers', {
+      servers: this.getServerNames(),
+      service: 'MCPService'
+    })
+
+    await Promise.all([...this.connections.values()].map(async connection => {
+      try {
+        await connection.client.disconnect()
+      } catch (error) {
+        logger.error('Error during MCP disconnection', {
+          server: connection.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'MCPService'
+        })
+      }
+    }))
+    this.isInitialized = false
 
-      logger.info('Disconnected from MCP server successfully', {
-        service: 'MCPService'
-      })
+    logger.info('Disconnected from MCP servers successfully', {
+      service: 'MCPService'
+    })
+  }
 
-    } catch (error) {
-      logger.error('Error during MCP disconnection', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        service: 'MCPService'
-      })
-    }
+  /**
+   * Hit/miss statistics of the read-only tool result cache
+   */
+  getCacheStats(): ToolCacheStats {
+    return toolResultCache.getStats()
   }
 
   /**
-   * Get service status
+   * Get service status, with connection and tool details per server
    */
   getServiceStatus(): {
     initialized: boolean
-    connectionStatus: any
-    mcpServerPath: string
+    federated: boolean
     toolCount: number
+    servers: Record<string, MCPServerStatus>
+    cache: ToolCacheStats
   } {
-    const httpStatus = mcpHttpService.getServiceStatus()
+    const servers: Record<string, MCPServerStatus> = {}
+    for (const connection of this.connections.values()) {
+      servers[connection.name] = {
+        connection: connection.client.getServiceStatus(),
+        toolCount: connection.tools.length,
+        toolSource: connection.toolSource,
+        lastToolSync: connection.lastToolSync,
+        error: connection.error
+      }
+    }
 
     return {
       initialized: this.isInitialized,
-      connectionStatus: httpStatus,
-      mcpServerPath: `${config.MCP_SERVER_HOST}:${config.MCP_SERVER_PORT}`,
-      toolCount: this.availableTools.length
+      federated: this.isFederated(),
+      toolCount: this.availableTools.length,
+      servers,
+      cache: this.getCacheStats()
     }
   }
 }
 
 // Export singleton instance
-export const mcpService = new MCPService()
\ No newline at end of file
+export const mcpService = new MCPService()
@@ -0,0 +1,62 @@
+import { MetricsService } from './metrics.service'
+
+describe('MetricsService', () => {
+  let metrics: MetricsService
+
+  beforeEach(() => {
+    metrics = new MetricsService()
+  })
+
+  const lines = async () => (await metrics.render()).split('\n')
+
+  it('renders turn histograms in the Prometheus text format, in seconds', async () => {
+    metrics.observeTurn('completed', 1500, 2)
+    metrics.observeTurn('max_rounds', 45000, 10)
+
+    const output = await lines()
+
+    expect(output).toContain('# HELP sl1_chat_turn_duration_seconds Active processing time of a chat turn, excluding confirmation pauses')
+    expect(output).toContain('# TYPE sl1_chat_turn_duration_seconds histogram')
+    expect(output).toContain('sl1_chat_turn_duration_seconds_bucket{le="1",stop_reason="completed"} 0')
+    expect(output).toContain('sl1_chat_turn_duration_seconds_bucket{le="2",stop_reason="completed"} 1')
+    expect(output).toContain('sl1_chat_turn_duration_seconds_bucket{le="+Inf",stop_reason="completed"} 1')
+    expect(output).toContain('sl1_chat_turn_duration_seconds_sum{stop_reason="completed"} 1.5')
+    expect(output).toContain('sl1_chat_turn_duration_seconds_count{stop_reason="max_rounds"} 1')
+    expect(output).toContain('sl1_chat_turn_tool_rounds_sum{stop_reason="max_rounds"} 10')
+  })
+
+  it('counts LLM tokens by type and requests by status', async () => {
+    metrics.observeLlmRequest('zai', 'glm-4.6', 200, 800, { prompt_tokens: 90, completion_tokens: 10 })
+    metrics.observeLlmRequest('zai', 'glm-4.6', 200, 1200, { prompt_tokens: 290, completion_tokens: 10 })
+    metrics.observeLlmRequest('zai', 'glm-4.6', 'ECONNRESET', 100)
+
+    const output = await lines()
+
+    expect(output).toContain('# TYPE sl1_chat_llm_tokens_total counter')
+    expect(output).toContain('sl1_chat_llm_tokens_total{provider="zai",model="glm-4.6",type="prompt"} 380')
+    expect(output).toContain('sl1_chat_llm_tokens_total{provider="zai",model="glm-4.6",type="completion"} 20')
+    expect(output).toContain('sl1_chat_llm_request_duration_seconds_count{provider="zai",model="glm-4.6",status="200"} 2')
+    expect(output).toContain('sl1_chat_llm_request_duration_seconds_count{provider="zai",model="glm-4.6",status="ECONNRESET"} 1')
+  })
+
+  it('separates failed MCP calls and counts them by error code', async () => {
+    metrics.observeMcpCall('sl1', 'get_device', 120)
+    metrics.observeMcpCall('sl1', 'get_device', 30000, 'TIMEOUT')
+
+    const output = await lines()
+
+    expect(output).toContain('sl1_chat_mcp_tool_call_duration_seconds_count{server="sl1",tool="get_device",outcome="success"} 1')
+    expect(output).toContain('sl1_chat_mcp_tool_call_duration_seconds_count{server="sl1",tool="get_device",outcome="error"} 1')
+    expect(output).toContain('sl1_chat_mcp_tool_call_errors_total{server="sl1",tool="get_device",code="TIMEOUT"} 1')
+  })
+
+  it('escapes label values and leaves out process metrics unless asked for', async () => {
+    metrics.observeMcpCall('sl1', 'run "show\\version"\n', 10, 'EXECUTION_ERROR')
+
+    const output = await metrics.render()
+
+    expect(output).toContain('tool="run \\"show\\\\version\\"\\n"')
+    expect(output).not.toContain('sl1_chat_process_')
+    expect(metrics.contentType).toMatch(/^text\/plain; version=0\.0\.4/)
+  })
+})
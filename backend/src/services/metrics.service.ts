@@ -0,0 +1,114 @@
+/**
+ * Metrics Service
+ * Prometheus counters and histograms for chat turns, LLM requests and MCP tool calls,
+ * kept in a prom-client registry that GET /metrics renders
+ */
+
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client'
+
+export const METRICS_PREFIX = 'sl1_chat_'
+
+/**
+ * Instruments updated as work happens. Status owned by other services (tool discovery,
+ * result cache, rate limits) is read when /metrics is scraped instead of being copied here.
+ */
+export class MetricsService {
+  // Gauges read at scrape time register here too
+  readonly registry = new Registry()
+
+  private readonly turnDuration = new Histogram({
+    name: `${METRICS_PREFIX}turn_duration_seconds`,
+    help: 'Active processing time of a chat turn, excluding confirmation pauses',
+    labelNames: ['stop_reason'],
+    buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 180, 300],
+    registers: [this.registry]
+  })
+
+  private readonly turnToolRounds = new Histogram({
+    name: `${METRICS_PREFIX}turn_tool_rounds`,
+    help: 'Tool rounds executed by a chat turn',
+    labelNames: ['stop_reason'],
+    buckets: [0, 1, 2, 3, 4, 5, 6, 8, 10, 15, 20],
+    registers: [this.registry]
+  })
+
+  private readonly llmRequestDuration = new Histogram({
+    name: `${METRICS_PREFIX}llm_request_duration_seconds`,
+    help: 'Duration of each LLM completion attempt, by HTTP status (or error code when no response arrived)',
+    labelNames: ['provider', 'model', 'status'],
+    buckets: [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [this.registry]
+  })
+
+  private readonly llmTokens = new Counter({
+    name: `${METRICS_PREFIX}llm_tokens_total`,
+    help: 'LLM tokens reported by completions',
+    labelNames: ['provider', 'model', 'type'],
+    registers: [this.registry]
+  })
+
+  private readonly mcpCallDuration = new Histogram({
+    name: `${METRICS_PREFIX}mcp_tool_call_duration_seconds`,
+    help: 'Duration of MCP tool calls sent to a server (cache hits are not counted)',
+    labelNames: ['server', 'tool', 'outcome'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry]
+  })
+
+  private readonly mcpCallErrors = new Counter({
+    name: `${METRICS_PREFIX}mcp_tool_call_errors_total`,
+    help: 'Failed MCP tool calls by error code',
+    labelNames: ['server', 'tool', 'code'],
+    registers: [this.registry]
+  })
+
+  constructor(options: { processMetrics?: boolean } = {}) {
+    if (options.processMetrics) {
+      // CPU, memory, event loop lag and GC of the backend process
+      collectDefaultMetrics({ register: this.registry, prefix: METRICS_PREFIX })
+    }
+  }
+
+  observeTurn(stopReason: string, durationMs: number, toolRounds: number): void {
+    this.turnDuration.observe({ stop_reason: stopReason }, durationMs / 1000)
+    this.turnToolRounds.observe({ stop_reason: stopReason }, toolRounds)
+  }
+
+  observeLlmRequest(
+    provider: string,
+    model: string,
+    status: string | number,
+    durationMs: number,
+    usage?: { prompt_tokens?: number; completion_tokens?: number }
+  ): void {
+    this.llmRequestDuration.observe({ provider, model, status: String(status) }, durationMs / 1000)
+    if (usage) {
+      this.llmTokens.inc({ provider, model, type: 'prompt' }, usage.prompt_tokens || 0)
+      this.llmTokens.inc({ provider, model, type: 'completion' }, usage.completion_tokens || 0)
+    }
+  }
+
+  /**
+   * Record one MCP round trip; errorCode is set when the call failed
+   */
+  observeMcpCall(server: string, tool: string, durationMs: number, errorCode?: string): void {
+    this.mcpCallDuration.observe({ server, tool, outcome: errorCode ? 'error' : 'success' }, durationMs / 1000)
+    if (errorCode) {
+      this.mcpCallErrors.inc({ server, tool, code: errorCode })
+    }
+  }
+
+  get contentType(): string {
+    return this.registry.contentType
+  }
+
+  /**
+   * Every registered metric in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics()
+  }
+}
+
+// Export singleton instance
+export const metricsService = new MetricsService({ processMetrics: true })
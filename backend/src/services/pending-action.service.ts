@@ -0,0 +1,239 @@
+/**
+ * Pending Action Service
+ * Holds chat turns that were paused because the model asked for a destructive tool,
+ * or for a write tool on an ambiguously named device, until a human approves or rejects
+ * the action, or picks the devices that were meant (or it expires)
+ */
+
+import crypto from 'crypto'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import type { ToolCall } from './zai.service'
+import type { Principal } from './auth.service'
+
+export interface PendingToolAction {
+  toolCallId: string
+  toolName: string
+  arguments: Record<string, unknown>
+  destructive: boolean
+  devices: Array<{ id: string; name?: string; address?: string; type?: string }>
+}
+
+export interface DeviceCandidate {
+  id: string
+  name?: string
+  address?: string
+  type?: string
+  server?: string
+  score: number
+  reason: string // how the device matched the term (exact, prefix, token, fuzzy)
+}
+
+/**
+ * A device reference in the user's message that matched several devices, or only weakly
+ */
+export interface DeviceClarification {
+  term: string
+  reason: 'ambiguous' | 'low_confidence'
+  candidates: DeviceCandidate[]
+}
+
+/**
+ * Payload returned to the client describing what needs confirmation.
+ * A clarification asks the user to pick devices instead of approving or rejecting.
+ */
+export interface PendingActionPayload {
+  id: string
+  sessionId: string
+  principalId: string // who started the turn - only they, or a holder of an approver role, may resolve it
+  kind: 'confirmation' | 'clarification'
+  createdAt: string
+  expiresAt: string
+  actions: PendingToolAction[]
+  clarifications?: DeviceClarification[]
+}
+
+interface PendingActionRecord<TState> {
+  payload: PendingActionPayload
+  toolCalls: ToolCall[]
+  state: TState
+}
+
+export type PendingActionErrorCode = 'NOT_FOUND' | 'EXPIRED' | 'SESSION_MISMATCH' | 'PRINCIPAL_MISMATCH' | 'INVALID_RESOLUTION'
+
+export class PendingActionError extends Error {
+  readonly code: PendingActionErrorCode
+
+  constructor(code: PendingActionErrorCode, message: string) {
+    super(message)
+    this.name = 'PendingActionError'
+    this.code = code
+  }
+}
+
+/**
+ * Stores paused turns in memory keyed by a random action ID.
+ * The turn state is opaque to this service - ChatService owns its shape.
+ */
+export class PendingActionService<TState = unknown> {
+  private readonly ttlMs: number
+  private readonly destructiveTools: Set<string>
+  private readonly writeTools: Set<string>
+  private readonly approverRoles: Set<string>
+  private actions = new Map<string, PendingActionRecord<TState>>()
+  private sweepInterval: NodeJS.Timeout | null = null
+
+  constructor(ttlMs: number, destructiveTools: string[], writeTools: string[] = [], approverRoles: string[] = []) {
+    this.ttlMs = ttlMs
+    this.destructiveTools = new Set(destructiveTools)
+    // Destructive tools always change something, whether or not they are listed as writes
+    this.writeTools = new Set([...writeTools, ...destructiveTools])
+    this.approverRoles = new Set(approverRoles)
+  }
+
+  /**
+   * Whether a tool must be confirmed by a human before it runs
+   */
+  isDestructive(toolName: string): boolean {
+    return this.destructiveTools.has(toolName)
+  }
+
+  /**
+   * Whether a tool changes state, so it must not run against a guessed device
+   */
+  isWrite(toolName: string): boolean {
+    return this.writeTools.has(toolName)
+  }
+
+  /**
+   * Park a paused turn and return the payload for the client
+   */
+  create(
+    sessionId: string,
+    principalId: string,
+    toolCalls: ToolCall[],
+    actions: PendingToolAction[],
+    state: TState,
+    clarifications?: DeviceClarification[]
+  ): PendingActionPayload {
+    const now = Date.now()
+    const payload: PendingActionPayload = {
+      id: crypto.randomUUID(),
+      sessionId,
+      principalId,
+      kind: clarifications ? 'clarification' : 'confirmation',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      actions,
+      ...(clarifications && { clarifications })
+    }
+
+    this.actions.set(payload.id, { payload, toolCalls, state })
+
+    logger.info(clarifications ? 'Write action awaiting device selection' : 'Destructive action awaiting confirmation', {
+      actionId: payload.id,
+      sessionId,
+      principal: principalId,
+      tools: actions.map(a => a.toolName),
+      terms: clarifications?.map(c => c.term),
+      expiresAt: payload.expiresAt,
+      service: 'PendingActionService'
+    })
+
+    return payload
+  }
+
+  /**
+   * Look up a pending action of the session without consuming it
+   */
+  get(actionId: string, sessionId: string, principal: Principal): PendingActionPayload {
+    return this.find(actionId, sessionId, principal).payload
+  }
+
+  /**
+   * Remove a pending action so it can be resolved exactly once
+   */
+  take(actionId: string, sessionId: string, principal: Principal): PendingActionRecord<TState> {
+    const record = this.find(actionId, sessionId, principal)
+    this.actions.delete(actionId)
+    return record
+  }
+
+  /**
+   * Drop every expired action
+   */
+  purgeExpired(): number {
+    let purged = 0
+    for (const [id, record] of this.actions) {
+      if (this.isExpired(record.payload)) {
+        this.actions.delete(id)
+        purged++
+        logger.info('Pending action expired', {
+          actionId: id,
+          sessionId: record.payload.sessionId,
+          service: 'PendingActionService'
+        })
+      }
+    }
+    return purged
+  }
+
+  startExpirySweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval)
+    }
+    this.sweepInterval = setInterval(() => this.purgeExpired(), Math.min(this.ttlMs, 60 * 1000))
+  }
+
+  getServiceStatus(): { pendingCount: number; ttlMs: number; destructiveTools: string[]; writeTools: string[]; approverRoles: string[] } {
+    return {
+      pendingCount: this.actions.size,
+      ttlMs: this.ttlMs,
+      destructiveTools: [...this.destructiveTools],
+      writeTools: [...this.writeTools],
+      approverRoles: [...this.approverRoles]
+    }
+  }
+
+  shutdown(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval)
+      this.sweepInterval = null
+    }
+    this.actions.clear()
+  }
+
+  private find(actionId: string, sessionId: string, principal: Principal): PendingActionRecord<TState> {
+    const record = this.actions.get(actionId)
+    if (!record) {
+      throw new PendingActionError('NOT_FOUND', `Pending action ${actionId} not found`)
+    }
+
+    if (this.isExpired(record.payload)) {
+      this.actions.delete(actionId)
+      throw new PendingActionError('EXPIRED', `Pending action ${actionId} has expired`)
+    }
+
+    if (record.payload.sessionId !== sessionId) {
+      throw new PendingActionError('SESSION_MISMATCH', `Pending action ${actionId} belongs to another session`)
+    }
+
+    if (record.payload.principalId !== principal.id && !principal.roles.some(role => this.approverRoles.has(role))) {
+      throw new PendingActionError('PRINCIPAL_MISMATCH', `Pending action ${actionId} was requested by another principal`)
+    }
+
+    return record
+  }
+
+  private isExpired(payload: PendingActionPayload): boolean {
+    return Date.now() > new Date(payload.expiresAt).getTime()
+  }
+}
+
+// Export singleton instance
+export const pendingActionService = new PendingActionService(
+  config.PENDING_ACTION_TTL_MS,
+  config.DESTRUCTIVE_TOOLS,
+  config.WRITE_TOOLS,
+  config.AUTH_APPROVER_ROLES
+)
@@ -0,0 +1,126 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PolicyService, PolicyDocument } from './policy.service'
+
+const POLICY: PolicyDocument = {
+  defaultRoles: ['viewer'],
+  deny: [{ tool: 'delete_*' }],
+  roles: {
+    viewer: {
+      allow: [{ tool: 'list_*' }, { tool: 'run_command', arguments: { command: 'show *' } }]
+    },
+    operator: {
+      inherits: ['viewer'],
+      allow: [{ tool: 'run_command', arguments: { command: '*' } }],
+      deny: [
+        { tool: 'run_command', arguments: { command: { regex: '^\\s*(reload|write\\s+erase)\\b' } } },
+        { tool: 'run_command', environments: ['production'], arguments: { deviceIds: 'core-*' } }
+      ]
+    },
+    admin: {
+      allow: [{ tool: '*' }]
+    }
+  }
+}
+
+describe('PolicyService', () => {
+  let directory: string
+  let file: string
+
+  const args = (value: Record<string, unknown>) => JSON.stringify(value)
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-test-'))
+    file = path.join(directory, 'policy.json')
+    fs.writeFileSync(file, JSON.stringify(POLICY))
+  })
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  describe('in staging', () => {
+    let service: PolicyService
+
+    beforeAll(() => {
+      service = new PolicyService(file, 'staging')
+    })
+
+    it('lets a global deny win over every allow', () => {
+      const decision = service.evaluate(['admin'], 'delete_device', '{}')
+
+      expect(decision.allowed).toBe(false)
+      expect(decision.reason).toMatch(/Denied for every role/)
+    })
+
+    it('lets a deny of the role win over its own allows', () => {
+      expect(service.evaluate(['operator'], 'run_command', args({ command: 'configure terminal' })).allowed).toBe(true)
+      expect(service.evaluate(['operator'], 'run_command', args({ command: 'reload' })).allowed).toBe(false)
+    })
+
+    it('allows a call that another of the roles allows despite a deny of one role', () => {
+      const decision = service.evaluate(['operator', 'admin'], 'run_command', args({ command: 'reload' }))
+
+      expect(decision).toMatchObject({ allowed: true, role: 'admin' })
+    })
+
+    it('matches regular expressions case-insensitively, like globs', () => {
+      expect(service.evaluate(['operator'], 'run_command', args({ command: 'RELOAD in 5' })).allowed).toBe(false)
+      expect(service.evaluate(['operator'], 'run_command', args({ command: 'Write Erase' })).allowed).toBe(false)
+      expect(service.evaluate(['viewer'], 'run_command', args({ command: 'SHOW version' })).allowed).toBe(true)
+    })
+
+    it('gives inherited allows to the child role', () => {
+      expect(service.evaluate(['operator'], 'list_devices', '{}').allowed).toBe(true)
+    })
+
+    it('falls back to the default roles for callers without roles', () => {
+      const decision = service.evaluate([], 'run_command', args({ command: 'configure terminal' }))
+
+      expect(decision).toMatchObject({ allowed: false, roles: ['viewer'] })
+      expect(decision.reason).toMatch(/arguments are outside/)
+    })
+
+    it('matches rules against the server-qualified tool name too', () => {
+      expect(service.evaluate(['viewer'], 'emea__list_devices', '{}').allowed).toBe(true)
+      expect(service.evaluate(['admin'], 'emea__delete_device', '{}').allowed).toBe(false)
+    })
+
+    it('requires every element of an array argument to match', () => {
+      expect(service.evaluate(['viewer'], 'run_command', args({ command: ['show run', 'reload'] })).allowed).toBe(false)
+    })
+
+    it('does not apply rules scoped to another environment', () => {
+      expect(service.evaluate(['operator'], 'run_command', args({ command: 'show run', deviceIds: ['core-1'] })).allowed).toBe(true)
+    })
+
+    it('hides tools no role can use and keeps tools allowed for some arguments', () => {
+      expect(service.isToolVisible(['viewer'], 'run_command')).toBe(true)
+      expect(service.isToolVisible(['viewer'], 'update_device')).toBe(false)
+      expect(service.isToolVisible(['admin'], 'delete_device')).toBe(false)
+    })
+  })
+
+  it('applies rules scoped to the current environment', () => {
+    const service = new PolicyService(file, 'production')
+
+    expect(service.evaluate(['operator'], 'run_command', args({ command: 'show run', deviceIds: ['core-1'] })).allowed).toBe(false)
+    expect(service.evaluate(['operator'], 'run_command', args({ command: 'show run', deviceIds: ['edge-1'] })).allowed).toBe(true)
+  })
+
+  it('denies every tool while the policy file is invalid', () => {
+    const invalid = path.join(directory, 'invalid.json')
+    fs.writeFileSync(invalid, JSON.stringify({ ...POLICY, defaultRoles: ['missing'] }))
+    const service = new PolicyService(invalid, 'staging')
+
+    const decision = service.evaluate(['admin'], 'list_devices', '{}')
+
+    expect(decision.allowed).toBe(false)
+    expect(decision.reason).toMatch(/Unknown roles referenced: missing/)
+  })
+
+  it('allows every tool without a policy file', () => {
+    expect(new PolicyService('', 'staging').evaluate([], 'delete_device', '{}').allowed).toBe(true)
+  })
+})
@@ -0,0 +1,404 @@
+/**
+ * Policy Service
+ * Decides which tools - and which argument values - each role may use, from a declarative
+ * policy file. Forbidden tools are left out of the tool list sent to the model, and calls
+ * to them are refused before dispatch. Every refusal is written to the audit log.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Joi from 'joi'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import { redactor } from '../utils/redaction'
+import { TOOL_NAME_SEPARATOR } from './mcp.service'
+
+/**
+ * Glob (`*`, `?`), list of globs (any may match) or regular expression
+ */
+export type ArgumentPattern = string | string[] | { regex: string }
+
+export interface PolicyRule {
+  tool: string // glob matched against the plain and the server-qualified tool name
+  arguments?: Record<string, ArgumentPattern> // every listed argument must be present and match
+  environments?: string[] // only applies in these environments; all of them when omitted
+}
+
+export interface PolicyRole {
+  inherits?: string[]
+  allow?: PolicyRule[]
+  deny?: PolicyRule[]
+}
+
+export interface PolicyDocument {
+  defaultRoles: string[] // used when the caller has no roles of its own
+  deny: PolicyRule[] // applies to every role
+  roles: Record<string, PolicyRole>
+}
+
+export interface PolicyDecision {
+  allowed: boolean
+  reason: string
+  roles: string[]
+  role?: string // role whose rule allowed the call
+  rule?: PolicyRule // rule that allowed or denied the call
+}
+
+export interface PolicyContext {
+  sessionId?: string
+  principal?: string // ID of the principal the call was made for
+}
+
+interface CompiledRule {
+  rule: PolicyRule
+  tool: RegExp
+  arguments: Array<{ name: string; patterns: RegExp[] }>
+}
+
+interface CompiledRole {
+  allow: CompiledRule[]
+  deny: CompiledRule[]
+}
+
+const globPattern = Joi.string().min(1)
+
+const ruleSchema = Joi.object({
+  tool: globPattern.required(),
+  arguments: Joi.object().pattern(Joi.string(), Joi.alternatives(
+    globPattern,
+    Joi.array().items(globPattern).min(1),
+    Joi.object({ regex: Joi.string().min(1).required() })
+  )),
+  environments: Joi.array().items(Joi.string().min(1)).min(1)
+})
+
+const policySchema = Joi.object({
+  defaultRoles: Joi.array().items(Joi.string()).default([]),
+  deny: Joi.array().items(ruleSchema).default([]),
+  roles: Joi.object().pattern(Joi.string(), Joi.object({
+    inherits: Joi.array().items(Joi.string()),
+    allow: Joi.array().items(ruleSchema),
+    deny: Joi.array().items(ruleSchema)
+  })).required()
+})
+
+/**
+ * `*` matches any run of characters and `?` one character, but neither crosses a line
+ * break - "show *" does not let a second command through on the next line
+ */
+function compileGlob(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+function compilePattern(pattern: ArgumentPattern): RegExp[] {
+  if (typeof pattern === 'string') {
+    return [compileGlob(pattern)]
+  }
+  if (Array.isArray(pattern)) {
+    return pattern.map(compileGlob)
+  }
+  // Case-insensitive like globs - "RELOAD" must not slip past a rule written for "reload"
+  return [new RegExp(pattern.regex, 'i')]
+}
+
+/**
+ * Policy engine. Without a policy file every tool is allowed, as before policies existed.
+ */
+export class PolicyService {
+  private readonly filePath: string
+  private readonly environment: string
+  private policy: PolicyDocument | null = null
+  private roles = new Map<string, CompiledRole>() // effective rules, inheritance resolved
+  private globalDeny: CompiledRule[] = []
+  private loadError: string | null = null
+  private denials = 0
+  private lastDenialAt: string | null = null
+
+  constructor(filePath: string, environment: string) {
+    this.filePath = filePath
+    this.environment = environment
+    this.load()
+  }
+
+  /**
+   * (Re)read the policy file. An unreadable or invalid file denies every tool until it is fixed.
+   */
+  load(): void {
+    if (!this.filePath) {
+      this.policy = null
+      this.loadError = null
+      logger.info('No policy file configured - every tool is allowed', { service: 'PolicyService' })
+      return
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.resolve(this.filePath), 'utf8'))
+      const { error, value } = policySchema.validate(raw, { abortEarly: false })
+      if (error) {
+        throw new Error(error.details.map(detail => detail.message).join('; '))
+      }
+
+      const policy = value as PolicyDocument
+      const unknownRoles = [
+        ...policy.defaultRoles,
+        ...Object.values(policy.roles).flatMap(role => role.inherits || [])
+      ].filter(role => !policy.roles[role])
+      if (unknownRoles.length > 0) {
+        throw new Error(`Unknown roles referenced: ${[...new Set(unknownRoles)].join(', ')}`)
+      }
+
+      this.roles = new Map(Object.keys(policy.roles).map(name => [name, this.compileRole(policy, name)]))
+      this.globalDeny = this.compileRules(policy.deny)
+      this.policy = policy
+      this.loadError = null
+
+      logger.info('Tool policy loaded', {
+        file: this.filePath,
+        environment: this.environment,
+        roles: Object.keys(policy.roles),
+        defaultRoles: policy.defaultRoles,
+        service: 'PolicyService'
+      })
+    } catch (error: any) {
+      this.policy = null
+      this.roles.clear()
+      this.globalDeny = []
+      this.loadError = `Policy file ${this.filePath} could not be loaded: ${error.message}`
+      logger.error('Tool policy could not be loaded - denying every tool', {
+        file: this.filePath,
+        error: error.message,
+        service: 'PolicyService'
+      })
+    }
+  }
+
+  isEnabled(): boolean {
+    return !!this.filePath
+  }
+
+  /**
+   * The roles a call runs with - the caller's own, or the policy defaults when it has none
+   */
+  resolveRoles(roles?: string[]): string[] {
+    return roles && roles.length > 0 ? roles : this.policy?.defaultRoles || []
+  }
+
+  /**
+   * Decide on one tool call. A global deny or a deny of the role wins over its allows;
+   * the call is allowed when any of the roles allows it.
+   */
+  evaluate(roles: string[] | undefined, toolName: string, rawArguments: string): PolicyDecision {
+    const effectiveRoles = this.resolveRoles(roles)
+    if (!this.isEnabled()) {
+      return { allowed: true, reason: 'No policy configured', roles: effectiveRoles }
+    }
+    if (!this.policy) {
+      return { allowed: false, reason: this.loadError || 'Policy not loaded', roles: effectiveRoles }
+    }
+
+    const args = this.parseArguments(rawArguments)
+    const names = this.candidateNames(toolName)
+
+    const globalDeny = this.globalDeny.find(rule => this.matches(rule, names, args))
+    if (globalDeny) {
+      return { allowed: false, reason: `Denied for every role by rule "${globalDeny.rule.tool}"`, roles: effectiveRoles, rule: globalDeny.rule }
+    }
+
+    let denied: PolicyDecision | null = null
+    for (const name of effectiveRoles) {
+      const role = this.roles.get(name)
+      if (!role) {
+        continue
+      }
+      const deny = role.deny.find(rule => this.matches(rule, names, args))
+      if (deny) {
+        denied = denied || { allowed: false, reason: `Denied for role ${name} by rule "${deny.rule.tool}"`, roles: effectiveRoles, role: name, rule: deny.rule }
+        continue
+      }
+      const allow = role.allow.find(rule => this.matches(rule, names, args))
+      if (allow) {
+        return { allowed: true, reason: `Allowed for role ${name} by rule "${allow.rule.tool}"`, roles: effectiveRoles, role: name, rule: allow.rule }
+      }
+    }
+
+    if (denied) {
+      return denied
+    }
+
+    // Say whether the tool or only these argument values are forbidden, so the model can adjust
+    const toolAllowed = this.isToolVisible(effectiveRoles, toolName)
+    return {
+      allowed: false,
+      reason: effectiveRoles.length === 0
+        ? 'No role to evaluate the policy for'
+        : toolAllowed
+          ? `The arguments are outside what roles ${effectiveRoles.join(', ')} may use with this tool`
+          : `Not allowed for roles ${effectiveRoles.join(', ')}`,
+      roles: effectiveRoles
+    }
+  }
+
+  /**
+   * Evaluate a call and audit it when it is denied
+   */
+  authorize(roles: string[] | undefined, toolName: string, rawArguments: string, context: PolicyContext = {}): PolicyDecision {
+    const decision = this.evaluate(roles, toolName, rawArguments)
+    if (!decision.allowed) {
+      this.denials++
+      this.lastDenialAt = new Date().toISOString()
+      logger.warn('Tool call denied by policy', {
+        audit: true,
+        event: 'policy_denied',
+        toolName,
+        arguments: redactor.redactToolArguments(toolName, rawArguments),
+        roles: decision.roles,
+        environment: this.environment,
+        reason: decision.reason,
+        sessionId: context.sessionId,
+        principal: context.principal,
+        service: 'PolicyService'
+      })
+    }
+    return decision
+  }
+
+  /**
+   * Whether some call of the tool could be allowed - tools that can never be used are hidden from the model
+   */
+  isToolVisible(roles: string[] | undefined, toolName: string): boolean {
+    if (!this.isEnabled()) {
+      return true
+    }
+    const names = this.candidateNames(toolName)
+    const blocks = (rule: CompiledRule) => rule.arguments.length === 0 && this.matchesTool(rule, names)
+
+    if (this.globalDeny.some(blocks)) {
+      return false
+    }
+    return this.resolveRoles(roles).some(name => {
+      const role = this.roles.get(name)
+      return !!role && !role.deny.some(blocks) && role.allow.some(rule => this.matchesTool(rule, names))
+    })
+  }
+
+  filterTools<T extends { function: { name: string } }>(roles: string[] | undefined, tools: T[]): T[] {
+    return tools.filter(tool => this.isToolVisible(roles, tool.function.name))
+  }
+
+  getServiceStatus(): {
+    enabled: boolean
+    loaded: boolean
+    file: string | null
+    environment: string
+    roles: string[]
+    defaultRoles: string[]
+    denials: number
+    lastDenialAt: string | null
+    error?: string
+  } {
+    return {
+      enabled: this.isEnabled(),
+      loaded: !!this.policy,
+      file: this.filePath || null,
+      environment: this.environment,
+      roles: Object.keys(this.policy?.roles || {}),
+      defaultRoles: this.policy?.defaultRoles || [],
+      denials: this.denials,
+      lastDenialAt: this.lastDenialAt,
+      ...(this.loadError && { error: this.loadError })
+    }
+  }
+
+  /**
+   * Collect the rules of a role and the roles it inherits, skipping inheritance cycles
+   */
+  private compileRole(policy: PolicyDocument, name: string, seen = new Set<string>()): CompiledRole {
+    seen.add(name)
+    const role = policy.roles[name]
+    const compiled: CompiledRole = {
+      allow: this.compileRules(role.allow || []),
+      deny: this.compileRules(role.deny || [])
+    }
+
+    for (const parent of role.inherits || []) {
+      if (seen.has(parent)) {
+        continue
+      }
+      const inherited = this.compileRole(policy, parent, seen)
+      compiled.allow.push(...inherited.allow)
+      compiled.deny.push(...inherited.deny)
+    }
+    return compiled
+  }
+
+  /**
+   * Compile the rules that apply in this environment
+   */
+  private compileRules(rules: PolicyRule[]): CompiledRule[] {
+    return rules
+      .filter(rule => !rule.environments || rule.environments.includes(this.environment))
+      .map(rule => ({
+        rule,
+        tool: compileGlob(rule.tool),
+        arguments: Object.entries(rule.arguments || {}).map(([name, pattern]) => ({ name, patterns: compilePattern(pattern) }))
+      }))
+  }
+
+  private matchesTool(rule: CompiledRule, names: string[]): boolean {
+    return names.some(name => rule.tool.test(name))
+  }
+
+  /**
+   * A rule matches when the tool does and every argument it constrains matches one of its patterns.
+   * Array arguments (e.g. deviceIds) must match for every element.
+   */
+  private matches(rule: CompiledRule, names: string[], args: Record<string, unknown> | null): boolean {
+    if (!this.matchesTool(rule, names)) {
+      return false
+    }
+    if (rule.arguments.length === 0) {
+      return true
+    }
+    if (!args) {
+      return false
+    }
+
+    return rule.arguments.every(({ name, patterns }) => {
+      const value = args[name]
+      if (value === undefined || value === null) {
+        return false
+      }
+      const values = Array.isArray(value) ? value : [value]
+      return values.length > 0 && values.every(item => {
+        const text = typeof item === 'object' ? JSON.stringify(item) : String(item)
+        return patterns.some(pattern => pattern.test(text))
+      })
+    })
+  }
+
+  /**
+   * Rules may name the plain tool (list_devices) or the server-qualified one (emea__list_devices)
+   */
+  private candidateNames(toolName: string): string[] {
+    const separator = toolName.indexOf(TOOL_NAME_SEPARATOR)
+    return separator > 0
+      ? [toolName.slice(separator + TOOL_NAME_SEPARATOR.length), toolName]
+      : [toolName]
+  }
+
+  private parseArguments(raw: string): Record<string, unknown> | null {
+    try {
+      const parsed = JSON.parse(raw || '{}')
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+}
+
+// Export singleton instance
+export const policyService = new PolicyService(config.POLICY_FILE, config.POLICY_ENVIRONMENT)
@@ -0,0 +1,223 @@
+import net from 'net'
+import { ANONYMOUS_PRINCIPAL } from './auth.service'
+import { InMemoryRateLimitStore, RateLimitBucket, RateLimitRule, RateLimitService, RedisRateLimitStore } from './rate-limit.service'
+
+type Reply = (command: string[]) => string | Buffer[] | null // null = never answer
+
+// Sent by the client while connecting - answered here so the tests only script the commands they are about
+const HANDSHAKE_REPLIES: Record<string, string> = {
+  auth: '+OK\r\n',
+  select: '+OK\r\n',
+  client: '+OK\r\n',
+  info: '$11\r\nloading:0\r\n\r\n'
+}
+
+/**
+ * Just enough of a Redis server to script replies - commands are RESP arrays of bulk strings
+ */
+class FakeRespServer {
+  readonly commands: string[][] = []
+  private readonly server: net.Server
+  private readonly sockets = new Set<net.Socket>()
+
+  constructor(private readonly reply: Reply) {
+    this.server = net.createServer(socket => {
+      this.sockets.add(socket)
+      socket.on('close', () => this.sockets.delete(socket))
+      let buffer = Buffer.alloc(0)
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk])
+        let parsed: { command: string[]; end: number } | null
+        while ((parsed = FakeRespServer.parseCommand(buffer)) !== null) {
+          buffer = buffer.subarray(parsed.end)
+          this.commands.push(parsed.command)
+          const handshake = HANDSHAKE_REPLIES[parsed.command[0].toLowerCase()]
+          void this.answer(socket, handshake || this.reply(parsed.command))
+        }
+      })
+    })
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+    return `redis://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`
+  }
+
+  async close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy())
+    await new Promise(resolve => this.server.close(resolve))
+  }
+
+  private async answer(socket: net.Socket, reply: string | Buffer[] | null): Promise<void> {
+    if (reply === null) return
+    if (typeof reply === 'string') {
+      socket.write(reply)
+      return
+    }
+    // Separate writes with pauses between them arrive as separate chunks
+    for (const piece of reply) {
+      socket.write(piece)
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  }
+
+  private static parseCommand(buffer: Buffer): { command: string[]; end: number } | null {
+    let offset = 0
+    const readLine = (): string | null => {
+      const end = buffer.indexOf('\r\n', offset)
+      if (end === -1) return null
+      const line = buffer.toString('utf8', offset, end)
+      offset = end + 2
+      return line
+    }
+
+    const header = readLine()
+    if (header === null) return null
+    const command: string[] = []
+    for (let i = 0; i < parseInt(header.slice(1), 10); i++) {
+      const lengthLine = readLine()
+      if (lengthLine === null) return null
+      const length = parseInt(lengthLine.slice(1), 10)
+      if (buffer.length < offset + length + 2) return null
+      command.push(buffer.toString('utf8', offset, offset + length))
+      offset += length + 2
+    }
+    return { command, end: offset }
+  }
+}
+
+const RULES: Record<RateLimitBucket, RateLimitRule> = {
+  chat: { limit: 2, windowMs: 60000 },
+  tool: { limit: 0, windowMs: 60000 },
+  token: { limit: 100, windowMs: 60000 }
+}
+
+describe('RateLimitService with the in-memory store', () => {
+  const alice = { scope: 'principal' as const, id: 'alice' }
+  let service: RateLimitService
+
+  beforeEach(() => {
+    service = new RateLimitService(new InMemoryRateLimitStore(), RULES)
+  })
+
+  it('refuses once the window is used up and reports when to retry', async () => {
+    await expect(service.consume('chat', alice)).resolves.toMatchObject({ allowed: true, remaining: 1 })
+    await expect(service.consume('chat', alice)).resolves.toMatchObject({ allowed: true, remaining: 0 })
+
+    const refused = await service.consume('chat', alice)
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, limit: 2 })
+    expect(refused.retryAfterSec).toBeGreaterThan(0)
+    expect(refused.retryAfterSec).toBeLessThanOrEqual(60)
+    expect(service.getServiceStatus().rejections.chat).toBe(1)
+  })
+
+  it('keeps separate counts per subject', async () => {
+    await service.consume('chat', alice)
+    await service.consume('chat', alice)
+
+    await expect(service.consume('chat', { scope: 'principal', id: 'bob' })).resolves.toMatchObject({ allowed: true })
+  })
+
+  it('lets charged tokens overshoot, then refuses the next check', async () => {
+    await expect(service.check('token', alice)).resolves.toMatchObject({ allowed: true, remaining: 100 })
+    await service.charge('token', alice, 250)
+
+    await expect(service.check('token', alice)).resolves.toMatchObject({ allowed: false, remaining: 0 })
+  })
+
+  it('never limits a bucket whose limit is 0', async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(service.consume('tool', alice)).resolves.toMatchObject({ allowed: true })
+    }
+  })
+
+  it('counts anonymous callers per address, whatever session they send', () => {
+    expect(service.subjectFor(ANONYMOUS_PRINCIPAL, '10.0.0.7')).toEqual({ scope: 'ip', id: '10.0.0.7' })
+    expect(service.subjectFor({ id: 'alice', subject: 'alice', type: 'user', roles: [] }, '10.0.0.7')).toEqual(alice)
+  })
+})
+
+describe('RedisRateLimitStore', () => {
+  let server: FakeRespServer | undefined
+  let store: RedisRateLimitStore | undefined
+
+  afterEach(async () => {
+    await store?.close()
+    await server?.close()
+    store = server = undefined
+  })
+
+  it('authenticates and selects the database from the URL before the first command', async () => {
+    server = new FakeRespServer(() => '+PONG\r\n')
+    const url = (await server.listen()).replace('redis://', 'redis://user:p%40ss@')
+    store = new RedisRateLimitStore(`${url}/3`)
+
+    await store.connect()
+
+    const sent = server.commands.map(command => [command[0].toLowerCase(), ...command.slice(1)])
+    const auth = sent.findIndex(command => command[0] === 'auth')
+    const select = sent.findIndex(command => command[0] === 'select')
+    expect(sent[auth]).toEqual(['auth', 'user', 'p@ss'])
+    expect(sent[select]).toEqual(['select', '3'])
+    expect(Math.max(auth, select)).toBeLessThan(sent.findIndex(command => command[0] === 'ping'))
+  })
+
+  it('parses a reply that arrives split across chunks', async () => {
+    const reply = Buffer.from('*3\r\n:1\r\n:12\r\n:59000\r\n')
+    server = new FakeRespServer(() => [reply.subarray(0, 1), reply.subarray(1, 6), reply.subarray(6, 11), reply.subarray(11)])
+    store = new RedisRateLimitStore(await server.listen())
+
+    const window = await store.consume('chat:principal:alice', 1, 20, 60000)
+
+    expect(window.allowed).toBe(true)
+    expect(window.count).toBe(12)
+    expect(window.resetAt - Date.now()).toBeGreaterThan(58000)
+    const evaluated = server.commands.find(command => command[0].toLowerCase() === 'eval')
+    expect(evaluated?.slice(2)).toEqual(['1', 'rp-sl1-chat:ratelimit:chat:principal:alice', '1', '20', '60000'])
+  })
+
+  it('settles pipelined commands in order when their replies share a chunk', async () => {
+    let pending = 0
+    server = new FakeRespServer(() => {
+      // Hold the first reply back and answer both at once
+      pending++
+      return pending === 2 ? '*2\r\n:3\r\n:1000\r\n*2\r\n:0\r\n:-2\r\n' : null
+    })
+    store = new RedisRateLimitStore(await server.listen())
+
+    const [first, second] = await Promise.all([store.get('a'), store.get('b')])
+
+    expect(first?.count).toBe(3)
+    expect(second).toBeNull()
+  })
+
+  it('rejects with the error reply of the server', async () => {
+    server = new FakeRespServer(() => '-NOSCRIPT No matching script\r\n')
+    store = new RedisRateLimitStore(await server.listen())
+
+    await expect(store.get('a')).rejects.toThrow('NOSCRIPT No matching script')
+  })
+
+  it('lets requests through when the store stops answering', async () => {
+    server = new FakeRespServer(() => null)
+    store = new RedisRateLimitStore(await server.listen())
+    const service = new RateLimitService(store, RULES)
+
+    const decision = await service.consume('chat', { scope: 'principal', id: 'alice' })
+
+    expect(decision).toMatchObject({ allowed: true, limit: 0 })
+    expect(service.getServiceStatus()).toMatchObject({ storeErrors: 1, lastStoreError: expect.stringMatching(/timed out/) })
+  }, 10000)
+
+  it('lets requests through when the store is unreachable', async () => {
+    server = new FakeRespServer(() => null)
+    const url = await server.listen()
+    await server.close()
+    server = undefined
+    store = new RedisRateLimitStore(url)
+    const service = new RateLimitService(store, RULES)
+
+    await expect(service.check('token', { scope: 'ip', id: '10.0.0.7' })).resolves.toMatchObject({ allowed: true })
+    expect(service.getServiceStatus().storeErrors).toBe(1)
+  })
+})
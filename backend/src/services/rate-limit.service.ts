@@ -0,0 +1,397 @@
+/**
+ * Rate Limit Service
+ * Fixed-window quotas per principal (or client address) for chat turns, tool executions and LLM tokens,
+ * counted in a pluggable store so several backend instances can share one Redis-compatible server
+ */
+
+import Redis from 'ioredis'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import type { Principal } from './auth.service'
+
+export type RateLimitBucket = 'chat' | 'tool' | 'token'
+
+export const RATE_LIMIT_BUCKETS: RateLimitBucket[] = ['chat', 'tool', 'token']
+
+export interface RateLimitRule {
+  limit: number // 0 = unlimited
+  windowMs: number
+}
+
+/**
+ * Who a quota is counted against: the authenticated principal, else the client address
+ */
+export interface RateLimitSubject {
+  scope: 'principal' | 'ip'
+  id: string
+}
+
+export interface RateLimitWindow {
+  count: number
+  resetAt: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  bucket: RateLimitBucket
+  subject: RateLimitSubject
+  limit: number
+  windowMs: number
+  remaining: number
+  resetAt: number
+  retryAfterSec: number
+}
+
+const BUCKET_LABELS: Record<RateLimitBucket, string> = {
+  chat: 'Chat turn',
+  tool: 'Tool call',
+  token: 'Token'
+}
+
+/**
+ * Human readable explanation of a refused decision
+ */
+export function describeRateLimit(decision: RateLimitDecision): string {
+  const minutes = Math.round(decision.windowMs / 60000)
+  const window = minutes >= 1 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : `${Math.round(decision.windowMs / 1000)} seconds`
+  return `${BUCKET_LABELS[decision.bucket]} limit reached (${decision.limit} per ${window}). Try again in ${decision.retryAfterSec} seconds.`
+}
+
+/**
+ * Counter backend contract. Windows start with the first hit and expire on their own.
+ */
+export interface RateLimitStore {
+  readonly name: string
+  /**
+   * Add cost to the key's current window unless that would take it past limit (0 = no limit)
+   */
+  consume(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitWindow & { allowed: boolean }>
+  get(key: string): Promise<RateLimitWindow | null>
+  connect(): Promise<void>
+  close(): Promise<void>
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+/**
+ * Counts in process memory - per instance and lost on restart
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private windows = new Map<string, RateLimitWindow>()
+  private lastSweep = 0
+
+  async consume(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitWindow & { allowed: boolean }> {
+    const now = Date.now()
+    if (now - this.lastSweep > SWEEP_INTERVAL_MS) {
+      this.sweep(now)
+    }
+
+    const current = this.current(key, now) || { count: 0, resetAt: now + windowMs }
+    if (limit > 0 && current.count + cost > limit) {
+      return { allowed: false, ...current }
+    }
+
+    current.count += cost
+    this.windows.set(key, current)
+    return { allowed: true, ...current }
+  }
+
+  async get(key: string): Promise<RateLimitWindow | null> {
+    const current = this.current(key, Date.now())
+    return current ? { ...current } : null
+  }
+
+  async connect(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.windows.clear()
+  }
+
+  private current(key: string, now: number): RateLimitWindow | undefined {
+    const window = this.windows.get(key)
+    return window && window.resetAt > now ? window : undefined
+  }
+
+  private sweep(now: number): void {
+    this.lastSweep = now
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+// Check and increment in one round trip so concurrent instances cannot both take the last slot
+const CONSUME_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+local cost, limit, window = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+if limit > 0 and count + cost > limit then
+  return {0, count, redis.call('PTTL', KEYS[1])}
+end
+count = redis.call('INCRBY', KEYS[1], cost)
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], window)
+  ttl = window
+end
+return {1, count, ttl}
+`
+
+const GET_SCRIPT = `
+return {tonumber(redis.call('GET', KEYS[1]) or '0'), redis.call('PTTL', KEYS[1])}
+`
+
+const REDIS_COMMAND_TIMEOUT_MS = 2000
+
+const DISCONNECT_TIMEOUT_MS = 500
+
+/**
+ * Counts in a Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly) shared by every backend instance
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis'
+  private readonly client: Redis
+  private readonly prefix: string
+  private connecting: Promise<void> | null = null
+
+  constructor(url: string, prefix = 'rp-sl1-chat:ratelimit:') {
+    const { protocol, host } = new URL(url)
+    if (protocol !== 'redis:' && protocol !== 'rediss:') {
+      throw new Error(`Unsupported rate limit store URL ${protocol}//${host} - expected redis:// or rediss://`)
+    }
+
+    this.prefix = prefix
+    this.client = new Redis(url, {
+      lazyConnect: true,
+      connectTimeout: REDIS_COMMAND_TIMEOUT_MS,
+      // A store that stops answering must not hold chat requests hostage
+      commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+      // Fail at once while disconnected instead of queueing - the service lets the request through
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 0,
+      // Shutdown does not wait long for a socket the server never closes
+      disconnectTimeout: DISCONNECT_TIMEOUT_MS
+    })
+    // Failures reach the service through the rejected commands; reconnecting happens in the background
+    this.client.on('error', () => undefined)
+  }
+
+  async consume(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitWindow & { allowed: boolean }> {
+    await this.ensureConnected()
+    const [allowed, count, ttl] = await this.client.eval(CONSUME_SCRIPT, 1, this.prefix + key, cost, limit, windowMs) as number[]
+    return {
+      allowed: allowed === 1,
+      count,
+      // A refused first hit leaves no key behind - the full window applies
+      resetAt: Date.now() + (ttl > 0 ? ttl : windowMs)
+    }
+  }
+
+  async get(key: string): Promise<RateLimitWindow | null> {
+    await this.ensureConnected()
+    const [count, ttl] = await this.client.eval(GET_SCRIPT, 1, this.prefix + key) as number[]
+    return count > 0 && ttl > 0 ? { count, resetAt: Date.now() + ttl } : null
+  }
+
+  async connect(): Promise<void> {
+    await this.ensureConnected()
+    await this.client.ping()
+  }
+
+  async close(): Promise<void> {
+    this.client.disconnect()
+  }
+
+  /**
+   * Open the connection on first use. Once opened, the client reconnects by itself after losing it.
+   */
+  private async ensureConnected(): Promise<void> {
+    if (this.client.status === 'wait') {
+      // Commands arriving while the first connection opens wait for it too
+      this.connecting = this.client.connect().finally(() => {
+        this.connecting = null
+      })
+    }
+    await this.connecting
+  }
+}
+
+/**
+ * Applies the configured quotas. Store outages fail open: chat keeps working and the failure is logged.
+ */
+export class RateLimitService {
+  private readonly store: RateLimitStore
+  private readonly rules: Record<RateLimitBucket, RateLimitRule>
+  private rejections: Record<RateLimitBucket, number> = { chat: 0, tool: 0, token: 0 }
+  private storeErrors = 0
+  private lastStoreError: string | null = null
+
+  constructor(store: RateLimitStore, rules: Record<RateLimitBucket, RateLimitRule>) {
+    this.store = store
+    this.rules = rules
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.store.connect()
+    } catch (error: any) {
+      this.recordStoreError(error)
+      logger.warn('Rate limit store unreachable - quotas are not enforced until it answers', {
+        store: this.store.name,
+        error: error.message,
+        service: 'RateLimitService'
+      })
+    }
+  }
+
+  isEnabled(bucket: RateLimitBucket): boolean {
+    return this.rules[bucket].limit > 0
+  }
+
+  /**
+   * Count against the authenticated principal when there is one, else the client address.
+   * Never the session - callers choose session IDs, so a fresh one would come with a fresh quota.
+   */
+  subjectFor(principal?: Principal, ip?: string): RateLimitSubject {
+    if (principal && principal.type !== 'anonymous') {
+      return { scope: 'principal', id: principal.id }
+    }
+    return { scope: 'ip', id: ip || 'unknown' }
+  }
+
+  /**
+   * Take cost from the bucket, refusing when the window has no room left
+   */
+  async consume(bucket: RateLimitBucket, subject: RateLimitSubject, cost = 1): Promise<RateLimitDecision> {
+    const rule = this.rules[bucket]
+    if (rule.limit <= 0) {
+      return this.unlimited(bucket, subject)
+    }
+
+    try {
+      const window = await this.store.consume(this.key(bucket, subject), cost, rule.limit, rule.windowMs)
+      return this.decide(bucket, subject, window, window.allowed)
+    } catch (error: any) {
+      this.recordStoreError(error)
+      return this.unlimited(bucket, subject)
+    }
+  }
+
+  /**
+   * Refuse when the bucket is already used up, without taking anything from it.
+   * Used for tokens, whose cost is only known after the completion.
+   */
+  async check(bucket: RateLimitBucket, subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const rule = this.rules[bucket]
+    if (rule.limit <= 0) {
+      return this.unlimited(bucket, subject)
+    }
+
+    try {
+      const window = await this.store.get(this.key(bucket, subject)) || { count: 0, resetAt: Date.now() + rule.windowMs }
+      return this.decide(bucket, subject, window, window.count < rule.limit)
+    } catch (error: any) {
+      this.recordStoreError(error)
+      return this.unlimited(bucket, subject)
+    }
+  }
+
+  /**
+   * Add spent cost to the bucket even when it overshoots the limit - never throws
+   */
+  async charge(bucket: RateLimitBucket, subject: RateLimitSubject, cost: number): Promise<void> {
+    const rule = this.rules[bucket]
+    if (rule.limit <= 0 || cost <= 0) {
+      return
+    }
+
+    try {
+      await this.store.consume(this.key(bucket, subject), cost, 0, rule.windowMs)
+    } catch (error: any) {
+      this.recordStoreError(error)
+    }
+  }
+
+  getServiceStatus(): {
+    store: string
+    buckets: Record<RateLimitBucket, RateLimitRule>
+    rejections: Record<RateLimitBucket, number>
+    storeErrors: number
+    lastStoreError: string | null
+  } {
+    return {
+      store: this.store.name,
+      buckets: { ...this.rules },
+      rejections: { ...this.rejections },
+      storeErrors: this.storeErrors,
+      lastStoreError: this.lastStoreError
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    await this.store.close()
+  }
+
+  private key(bucket: RateLimitBucket, subject: RateLimitSubject): string {
+    return `${bucket}:${subject.scope}:${subject.id}`
+  }
+
+  private decide(bucket: RateLimitBucket, subject: RateLimitSubject, window: RateLimitWindow, allowed: boolean): RateLimitDecision {
+    const { limit, windowMs } = this.rules[bucket]
+    const decision: RateLimitDecision = {
+      allowed,
+      bucket,
+      subject,
+      limit,
+      windowMs,
+      remaining: Math.max(0, limit - window.count),
+      resetAt: window.resetAt,
+      retryAfterSec: Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000))
+    }
+
+    if (!allowed) {
+      this.rejections[bucket]++
+      logger.warn('Rate limit exceeded', {
+        bucket,
+        scope: subject.scope,
+        subject: subject.id,
+        limit,
+        retryAfterSec: decision.retryAfterSec,
+        service: 'RateLimitService'
+      })
+    }
+    return decision
+  }
+
+  private unlimited(bucket: RateLimitBucket, subject: RateLimitSubject): RateLimitDecision {
+    return { allowed: true, bucket, subject, limit: 0, windowMs: this.rules[bucket].windowMs, remaining: Infinity, resetAt: 0, retryAfterSec: 0 }
+  }
+
+  private recordStoreError(error: Error): void {
+    this.storeErrors++
+    if (this.lastStoreError !== error.message) {
+      logger.warn('Rate limit store failed - allowing the request', {
+        store: this.store.name,
+        error: error.message,
+        service: 'RateLimitService'
+      })
+    }
+    this.lastStoreError = error.message
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  if (config.RATE_LIMIT_STORE === 'redis') {
+    return new RedisRateLimitStore(config.RATE_LIMIT_REDIS_URL)
+  }
+  return new InMemoryRateLimitStore()
+}
+
+// Export singleton instance
+export const rateLimitService = new RateLimitService(createRateLimitStore(), {
+  chat: { limit: config.RATE_LIMIT_CHAT_TURNS, windowMs: config.RATE_LIMIT_CHAT_WINDOW_MS },
+  tool: { limit: config.RATE_LIMIT_TOOL_CALLS, windowMs: config.RATE_LIMIT_TOOL_WINDOW_MS },
+  token: { limit: config.RATE_LIMIT_TOKENS, windowMs: config.RATE_LIMIT_TOKEN_WINDOW_MS }
+})
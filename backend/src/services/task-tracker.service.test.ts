@@ -0,0 +1,144 @@
+import { TaskEvent, TaskTrackerService } from './task-tracker.service'
+import { mcpService } from './mcp.service'
+import { SCHEMA_DRIFT } from '../models/tool-results'
+
+jest.mock('./mcp.service', () => ({
+  mcpService: {
+    parseToolName: (name: string) => ({ server: null, tool: name }),
+    qualifyToolName: (server: string, tool: string) => `${server}__${tool}`,
+    executeTool: jest.fn()
+  }
+}))
+
+const executeTool = mcpService.executeTool as jest.Mock
+
+const status = (Status: string, Progress?: number, Error?: string) =>
+  ({ success: true, data: { ID: '5', Status, ...(Progress !== undefined && { Progress }), ...(Error && { Error }) } })
+
+describe('TaskTrackerService', () => {
+  let tracker: TaskTrackerService
+  let events: TaskEvent[]
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    executeTool.mockReset()
+    tracker = new TaskTrackerService(2000, 8000, 60000, 300000)
+    events = []
+    tracker.subscribe('session-1', event => events.push(event))
+    tracker.start()
+  })
+
+  afterEach(() => {
+    tracker.shutdown()
+    jest.useRealTimers()
+  })
+
+  const startBackup = () => tracker.registerFromResult(
+    'session-1',
+    'key:alice',
+    'create_backup',
+    '{"deviceId":"7"}',
+    { success: true, data: { taskId: 5, backup_id: '9' } }
+  )[0]
+
+  it('tracks what a write tool started through its most specific status source', () => {
+    const task = startBackup()
+
+    expect(task).toMatchObject({ kind: 'task', entityId: '5', related: { backup: '9' }, deviceIds: ['7'], status: 'running' })
+    expect(events).toEqual([{ type: 'task_started', task }])
+    expect(startBackup().id).toBe(task.id)
+    expect(tracker.registerFromResult('session-1', 'key:alice', 'get_backup', '{}', { success: true, data: { backup_id: '9' } })).toEqual([])
+  })
+
+  it('polls with exponential backoff up to the maximum delay', async () => {
+    executeTool.mockResolvedValue(status('Running'))
+    startBackup()
+
+    const pollsAt = async (ms: number) => {
+      await jest.advanceTimersByTimeAsync(ms)
+      return executeTool.mock.calls.length
+    }
+
+    expect(await pollsAt(1999)).toBe(0)
+    expect(await pollsAt(1)).toBe(1)
+    expect(await pollsAt(3999)).toBe(1)
+    expect(await pollsAt(1)).toBe(2)
+    expect(await pollsAt(8000)).toBe(3)
+    expect(await pollsAt(8000)).toBe(4)
+    expect(executeTool).toHaveBeenLastCalledWith(
+      { id: expect.any(String), type: 'function', function: { name: 'get_task_status', arguments: '{"taskId":"5"}' } },
+      { bypassCache: true }
+    )
+  })
+
+  it('reports progress changes and the completion', async () => {
+    executeTool
+      .mockResolvedValueOnce(status('Running', 10))
+      .mockResolvedValueOnce(status('Running', 10))
+      .mockResolvedValueOnce(status('Running', 60))
+      .mockResolvedValueOnce(status('Completed'))
+    const { id } = startBackup()
+
+    await jest.advanceTimersByTimeAsync(30000)
+
+    expect(events.map(event => event.type)).toEqual(['task_started', 'task_progress', 'task_progress', 'task_completed'])
+    expect(tracker.getTask(id)).toMatchObject({ status: 'completed', remoteStatus: 'Completed', progress: 100, polls: 4 })
+  })
+
+  it('reports a failed task with the error Restorepoint gave', async () => {
+    executeTool.mockResolvedValue(status('Failed', undefined, 'Authentication failed'))
+    const { id } = startBackup()
+
+    await jest.advanceTimersByTimeAsync(2000)
+
+    expect(tracker.getTask(id)).toMatchObject({ status: 'failed', error: 'Authentication failed' })
+    expect(events[events.length - 1].type).toBe('task_failed')
+  })
+
+  it('gives up after repeated unreadable statuses', async () => {
+    executeTool.mockResolvedValue({ success: false, error: { code: 'EXECUTION_ERROR', message: 'connect ECONNREFUSED' } })
+    const { id } = startBackup()
+
+    await jest.advanceTimersByTimeAsync(2000 + 4000 + 8000 + 8000 + 8000)
+
+    expect(executeTool).toHaveBeenCalledTimes(5)
+    expect(tracker.getTask(id)).toMatchObject({ status: 'expired', error: 'connect ECONNREFUSED' })
+  })
+
+  it('gives up at once when the status no longer matches its schema', async () => {
+    executeTool.mockResolvedValue({
+      success: false,
+      error: { code: SCHEMA_DRIFT, message: 'drift', details: { tool: 'get_task_status', entity: 'task', issues: [{ path: 'Status', message: 'is required' }] } }
+    })
+    const { id } = startBackup()
+
+    await jest.advanceTimersByTimeAsync(2000)
+
+    expect(tracker.getTask(id)).toMatchObject({ status: 'expired', error: expect.stringContaining('Status is required') })
+  })
+
+  it('expires a task that never reaches a final status', async () => {
+    executeTool.mockResolvedValue(status('Running'))
+    const { id } = startBackup()
+
+    await jest.advanceTimersByTimeAsync(59000)
+    expect(tracker.getTask(id)?.status).toBe('running')
+
+    await jest.advanceTimersByTimeAsync(8000)
+    expect(tracker.getTask(id)).toMatchObject({ status: 'expired', error: 'No final status after 60s' })
+  })
+
+  it('sends events only to the session that started the task', async () => {
+    const other: TaskEvent[] = []
+    const unsubscribe = tracker.subscribe('session-2', event => other.push(event))
+    executeTool.mockResolvedValue(status('Completed'))
+
+    startBackup()
+    await jest.advanceTimersByTimeAsync(2000)
+    unsubscribe()
+
+    expect(other).toEqual([])
+    expect(tracker.listTasks({ sessionId: 'session-2' })).toEqual([])
+    expect(tracker.getServiceStatus().subscribedSessions).toBe(1)
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * Task Tracker Service
+ * Registers the tasks, backups and command executions started by write tools, polls
+ * get_task_status, get_backup or get_command with backoff until they finish, and
+ * pushes progress, completion and failure events to the session that started them
+ */
+
+import crypto from 'crypto'
+import config from '../utils/config'
+import logger from '../utils/logger'
+import { mcpService, McpResult } from './mcp.service'
+import { pendingActionService } from './pending-action.service'
+import { EntityKind } from '../models/restorepoint'
+import { findCreatedIds, readToolData } from '../models/tool-results'
+
+export type TrackedKind = Exclude<EntityKind, 'device'>
+
+/**
+ * expired: tracking stopped without a final status (too old, or the status could not be read)
+ */
+export type TrackedTaskStatus = 'running' | 'completed' | 'failed' | 'expired'
+
+export interface TrackedTask {
+  id: string
+  kind: TrackedKind
+  entityId: string // ID of the task, backup or command execution on the MCP server
+  server?: string
+  sessionId: string
+  principalId: string // owner of the session - the only principal that may see the task
+  sourceTool: string // the write tool that started it
+  deviceIds: string[]
+  related: Partial<Record<TrackedKind, string>> // other IDs the same result reported (e.g. the backup of a task)
+  status: TrackedTaskStatus
+  remoteStatus?: string // status as reported by Restorepoint
+  progress?: number
+  error?: string
+  polls: number
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export type TaskEvent =
+  | { type: 'task_started'; task: TrackedTask }
+  | { type: 'task_progress'; task: TrackedTask }
+  | { type: 'task_completed'; task: TrackedTask }
+  | { type: 'task_failed'; task: TrackedTask }
+  | { type: 'task_expired'; task: TrackedTask }
+
+export type TaskEventListener = (event: TaskEvent) => void
+
+interface TaskSchedule {
+  nextPollAt: number
+  delayMs: number
+  polling: boolean
+  consecutiveErrors: number
+}
+
+// Which tool reports on each kind, and the argument naming the ID
+const POLL_TOOLS: Record<TrackedKind, { tool: 'get_task_status' | 'get_backup' | 'get_command'; argument: string }> = {
+  task: { tool: 'get_task_status', argument: 'taskId' },
+  backup: { tool: 'get_backup', argument: 'backupId' },
+  command: { tool: 'get_command', argument: 'commandId' }
+}
+
+// A result reporting several IDs is tracked once, through the most specific status source
+const KIND_PREFERENCE: TrackedKind[] = ['task', 'backup', 'command']
+
+const COMPLETED_STATUSES = /^(completed?|success(ful)?|succeeded|done|finished|ok)$/i
+const FAILED_STATUSES = /^(failed|failure|error(ed)?|cancel+ed|aborted|timed?[ _-]?out)$/i
+
+const TICK_MS = 1000
+
+// Unreadable statuses in a row before a task is given up on
+const MAX_POLL_ERRORS = 5
+
+/**
+ * In-memory tracker. Finished tasks stay listed for the retention window.
+ */
+export class TaskTrackerService {
+  private readonly initialDelayMs: number
+  private readonly maxDelayMs: number
+  private readonly maxAgeMs: number
+  private readonly retentionMs: number
+  private tasks = new Map<string, TrackedTask>()
+  private schedules = new Map<string, TaskSchedule>()
+  private listeners = new Map<string, Set<TaskEventListener>>() // session -> subscribers
+  private tickInterval: NodeJS.Timeout | null = null
+
+  constructor(initialDelayMs: number, maxDelayMs: number, maxAgeMs: number, retentionMs: number) {
+    this.initialDelayMs = initialDelayMs
+    this.maxDelayMs = maxDelayMs
+    this.maxAgeMs = maxAgeMs
+    this.retentionMs = retentionMs
+  }
+
+  /**
+   * Track whatever a successful write tool call started. Returns the tasks registered.
+   */
+  registerFromResult(sessionId: string, principalId: string, toolName: string, rawArguments: string, result: McpResult): TrackedTask[] {
+    const { server, tool } = mcpService.parseToolName(toolName)
+    if (!result.success || !pendingActionService.isWrite(tool)) {
+      return []
+    }
+
+    const created = findCreatedIds(result.data)
+    const kind = KIND_PREFERENCE.find(candidate => created.has(candidate))
+    if (!kind) {
+      return []
+    }
+
+    let args: Record<string, any> = {}
+    try {
+      args = JSON.parse(rawArguments || '{}')
+    } catch {
+      // Device IDs are informational only
+    }
+    const deviceIds = [
+      ...(args.deviceId !== undefined ? [args.deviceId] : []),
+      ...(Array.isArray(args.deviceIds) ? args.deviceIds : [])
+    ].map(String)
+
+    const related: Partial<Record<TrackedKind, string>> = {}
+    for (const [otherKind, ids] of created) {
+      if (otherKind !== kind && ids.length === 1) {
+        related[otherKind] = ids[0]
+      }
+    }
+
+    return created.get(kind)!.map(entityId => this.register({
+      kind,
+      entityId,
+      ...(server && { server }),
+      sessionId,
+      principalId,
+      sourceTool: tool,
+      deviceIds,
+      related
+    }))
+  }
+
+  getTask(id: string): TrackedTask | null {
+    const task = this.tasks.get(id)
+    return task ? { ...task } : null
+  }
+
+  listTasks(filter: { sessionId?: string; principalId?: string; status?: TrackedTaskStatus } = {}): TrackedTask[] {
+    return [...this.tasks.values()]
+      .filter(task => (!filter.sessionId || task.sessionId === filter.sessionId)
+        && (!filter.principalId || task.principalId === filter.principalId)
+        && (!filter.status || task.status === filter.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(task => ({ ...task }))
+  }
+
+  /**
+   * Receive the events of one session's tasks. Returns a function that unsubscribes.
+   */
+  subscribe(sessionId: string, listener: TaskEventListener): () => void {
+    const listeners = this.listeners.get(sessionId) || new Set<TaskEventListener>()
+    listeners.add(listener)
+    this.listeners.set(sessionId, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        this.listeners.delete(sessionId)
+      }
+    }
+  }
+
+  start(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval)
+    }
+    this.tickInterval = setInterval(() => this.tick(), TICK_MS)
+  }
+
+  getServiceStatus(): { tracked: number; running: number; subscribedSessions: number; pollInitialMs: number; pollMaxMs: number } {
+    return {
+      tracked: this.tasks.size,
+      running: [...this.tasks.values()].filter(task => task.status === 'running').length,
+      subscribedSessions: this.listeners.size,
+      pollInitialMs: this.initialDelayMs,
+      pollMaxMs: this.maxDelayMs
+    }
+  }
+
+  shutdown(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval)
+      this.tickInterval = null
+    }
+    this.tasks.clear()
+    this.schedules.clear()
+    this.listeners.clear()
+  }
+
+  private register(fields: Pick<TrackedTask, 'kind' | 'entityId' | 'server' | 'sessionId' | 'principalId' | 'sourceTool' | 'deviceIds' | 'related'>): TrackedTask {
+    // Per session - a session only receives events for, and may only list, tasks registered to it
+    const existing = [...this.tasks.values()].find(task =>
+      task.kind === fields.kind && task.entityId === fields.entityId && task.server === fields.server
+        && task.sessionId === fields.sessionId
+    )
+    if (existing) {
+      return { ...existing }
+    }
+
+    const now = new Date().toISOString()
+    const task: TrackedTask = {
+      id: crypto.randomUUID(),
+      ...fields,
+      status: 'running',
+      polls: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.tasks.set(task.id, task)
+    this.schedules.set(task.id, {
+      nextPollAt: Date.now() + this.initialDelayMs,
+      delayMs: this.initialDelayMs,
+      polling: false,
+      consecutiveErrors: 0
+    })
+
+    logger.info('Tracking background task', {
+      taskId: task.id,
+      kind: task.kind,
+      entityId: task.entityId,
+      server: task.server,
+      sessionId: task.sessionId,
+      sourceTool: task.sourceTool,
+      service: 'TaskTrackerService'
+    })
+
+    this.emit({ type: 'task_started', task: { ...task } })
+    return { ...task }
+  }
+
+  private tick(): void {
+    const now = Date.now()
+
+    for (const [id, task] of this.tasks) {
+      if (task.status !== 'running') {
+        if (now - new Date(task.updatedAt).getTime() > this.retentionMs) {
+          this.tasks.delete(id)
+        }
+        continue
+      }
+
+      const schedule = this.schedules.get(id)
+      if (!schedule || schedule.polling || schedule.nextPollAt > now) {
+        continue
+      }
+
+      if (now - new Date(task.createdAt).getTime() > this.maxAgeMs) {
+        this.finish(task, 'expired', `No final status after ${Math.round(this.maxAgeMs / 1000)}s`)
+        continue
+      }
+
+      schedule.polling = true
+      this.poll(task, schedule)
+        .catch(error => {
+          logger.warn('Background task poll failed', { taskId: id, error: error.message, service: 'TaskTrackerService' })
+        })
+        .finally(() => {
+          schedule.polling = false
+        })
+    }
+  }
+
+  private async poll(task: TrackedTask, schedule: TaskSchedule): Promise<void> {
+    const { tool, argument } = POLL_TOOLS[task.kind]
+    const result = await mcpService.executeTool({
+      id: `task-poll-${task.id}`,
+      type: 'function',
+      function: {
+        name: task.server ? mcpService.qualifyToolName(task.server, tool) : tool,
+        arguments: JSON.stringify({ [argument]: task.entityId })
+      }
+    }, { bypassCache: true })
+
+    task.polls++
+    if (task.status !== 'running') {
+      return // finished or shut down while the call was in flight
+    }
+
+    let report: { status?: string; progress?: number; error?: string } | null = null
+    try {
+      const data = readToolData(tool, result)
+      report = data && {
+        status: data.Status,
+        progress: 'Progress' in data && typeof data.Progress === 'number' ? data.Progress : undefined,
+        error: typeof data.Error === 'string' && data.Error ? data.Error : undefined
+      }
+    } catch (error: any) {
+      // Schema drift - the status will not become readable by retrying
+      schedule.consecutiveErrors = MAX_POLL_ERRORS
+      task.error = error.message
+    }
+
+    if (!report) {
+      schedule.consecutiveErrors++
+      if (schedule.consecutiveErrors >= MAX_POLL_ERRORS) {
+        this.finish(task, 'expired', task.error || result.error?.message || 'Task status could not be read')
+        return
+      }
+      this.backOff(schedule)
+      return
+    }
+
+    schedule.consecutiveErrors = 0
+    const previous = { remoteStatus: task.remoteStatus, progress: task.progress }
+    task.remoteStatus = report.status
+    task.progress = report.progress ?? task.progress
+
+    if (report.status && COMPLETED_STATUSES.test(report.status)) {
+      this.finish(task, 'completed')
+    } else if (report.status && FAILED_STATUSES.test(report.status)) {
+      this.finish(task, 'failed', report.error || `Finished with status ${report.status}`)
+    } else {
+      if (previous.remoteStatus !== task.remoteStatus || previous.progress !== task.progress) {
+        task.updatedAt = new Date().toISOString()
+        this.emit({ type: 'task_progress', task: { ...task } })
+      }
+      this.backOff(schedule)
+    }
+  }
+
+  private backOff(schedule: TaskSchedule): void {
+    schedule.delayMs = Math.min(schedule.delayMs * 2, this.maxDelayMs)
+    schedule.nextPollAt = Date.now() + schedule.delayMs
+  }
+
+  private finish(task: TrackedTask, status: Exclude<TrackedTaskStatus, 'running'>, error?: string): void {
+    const now = new Date().toISOString()
+    task.status = status
+    task.updatedAt = now
+    task.completedAt = now
+    if (error) {
+      task.error = error
+    }
+    if (status === 'completed') {
+      task.progress = 100
+    }
+    this.schedules.delete(task.id)
+
+    logger.info('Background task finished', {
+      taskId: task.id,
+      kind: task.kind,
+      entityId: task.entityId,
+      status,
+      remoteStatus: task.remoteStatus,
+      polls: task.polls,
+      error,
+      service: 'TaskTrackerService'
+    })
+
+    const type = status === 'completed' ? 'task_completed' : status === 'failed' ? 'task_failed' : 'task_expired'
+    this.emit({ type, task: { ...task } })
+  }
+
+  private emit(event: TaskEvent): void {
+    this.listeners.get(event.task.sessionId)?.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error: any) {
+        logger.warn('Task event listener failed', { error: error.message, service: 'TaskTrackerService' })
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const taskTrackerService = new TaskTrackerService(
+  config.TASK_POLL_INITIAL_MS,
+  config.TASK_POLL_MAX_MS,
+  config.TASK_MAX_AGE_MS,
+  config.TASK_RETENTION_MS
+)
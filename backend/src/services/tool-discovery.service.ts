@@ -5,6 +5,7 @@
  */
 
 import { mcpService, MCPTool } from './mcp.service'
+import { localToolService } from './local-tools.service'
 import logger from '../utils/logger'
 import config from '../utils/config'
 
@@ -21,6 +22,14 @@ export interface CachedTool {
   }
 }
 
+export interface ServerToolCacheStatus {
+  toolCount: number // tools of this server in the AI tool cache
+  lastSync: Date | null
+  source: 'server' | 'fallback' | 'none'
+  connected: boolean
+  error?: string
+}
+
 export interface ToolCacheStatus {
   isInitialized: boolean
   lastSync: Date | null
@@ -28,6 +37,8 @@ export interface ToolCacheStatus {
   syncStatus: 'healthy' | 'stale' | 'error' | 'syncing'
   mcpConnected: boolean
   nextSyncIn: number // seconds
+  servers: Record<string, ServerToolCacheStatus>
+  localTools: string[] // answered in-process, not counted in toolCount
 }
 
 /**
@@ -37,6 +48,7 @@ export interface ToolCacheStatus {
 export class ToolDiscoveryService {
   private static instance: ToolDiscoveryService
   private tools: CachedTool[] = []
+  private toolServers = new Map<string, string>() // tool name -> owning MCP server
   private lastSync: Date | null = null
   private isInitialized = false
   private syncInProgress = false
@@ -80,6 +92,13 @@ export class ToolDiscoveryService {
       // Start periodic sync
       this.startPeriodicSync()
 
+      // Pick up tool list change notifications as soon as MCPService has reloaded
+      mcpService.onToolsChanged(() => {
+        if (!this.syncInProgress) {
+          this.syncToolsAsync()
+        }
+      })
+
       this.isInitialized = true
       this.lastSync = new Date()
 
@@ -117,7 +136,8 @@ export class ToolDiscoveryService {
         this.syncToolsAsync()
       }
 
-      return [...this.tools] // Return copy to prevent mutations
+      // Return copy to prevent mutations. Local tools are answered by the backend, not MCP
+      return [...this.tools, ...localToolService.getDefinitions()]
 
     } catch (error: any) {
       logger.error('Failed to get tools for AI', {
@@ -126,7 +146,7 @@ export class ToolDiscoveryService {
       })
 
       // Return cached tools even if there's an error
-      return [...this.tools]
+      return [...this.tools, ...localToolService.getDefinitions()]
     }
   }
 
@@ -149,13 +169,26 @@ export class ToolDiscoveryService {
       syncStatus = 'error'
     }
 
+    const servers: Record<string, ServerToolCacheStatus> = {}
+    for (const [name, server] of Object.entries(mcpService.getServiceStatus().servers)) {
+      servers[name] = {
+        toolCount: this.tools.filter(t => this.toolServers.get(t.function.name) === name).length,
+        lastSync: server.lastToolSync,
+        source: server.toolSource,
+        connected: server.connection.health.status === 'connected',
+        error: server.error
+      }
+    }
+
     return {
       isInitialized: this.isInitialized,
       lastSync: this.lastSync,
       toolCount: this.tools.length,
       syncStatus,
       mcpConnected: this.lastSync !== null,
-      nextSyncIn: Math.round(nextSyncIn)
+      nextSyncIn: Math.round(nextSyncIn),
+      servers,
+      localTools: localToolService.getServiceStatus().tools
     }
   }
 
@@ -254,6 +287,9 @@ export class ToolDiscoveryService {
       
       // Transform MCP tools to AI format
       this.tools = mcpTools.map(mcpTool => this.transformMcpToolToAIFormat(mcpTool))
+      this.toolServers = new Map(
+        mcpTools.filter(t => t.server).map(t => [t.name, t.server as string])
+      )
       
       this.lastSync = new Date()
 
@@ -443,6 +479,7 @@ export class ToolDiscoveryService {
 
     this.isInitialized = false
     this.tools = []
+    this.toolServers.clear()
     this.lastSync = null
 
     logger.info('ToolDiscoveryService shut down successfully', { service: 'ToolDiscoveryService' })
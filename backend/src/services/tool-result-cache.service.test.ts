@@ -0,0 +1,86 @@
+import { ToolResultCache } from './tool-result-cache.service'
+
+const TTLS = { get_device: 60000, list_devices: 30000 }
+const INVALIDATIONS = { update_device: ['get_device', 'list_devices'] }
+
+describe('ToolResultCache', () => {
+  let cache: ToolResultCache<string>
+  let now: jest.SpyInstance
+  let clock: number
+
+  beforeEach(() => {
+    cache = new ToolResultCache<string>(true, TTLS, INVALIDATIONS, 100)
+    clock = Date.parse('2026-01-01T00:00:00Z')
+    now = jest.spyOn(Date, 'now').mockImplementation(() => clock)
+  })
+
+  afterEach(() => {
+    now.mockRestore()
+  })
+
+  it('serves a stored read until its tool TTL runs out, whatever the argument order', () => {
+    cache.set('sl1', 'get_device', { id: '7', fields: { a: 1, b: 2 } }, 'device 7')
+    clock += 59999
+
+    expect(cache.get('sl1', 'get_device', { fields: { b: 2, a: 1 }, id: '7' })).toEqual({ value: 'device 7', ageMs: 59999 })
+
+    clock += 1
+    expect(cache.get('sl1', 'get_device', { id: '7', fields: { a: 1, b: 2 } })).toBeUndefined()
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 1, misses: 1, hitRate: 0.5 })
+  })
+
+  it('caches only tools with a TTL and only while enabled', () => {
+    cache.set('sl1', 'delete_device', { id: '7' }, 'deleted')
+    expect(cache.get('sl1', 'delete_device', { id: '7' })).toBeUndefined()
+
+    const disabled = new ToolResultCache<string>(false, TTLS, INVALIDATIONS, 100)
+    disabled.set('sl1', 'get_device', { id: '7' }, 'device 7')
+    expect(disabled.get('sl1', 'get_device', { id: '7' })).toBeUndefined()
+    expect(disabled.getStats().misses).toBe(0)
+  })
+
+  it('evicts the oldest entry beyond the size limit', () => {
+    const small = new ToolResultCache<string>(true, TTLS, INVALIDATIONS, 2)
+    small.set('sl1', 'get_device', { id: '1' }, 'one')
+    small.set('sl1', 'get_device', { id: '2' }, 'two')
+    small.set('sl1', 'get_device', { id: '1' }, 'one again')
+    small.set('sl1', 'get_device', { id: '3' }, 'three')
+
+    expect(small.get('sl1', 'get_device', { id: '2' })).toBeUndefined()
+    expect(small.get('sl1', 'get_device', { id: '1' })?.value).toBe('one again')
+    expect(small.get('sl1', 'get_device', { id: '3' })?.value).toBe('three')
+  })
+
+  it('drops the reads of the same record a write touched and keeps the others', () => {
+    cache.set('sl1', 'get_device', { id: '7' }, 'device 7')
+    cache.set('sl1', 'get_device', { id: '9' }, 'device 9')
+    cache.set('sl1', 'list_devices', { limit: 10 }, 'all devices')
+    cache.set('sl2', 'get_device', { id: '7' }, 'other server')
+
+    expect(cache.invalidateFor('sl1', 'update_device', { id: '7', name: 'core-7' })).toBe(2)
+
+    expect(cache.get('sl1', 'get_device', { id: '7' })).toBeUndefined()
+    expect(cache.get('sl1', 'list_devices', { limit: 10 })).toBeUndefined()
+    expect(cache.get('sl1', 'get_device', { id: '9' })?.value).toBe('device 9')
+    expect(cache.get('sl2', 'get_device', { id: '7' })?.value).toBe('other server')
+  })
+
+  it('treats identifying arguments given as lists as overlapping when any value is shared', () => {
+    cache.set('sl1', 'get_device', { deviceId: ['1', '2'] }, 'devices 1 and 2')
+    cache.set('sl1', 'get_device', { deviceId: 3 }, 'device 3')
+
+    expect(cache.invalidateFor('sl1', 'update_device', { deviceId: ['2', '4'] })).toBe(1)
+    expect(cache.invalidateFor('sl1', 'update_device', { deviceId: '3' })).toBe(1)
+  })
+
+  it('tells listeners which reads a write made stale, even with nothing cached', () => {
+    const listener = jest.fn()
+    cache.onInvalidate(listener)
+
+    cache.invalidateFor('sl1', 'update_device', { id: '7' })
+    cache.invalidateFor('sl1', 'get_device', { id: '7' })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith('sl1', 'update_device', ['get_device', 'list_devices'])
+  })
+})
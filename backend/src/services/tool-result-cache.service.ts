@@ -0,0 +1,221 @@
+/**
+ * Tool Result Cache Service
+ * Caches results of read-only MCP tools for a per-tool TTL and drops them
+ * when a write tool changes the underlying data
+ */
+
+import config from '../utils/config'
+import logger from '../utils/logger'
+import type { McpResult } from './mcp.service'
+
+// Argument keys that identify a single record (id, deviceId, backup_id, ...)
+const ID_KEY = /^id$|Id$|_id$|ID$/
+
+interface CacheEntry<T> {
+  server: string
+  tool: string
+  args: Record<string, unknown>
+  value: T
+  storedAt: number
+  expiresAt: number
+}
+
+export interface ToolCacheStats {
+  enabled: boolean
+  entries: number
+  maxEntries: number
+  hits: number
+  misses: number
+  bypasses: number
+  invalidations: number
+  hitRate: number | null
+  byTool: Record<string, { hits: number; misses: number }>
+}
+
+/**
+ * In-memory cache keyed by server, tool and canonical arguments.
+ * A write call invalidates the configured read tools on the same server; entries whose
+ * identifying arguments (e.g. deviceId) differ from the write call's are kept.
+ */
+export class ToolResultCache<T = unknown> {
+  private readonly enabled: boolean
+  private readonly ttls: Record<string, number>
+  private readonly invalidations: Record<string, string[]>
+  private readonly maxEntries: number
+  private entries = new Map<string, CacheEntry<T>>()
+  private hits = 0
+  private misses = 0
+  private bypasses = 0
+  private invalidationCount = 0
+  private byTool: Record<string, { hits: number; misses: number }> = {}
+  private invalidationListeners: Array<(server: string, writeTool: string, targets: string[]) => void> = []
+
+  constructor(
+    enabled: boolean,
+    ttls: Record<string, number>,
+    invalidations: Record<string, string[]>,
+    maxEntries: number
+  ) {
+    this.enabled = enabled
+    this.ttls = ttls
+    this.invalidations = invalidations
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * Whether results of a tool are cached at all
+   */
+  isCacheable(tool: string): boolean {
+    return this.enabled && (this.ttls[tool] || 0) > 0
+  }
+
+  /**
+   * Return the cached result for a read-only call, or undefined on a miss
+   */
+  get(server: string, tool: string, args: Record<string, unknown>): { value: T; ageMs: number } | undefined {
+    if (!this.isCacheable(tool)) {
+      return undefined
+    }
+
+    const stats = this.byTool[tool] || (this.byTool[tool] = { hits: 0, misses: 0 })
+    const key = this.key(server, tool, args)
+    const entry = this.entries.get(key)
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key)
+      }
+      this.misses++
+      stats.misses++
+      return undefined
+    }
+
+    this.hits++
+    stats.hits++
+    return { value: entry.value, ageMs: Date.now() - entry.storedAt }
+  }
+
+  set(server: string, tool: string, args: Record<string, unknown>, value: T): void {
+    if (!this.isCacheable(tool)) {
+      return
+    }
+
+    const now = Date.now()
+    const key = this.key(server, tool, args)
+    this.entries.delete(key) // re-insert so Map order stays oldest-first
+    this.entries.set(key, { server, tool, args, value, storedAt: now, expiresAt: now + this.ttls[tool] })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  /**
+   * Count a call that skipped the cache on request
+   */
+  recordBypass(): void {
+    this.bypasses++
+  }
+
+  /**
+   * Drop the entries a write call may have made stale. Returns how many were dropped.
+   */
+  invalidateFor(server: string, writeTool: string, writeArgs: Record<string, unknown>): number {
+    const targets = this.invalidations[writeTool]
+    if (!targets || targets.length === 0) {
+      return 0
+    }
+
+    // Other in-memory views of the same data (e.g. the device index) go stale as well
+    this.invalidationListeners.forEach(listener => listener(server, writeTool, targets))
+
+    let dropped = 0
+    for (const [key, entry] of this.entries) {
+      if (entry.server === server && targets.includes(entry.tool) && this.overlaps(entry.args, writeArgs)) {
+        this.entries.delete(key)
+        dropped++
+      }
+    }
+
+    if (dropped > 0) {
+      this.invalidationCount += dropped
+      logger.debug('Invalidated cached tool results', {
+        server,
+        writeTool,
+        dropped,
+        service: 'ToolResultCache'
+      })
+    }
+
+    return dropped
+  }
+
+  /**
+   * Register a callback run whenever a write tool invalidates cached reads, with the read tools it targets
+   */
+  onInvalidate(listener: (server: string, writeTool: string, targets: string[]) => void): void {
+    this.invalidationListeners.push(listener)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  getStats(): ToolCacheStats {
+    const lookups = this.hits + this.misses
+
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      bypasses: this.bypasses,
+      invalidations: this.invalidationCount,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : null,
+      byTool: { ...this.byTool }
+    }
+  }
+
+  /**
+   * An entry is affected unless an identifying argument both calls share has different values
+   * (get_device for device 7 survives an update_device of device 9)
+   */
+  private overlaps(entryArgs: Record<string, unknown>, writeArgs: Record<string, unknown>): boolean {
+    for (const key of Object.keys(entryArgs)) {
+      if (!ID_KEY.test(key) || !(key in writeArgs)) {
+        continue
+      }
+      const written = ([] as unknown[]).concat(writeArgs[key]).map(String)
+      const cached = ([] as unknown[]).concat(entryArgs[key]).map(String)
+      if (!cached.some(value => written.includes(value))) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private key(server: string, tool: string, args: Record<string, unknown>): string {
+    const canonicalize = (value: any): any => {
+      if (Array.isArray(value)) return value.map(canonicalize)
+      if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((acc: Record<string, any>, key) => {
+          acc[key] = canonicalize(value[key])
+          return acc
+        }, {})
+      }
+      return value
+    }
+    return `${server}\u0000${tool}\u0000${JSON.stringify(canonicalize(args))}`
+  }
+}
+
+// Export singleton instance
+export const toolResultCache = new ToolResultCache<McpResult>(
+  config.TOOL_CACHE_ENABLED,
+  config.TOOL_CACHE_TTLS,
+  config.TOOL_CACHE_INVALIDATIONS,
+  config.TOOL_CACHE_MAX_ENTRIES
+)
@@ -0,0 +1,100 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ProxyTracerProvider, ROOT_CONTEXT, SpanKind, context, propagation, trace } from '@opentelemetry/api'
+import { TracingService } from './tracing.service'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+const PARENT_SPAN_ID = '00f067aa0ba902b7'
+
+interface ExportedSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  attributes: Array<{ key: string; value: Record<string, unknown> }>
+  status: { code?: number; message?: string }
+  events: Array<{ name: string }>
+}
+
+describe('TracingService', () => {
+  let directory: string
+  let filePath: string
+  let tracing: TracingService
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tracing-'))
+    filePath = path.join(directory, 'traces.jsonl')
+    tracing = new TracingService({ exporter: 'file', serviceName: 'tracing-test', otlpEndpoint: '', otlpHeaders: {}, filePath, sampleRatio: 1 })
+    tracing.start()
+  })
+
+  afterAll(async () => {
+    await tracing.shutdown()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  // Flush the batch processor and read back the export requests the file exporter wrote so far
+  const requests = async (): Promise<any[]> => {
+    const provider = (trace.getTracerProvider() as ProxyTracerProvider).getDelegate() as unknown as { forceFlush(): Promise<void> }
+    await provider.forceFlush()
+    return fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line))
+  }
+
+  const exported = async (): Promise<ExportedSpan[]> => (await requests())
+    .flatMap(request => request.resourceSpans)
+    .flatMap(resourceSpans => resourceSpans.scopeSpans)
+    .flatMap(scopeSpans => scopeSpans.spans)
+
+  const named = async (name: string) => (await exported()).find(span => span.name === name)
+
+  it('writes nested spans as OTLP/JSON lines under the service resource', async () => {
+    await tracing.withSpan('test.parent', { attributes: { 'chat.session_id': 'session-1' } }, () =>
+      tracing.withSpan('test.child', { kind: SpanKind.CLIENT }, async () => 'done'))
+
+    const parent = await named('test.parent')
+    const child = await named('test.child')
+
+    expect(parent?.attributes).toContainEqual({ key: 'chat.session_id', value: { stringValue: 'session-1' } })
+    expect(child).toMatchObject({ traceId: parent?.traceId, parentSpanId: parent?.spanId, kind: SpanKind.CLIENT + 1 })
+    const [request] = await requests()
+    expect(request.resourceSpans[0].resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'tracing-test' } })
+    expect(tracing.getServiceStatus()).toMatchObject({ enabled: true, exporter: 'file', target: filePath, lastExportError: null })
+    expect(tracing.getServiceStatus().exportedSpans).toBeGreaterThanOrEqual(2)
+  })
+
+  it('marks a span failed when its function throws, and rethrows', async () => {
+    await expect(tracing.withSpan('test.failing', {}, async () => {
+      throw new Error('connect ECONNREFUSED')
+    })).rejects.toThrow('connect ECONNREFUSED')
+
+    expect(await named('test.failing')).toMatchObject({
+      status: { code: 2, message: 'connect ECONNREFUSED' },
+      events: [{ name: 'exception' }]
+    })
+  })
+
+  it('joins the trace of an incoming W3C traceparent and follows its sampling decision', async () => {
+    const incoming = (traceparent: string) => propagation.extract(ROOT_CONTEXT, { traceparent })
+
+    await context.with(incoming(`00-${TRACE_ID}-${PARENT_SPAN_ID}-01`), () => tracing.withSpan('test.joined', {}, async () => undefined))
+    await context.with(incoming(`00-${TRACE_ID}-${PARENT_SPAN_ID}-00`), () => tracing.withSpan('test.unsampled', {}, async () => undefined))
+    await context.with(incoming(`00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01`), () => tracing.withSpan('test.invalid', {}, async () => undefined))
+
+    expect(await named('test.joined')).toMatchObject({ traceId: TRACE_ID, parentSpanId: PARENT_SPAN_ID })
+    expect(await named('test.unsampled')).toBeUndefined()
+    const fresh = await named('test.invalid')
+    expect(fresh?.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(fresh?.traceId).not.toBe('0'.repeat(32))
+    expect(fresh?.parentSpanId).toBeUndefined()
+  })
+
+  it('reports the OTLP traces endpoint it exports to', () => {
+    const otlp = new TracingService({ exporter: 'otlp', serviceName: 'test', otlpEndpoint: 'http://collector:4318/', otlpHeaders: {}, filePath: '', sampleRatio: 1 })
+    const off = new TracingService({ exporter: 'none', serviceName: 'test', otlpEndpoint: '', otlpHeaders: {}, filePath: '', sampleRatio: 1 })
+
+    expect(otlp.getServiceStatus().target).toBe('http://collector:4318/v1/traces')
+    expect(off.getServiceStatus()).toMatchObject({ enabled: false, target: null })
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Tracing Service
+ * OpenTelemetry tracing for chat turns and everything they fan out into (device resolution,
+ * LLM completions, tool rounds, MCP calls). The Node SDK instruments HTTP, Express and fetch, so every
+ * API request gets a server span, an incoming W3C traceparent joins the caller's trace and outgoing
+ * MCP and LLM requests carry the context on. Spans are exported to an OTLP/HTTP collector or, for
+ * offline debugging, to a local file as OTLP/JSON lines.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { Attributes, Span, SpanKind, SpanStatusCode, context, trace } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode, getRPCMetadata } from '@opentelemetry/core'
+import { NodeSDK } from '@opentelemetry/sdk-node'
+import {
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  ReadableSpan,
+  SpanExporter,
+  TraceIdRatioBasedSampler
+} from '@opentelemetry/sdk-trace-base'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http'
+import { ExpressInstrumentation, ExpressLayerType } from '@opentelemetry/instrumentation-express'
+import { UndiciInstrumentation } from '@opentelemetry/instrumentation-undici'
+import config from '../utils/config'
+import logger from '../utils/logger'
+
+export interface SpanOptions {
+  kind?: SpanKind
+  attributes?: Attributes
+}
+
+export type TracingExporterKind = 'none' | 'otlp' | 'file'
+
+export interface TracingOptions {
+  exporter: TracingExporterKind
+  serviceName: string
+  otlpEndpoint: string
+  otlpHeaders: Record<string, string>
+  filePath: string
+  sampleRatio: number
+}
+
+const TRACER_NAME = 'rp-sl1-chat-backend'
+
+// Probes and scrapes would drown the interesting traces
+const UNTRACED_PATHS = /^\/(api\/health|metrics)([/?]|$)/
+
+/**
+ * Appends each batch as one OTLP/JSON export request per line - the format the OpenTelemetry
+ * Collector's file exporter writes and its otlpjsonfile receiver replays
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly filePath: string
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath)
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const request = JsonTraceSerializer.serializeRequest(spans)
+    if (!request) {
+      resultCallback({ code: ExportResultCode.FAILED, error: new Error('Spans could not be serialized') })
+      return
+    }
+
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        await fs.appendFile(this.filePath, `${Buffer.from(request).toString('utf8')}\n`, 'utf8')
+      })
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error })
+      )
+  }
+
+  forceFlush(): Promise<void> {
+    return this.writing
+  }
+
+  shutdown(): Promise<void> {
+    return this.writing
+  }
+}
+
+export class TracingService {
+  private readonly options: TracingOptions
+  private sdk: NodeSDK | null = null
+  private exportedSpans = 0
+  private droppedSpans = 0
+  private lastExportError: string | null = null
+
+  constructor(options: TracingOptions) {
+    this.options = options
+  }
+
+  isEnabled(): boolean {
+    return this.options.exporter !== 'none'
+  }
+
+  /**
+   * Register the SDK and its instrumentations. Must run before http and express are loaded so they
+   * can be patched - see instrumentation.ts. With tracing off the API stays a no-op.
+   */
+  start(): void {
+    if (!this.isEnabled() || this.sdk) {
+      return
+    }
+
+    this.sdk = new NodeSDK({
+      serviceName: this.options.serviceName,
+      // Root spans decide; children (and an incoming traceparent) are followed so traces are never exported half
+      sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(this.options.sampleRatio) }),
+      spanProcessors: [new BatchSpanProcessor(this.countExports(this.createExporter()))],
+      // Metrics are served by /metrics and logs by winston - without these the SDK would push both over OTLP
+      metricReaders: [],
+      logRecordProcessors: [],
+      instrumentations: [
+        new HttpInstrumentation({
+          ignoreIncomingRequestHook: request => UNTRACED_PATHS.test(request.url || '')
+        }),
+        // Route handlers only - a span per middleware layer buries the chat spans
+        new ExpressInstrumentation({ ignoreLayersType: [ExpressLayerType.MIDDLEWARE] }),
+        new UndiciInstrumentation()
+      ]
+    })
+    this.sdk.start()
+  }
+
+  activeSpan(): Span | undefined {
+    return trace.getActiveSpan()
+  }
+
+  /**
+   * Run fn in a new span, child of the active one, ending it when fn settles.
+   * A throw marks the span failed and is rethrown.
+   */
+  async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    return trace.getTracer(TRACER_NAME).startActiveSpan(name, options, async span => {
+      try {
+        return await fn(span)
+      } catch (error: any) {
+        span.recordException(error)
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message })
+        throw error
+      } finally {
+        span.end()
+      }
+    })
+  }
+
+  /**
+   * Add attributes to the server span of the HTTP request being handled, e.g. once the caller is known
+   */
+  setRequestAttributes(attributes: Attributes): void {
+    getRPCMetadata(context.active())?.span?.setAttributes(attributes)
+  }
+
+  getServiceStatus(): {
+    enabled: boolean
+    exporter: TracingExporterKind
+    target: string | null
+    sampleRatio: number
+    exportedSpans: number
+    droppedSpans: number
+    lastExportError: string | null
+  } {
+    return {
+      enabled: this.isEnabled(),
+      exporter: this.options.exporter,
+      target: this.options.exporter === 'otlp'
+        ? this.tracesUrl()
+        : this.options.exporter === 'file' ? path.resolve(this.options.filePath) : null,
+      sampleRatio: this.options.sampleRatio,
+      exportedSpans: this.exportedSpans,
+      droppedSpans: this.droppedSpans,
+      lastExportError: this.lastExportError
+    }
+  }
+
+  /**
+   * Export the spans still buffered and unpatch the instrumentations
+   */
+  async shutdown(): Promise<void> {
+    await this.sdk?.shutdown()
+    this.sdk = null
+  }
+
+  private createExporter(): SpanExporter {
+    if (this.options.exporter === 'file') {
+      return new FileSpanExporter(this.options.filePath)
+    }
+    return new OTLPTraceExporter({ url: this.tracesUrl(), headers: this.options.otlpHeaders })
+  }
+
+  /**
+   * Count what the exporter delivers for getServiceStatus. Never fails a request - a collector outage drops spans.
+   */
+  private countExports(exporter: SpanExporter): SpanExporter {
+    return {
+      export: (spans, resultCallback) => exporter.export(spans, result => {
+        if (result.code === ExportResultCode.SUCCESS) {
+          this.exportedSpans += spans.length
+          this.lastExportError = null
+        } else {
+          this.droppedSpans += spans.length
+          const message = result.error?.message || 'Export failed'
+          if (this.lastExportError !== message) {
+            logger.warn('Span export failed - spans dropped', {
+              exporter: this.options.exporter,
+              spans: spans.length,
+              error: message,
+              service: 'TracingService'
+            })
+          }
+          this.lastExportError = message
+        }
+        resultCallback(result)
+      }),
+      forceFlush: () => exporter.forceFlush?.() ?? Promise.resolve(),
+      shutdown: () => exporter.shutdown()
+    }
+  }
+
+  private tracesUrl(): string {
+    const endpoint = this.options.otlpEndpoint.replace(/\/+$/, '')
+    return endpoint.endsWith('/v1/traces') ? endpoint : `${endpoint}/v1/traces`
+  }
+}
+
+// Export singleton instance
+export const tracingService = new TracingService({
+  exporter: config.TRACING_EXPORTER,
+  serviceName: config.OTEL_SERVICE_NAME,
+  otlpEndpoint: config.OTEL_EXPORTER_OTLP_ENDPOINT,
+  otlpHeaders: config.OTEL_EXPORTER_OTLP_HEADERS,
+  filePath: config.TRACING_FILE_PATH,
+  sampleRatio: config.TRACING_SAMPLE_RATIO
+})
@@ -0,0 +1,63 @@
+import { UsageService, SessionBudgetExceededError } from './usage.service'
+
+const HOUR = 60 * 60 * 1000
+
+const usage = (prompt: number, completion: number) => ({
+  prompt_tokens: prompt,
+  completion_tokens: completion,
+  total_tokens: prompt + completion
+})
+
+describe('UsageService', () => {
+  it('adds up every completion per session, per day and overall', () => {
+    const service = new UsageService(0, HOUR, 30)
+
+    service.record('session-1', usage(100, 20))
+    service.record('session-1', usage(150, 30))
+    service.record('session-2', usage(50, 10))
+
+    expect(service.getSessionUsage('session-1')).toMatchObject({
+      prompt_tokens: 250,
+      completion_tokens: 50,
+      total_tokens: 300,
+      requests: 2,
+      budget: null,
+      remaining: null
+    })
+    const summary = service.getSummary()
+    expect(summary.totals).toEqual({ prompt_tokens: 300, completion_tokens: 60, total_tokens: 360, requests: 3 })
+    expect(summary.today).toMatchObject({ total_tokens: 360, requests: 3 })
+    expect(summary.activeSessions).toBe(2)
+  })
+
+  it('ignores completions that reported no usage', () => {
+    const service = new UsageService(0, HOUR, 30)
+
+    service.record('session-1', undefined)
+
+    expect(service.getSessionUsage('session-1')).toBeNull()
+    expect(service.getSummary().totals.requests).toBe(0)
+  })
+
+  it('has no budget to run out of when none is configured', () => {
+    const service = new UsageService(0, HOUR, 30)
+
+    service.record('session-1', usage(1000000, 0))
+
+    expect(service.getRemainingBudget('session-1')).toBe(Infinity)
+    expect(() => service.assertWithinBudget('session-1')).not.toThrow()
+  })
+
+  it('refuses a session once it has spent its budget', () => {
+    const service = new UsageService(500, HOUR, 30)
+
+    service.record('session-1', usage(300, 50))
+    expect(service.getRemainingBudget('session-1')).toBe(150)
+    expect(() => service.assertWithinBudget('session-1')).not.toThrow()
+
+    service.record('session-1', usage(200, 50))
+    expect(service.getRemainingBudget('session-1')).toBe(0)
+    expect(() => service.assertWithinBudget('session-1')).toThrow(SessionBudgetExceededError)
+    expect(service.getRemainingBudget('session-2')).toBe(500)
+  })
+})
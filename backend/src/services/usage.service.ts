@@ -0,0 +1,195 @@
+/**
+ * Usage Service
+ * Accumulates LLM token usage per session and per day and enforces per-session budgets
+ */
+
+import config from '../utils/config'
+import logger from '../utils/logger'
+
+export interface TokenUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number
+}
+
+export interface SessionUsage extends UsageTotals {
+  sessionId: string
+  firstSeen: string
+  lastUpdated: string
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string
+}
+
+export class SessionBudgetExceededError extends Error {
+  readonly sessionId: string
+  readonly used: number
+  readonly budget: number
+
+  constructor(sessionId: string, used: number, budget: number) {
+    super(`Session token budget exhausted (${used}/${budget} tokens). Please start a new session.`)
+    this.name = 'SessionBudgetExceededError'
+    this.sessionId = sessionId
+    this.used = used
+    this.budget = budget
+  }
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000
+
+/**
+ * In-memory usage ledger. Sessions idle longer than the retention window are
+ * forgotten together with their conversation; daily totals are kept for a fixed number of days.
+ */
+export class UsageService {
+  private readonly sessionBudget: number
+  private readonly sessionRetentionMs: number
+  private readonly dailyRetentionDays: number
+  private sessions = new Map<string, SessionUsage>()
+  private daily = new Map<string, DailyUsage>()
+  private totals: UsageTotals = UsageService.emptyTotals()
+  private lastPrune = 0
+
+  constructor(sessionBudget: number, sessionRetentionMs: number, dailyRetentionDays: number) {
+    this.sessionBudget = sessionBudget
+    this.sessionRetentionMs = sessionRetentionMs
+    this.dailyRetentionDays = dailyRetentionDays
+  }
+
+  /**
+   * Record the usage of one completion request
+   */
+  record(sessionId: string, usage: TokenUsage | undefined): void {
+    if (!usage) {
+      return
+    }
+
+    const now = new Date()
+    const timestamp = now.toISOString()
+    const date = timestamp.slice(0, 10)
+
+    const session = this.sessions.get(sessionId) || {
+      sessionId,
+      firstSeen: timestamp,
+      lastUpdated: timestamp,
+      ...UsageService.emptyTotals()
+    }
+    UsageService.add(session, usage)
+    session.lastUpdated = timestamp
+    this.sessions.set(sessionId, session)
+
+    const day = this.daily.get(date) || { date, ...UsageService.emptyTotals() }
+    UsageService.add(day, usage)
+    this.daily.set(date, day)
+
+    UsageService.add(this.totals, usage)
+
+    if (this.sessionBudget > 0 && session.total_tokens >= this.sessionBudget) {
+      logger.warn('Session token budget exhausted', {
+        sessionId,
+        used: session.total_tokens,
+        budget: this.sessionBudget,
+        service: 'UsageService'
+      })
+    }
+
+    if (now.getTime() - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.prune(now.getTime())
+    }
+  }
+
+  /**
+   * Tokens a session may still spend, or Infinity when no budget is configured
+   */
+  getRemainingBudget(sessionId: string): number {
+    if (this.sessionBudget <= 0) {
+      return Infinity
+    }
+    const used = this.sessions.get(sessionId)?.total_tokens || 0
+    return Math.max(0, this.sessionBudget - used)
+  }
+
+  /**
+   * Refuse sessions that have already spent their budget
+   */
+  assertWithinBudget(sessionId: string): void {
+    if (this.getRemainingBudget(sessionId) <= 0) {
+      throw new SessionBudgetExceededError(
+        sessionId,
+        this.sessions.get(sessionId)?.total_tokens || 0,
+        this.sessionBudget
+      )
+    }
+  }
+
+  getSessionUsage(sessionId: string): (SessionUsage & { budget: number | null; remaining: number | null }) | null {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return null
+    }
+
+    return {
+      ...session,
+      budget: this.sessionBudget > 0 ? this.sessionBudget : null,
+      remaining: this.sessionBudget > 0 ? this.getRemainingBudget(sessionId) : null
+    }
+  }
+
+  getSummary(): {
+    totals: UsageTotals
+    today: DailyUsage
+    daily: DailyUsage[]
+    activeSessions: number
+    sessionBudget: number | null
+  } {
+    const today = new Date().toISOString().slice(0, 10)
+
+    return {
+      totals: { ...this.totals },
+      today: this.daily.get(today) || { date: today, ...UsageService.emptyTotals() },
+      daily: [...this.daily.values()].sort((a, b) => b.date.localeCompare(a.date)),
+      activeSessions: this.sessions.size,
+      sessionBudget: this.sessionBudget > 0 ? this.sessionBudget : null
+    }
+  }
+
+  private prune(now: number): void {
+    this.lastPrune = now
+
+    for (const [sessionId, session] of this.sessions) {
+      if (now - new Date(session.lastUpdated).getTime() > this.sessionRetentionMs) {
+        this.sessions.delete(sessionId)
+      }
+    }
+
+    const oldestDate = new Date(now - this.dailyRetentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    for (const date of this.daily.keys()) {
+      if (date < oldestDate) {
+        this.daily.delete(date)
+      }
+    }
+  }
+
+  private static add(target: UsageTotals, usage: TokenUsage): void {
+    target.prompt_tokens += usage.prompt_tokens || 0
+    target.completion_tokens += usage.completion_tokens || 0
+    target.total_tokens += usage.total_tokens || 0
+    target.requests += 1
+  }
+
+  private static emptyTotals(): UsageTotals {
+    return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, requests: 0 }
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService(
+  config.SESSION_TOKEN_BUDGET,
+  config.CONVERSATION_RETENTION_MS,
+  config.USAGE_DAILY_RETENTION_DAYS
+)
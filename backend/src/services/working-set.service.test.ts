@@ -0,0 +1,94 @@
+import { WorkingSetService } from './working-set.service'
+import type { Device } from '../models/restorepoint'
+
+jest.mock('./mcp.service', () => ({
+  mcpService: {
+    parseToolName: (name: string) => ({ server: null, tool: name })
+  }
+}))
+
+const device = (ID: string, Name: string): Device => ({ ID, Name, Address: `10.0.0.${ID}`, PluginName: 'Cisco IOS', AssetFields: [] })
+
+const DEVICES = [device('1', 'core-1'), device('2', 'core-2'), device('3', 'edge-1')]
+
+const SESSION = 'session-1'
+
+describe('WorkingSetService', () => {
+  let workingSet: WorkingSetService
+
+  beforeEach(() => {
+    workingSet = new WorkingSetService(100, 60 * 60 * 1000)
+    workingSet.beginTurn(SESSION)
+  })
+
+  const resolved = (message: string) => workingSet.resolve(SESSION, message)
+    .map(({ phrase, kind, entities }) => ({ phrase, kind, ids: entities.map(entity => entity.id) }))
+
+  it('resolves ordinals against the last list', () => {
+    workingSet.recordToolCall(SESSION, 'list_devices', '{}', { success: true, data: DEVICES })
+
+    expect(resolved('back up the second one')).toEqual([{ phrase: 'the second one', kind: 'device', ids: ['2'] }])
+    expect(resolved('and the last device')).toEqual([{ phrase: 'the last device', kind: 'device', ids: ['3'] }])
+    expect(resolved('what about #3')).toEqual([{ phrase: '#3', kind: 'device', ids: ['3'] }])
+  })
+
+  it('resolves "it" to the device in focus and "the other two" to the rest of the list', () => {
+    workingSet.recordToolCall(SESSION, 'list_devices', '{}', { success: true, data: DEVICES })
+    workingSet.recordToolCall(SESSION, 'get_device', '{"id":"2"}', { success: true, data: DEVICES[1] })
+
+    expect(resolved('reboot it, then check the other two')).toEqual([
+      { phrase: 'it', kind: 'device', ids: ['2'] },
+      { phrase: 'the other two', kind: 'device', ids: ['1', '3'] }
+    ])
+  })
+
+  it('remembers the targets and results of write tools', () => {
+    workingSet.recordToolCall(SESSION, 'execute_command', '{"deviceIds":["1","2"],"command":"show run"}', { success: true, data: { CommandID: 9 } })
+
+    expect(resolved('run the same command on them')).toEqual([
+      { phrase: 'the same command', kind: 'command', ids: ['9'] },
+      { phrase: 'them', kind: 'device', ids: ['1', '2'] }
+    ])
+    expect(workingSet.getWorkingSet(SESSION)?.entities[0]).toMatchObject({ kind: 'command', label: 'command 9 "show run"', role: 'created' })
+  })
+
+  it('finds the latest backup of the device in focus', () => {
+    workingSet.recordToolCall(SESSION, 'create_backup', '{"deviceId":"3"}', { success: true, data: { backup_id: '41' } })
+    workingSet.recordToolCall(SESSION, 'create_backup', '{"deviceId":"1"}', { success: true, data: { backup_id: '42' } })
+
+    expect(resolved('show its last backup')).toEqual([
+      { phrase: 'its', kind: 'device', ids: ['1'] },
+      { phrase: 'last backup', kind: 'backup', ids: ['42'] }
+    ])
+  })
+
+  it('leaves a singular reference unresolved when several devices could be meant', () => {
+    workingSet.recordMentionedDevices(SESSION, DEVICES)
+
+    expect(resolved('restart it')).toEqual([])
+    expect(resolved('restart those devices')).toEqual([{ phrase: 'those devices', kind: 'device', ids: ['1', '2', '3'] }])
+  })
+
+  it('ignores failed tool calls and sessions without a working set', () => {
+    workingSet.recordToolCall(SESSION, 'list_devices', '{}', { success: false, error: { code: 'EXECUTION_ERROR', message: 'timeout' } })
+
+    expect(workingSet.buildContext(SESSION, 'show it')).toBe('')
+    expect(workingSet.resolve('session-2', 'show it')).toEqual([])
+  })
+
+  it('summarises the working set and the resolved references for the model', () => {
+    workingSet.recordToolCall(SESSION, 'get_device', '{"id":"1"}', { success: true, data: DEVICES[0] })
+
+    const context = workingSet.buildContext(SESSION, 'back it up')
+
+    expect(context).toContain('- devices: core-1 (ID: 1, IP: 10.0.0.1)')
+    expect(context).toContain('- "it" refers to device core-1 (ID: 1, IP: 10.0.0.1)')
+  })
+
+  it('keeps only the most recent entities', () => {
+    const small = new WorkingSetService(2, 60 * 60 * 1000)
+    small.recordToolCall(SESSION, 'list_devices', '{}', { success: true, data: DEVICES })
+
+    expect(small.getWorkingSet(SESSION)?.entities.map(entity => entity.id)).toEqual(['1', '2'])
+  })
+})
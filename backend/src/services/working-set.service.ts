@@ -0,0 +1,541 @@
+/**
+ * Working Set Service
+ * Remembers, per session, the devices, backups, commands and tasks each turn mentioned,
+ * listed or acted on, and resolves follow-up references ("it", "the other two",
+ * "the second one", "the same command") against them
+ */
+
+import config from '../utils/config'
+import logger from '../utils/logger'
+import { mcpService, McpResult } from './mcp.service'
+import { pendingActionService } from './pending-action.service'
+import { RESOLVE_DEVICES_TOOL, ResolveDevicesResult } from './local-tools.service'
+import { Backup, CommandExecution, Device, EntityKind, Task } from '../models/restorepoint'
+import { findCreatedIds, isModelledTool, ToolDataTypes } from '../models/tool-results'
+
+export type WorkingSetRole = 'mentioned' | 'listed' | 'viewed' | 'acted_on' | 'created'
+
+export interface WorkingSetEntity {
+  kind: EntityKind
+  id: string
+  label: string
+  server?: string
+  role: WorkingSetRole // how the entity was last referenced
+  turn: number
+  lastSeen: string
+  attributes: Record<string, string>
+}
+
+/**
+ * A phrase of the message and the entities it refers to
+ */
+export interface WorkingSetReference {
+  phrase: string
+  kind: EntityKind
+  entities: WorkingSetEntity[]
+}
+
+export interface WorkingSetView {
+  sessionId: string
+  turn: number
+  lastUpdated: string
+  entities: WorkingSetEntity[] // most recent first
+  lists: Partial<Record<EntityKind, WorkingSetEntity[]>> // the last ordered list of each kind
+  focus: Partial<Record<EntityKind, WorkingSetEntity[]>> // what was last acted on or looked at
+}
+
+type NewEntity = Omit<WorkingSetEntity, 'role' | 'turn' | 'lastSeen'>
+
+interface EntityGroup {
+  keys: string[]
+  seq: number // orders lists and focus groups by recency
+}
+
+interface SessionWorkingSet {
+  turn: number
+  seq: number
+  entities: Map<string, WorkingSetEntity> // key -> entity, oldest first
+  lists: Partial<Record<EntityKind, EntityGroup>>
+  focus: Partial<Record<EntityKind, EntityGroup>>
+  lastListKind?: EntityKind
+  lastUpdated: string
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000
+
+// Items kept from one list result - enough for "the twelfth one", without the whole inventory
+const MAX_LIST_ENTITIES = 50
+
+// Entities of each kind shown to the model in the working set summary
+const MAX_CONTEXT_ENTITIES = 10
+
+const KIND_NOUNS: Record<EntityKind, string> = {
+  device: 'devices?|routers?|switch(?:es)?|firewalls?|hosts?|nodes?|boxes|box',
+  backup: 'backups?',
+  command: 'commands?',
+  task: 'tasks?|jobs?'
+}
+const NOUN = Object.values(KIND_NOUNS).join('|')
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+}
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+}
+const ORDINAL = `${Object.keys(ORDINAL_WORDS).join('|')}|\\d+(?:st|nd|rd|th)|last`
+
+/**
+ * In-memory working sets. A session's working set is forgotten together with its conversation.
+ */
+export class WorkingSetService {
+  private readonly maxEntities: number
+  private readonly retentionMs: number
+  private sessions = new Map<string, SessionWorkingSet>()
+  private lastPrune = 0
+
+  constructor(maxEntities: number, retentionMs: number) {
+    this.maxEntities = maxEntities
+    this.retentionMs = retentionMs
+  }
+
+  /**
+   * Start a new turn - entities recorded from now on belong to it
+   */
+  beginTurn(sessionId: string): void {
+    this.session(sessionId).turn++
+
+    const now = Date.now()
+    if (now - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.prune(now)
+    }
+  }
+
+  /**
+   * Devices named in the user's message. One device becomes the focus, several become the current list.
+   */
+  recordMentionedDevices(sessionId: string, devices: Device[]): void {
+    if (devices.length === 0) {
+      return
+    }
+    const entities = devices.slice(0, MAX_LIST_ENTITIES).map(device => this.fromDevice(device))
+    this.record(sessionId, 'device', entities, 'mentioned', devices.length === 1 ? 'focus' : 'list')
+  }
+
+  /**
+   * Remember what a successful tool call returned or acted on
+   */
+  recordToolCall(sessionId: string, toolName: string, rawArguments: string, result: McpResult): void {
+    if (!result.success) {
+      return
+    }
+
+    const { server, tool } = mcpService.parseToolName(toolName)
+    const serverName = server || undefined
+
+    if (tool === RESOLVE_DEVICES_TOOL) {
+      const { devices } = result.data as ResolveDevicesResult
+      this.record(sessionId, 'device', devices.map(device => ({
+        kind: 'device' as const,
+        id: device.id,
+        label: device.name,
+        ...(device.server && { server: device.server }),
+        attributes: this.attributes({ address: device.address, type: device.type })
+      })), 'listed', 'list')
+      return
+    }
+
+    if (isModelledTool(tool)) {
+      this.recordModelled(sessionId, tool, result, serverName)
+      return
+    }
+
+    if (!pendingActionService.isWrite(tool)) {
+      return
+    }
+
+    let args: Record<string, any> = {}
+    try {
+      args = JSON.parse(rawArguments || '{}')
+    } catch {
+      // Targets unknown - created IDs in the result are still worth remembering
+    }
+
+    const targets = [
+      ...(args.deviceId !== undefined ? [args.deviceId] : []),
+      ...(Array.isArray(args.deviceIds) ? args.deviceIds : [])
+    ].map(String)
+    if (targets.length > 0) {
+      this.record(sessionId, 'device', targets.map(id => this.knownDevice(sessionId, id, serverName)), 'acted_on', 'focus')
+    }
+
+    const commandText = typeof args.command === 'string' ? args.command : undefined
+    for (const [kind, ids] of findCreatedIds(result.data)) {
+      this.record(sessionId, kind, ids.map(id => ({
+        kind,
+        id,
+        label: kind === 'command' && commandText ? `command ${id} "${commandText}"` : `${kind} ${id}`,
+        ...(serverName && { server: serverName }),
+        attributes: this.attributes({
+          command: commandText,
+          tool,
+          deviceId: targets.length === 1 ? targets[0] : undefined,
+          deviceIds: targets.length > 1 ? targets.join(',') : undefined
+        })
+      })), 'created', 'focus')
+    }
+  }
+
+  /**
+   * Resolve pronouns and ordinal references in a message against the working set as it stood before the message
+   */
+  resolve(sessionId: string, message: string): WorkingSetReference[] {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.entities.size === 0) {
+      return []
+    }
+
+    const text = message.toLowerCase()
+    const consumed: Array<[number, number]> = []
+    const references: Array<WorkingSetReference & { start: number }> = []
+
+    const scan = (pattern: RegExp, resolveMatch: (match: RegExpExecArray) => { kind: EntityKind; entities: WorkingSetEntity[] } | null) => {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0
+        const end = start + match[0].length
+        if (consumed.some(([from, to]) => start < to && end > from)) {
+          continue
+        }
+        const resolved = resolveMatch(match as RegExpExecArray)
+        if (resolved && resolved.entities.length > 0) {
+          consumed.push([start, end])
+          references.push({ phrase: message.slice(start, end), start, ...resolved })
+        }
+      }
+    }
+
+    // "the other two", "the others"
+    scan(new RegExp(`\\bthe\\s+other(?:s\\b|\\s+(${Object.keys(NUMBER_WORDS).join('|')}|\\d+)\\b)?(?:\\s+(ones?|${NOUN})\\b)?`, 'g'), match => {
+      const kind = this.kindOf(match[2]) || 'device'
+      const count = match[1] ? NUMBER_WORDS[match[1]] || Number(match[1]) : undefined
+      const focus = new Set(session.focus[kind]?.keys || [])
+      const others = this.expand(session, session.lists[kind]).filter(entity => !focus.has(this.key(entity)))
+      return { kind, entities: count ? others.slice(0, count) : others }
+    })
+
+    // "the latest command", and "last backup" in "its last backup" (where "its" is resolved on its own)
+    scan(/(?:(?<=\b(its|their)\s+)|\bthe\s+)(?:latest|most\s+recent|last)\s+(backup|command|task|job)s?\b/g, match => {
+      const kind = this.kindOf(match[2])!
+      const devices = !match[1] ? null : new Set(this.expand(session, session.focus.device).map(device => device.id))
+      const latest = [...session.entities.values()].reverse()
+        .find(entity => entity.kind === kind && (!devices || devices.has(entity.attributes.deviceId)))
+      return latest ? { kind, entities: [latest] } : null
+    })
+
+    // "the second one", "the 3rd device", "the last one"
+    scan(new RegExp(`\\bthe\\s+(${ORDINAL})(?:\\s+(ones?|${NOUN})\\b)?|\\b(${ORDINAL})\\s+(one|${NOUN})\\b|(?:#|\\bnumber\\s+)(\\d+)\\b`, 'g'), match => {
+      const ordinal = match[1] || match[3] || match[5]
+      const kind = this.kindOf(match[2] || match[4]) || session.lastListKind
+      if (!kind) return null
+      const list = this.expand(session, session.lists[kind])
+      const position = ordinal === 'last' ? list.length : ORDINAL_WORDS[ordinal] || parseInt(ordinal, 10)
+      const entity = list[position - 1]
+      return entity ? { kind, entities: [entity] } : null
+    })
+
+    // "the same command"
+    scan(new RegExp(`\\bthe\\s+same\\s+(${NOUN})\\b`, 'g'), match => {
+      const kind = this.kindOf(match[1])!
+      const single = this.single(session, kind)
+      return single ? { kind, entities: single } : null
+    })
+
+    // "that device", "those backups", "this one"
+    scan(new RegExp(`\\b(this|that|these|those)\\s+(ones?|${NOUN})\\b`, 'g'), match => {
+      const kind = this.kindOf(match[2]) || 'device'
+      const entities = match[1] === 'this' || match[1] === 'that' ? this.single(session, kind) : this.group(session, kind)
+      return entities ? { kind, entities } : null
+    })
+
+    // Bare pronouns mostly stand for devices in this domain
+    scan(/\b(all\s+of\s+them|each\s+of\s+them|both\s+of\s+them|them|they|those|these|both)\b/g, () => {
+      const entities = this.group(session, 'device')
+      return entities ? { kind: 'device', entities } : null
+    })
+    scan(/\b(it|its|it's)\b/g, () => {
+      const entities = this.single(session, 'device')
+      return entities ? { kind: 'device', entities } : null
+    })
+
+    return references
+      .sort((a, b) => a.start - b.start)
+      .map(({ start: _start, ...reference }) => reference)
+  }
+
+  /**
+   * Working set summary and resolved references for the model, or '' when the session has none
+   */
+  buildContext(sessionId: string, message: string): string {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.entities.size === 0) {
+      return ''
+    }
+
+    const recent = [...session.entities.values()].reverse()
+    let context = `\n\n## Session Working Set (from earlier turns, most recent first):\n`
+    for (const kind of Object.keys(KIND_NOUNS) as EntityKind[]) {
+      const entities = recent.filter(entity => entity.kind === kind)
+      if (entities.length === 0) continue
+      const shown = entities.slice(0, MAX_CONTEXT_ENTITIES).map(entity => this.describe(entity)).join('; ')
+      const more = entities.length > MAX_CONTEXT_ENTITIES ? `; ... and ${entities.length - MAX_CONTEXT_ENTITIES} more` : ''
+      context += `- ${kind}s: ${shown}${more}\n`
+    }
+
+    const references = this.resolve(sessionId, message)
+    if (references.length > 0) {
+      context += `\n## Resolved References:\n`
+      references.forEach(({ phrase, kind, entities }) => {
+        const what = kind === 'device' ? `device${entities.length > 1 ? 's' : ''} ` : ''
+        context += `- "${phrase}" refers to ${what}${entities.map(entity => this.describe(entity)).join(', ')}\n`
+      })
+      context += `Use these IDs unless the user says otherwise.\n`
+    }
+
+    return context
+  }
+
+  getWorkingSet(sessionId: string): WorkingSetView | null {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return null
+    }
+
+    const groups = (source: Partial<Record<EntityKind, EntityGroup>>) => Object.fromEntries(
+      (Object.keys(source) as EntityKind[]).map(kind => [kind, this.expand(session, source[kind])])
+    ) as Partial<Record<EntityKind, WorkingSetEntity[]>>
+
+    return {
+      sessionId,
+      turn: session.turn,
+      lastUpdated: session.lastUpdated,
+      entities: [...session.entities.values()].reverse(),
+      lists: groups(session.lists),
+      focus: groups(session.focus)
+    }
+  }
+
+  clear(sessionId: string): boolean {
+    return this.sessions.delete(sessionId)
+  }
+
+  getServiceStatus(): { sessions: number; maxEntities: number } {
+    return { sessions: this.sessions.size, maxEntities: this.maxEntities }
+  }
+
+  private recordModelled(sessionId: string, tool: keyof ToolDataTypes, result: McpResult, server?: string): void {
+    switch (tool) {
+      case 'list_devices':
+      case 'get_device': {
+        const devices = ([] as Device[]).concat(result.data as Device | Device[])
+        const entities = devices.slice(0, MAX_LIST_ENTITIES).map(device => this.fromDevice(device, server))
+        this.record(sessionId, 'device', entities, tool === 'get_device' ? 'viewed' : 'listed', tool === 'get_device' ? 'focus' : 'list')
+        break
+      }
+      case 'list_backups':
+      case 'get_backup': {
+        const backups = ([] as Backup[]).concat(result.data as Backup | Backup[])
+        const entities = backups.slice(0, MAX_LIST_ENTITIES).map(backup => ({
+          kind: 'backup' as const,
+          id: backup.ID,
+          label: `backup ${backup.ID}${backup.DeviceName ? ` of ${backup.DeviceName}` : ''}`,
+          ...(server && { server }),
+          attributes: this.attributes({ deviceId: backup.DeviceID, status: backup.Status, time: backup.Time })
+        }))
+        this.record(sessionId, 'backup', entities, tool === 'get_backup' ? 'viewed' : 'listed', tool === 'get_backup' ? 'focus' : 'list')
+        break
+      }
+      case 'list_commands':
+      case 'get_command': {
+        const commands = ([] as CommandExecution[]).concat(result.data as CommandExecution | CommandExecution[])
+        const entities = commands.slice(0, MAX_LIST_ENTITIES).map(command => ({
+          kind: 'command' as const,
+          id: command.ID,
+          label: command.Command ? `command ${command.ID} "${command.Command}"` : `command ${command.ID}`,
+          ...(server && { server }),
+          attributes: this.attributes({
+            command: command.Command,
+            status: command.Status,
+            deviceIds: command.DeviceIDs?.join(',')
+          })
+        }))
+        this.record(sessionId, 'command', entities, tool === 'get_command' ? 'viewed' : 'listed', tool === 'get_command' ? 'focus' : 'list')
+        break
+      }
+      case 'get_task_status': {
+        const task = result.data as Task
+        this.record(sessionId, 'task', [{
+          kind: 'task',
+          id: task.ID,
+          label: `task ${task.ID}`,
+          ...(server && { server }),
+          attributes: this.attributes({ status: task.Status, type: task.Type })
+        }], 'viewed', 'focus')
+        break
+      }
+    }
+  }
+
+  private record(
+    sessionId: string,
+    kind: EntityKind,
+    items: NewEntity[],
+    role: WorkingSetRole,
+    group: 'list' | 'focus'
+  ): void {
+    if (items.length === 0) {
+      return
+    }
+
+    const session = this.session(sessionId)
+    const lastSeen = new Date().toISOString()
+    const keys: string[] = []
+
+    // Re-insert in reverse so the first item of a list ends up the most recent
+    for (const item of [...items].reverse()) {
+      const key = this.key(item)
+      const existing = session.entities.get(key)
+      session.entities.delete(key)
+      session.entities.set(key, {
+        ...item,
+        label: item.label || existing?.label || `${kind} ${item.id}`,
+        attributes: { ...existing?.attributes, ...item.attributes },
+        role,
+        turn: session.turn,
+        lastSeen
+      })
+      keys.unshift(key)
+    }
+
+    while (session.entities.size > this.maxEntities) {
+      const oldest = session.entities.keys().next().value
+      if (oldest === undefined) break
+      session.entities.delete(oldest)
+    }
+
+    const target = group === 'list' ? session.lists : session.focus
+    target[kind] = { keys: [...new Set(keys)], seq: ++session.seq }
+    if (group === 'list') {
+      session.lastListKind = kind
+    }
+    session.lastUpdated = lastSeen
+
+    logger.debug('Working set updated', {
+      sessionId,
+      kind,
+      group,
+      role,
+      count: keys.length,
+      service: 'WorkingSetService'
+    })
+  }
+
+  /**
+   * The one entity a singular reference points at - the sole focus entity, or the sole listed one
+   */
+  private single(session: SessionWorkingSet, kind: EntityKind): WorkingSetEntity[] | null {
+    const focus = this.expand(session, session.focus[kind])
+    if (focus.length === 1) return focus
+    const list = this.expand(session, session.lists[kind])
+    if (focus.length === 0 && list.length === 1) return list
+    return null
+  }
+
+  /**
+   * The entities a plural reference points at - the most recent group of more than one
+   */
+  private group(session: SessionWorkingSet, kind: EntityKind): WorkingSetEntity[] | null {
+    const groups = [session.lists[kind], session.focus[kind]]
+      .filter((group): group is EntityGroup => group !== undefined)
+      .sort((a, b) => b.seq - a.seq)
+      .map(group => this.expand(session, group))
+    return groups.find(entities => entities.length > 1) || null
+  }
+
+  private expand(session: SessionWorkingSet, group: EntityGroup | undefined): WorkingSetEntity[] {
+    return (group?.keys || [])
+      .map(key => session.entities.get(key))
+      .filter((entity): entity is WorkingSetEntity => entity !== undefined)
+  }
+
+  private knownDevice(sessionId: string, id: string, server?: string): NewEntity {
+    const known = this.sessions.get(sessionId)?.entities.get(this.key({ kind: 'device', id, server }))
+    return {
+      kind: 'device',
+      id,
+      label: known?.label || '',
+      ...(server && { server }),
+      attributes: {}
+    }
+  }
+
+  private fromDevice(device: Device, server?: string): NewEntity {
+    const deviceServer = device.Server || server
+    return {
+      kind: 'device',
+      id: device.ID,
+      label: device.Name,
+      ...(deviceServer && { server: deviceServer }),
+      attributes: this.attributes({ address: device.Address, type: device.PluginName })
+    }
+  }
+
+  private attributes(values: Record<string, string | undefined>): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== '')) as Record<string, string>
+  }
+
+  private describe(entity: WorkingSetEntity): string {
+    const details = [
+      `ID: ${entity.id}`,
+      entity.attributes.address && `IP: ${entity.attributes.address}`,
+      entity.attributes.status && `status: ${entity.attributes.status}`,
+      entity.attributes.command && entity.kind !== 'command' && `command: "${entity.attributes.command}"`,
+      entity.server && `Server: ${entity.server}`
+    ].filter(Boolean).join(', ')
+    return `${entity.label} (${details})`
+  }
+
+  private kindOf(noun: string | undefined): EntityKind | undefined {
+    if (!noun) return undefined
+    return (Object.keys(KIND_NOUNS) as EntityKind[])
+      .find(kind => new RegExp(`^(?:${KIND_NOUNS[kind]})$`).test(noun))
+  }
+
+  private key(entity: Pick<WorkingSetEntity, 'kind' | 'id' | 'server'>): string {
+    return `${entity.kind}:${entity.server || ''}:${entity.id}`
+  }
+
+  private session(sessionId: string): SessionWorkingSet {
+    let session = this.sessions.get(sessionId)
+    if (!session) {
+      session = { turn: 0, seq: 0, entities: new Map(), lists: {}, focus: {}, lastUpdated: new Date().toISOString() }
+      this.sessions.set(sessionId, session)
+    }
+    return session
+  }
+
+  private prune(now: number): void {
+    this.lastPrune = now
+
+    for (const [sessionId, session] of this.sessions) {
+      if (now - new Date(session.lastUpdated).getTime() > this.retentionMs) {
+        this.sessions.delete(sessionId)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const workingSetService = new WorkingSetService(
+  config.WORKING_SET_MAX_ENTITIES,
+  config.CONVERSATION_RETENTION_MS
+)
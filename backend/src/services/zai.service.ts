@@ -1,50 +1,40 @@
-import axios from 'axios'
 import config from '../utils/config'
 import logger from '../utils/logger'
 import { RESTOREPOINT_SYSTEM_PROMPT } from '../utils/prompts'
 import { toolDiscoveryService } from './tool-discovery.service'
+import { policyService } from './policy.service'
+import { tracingService } from './tracing.service'
+import { CircuitOpenError } from '../utils/circuit-breaker'
+import { createLLMProvider, LLMProvider, ChatMessage, ChatResponse, CompletionOptions, ToolCall, ResilientProvider } from './llm'
 
-export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant' | 'tool'
-  content?: string
-  tool_calls?: any[]
-  tool_call_id?: string
-}
-
-export interface ToolCall {
-  id: string
-  type: 'function'
-  function: {
-    name: string
-    arguments: string
-  }
-}
+export type { ChatMessage, ToolCall, ChatResponse } from './llm'
 
-interface ChatResponse {
-  content: string
-  tool_calls?: ToolCall[]
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
+export interface SendMessageOptions extends CompletionOptions {
+  roles?: string[] // only tools the policy allows these roles are offered to the model
+  round?: number // tool round of the turn this completion belongs to, recorded on its span
 }
 
+/**
+ * Chat completion service - builds the prompt and tool list and delegates the
+ * actual completion to the configured LLM provider (z.ai by default)
+ */
 export class ZAIService {
-  private readonly apiKey: string
-  private readonly baseURL = 'https://api.z.ai/api/coding/paas/v4'
+  private readonly provider: LLMProvider
   private isInitialized = false
 
-  constructor() {
-    this.apiKey = config.ZAI_API_KEY
-    if (!this.apiKey) {
-      throw new Error('ZAI_API_KEY is required. Please configure the API key in your environment variables.')
-    }
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider
+    logger.info('LLM provider selected', {
+      provider: this.provider.name,
+      model: this.provider.model,
+      service: 'ZAIService'
+    })
   }
 
   async sendMessage(
     message: string, 
-    conversationHistory: ChatMessage[] = []
+    conversationHistory: ChatMessage[] = [],
+    options: SendMessageOptions = {}
   ): Promise<ChatResponse> {
     try {
       // Initialize service if needed
@@ -57,13 +47,9 @@ export class ZAIService {
         historyLength: conversationHistory.length 
       })
 
-      // API key is required - no fallback to mock responses
-      if (!this.apiKey) {
-        throw new Error('ZAI_API_KEY not configured')
-      }
-
-      // Get dynamic tools from discovery service
-      const dynamicTools = await toolDiscoveryService.getToolsForAI()
+      // Get dynamic tools from discovery service, without the ones the caller may never use
+      const { roles, round, ...completionOptions } = options
+      const dynamicTools = policyService.filterTools(roles, await toolDiscoveryService.getToolsForAI())
 
       const messages = [
         { role: 'system', content: RESTOREPOINT_SYSTEM_PROMPT },
@@ -77,48 +63,33 @@ export class ZAIService {
         service: 'ZAIService'
       })
 
-      // Use GLM-4.6 model from z.ai with correct endpoint
-      const response = await axios.post(`${this.baseURL}/chat/completions`, {
-        model: 'glm-4.6',
-        messages,
-        tools: dynamicTools,
-        tool_choice: 'auto',
-        temperature: 0.1,
-        max_tokens: 1000,
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
+      const chatResponse = await tracingService.withSpan('llm.chat', {
+        attributes: {
+          'gen_ai.system': this.provider.name,
+          'gen_ai.request.model': this.provider.model,
+          'gen_ai.request.temperature': config.LLM_TEMPERATURE,
+          'gen_ai.request.max_tokens': config.LLM_MAX_TOKENS,
+          'chat.round': round,
+          'chat.tools_offered': dynamicTools.length,
+          'chat.history_length': conversationHistory.length
         }
+      }, async span => {
+        const response = await this.provider.complete({
+          messages: messages as ChatMessage[],
+          tools: dynamicTools,
+          temperature: config.LLM_TEMPERATURE,
+          maxTokens: config.LLM_MAX_TOKENS
+        }, completionOptions)
+        span.setAttributes({
+          'gen_ai.usage.input_tokens': response.usage?.prompt_tokens,
+          'gen_ai.usage.output_tokens': response.usage?.completion_tokens,
+          'gen_ai.response.tool_calls': response.tool_calls?.length || 0
+        })
+        return response
       })
 
-      const data = response.data
-      const choice = data.choices[0]
-      if (!choice?.message) {
-        throw new Error('No response from z.ai API')
-      }
-
-      const chatResponse: ChatResponse = {
-        content: choice.message.content || '',
-        usage: data.usage ? {
-          prompt_tokens: data.usage.prompt_tokens,
-          completion_tokens: data.usage.completion_tokens, 
-          total_tokens: data.usage.total_tokens
-        } : undefined
-      }
-
-      if (choice.message.tool_calls) {
-        chatResponse.tool_calls = choice.message.tool_calls.map((call: any) => ({
-          id: call.id,
-          type: 'function',
-          function: {
-            name: call.function.name,
-            arguments: call.function.arguments
-          }
-        }))
-      }
-
-      logger.info('Received response from z.ai', {
+      logger.info('Received response from LLM provider', {
+        provider: this.provider.name,
         hasContent: !!chatResponse.content,
         hasToolCalls: !!(chatResponse.tool_calls?.length),
         toolCallsCount: chatResponse.tool_calls?.length || 0,
@@ -128,22 +99,27 @@ export class ZAIService {
       return chatResponse
 
     } catch (error: any) {
-      logger.error('z.ai service error:', {
+      logger.error('LLM provider error:', {
+        provider: this.provider.name,
         error: error.message,
         stack: error.stack,
         status: error.response?.status,
         code: error.code
       })
 
-      if (error.response?.status === 401) {
-        throw new Error('Invalid z.ai API key')
+      const vendor = this.provider.name === 'zai' ? 'z.ai' : this.provider.name
+
+      if (error instanceof CircuitOpenError) {
+        throw new Error(`${vendor} is temporarily unavailable, please try again shortly`)
+      } else if (error.response?.status === 401) {
+        throw new Error(`Invalid ${vendor} API key`)
       } else if (error.response?.status === 429) {
-        throw new Error('z.ai API rate limit exceeded')
+        throw new Error(`${vendor} API rate limit exceeded`)
       } else if (error.response?.status === 500) {
-        throw new Error('z.ai API server error')
+        throw new Error(`${vendor} API server error`)
       }
 
-      throw new Error(`z.ai service failed: ${error.message}`)
+      throw new Error(`${vendor} service failed: ${error.message}`)
     }
   }
 
@@ -184,10 +160,16 @@ export class ZAIService {
    */
   getServiceStatus(): {
     initialized: boolean
+    provider: string
+    model: string
+    providers?: ReturnType<ResilientProvider['getStatus']>
     toolDiscoveryStatus: any
   } {
     return {
       initialized: this.isInitialized,
+      provider: this.provider.name,
+      model: this.provider.model,
+      providers: this.provider instanceof ResilientProvider ? this.provider.getStatus() : undefined,
       toolDiscoveryStatus: toolDiscoveryService.getServiceStatus()
     }
   }
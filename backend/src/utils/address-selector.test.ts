@@ -0,0 +1,76 @@
+import { parseAddressSelectors, parseIPAddress, parseSelector, selectorContains, AddressSelector } from './address-selector'
+
+const selector = (token: string): AddressSelector => {
+  const parsed = parseSelector(token)
+  if (!parsed) throw new Error(`${token} is not a selector`)
+  return parsed
+}
+
+describe('selectorContains', () => {
+  it('matches a single address exactly, not by prefix', () => {
+    const single = selector('10.1.1.1')
+
+    expect(selectorContains(single, '10.1.1.1')).toBe(true)
+    expect(selectorContains(single, '10.1.1.10')).toBe(false)
+    expect(selectorContains(single, '10.1.1.100')).toBe(false)
+    expect(selectorContains(single, '110.1.1.1')).toBe(false)
+  })
+
+  it('matches the addresses inside a CIDR block', () => {
+    const block = selector('10.20.0.0/16')
+
+    expect(selectorContains(block, '10.20.255.255')).toBe(true)
+    expect(selectorContains(block, '10.21.0.0')).toBe(false)
+  })
+
+  it('matches both ends of a short-form range', () => {
+    const range = selector('172.31.13.100-120')
+
+    expect(selectorContains(range, '172.31.13.100')).toBe(true)
+    expect(selectorContains(range, '172.31.13.120')).toBe(true)
+    expect(selectorContains(range, '172.31.13.121')).toBe(false)
+    expect(selectorContains(range, '172.31.14.110')).toBe(false)
+  })
+
+  it('matches any octet in a wildcard position only', () => {
+    const wildcard = selector('10.1.*.1')
+
+    expect(selectorContains(wildcard, '10.1.200.1')).toBe(true)
+    expect(selectorContains(wildcard, '10.1.200.10')).toBe(false)
+  })
+
+  it('compares IPv6 addresses by value and never across versions', () => {
+    expect(selectorContains(selector('2001:db8::1'), '2001:0db8:0:0:0:0:0:1')).toBe(true)
+    expect(selectorContains(selector('2001:db8::/32'), '2001:db8:ffff::1')).toBe(true)
+    expect(selectorContains(selector('::ffff:10.1.1.1'), '10.1.1.1')).toBe(false)
+  })
+
+  it('never matches addresses that are not IP literals', () => {
+    expect(selectorContains(selector('10.1.1.1'), 'router1.example.com')).toBe(false)
+    expect(selectorContains(selector('10.0.0.0/8'), null)).toBe(false)
+  })
+})
+
+describe('parseAddressSelectors', () => {
+  it('finds selectors wrapped in prose punctuation, without duplicates', () => {
+    const selectors = parseAddressSelectors('Check 10.1.1.1, (10.0.0.0/8) and 10.1.1.1? Then 10.1.1.1 - 50.')
+
+    expect(selectors.map(({ kind, text }) => ({ kind, text }))).toEqual([
+      { kind: 'address', text: '10.1.1.1' },
+      { kind: 'cidr', text: '10.0.0.0/8' },
+      { kind: 'range', text: '10.1.1.1-50' }
+    ])
+  })
+
+  it('ignores version numbers, hostnames and invalid addresses', () => {
+    expect(parseAddressSelectors('Upgrade to 17.3 on core.example.com, not 10.1.1.256 or 10.1.1.10-5')).toEqual([])
+  })
+})
+
+describe('parseIPAddress', () => {
+  it('rejects malformed literals and ignores zone IDs', () => {
+    expect(parseIPAddress('10.1.1')).toBeNull()
+    expect(parseIPAddress('2001:db8::1::2')).toBeNull()
+    expect(parseIPAddress('fe80::1%eth0')).toEqual({ version: 6, value: 0xfe800000000000000000000000000001n })
+  })
+})
@@ -0,0 +1,197 @@
+export type IPVersion = 4 | 6
+
+export interface ParsedAddress {
+  version: IPVersion
+  value: bigint
+}
+
+/**
+ * One address selector found in a message:
+ *  - address:  10.1.1.1, 2001:db8::1
+ *  - cidr:     10.20.0.0/16, 2001:db8::/32
+ *  - range:    172.31.13.100-120, 10.0.0.1-10.0.0.50
+ *  - wildcard: 10.1.*.1 (IPv4 only, * matches any octet)
+ */
+export type AddressSelector =
+  | { kind: 'address'; text: string; version: IPVersion; value: bigint }
+  | { kind: 'cidr'; text: string; version: IPVersion; start: bigint; end: bigint; prefix: number }
+  | { kind: 'range'; text: string; version: IPVersion; start: bigint; end: bigint }
+  | { kind: 'wildcard'; text: string; version: 4; octets: Array<number | null> }
+
+const BITS: Record<IPVersion, number> = { 4: 32, 6: 128 }
+
+// Characters that may wrap a selector in prose ("(10.0.0.0/8)," or "10.1.1.1?"). No colon - IPv6 may end in ::
+const TRAILING_PUNCTUATION = /[.,;!?)\]}"'>]+$/
+const LEADING_PUNCTUATION = /^[(\[{"'<]+/
+
+/**
+ * Parse an IPv4 or IPv6 address literal. Returns null for anything else, including hostnames.
+ */
+export function parseIPAddress(text: string): ParsedAddress | null {
+  const trimmed = text.trim().replace(/^\[|\]$/g, '')
+  return trimmed.includes(':')
+    ? parseIPv6(trimmed)
+    : parseIPv4(trimmed)
+}
+
+/**
+ * Find every address selector in free text, in order of appearance and without duplicates
+ */
+export function parseAddressSelectors(message: string): AddressSelector[] {
+  // "10.1.1.1 - 50" and "10.1.1.1 - 10.1.1.50" are written with spaces too
+  const normalized = message.replace(/\b((?:\d{1,3}\.){3}\d{1,3})\s+-\s+(?=\d)/g, '$1-')
+  const selectors: AddressSelector[] = []
+  const seen = new Set<string>()
+
+  for (const word of normalized.split(/\s+/)) {
+    const token = word.replace(LEADING_PUNCTUATION, '').replace(TRAILING_PUNCTUATION, '')
+    if (!token || !/[.:]/.test(token)) {
+      continue
+    }
+
+    const selector = parseSelector(token)
+    if (selector && !seen.has(selector.text)) {
+      seen.add(selector.text)
+      selectors.push(selector)
+    }
+  }
+
+  return selectors
+}
+
+/**
+ * Parse one token as a selector, or null when it is not one
+ */
+export function parseSelector(token: string): AddressSelector | null {
+  if (token.includes('/')) {
+    const [addressText, prefixText, ...rest] = token.split('/')
+    const address = parseIPAddress(addressText)
+    const prefix = Number(prefixText)
+    if (rest.length > 0 || !address || !/^\d{1,3}$/.test(prefixText) || prefix > BITS[address.version]) {
+      return null
+    }
+
+    const hostBits = BigInt(BITS[address.version] - prefix)
+    const start = (address.value >> hostBits) << hostBits
+    return {
+      kind: 'cidr',
+      text: token,
+      version: address.version,
+      start,
+      end: start + (1n << hostBits) - 1n,
+      prefix
+    }
+  }
+
+  if (/^[\d*]{1,3}(\.[\d*]{1,3}){3}$/.test(token) && token.includes('*')) {
+    const octets = token.split('.').map(octet => octet === '*' ? null : Number(octet))
+    if (octets.some(octet => octet !== null && (Number.isNaN(octet) || octet > 255))) {
+      return null
+    }
+    return { kind: 'wildcard', text: token, version: 4, octets }
+  }
+
+  const dash = token.indexOf('-')
+  if (dash > 0) {
+    const start = parseIPAddress(token.slice(0, dash))
+    const endText = token.slice(dash + 1)
+    if (!start) {
+      return null
+    }
+
+    let end: ParsedAddress | null
+    if (start.version === 4 && /^\d{1,3}$/.test(endText)) {
+      // Short form: the end only gives the last octet (172.31.13.100-120)
+      const lastOctet = Number(endText)
+      end = lastOctet <= 255 ? { version: 4, value: (start.value & ~0xffn) | BigInt(lastOctet) } : null
+    } else {
+      end = parseIPAddress(endText)
+    }
+
+    if (!end || end.version !== start.version || end.value < start.value) {
+      return null
+    }
+    return { kind: 'range', text: token, version: start.version, start: start.value, end: end.value }
+  }
+
+  const address = parseIPAddress(token)
+  return address
+    ? { kind: 'address', text: token, version: address.version, value: address.value }
+    : null
+}
+
+/**
+ * Whether an address (as stored on a device) falls inside a selector.
+ * Addresses that are not IP literals never match.
+ */
+export function selectorContains(selector: AddressSelector, address: string | ParsedAddress | null): boolean {
+  const parsed = typeof address === 'string' ? parseIPAddress(address) : address
+  if (!parsed || parsed.version !== selector.version) {
+    return false
+  }
+
+  switch (selector.kind) {
+    case 'address':
+      return parsed.value === selector.value
+    case 'cidr':
+    case 'range':
+      return parsed.value >= selector.start && parsed.value <= selector.end
+    case 'wildcard':
+      return selector.octets.every((octet, index) =>
+        octet === null || Number((parsed.value >> BigInt(8 * (3 - index))) & 0xffn) === octet
+      )
+  }
+}
+
+function parseIPv4(text: string): ParsedAddress | null {
+  const octets = text.split('.')
+  if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+    return null
+  }
+  return {
+    version: 4,
+    value: octets.reduce((value, octet) => (value << 8n) | BigInt(Number(octet)), 0n)
+  }
+}
+
+function parseIPv6(text: string): ParsedAddress | null {
+  // Zone IDs (fe80::1%eth0) do not change the address
+  const address = text.split('%')[0]
+  if (!/^[0-9a-fA-F:.]+$/.test(address) || (address.match(/::/g) || []).length > 1) {
+    return null
+  }
+
+  let groups: string[]
+  const [head, tail] = address.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+
+  // An embedded IPv4 address (::ffff:10.1.1.1) fills the last two groups
+  const last = (tailGroups.length > 0 ? tailGroups : headGroups)
+  if (last.length > 0 && last[last.length - 1].includes('.')) {
+    const ipv4 = parseIPv4(last[last.length - 1])
+    if (!ipv4) {
+      return null
+    }
+    last.splice(last.length - 1, 1, (ipv4.value >> 16n).toString(16), (ipv4.value & 0xffffn).toString(16))
+  }
+
+  if (tail !== undefined) {
+    const missing = 8 - headGroups.length - tailGroups.length
+    if (missing < 1) {
+      return null
+    }
+    groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+  } else {
+    groups = headGroups
+  }
+
+  if (groups.length !== 8 || groups.some(group => !/^[0-9a-fA-F]{1,4}$/.test(group))) {
+    return null
+  }
+
+  return {
+    version: 6,
+    value: groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n)
+  }
+}
@@ -0,0 +1,97 @@
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker'
+
+const RESET_MS = 30000
+
+const fail = () => Promise.reject(new Error('connect ECONNREFUSED'))
+const succeed = () => Promise.resolve('ok')
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker
+  let now: jest.SpyInstance
+  let clock: number
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker({ name: 'test', failureThreshold: 3, resetTimeoutMs: RESET_MS })
+    clock = Date.parse('2026-01-01T00:00:00Z')
+    now = jest.spyOn(Date, 'now').mockImplementation(() => clock)
+  })
+
+  afterEach(() => {
+    now.mockRestore()
+  })
+
+  const trip = async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED')
+    }
+  }
+
+  it('opens after the threshold of consecutive failures and then fails fast', async () => {
+    await trip()
+    const operation = jest.fn(succeed)
+
+    await expect(breaker.execute(operation)).rejects.toThrow(CircuitOpenError)
+    expect(operation).not.toHaveBeenCalled()
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      nextAttemptAt: new Date(clock + RESET_MS).toISOString()
+    })
+  })
+
+  it('resets the failure count on a success', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow()
+    await expect(breaker.execute(fail)).rejects.toThrow()
+    await breaker.execute(succeed)
+    await expect(breaker.execute(fail)).rejects.toThrow()
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 1 })
+  })
+
+  it('lets a probe through after the reset timeout and closes when it succeeds', async () => {
+    await trip()
+    clock += RESET_MS
+
+    expect(breaker.getStatus().state).toBe('half_open')
+    await expect(breaker.execute(succeed)).resolves.toBe('ok')
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 })
+  })
+
+  it('reopens at once when the probe fails', async () => {
+    await trip()
+    clock += RESET_MS
+
+    await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED')
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', nextAttemptAt: new Date(clock + RESET_MS).toISOString() })
+  })
+
+  it('lets only one probe through at a time', async () => {
+    await trip()
+    clock += RESET_MS
+    let finishProbe: (value: string) => void = () => undefined
+    const probe = breaker.execute(() => new Promise<string>(resolve => { finishProbe = resolve }))
+
+    expect(breaker.canExecute()).toBe(false)
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError)
+
+    finishProbe('ok')
+    await probe
+    expect(breaker.canExecute()).toBe(true)
+  })
+
+  it('ignores errors that are not failures of the dependency, and trusts a probe that got one', async () => {
+    const notFound = () => Promise.reject(Object.assign(new Error('Not found'), { status: 404 }))
+    const isFailure = (error: any) => error.status !== 404
+
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(notFound, isFailure)).rejects.toThrow('Not found')
+    }
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 })
+
+    await trip()
+    clock += RESET_MS
+    await expect(breaker.execute(notFound, isFailure)).rejects.toThrow('Not found')
+    expect(breaker.getStatus().state).toBe('closed')
+  })
+})
@@ -0,0 +1,140 @@
+import logger from './logger'
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  name: string
+  failureThreshold: number // consecutive failures before the circuit opens
+  resetTimeoutMs: number // how long to stay open before letting a probe through
+}
+
+export interface CircuitBreakerStatus {
+  name: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: string | null
+  nextAttemptAt: string | null
+}
+
+export class CircuitOpenError extends Error {
+  readonly circuit: string
+  readonly retryAt: Date
+
+  constructor(circuit: string, retryAt: Date) {
+    super(`${circuit} is temporarily unavailable (circuit open until ${retryAt.toISOString()})`)
+    this.name = 'CircuitOpenError'
+    this.circuit = circuit
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * Classic three-state circuit breaker.
+ * closed: calls flow; open: calls fail fast; half_open: a single probe decides whether to close again.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private probeInFlight = false
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options
+  }
+
+  /**
+   * Run an operation through the breaker. Only errors for which isFailure
+   * returns true count towards opening the circuit.
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: any) => boolean = () => true): Promise<T> {
+    this.assertCanExecute()
+
+    const isProbe = this.state === 'half_open'
+    if (isProbe) {
+      this.probeInFlight = true
+    }
+
+    try {
+      const result = await operation()
+      this.recordSuccess()
+      return result
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure()
+      } else if (isProbe) {
+        // The dependency answered - that is enough to trust it again
+        this.recordSuccess()
+      }
+      throw error
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false
+      }
+    }
+  }
+
+  /**
+   * Whether a call would currently be let through
+   */
+  canExecute(): boolean {
+    this.refreshState()
+    return this.state === 'closed' || (this.state === 'half_open' && !this.probeInFlight)
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit closed', { circuit: this.options.name, service: 'CircuitBreaker' })
+    }
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn('Circuit opened', {
+          circuit: this.options.name,
+          consecutiveFailures: this.consecutiveFailures,
+          resetTimeoutMs: this.options.resetTimeoutMs,
+          service: 'CircuitBreaker'
+        })
+      }
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState()
+    return {
+      name: this.options.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt: this.state === 'open' && this.openedAt
+        ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+        : null
+    }
+  }
+
+  private assertCanExecute(): void {
+    if (!this.canExecute()) {
+      const retryAt = new Date((this.openedAt || Date.now()) + this.options.resetTimeoutMs)
+      throw new CircuitOpenError(this.options.name, retryAt)
+    }
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && this.openedAt && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half_open'
+      logger.info('Circuit half-open, allowing a probe request', {
+        circuit: this.options.name,
+        service: 'CircuitBreaker'
+      })
+    }
+  }
+}
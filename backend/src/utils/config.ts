@@ -4,30 +4,326 @@ import path from 'path'
 // Load .env from root directory (three levels up from backend/dist/utils)
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') })
 
+export type MCPTransportKind = 'rest' | 'stdio' | 'streamable-http'
+
+export interface MCPServerConfig {
+  name: string
+  transport: MCPTransportKind
+  url: string // REST facade base URL or Streamable HTTP endpoint
+  command: string // stdio only
+  args: string[] // stdio only
+  cwd: string // stdio only
+  env: string[] // stdio only - backend environment variables passed on to the server
+}
+
 interface Config {
   NODE_ENV: string
   PORT: number
   ZAI_API_KEY: string
+  LLM_PROVIDER: 'zai' | 'openai' | 'mock'
+  LLM_MODEL: string
+  LLM_BASE_URL: string
+  LLM_API_KEY: string
+  LLM_TEMPERATURE: number
+  LLM_MAX_TOKENS: number
+  LLM_TIMEOUT_MS: number
+  LLM_MOCK_SCRIPT: string
+  LLM_RETRY_MAX_ATTEMPTS: number
+  LLM_RETRY_BASE_DELAY_MS: number
+  LLM_RETRY_MAX_DELAY_MS: number
+  LLM_BREAKER_FAILURE_THRESHOLD: number
+  LLM_BREAKER_RESET_MS: number
+  LLM_FALLBACK_PROVIDER: '' | 'zai' | 'openai' | 'mock'
+  LLM_FALLBACK_MODEL: string
+  LLM_FALLBACK_BASE_URL: string
+  LLM_FALLBACK_API_KEY: string
   MCP_SERVER_HOST: string
   MCP_SERVER_PORT: number
   MCP_SERVER_PATH: string
+  MCP_SERVERS: MCPServerConfig[]
+  MCP_TOOL_TIMEOUT_MS: number
+  MCP_TOOL_TIMEOUTS: Record<string, number>
+  MCP_BREAKER_FAILURE_THRESHOLD: number
+  MCP_BREAKER_RESET_MS: number
+  TOOL_CACHE_ENABLED: boolean
+  TOOL_CACHE_TTLS: Record<string, number>
+  TOOL_CACHE_INVALIDATIONS: Record<string, string[]>
+  TOOL_CACHE_MAX_ENTRIES: number
+  DEVICE_INDEX_REFRESH_MS: number
+  DEVICE_MATCH_MIN_SCORE: number
+  DEVICE_MATCH_MAX_EDITS: number
+  DEVICE_MATCH_CONFIDENT_SCORE: number
+  DEVICE_AMBIGUITY_MARGIN: number
   ALLOWED_ORIGINS: string
+  AUTH_ENABLED: boolean
+  AUTH_JWKS_URI: string
+  AUTH_ISSUER: string
+  AUTH_AUDIENCE: string[]
+  AUTH_ROLES_CLAIM: string
+  AUTH_CLOCK_TOLERANCE_SEC: number
+  AUTH_JWKS_CACHE_MS: number
+  AUTH_API_KEYS_FILE: string
+  AUTH_APPROVER_ROLES: string[]
+  AUDIT_LOG_PATH: string
+  AUDIT_SYSLOG_TARGET: string
+  AUDIT_READ_ROLES: string[]
   LOG_LEVEL: string
+  METRICS_ENABLED: boolean
+  TRACING_EXPORTER: 'none' | 'otlp' | 'file'
+  TRACING_FILE_PATH: string
+  TRACING_SAMPLE_RATIO: number
+  OTEL_SERVICE_NAME: string
+  OTEL_EXPORTER_OTLP_ENDPOINT: string
+  OTEL_EXPORTER_OTLP_HEADERS: Record<string, string>
+  REDACT_KEY_PATTERNS: string[]
   RATE_LIMIT_WINDOW_MS: number
   RATE_LIMIT_MAX_REQUESTS: number
+  RATE_LIMIT_STORE: 'memory' | 'redis'
+  RATE_LIMIT_REDIS_URL: string
+  RATE_LIMIT_CHAT_TURNS: number
+  RATE_LIMIT_CHAT_WINDOW_MS: number
+  RATE_LIMIT_TOOL_CALLS: number
+  RATE_LIMIT_TOOL_WINDOW_MS: number
+  RATE_LIMIT_TOKENS: number
+  RATE_LIMIT_TOKEN_WINDOW_MS: number
+  CONVERSATION_STORE: 'memory' | 'file'
+  CONVERSATION_STORE_PATH: string
+  CONVERSATION_RETENTION_MS: number
+  CONVERSATION_MAX_MESSAGES: number
+  CONVERSATION_MAX_BYTES: number
+  WORKING_SET_MAX_ENTITIES: number
+  TASK_POLL_INITIAL_MS: number
+  TASK_POLL_MAX_MS: number
+  TASK_MAX_AGE_MS: number
+  TASK_RETENTION_MS: number
+  POLICY_FILE: string
+  POLICY_ENVIRONMENT: string
+  DESTRUCTIVE_TOOLS: string[]
+  PENDING_ACTION_TTL_MS: number
+  WRITE_TOOLS: string[]
+  MAX_TOOL_ROUNDS: number
+  MAX_TOOL_CALLS_PER_TURN: number
+  MAX_TURN_DURATION_MS: number
+  MAX_TURN_TOKENS: number
+  MAX_IDENTICAL_TOOL_CALLS: number
+  SESSION_TOKEN_BUDGET: number
+  USAGE_DAILY_RETENTION_DAYS: number
+}
+
+/**
+ * Parse tool=ms pairs (e.g. create_backup=300000,get_status=5000) into a lookup
+ */
+function parseToolMs(value: string): Record<string, number> {
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([tool, ms]) => tool && !Number.isNaN(parseInt(ms, 10)))
+      .map(([tool, ms]) => [tool, parseInt(ms, 10)])
+  )
+}
+
+/**
+ * MCP servers to federate. MCP_SERVERS takes a JSON array of
+ * { name, transport?, url?, command?, args?, cwd?, env? }; without it the single
+ * MCP_SERVER_* / MCP_TRANSPORT server is used under the name "default".
+ */
+function parseMcpServers(): MCPServerConfig[] {
+  const host = process.env.MCP_SERVER_HOST || 'localhost'
+  const port = process.env.MCP_SERVER_PORT || '3000'
+  const transport = (['stdio', 'streamable-http'].includes(process.env.MCP_TRANSPORT || '')
+    ? process.env.MCP_TRANSPORT
+    : 'rest') as MCPTransportKind
+
+  const withDefaults = (server: Partial<MCPServerConfig> & { name: string }): MCPServerConfig => {
+    const kind = server.transport || transport
+    return {
+      name: server.name,
+      transport: kind,
+      url: server.url || (kind === 'streamable-http'
+        ? process.env.MCP_HTTP_URL || `http://${host}:${port}/mcp`
+        : `http://${host}:${port}`),
+      command: server.command || process.env.MCP_STDIO_COMMAND || 'node',
+      args: server.args || (process.env.MCP_STDIO_ARGS || 'dist/index.js').split(' ').filter(Boolean),
+      cwd: server.cwd || process.env.MCP_SERVER_PATH || '../RP_SL1_MCP',
+      env: server.env || (process.env.MCP_STDIO_ENV || 'NODE_ENV').split(',').map(name => name.trim()).filter(Boolean)
+    }
+  }
+
+  if (!process.env.MCP_SERVERS) {
+    return [withDefaults({ name: 'default' })]
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(process.env.MCP_SERVERS)
+  } catch (error: any) {
+    throw new Error(`MCP_SERVERS is not valid JSON: ${error.message}`)
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('MCP_SERVERS must be a non-empty JSON array')
+  }
+
+  const names = new Set<string>()
+  return parsed.map((server: any) => {
+    // Server names become tool name prefixes, so keep them to characters LLM function names allow
+    if (typeof server?.name !== 'string' || !/^[A-Za-z0-9]+(-[A-Za-z0-9]+)*$/.test(server.name)) {
+      throw new Error(`MCP_SERVERS entry has an invalid name: ${JSON.stringify(server?.name)} (letters, digits and single dashes only)`)
+    }
+    if (names.has(server.name)) {
+      throw new Error(`MCP_SERVERS has a duplicate server name: ${server.name}`)
+    }
+    if (server.transport !== undefined && !['rest', 'stdio', 'streamable-http'].includes(server.transport)) {
+      throw new Error(`MCP_SERVERS entry ${server.name} has an unknown transport: ${server.transport}`)
+    }
+    if (server.env !== undefined && (!Array.isArray(server.env) || !server.env.every((name: unknown) => typeof name === 'string'))) {
+      throw new Error(`MCP_SERVERS entry ${server.name} has an invalid env: expected an array of variable names`)
+    }
+    names.add(server.name)
+    return withDefaults(server)
+  })
 }
 
 const config: Config = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: parseInt(process.env.PORT || '4001', 10),
   ZAI_API_KEY: process.env.ZAI_API_KEY || '',
+  LLM_PROVIDER: (['zai', 'openai', 'mock'].includes(process.env.LLM_PROVIDER || '')
+    ? process.env.LLM_PROVIDER
+    : 'zai') as Config['LLM_PROVIDER'],
+  LLM_MODEL: process.env.LLM_MODEL || '',
+  LLM_BASE_URL: process.env.LLM_BASE_URL || '',
+  LLM_API_KEY: process.env.LLM_API_KEY || '',
+  LLM_TEMPERATURE: parseFloat(process.env.LLM_TEMPERATURE || '0.1'),
+  LLM_MAX_TOKENS: parseInt(process.env.LLM_MAX_TOKENS || '1000', 10),
+  LLM_TIMEOUT_MS: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10),
+  LLM_MOCK_SCRIPT: process.env.LLM_MOCK_SCRIPT || '',
+  LLM_RETRY_MAX_ATTEMPTS: Math.max(1, parseInt(process.env.LLM_RETRY_MAX_ATTEMPTS || '3', 10)),
+  LLM_RETRY_BASE_DELAY_MS: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+  LLM_RETRY_MAX_DELAY_MS: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000', 10),
+  LLM_BREAKER_FAILURE_THRESHOLD: parseInt(process.env.LLM_BREAKER_FAILURE_THRESHOLD || '5', 10),
+  LLM_BREAKER_RESET_MS: parseInt(process.env.LLM_BREAKER_RESET_MS || '30000', 10),
+  LLM_FALLBACK_PROVIDER: (['zai', 'openai', 'mock'].includes(process.env.LLM_FALLBACK_PROVIDER || '')
+    ? process.env.LLM_FALLBACK_PROVIDER
+    : '') as Config['LLM_FALLBACK_PROVIDER'],
+  LLM_FALLBACK_MODEL: process.env.LLM_FALLBACK_MODEL || '',
+  LLM_FALLBACK_BASE_URL: process.env.LLM_FALLBACK_BASE_URL || '',
+  LLM_FALLBACK_API_KEY: process.env.LLM_FALLBACK_API_KEY || '',
   MCP_SERVER_HOST: process.env.MCP_SERVER_HOST || 'localhost',
   MCP_SERVER_PORT: parseInt(process.env.MCP_SERVER_PORT || '3000', 10),
   MCP_SERVER_PATH: process.env.MCP_SERVER_PATH || '../RP_SL1_MCP',
+  MCP_SERVERS: parseMcpServers(),
+  MCP_TOOL_TIMEOUT_MS: parseInt(process.env.MCP_TOOL_TIMEOUT_MS || '30000', 10),
+  // Per-tool overrides, e.g. create_backup=300000,get_status=5000
+  MCP_TOOL_TIMEOUTS: parseToolMs(process.env.MCP_TOOL_TIMEOUTS || 'create_backup=300000,execute_command=300000'),
+  MCP_BREAKER_FAILURE_THRESHOLD: parseInt(process.env.MCP_BREAKER_FAILURE_THRESHOLD || '5', 10),
+  MCP_BREAKER_RESET_MS: parseInt(process.env.MCP_BREAKER_RESET_MS || '30000', 10),
+  TOOL_CACHE_ENABLED: process.env.TOOL_CACHE_ENABLED !== 'false',
+  // Read-only tools whose results are cached, as tool=ttlMs pairs
+  TOOL_CACHE_TTLS: parseToolMs(process.env.TOOL_CACHE_TTLS
+    || 'list_devices=30000,get_device=30000,list_backups=30000,get_backup=30000,list_commands=30000,'
+    + 'get_command=30000,get_device_requirements=300000,get_status=10000'),
+  // Write tools and the cached read tools they invalidate, as write=read|read pairs
+  TOOL_CACHE_INVALIDATIONS: Object.fromEntries(
+    (process.env.TOOL_CACHE_INVALIDATIONS
+      || 'create_device=list_devices|get_status,update_device=list_devices|get_device,'
+      + 'delete_device=list_devices|get_device|list_backups|get_status,'
+      + 'create_backup=list_backups|get_backup|get_status,execute_command=list_commands|get_command')
+      .split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([tool, targets]) => tool && targets)
+      .map(([tool, targets]) => [tool, targets.split('|').map(target => target.trim()).filter(Boolean)])
+  ),
+  TOOL_CACHE_MAX_ENTRIES: parseInt(process.env.TOOL_CACHE_MAX_ENTRIES || '500', 10),
+  DEVICE_INDEX_REFRESH_MS: parseInt(process.env.DEVICE_INDEX_REFRESH_MS || '60000', 10),
+  DEVICE_MATCH_MIN_SCORE: parseFloat(process.env.DEVICE_MATCH_MIN_SCORE || '0.4'),
+  DEVICE_MATCH_MAX_EDITS: parseInt(process.env.DEVICE_MATCH_MAX_EDITS || '2', 10),
+  DEVICE_MATCH_CONFIDENT_SCORE: parseFloat(process.env.DEVICE_MATCH_CONFIDENT_SCORE || '0.8'),
+  DEVICE_AMBIGUITY_MARGIN: parseFloat(process.env.DEVICE_AMBIGUITY_MARGIN || '0.1'),
   ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS || 'http://localhost:3001,http://localhost:3000',
+  AUTH_ENABLED: process.env.AUTH_ENABLED === 'true',
+  AUTH_JWKS_URI: process.env.AUTH_JWKS_URI || '', // http(s) URL or local JWKS file
+  AUTH_ISSUER: process.env.AUTH_ISSUER || '',
+  AUTH_AUDIENCE: (process.env.AUTH_AUDIENCE || '')
+    .split(',')
+    .map(audience => audience.trim())
+    .filter(Boolean),
+  AUTH_ROLES_CLAIM: process.env.AUTH_ROLES_CLAIM || 'roles',
+  AUTH_CLOCK_TOLERANCE_SEC: parseInt(process.env.AUTH_CLOCK_TOLERANCE_SEC || '60', 10),
+  AUTH_JWKS_CACHE_MS: parseInt(process.env.AUTH_JWKS_CACHE_MS || '600000', 10),
+  AUTH_API_KEYS_FILE: process.env.AUTH_API_KEYS_FILE || '',
+  // Roles that may approve, reject or answer pending actions other principals' turns are waiting on
+  AUTH_APPROVER_ROLES: (process.env.AUTH_APPROVER_ROLES || 'admin')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean),
+  AUDIT_LOG_PATH: process.env.AUDIT_LOG_PATH || 'data/audit/audit.jsonl',
+  AUDIT_SYSLOG_TARGET: process.env.AUDIT_SYSLOG_TARGET || '', // udp://host:514 or tcp://host:514
+  // Roles allowed to read /api/audit when authentication is enabled
+  AUDIT_READ_ROLES: (process.env.AUDIT_READ_ROLES || 'admin,auditor')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean),
   LOG_LEVEL: process.env.LOG_LEVEL || 'debug',
+  METRICS_ENABLED: process.env.METRICS_ENABLED !== 'false',
+  TRACING_EXPORTER: process.env.TRACING_EXPORTER === 'otlp' || process.env.TRACING_EXPORTER === 'file'
+    ? process.env.TRACING_EXPORTER
+    : 'none',
+  TRACING_FILE_PATH: process.env.TRACING_FILE_PATH || 'data/traces/traces.jsonl',
+  TRACING_SAMPLE_RATIO: parseFloat(process.env.TRACING_SAMPLE_RATIO || '1'), // share of new traces exported, 0-1
+  OTEL_SERVICE_NAME: process.env.OTEL_SERVICE_NAME || 'rp-sl1-chat-backend',
+  OTEL_EXPORTER_OTLP_ENDPOINT: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318',
+  // key=value pairs separated by commas, as in the OpenTelemetry SDKs (e.g. "authorization=Bearer abc")
+  OTEL_EXPORTER_OTLP_HEADERS: Object.fromEntries((process.env.OTEL_EXPORTER_OTLP_HEADERS || '')
+    .split(',')
+    .map(pair => pair.split('='))
+    .filter(([key, ...value]) => key.trim() && value.length > 0)
+    .map(([key, ...value]) => [key.trim(), decodeURIComponent(value.join('=').trim())])),
+  // Regexes tested against lower-cased keys with dashes/underscores removed (accessToken -> accesstoken)
+  REDACT_KEY_PATTERNS: (process.env.REDACT_KEY_PATTERNS
+    || 'password$,passwd$,passphrase$,secret$,token$,apikey$,authorization$,credentials?$,privatekey$,community$,cookie$')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean),
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
   RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1000', 10),
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE === 'redis' ? 'redis' : 'memory',
+  RATE_LIMIT_REDIS_URL: process.env.RATE_LIMIT_REDIS_URL || 'redis://localhost:6379',
+  // Per principal (or client address when unauthenticated), 0 = unlimited
+  RATE_LIMIT_CHAT_TURNS: parseInt(process.env.RATE_LIMIT_CHAT_TURNS || '30', 10),
+  RATE_LIMIT_CHAT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_CHAT_WINDOW_MS || '60000', 10),
+  RATE_LIMIT_TOOL_CALLS: parseInt(process.env.RATE_LIMIT_TOOL_CALLS || '200', 10),
+  RATE_LIMIT_TOOL_WINDOW_MS: parseInt(process.env.RATE_LIMIT_TOOL_WINDOW_MS || '60000', 10),
+  RATE_LIMIT_TOKENS: parseInt(process.env.RATE_LIMIT_TOKENS || '500000', 10),
+  RATE_LIMIT_TOKEN_WINDOW_MS: parseInt(process.env.RATE_LIMIT_TOKEN_WINDOW_MS || '3600000', 10),
+  CONVERSATION_STORE: process.env.CONVERSATION_STORE === 'file' ? 'file' : 'memory',
+  CONVERSATION_STORE_PATH: process.env.CONVERSATION_STORE_PATH || 'data/conversations',
+  CONVERSATION_RETENTION_MS: parseInt(process.env.CONVERSATION_RETENTION_MS || '86400000', 10),
+  CONVERSATION_MAX_MESSAGES: parseInt(process.env.CONVERSATION_MAX_MESSAGES || '60', 10),
+  CONVERSATION_MAX_BYTES: parseInt(process.env.CONVERSATION_MAX_BYTES || '262144', 10),
+  WORKING_SET_MAX_ENTITIES: parseInt(process.env.WORKING_SET_MAX_ENTITIES || '100', 10),
+  TASK_POLL_INITIAL_MS: parseInt(process.env.TASK_POLL_INITIAL_MS || '2000', 10),
+  TASK_POLL_MAX_MS: parseInt(process.env.TASK_POLL_MAX_MS || '30000', 10),
+  TASK_MAX_AGE_MS: parseInt(process.env.TASK_MAX_AGE_MS || '3600000', 10),
+  TASK_RETENTION_MS: parseInt(process.env.TASK_RETENTION_MS || '3600000', 10),
+  POLICY_FILE: process.env.POLICY_FILE || '', // empty = every tool allowed
+  POLICY_ENVIRONMENT: process.env.POLICY_ENVIRONMENT || process.env.NODE_ENV || 'development',
+  DESTRUCTIVE_TOOLS: (process.env.DESTRUCTIVE_TOOLS || 'delete_device,update_device,execute_command')
+    .split(',')
+    .map(tool => tool.trim())
+    .filter(Boolean),
+  PENDING_ACTION_TTL_MS: parseInt(process.env.PENDING_ACTION_TTL_MS || '600000', 10),
+  WRITE_TOOLS: (process.env.WRITE_TOOLS || 'create_device,update_device,delete_device,create_backup,execute_command')
+    .split(',')
+    .map(tool => tool.trim())
+    .filter(Boolean),
+  MAX_TOOL_ROUNDS: parseInt(process.env.MAX_TOOL_ROUNDS || '10', 10),
+  MAX_TOOL_CALLS_PER_TURN: parseInt(process.env.MAX_TOOL_CALLS_PER_TURN || '40', 10),
+  MAX_TURN_DURATION_MS: parseInt(process.env.MAX_TURN_DURATION_MS || '180000', 10),
+  MAX_TURN_TOKENS: parseInt(process.env.MAX_TURN_TOKENS || '100000', 10),
+  MAX_IDENTICAL_TOOL_CALLS: parseInt(process.env.MAX_IDENTICAL_TOOL_CALLS || '3', 10),
+  SESSION_TOKEN_BUDGET: parseInt(process.env.SESSION_TOKEN_BUDGET || '0', 10), // 0 = unlimited
+  USAGE_DAILY_RETENTION_DAYS: parseInt(process.env.USAGE_DAILY_RETENTION_DAYS || '30', 10),
 }
 
 export default config
\ No newline at end of file
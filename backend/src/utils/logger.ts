@@ -1,5 +1,6 @@
 import winston from 'winston'
 import config from './config'
+import { redactor } from './redaction'
 
 const logger = winston.createLogger({
   level: config.LOG_LEVEL,
@@ -8,6 +9,7 @@ const logger = winston.createLogger({
       format: 'YYYY-MM-DD HH:mm:ss'
     }),
     winston.format.errors({ stack: true }),
+    redactor.format(),
     winston.format.json()
   ),
   defaultMeta: { service: 'rp-sl1-chat-backend' },
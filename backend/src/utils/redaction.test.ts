@@ -0,0 +1,79 @@
+import winston from 'winston'
+import { Redactor, REDACTED } from './redaction'
+
+const PATTERNS = ['password$', 'secret$', 'token$', 'apikey$', 'authorization$', 'community$']
+
+const MESSAGE = Symbol.for('message')
+
+describe('Redactor', () => {
+  let redactor: Redactor
+
+  beforeEach(() => {
+    redactor = new Redactor(PATTERNS)
+  })
+
+  it('matches secret keys ignoring case, dashes and underscores', () => {
+    expect(redactor.isSecretKey('API-Key')).toBe(true)
+    expect(redactor.isSecretKey('snmp_community')).toBe(true)
+    expect(redactor.isSecretKey('accessToken')).toBe(true)
+    expect(redactor.isSecretKey('tokenCount')).toBe(false)
+    expect(redactor.isSecretKey('hostname')).toBe(false)
+  })
+
+  it('masks secret-keyed values at any depth without touching the original', () => {
+    const value = { device: { name: 'core-1', credentials: [{ password: 'hunter2', user: 'admin' }] }, headers: { Authorization: 'Bearer abc' } }
+
+    expect(redactor.redact(value)).toEqual({
+      device: { name: 'core-1', credentials: [{ password: REDACTED, user: 'admin' }] },
+      headers: { Authorization: REDACTED }
+    })
+    expect(value.device.credentials[0].password).toBe('hunter2')
+  })
+
+  it('masks secrets inside free text', () => {
+    expect(redactor.redactText('{"user":"admin","password":"hunter2"}')).toBe(`{"user":"admin","password":"${REDACTED}"}`)
+    expect(redactor.redactText('GET /devices?token=abc123&limit=5')).toBe(`GET /devices?token=${REDACTED}&limit=5`)
+  })
+
+  it('masks tool arguments the input schema marks as sensitive, in the shape they came in', () => {
+    redactor.registerToolSchema('add_device', {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        login: { type: 'string', format: 'password' },
+        snmp: { type: 'object', properties: { v3Key: { type: 'string', 'x-sensitive': true } } },
+        tags: { type: 'array', items: { type: 'string', writeOnly: true } }
+      }
+    })
+
+    const args = { name: 'core-1', login: 'hunter2', snmp: { v3Key: 'k' }, tags: ['a'] }
+
+    expect(redactor.redactToolArguments('add_device', args)).toEqual({ name: 'core-1', login: REDACTED, snmp: { v3Key: REDACTED }, tags: [REDACTED] })
+    expect(JSON.parse(redactor.redactToolArguments('add_device', JSON.stringify(args)))).toMatchObject({ login: REDACTED, name: 'core-1' })
+    expect(redactor.redactToolArguments('get_device', { login: 'hunter2' })).toEqual({ login: 'hunter2' })
+  })
+
+  it('redacts every log entry it formats', () => {
+    redactor.registerToolSchema('add_device', { type: 'object', properties: { login: { type: 'string', format: 'password' } } })
+    const format = winston.format.combine(redactor.format(), winston.format.json())
+
+    const info = format.transform({
+      level: 'info',
+      message: 'Calling https://api.example/devices?apikey=abc',
+      service: 'ToolService',
+      token: 'abc',
+      toolName: 'add_device',
+      arguments: '{"login":"hunter2","name":"core-1"}',
+      error: new Error('auth failed for secret=xyz')
+    }) as winston.Logform.TransformableInfo
+
+    const line = JSON.parse(info[MESSAGE as any] as string)
+    expect(line).toMatchObject({
+      message: `Calling https://api.example/devices?apikey=${REDACTED}`,
+      service: 'ToolService',
+      token: REDACTED,
+      error: { name: 'Error', message: `auth failed for secret=${REDACTED}` }
+    })
+    expect(JSON.parse(line.arguments)).toEqual({ login: REDACTED, name: 'core-1' })
+  })
+})
@@ -0,0 +1,191 @@
+import winston from 'winston'
+import config from './config'
+
+export const REDACTED = '[REDACTED]'
+
+// Quoted JSON key/value pairs and key=value pairs inside free text
+const JSON_PAIR = /"([^"\\]{1,100})"\s*:\s*("(?:[^"\\]|\\.)*"|\{[^{}]*\}|\[[^\[\]]*\]|[^,}\]\s]+)/g
+const KEY_VALUE_PAIR = /\b([A-Za-z][\w.-]{0,99})=([^&\s,;]+)/g
+
+// Winston bookkeeping fields that never carry payload data
+const LOG_FIELDS = new Set(['level', 'timestamp', 'service'])
+
+/**
+ * Masks secrets before they reach logs or the browser.
+ * Two sources decide what is secret:
+ *  - key patterns (REDACT_KEY_PATTERNS), matched against keys with case, dashes and underscores ignored
+ *  - tool input schemas: properties marked format: password, writeOnly or x-sensitive
+ */
+export class Redactor {
+  private readonly keyPatterns: RegExp[]
+  private toolSecretPaths = new Map<string, string[][]>()
+
+  constructor(keyPatterns: string[]) {
+    this.keyPatterns = keyPatterns.map(pattern => new RegExp(pattern, 'i'))
+  }
+
+  isSecretKey(key: string): boolean {
+    const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '')
+    return this.keyPatterns.some(pattern => pattern.test(normalized))
+  }
+
+  /**
+   * Remember which argument paths of a tool hold secrets according to its input schema
+   */
+  registerToolSchema(toolName: string, inputSchema: any): void {
+    const paths: string[][] = []
+
+    const walk = (node: any, path: string[]): void => {
+      if (!node || typeof node !== 'object') {
+        return
+      }
+      if (path.length > 0 && this.isSecretSchema(node, path[path.length - 1])) {
+        paths.push(path)
+        return
+      }
+      if (node.properties && typeof node.properties === 'object') {
+        for (const [key, child] of Object.entries(node.properties)) {
+          walk(child, [...path, key])
+        }
+      }
+      if (node.items) {
+        walk(node.items, [...path, '*'])
+      }
+      if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        walk(node.additionalProperties, [...path, '*'])
+      }
+    }
+
+    walk(inputSchema, [])
+    this.toolSecretPaths.set(toolName, paths)
+  }
+
+  /**
+   * Deep copy of a value with every secret-keyed entry masked
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, new WeakSet()) as T
+  }
+
+  /**
+   * Mask a tool's arguments by its schema and the key patterns. Accepts the raw JSON
+   * string from the model or an already parsed object and returns the same shape.
+   */
+  redactToolArguments<T extends string | Record<string, unknown>>(toolName: string, args: T): T {
+    let parsed: any = args
+    if (typeof args === 'string') {
+      try {
+        parsed = JSON.parse(args || '{}')
+      } catch {
+        return this.redactText(args) as T
+      }
+    }
+
+    const masked = this.redact(parsed)
+    for (const path of this.toolSecretPaths.get(toolName) || []) {
+      this.maskPath(masked, path)
+    }
+
+    return (typeof args === 'string' ? JSON.stringify(masked) : masked) as T
+  }
+
+  /**
+   * Mask secrets inside free text, such as serialized JSON or query strings
+   */
+  redactText(text: string): string {
+    return text
+      .replace(JSON_PAIR, (match, key: string) => this.isSecretKey(key) ? `"${key}":"${REDACTED}"` : match)
+      .replace(KEY_VALUE_PAIR, (match, key: string) => this.isSecretKey(key) ? `${key}=${REDACTED}` : match)
+  }
+
+  /**
+   * Winston format applying the redaction to every log entry. Tool arguments logged next to
+   * their tool name (toolName or tool) also get the schema-driven masking.
+   */
+  format(): winston.Logform.Format {
+    return winston.format(info => {
+      const entry = info as Record<string, any>
+
+      for (const key of Object.keys(entry)) {
+        if (LOG_FIELDS.has(key)) {
+          continue
+        }
+
+        const value = entry[key]
+        const toolName = entry.toolName || entry.tool
+        if (key === 'arguments' && typeof toolName === 'string' && value && typeof value !== 'number') {
+          entry[key] = this.redactToolArguments(toolName, value)
+        } else {
+          entry[key] = this.isSecretKey(key) && value !== undefined && value !== null
+            ? REDACTED
+            : this.redactValue(value, new WeakSet())
+        }
+      }
+
+      return info
+    })()
+  }
+
+  private isSecretSchema(node: any, key: string): boolean {
+    return node.format === 'password'
+      || node.writeOnly === true
+      || node['x-sensitive'] === true
+      || this.isSecretKey(key)
+  }
+
+  private redactValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value)
+    }
+    if (!value || typeof value !== 'object') {
+      return value
+    }
+    if (seen.has(value)) {
+      return '[Circular]'
+    }
+    seen.add(value)
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, seen))
+    }
+    if (value instanceof Date) {
+      return value
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactText(value.message) }
+    }
+
+    const result: Record<string, unknown> = {}
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = this.isSecretKey(key) && child !== undefined && child !== null
+        ? REDACTED
+        : this.redactValue(child, seen)
+    }
+    return result
+  }
+
+  private maskPath(target: any, path: string[]): void {
+    if (!target || typeof target !== 'object') {
+      return
+    }
+
+    const [segment, ...rest] = path
+    const keys = segment === '*' ? Object.keys(target) : [segment]
+
+    for (const key of keys) {
+      if (!(key in target)) {
+        continue
+      }
+      if (rest.length === 0) {
+        if (target[key] !== undefined && target[key] !== null) {
+          target[key] = REDACTED
+        }
+      } else {
+        this.maskPath(target[key], rest)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const redactor = new Redactor(config.REDACT_KEY_PATTERNS)
@@ -11,7 +11,7 @@ export default function ChatInterface() {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   
-  const { state, sendMessage, clearMessages } = useChat()
+  const { state, sendMessage, resolvePendingAction, selectDevices, clearMessages } = useChat()
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -143,11 +143,16 @@ export default function ChatInterface() {
           {/* Messages */}
           <div className="space-y-4">
             {state.messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                onResolveAction={resolvePendingAction}
+                onSelectDevices={selectDevices}
+              />
             ))}
             
             {/* Loading Indicator */}
-            {state.isLoading && (
+            {state.isLoading && !state.messages.some(message => message.isStreaming) && (
               <div className="flex justify-start">
                 <div className="bg-white text-gray-800 border border-gray-200 rounded-2xl px-4 py-3 max-w-[80%]">
                   <LoadingSpinner />
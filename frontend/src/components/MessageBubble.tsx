@@ -1,11 +1,82 @@
-import { User, Bot } from 'lucide-react'
+import { useState } from 'react'
+import { User, Bot, ShieldAlert, HelpCircle } from 'lucide-react'
 import { Message } from '../types/chat'
+import { DeviceClarification } from '../types/api'
 
 interface MessageBubbleProps {
   message: Message
+  onResolveAction?: (messageId: string, decision: 'approve' | 'reject') => void
+  onSelectDevices?: (messageId: string, deviceIds: string[]) => void
 }
 
-export default function MessageBubble({ message }: MessageBubbleProps) {
+const ACTION_STATUS_LABELS: Record<NonNullable<Message['pendingActionStatus']>, string> = {
+  pending: 'Awaiting confirmation',
+  approving: 'Approving...',
+  rejecting: 'Rejecting...',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  selecting: 'Continuing...',
+  selected: 'Devices selected',
+}
+
+interface DeviceChoicesProps {
+  clarifications: DeviceClarification[]
+  status: NonNullable<Message['pendingActionStatus']>
+  onSubmit?: (deviceIds: string[]) => void
+}
+
+/**
+ * Candidate devices for ambiguous names, picked with checkboxes
+ */
+function DeviceChoices({ clarifications, status, onSubmit }: DeviceChoicesProps) {
+  const [selected, setSelected] = useState<string[]>([])
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id])
+  }
+
+  return (
+    <div className="mt-4 rounded-xl border border-sky-300 bg-sky-50 p-4 text-left">
+      <div className="flex items-center gap-2 mb-3 text-sky-800 text-sm font-semibold">
+        <HelpCircle className="w-4 h-4" />
+        {status === 'pending' ? 'Which device did you mean?' : ACTION_STATUS_LABELS[status]}
+      </div>
+      {clarifications.map(clarification => (
+        <fieldset key={clarification.term} className="mb-3">
+          <legend className="text-xs text-slate-600 mb-1">
+            "{clarification.term}" {clarification.reason === 'ambiguous' ? 'matches several devices' : 'has no clear match'}
+          </legend>
+          {clarification.candidates.map(candidate => (
+            <label key={`${candidate.server || ''}:${candidate.id}`} className="flex items-center gap-2 text-xs text-slate-700 py-0.5">
+              <input
+                type="checkbox"
+                checked={selected.includes(candidate.id)}
+                disabled={status !== 'pending'}
+                onChange={() => toggle(candidate.id)}
+              />
+              <span className="font-semibold">{candidate.name || candidate.id}</span>
+              <span className="text-slate-500">
+                {candidate.address || 'no address'}{candidate.type && ` - ${candidate.type}`}{candidate.server && ` (${candidate.server})`}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      ))}
+      {status === 'pending' && onSubmit && (
+        <button
+          type="button"
+          disabled={selected.length === 0}
+          onClick={() => onSubmit(selected)}
+          className="px-4 py-2 text-xs font-semibold text-white bg-sky-600 hover:bg-sky-700 disabled:opacity-50 rounded-lg"
+        >
+          Continue with {selected.length || 'selected'} device{selected.length === 1 ? '' : 's'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function MessageBubble({ message, onResolveAction, onSelectDevices }: MessageBubbleProps) {
   const isUser = message.role === 'user'
   
   return (
@@ -35,6 +106,60 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
               {message.content}
             </div>
             
+            {message.pendingAction?.kind === 'clarification' && message.pendingAction.clarifications && (
+              <DeviceChoices
+                clarifications={message.pendingAction.clarifications}
+                status={message.pendingActionStatus || 'pending'}
+                onSubmit={onSelectDevices && (deviceIds => onSelectDevices(message.id, deviceIds))}
+              />
+            )}
+
+            {message.pendingAction && message.pendingAction.kind !== 'clarification' && (
+              <div className="mt-4 rounded-xl border border-amber-300 bg-amber-50 p-4 text-left">
+                <div className="flex items-center gap-2 mb-3 text-amber-800 text-sm font-semibold">
+                  <ShieldAlert className="w-4 h-4" />
+                  {ACTION_STATUS_LABELS[message.pendingActionStatus || 'pending']}
+                </div>
+                <ul className="space-y-2 text-xs text-slate-700">
+                  {message.pendingAction.actions.map(action => (
+                    <li key={action.toolCallId}>
+                      <span className="font-mono font-semibold">{action.toolName}</span>
+                      {action.devices.length > 0 && (
+                        <span> on {action.devices.map(d => d.name ? `${d.name} (${d.address || d.id})` : d.id).join(', ')}</span>
+                      )}
+                      <pre className="mt-1 whitespace-pre-wrap break-all text-slate-500">
+                        {JSON.stringify(action.arguments, null, 2)}
+                      </pre>
+                    </li>
+                  ))}
+                </ul>
+                {message.pendingActionStatus === 'pending' && onResolveAction && (
+                  <div className="flex gap-3 mt-4">
+                    <button
+                      type="button"
+                      onClick={() => onResolveAction(message.id, 'approve')}
+                      className="px-4 py-2 text-xs font-semibold text-white bg-red-600 hover:bg-red-700 rounded-lg"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onResolveAction(message.id, 'reject')}
+                      className="px-4 py-2 text-xs font-semibold text-slate-700 bg-white hover:bg-slate-100 border border-slate-300 rounded-lg"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {message.activity && (
+              <div className="mt-2 text-xs text-slate-500 italic">
+                {message.activity}
+              </div>
+            )}
+            
             {message.isStreaming && (
               <div className="typing-indicator mt-3">
                 <div className="typing-dot" style={{ animationDelay: '0ms' }}></div>
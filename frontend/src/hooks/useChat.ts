@@ -1,5 +1,6 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { Message, SendMessageRequest, ChatState } from '../types/chat'
+import { ChatMessageResponse, PendingAction, TaskEventType, TrackedTask } from '../types/api'
 import { api } from '../services/api'
 import { RESTOREPOINT_KEYWORDS } from '../utils/constants'
 
@@ -11,6 +12,44 @@ export const useChat = () => {
   })
 
   const abortControllerRef = useRef<AbortController | null>(null)
+  const sessionIdRef = useRef<string | null>(null)
+  const taskEventsRef = useRef<{ sessionId: string; close: () => void } | null>(null)
+
+  /**
+   * Post a note in the chat when a backup or command started by this session finishes
+   */
+  const watchTasks = useCallback((sessionId: string | undefined) => {
+    if (!sessionId || taskEventsRef.current?.sessionId === sessionId) {
+      return
+    }
+    taskEventsRef.current?.close()
+
+    const close = api.subscribeTaskEvents(sessionId, (type: TaskEventType, task: TrackedTask) => {
+      if (type !== 'task_completed' && type !== 'task_failed' && type !== 'task_expired') {
+        return
+      }
+
+      const subject = `${task.sourceTool.replace(/_/g, ' ')} (${task.kind} ${task.entityId})`
+      const content = type === 'task_completed'
+        ? `✅ ${subject} completed.`
+        : type === 'task_failed'
+          ? `❌ ${subject} failed: ${task.error || task.remoteStatus || 'unknown error'}`
+          : `⚠️ Stopped tracking ${subject}: ${task.error || 'no final status'}`
+
+      setState(prev => ({
+        ...prev,
+        messages: [...prev.messages, {
+          id: `${task.id}-${type}`,
+          role: 'assistant',
+          content,
+          timestamp: new Date(),
+        }],
+      }))
+    })
+    taskEventsRef.current = { sessionId, close }
+  }, [])
+
+  useEffect(() => () => taskEventsRef.current?.close(), [])
 
   const validateInput = useCallback((input: string): string | null => {
     if (!input.trim()) {
@@ -64,23 +103,67 @@ export const useChat = () => {
 
       abortControllerRef.current = new AbortController()
 
-      const response = await api.sendMessage(request.message, {
-        signal: abortControllerRef.current.signal,
-      })
-
+      const assistantId = (Date.now() + 1).toString()
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: assistantId,
         role: 'assistant',
-        content: response.response || '',
+        content: '',
         timestamp: new Date(),
+        isStreaming: true,
       }
 
       setState(prev => ({
         ...prev,
         messages: [...prev.messages, assistantMessage],
-        isLoading: false,
       }))
 
+      const updateAssistant = (update: (message: Message) => Partial<Message>) => {
+        setState(prev => ({
+          ...prev,
+          messages: prev.messages.map(message =>
+            message.id === assistantId ? { ...message, ...update(message) } : message
+          ),
+        }))
+      }
+
+      let streamError: string | null = null
+
+      await api.streamMessage(request.message, sessionIdRef.current || undefined, (event) => {
+        switch (event.type) {
+          case 'token':
+            updateAssistant(message => ({ content: message.content + event.content, activity: undefined }))
+            break
+          case 'tool_call_started':
+            updateAssistant(() => ({ activity: `Running ${event.toolName}...` }))
+            break
+          case 'round_completed':
+            updateAssistant(message => ({ content: message.content ? `${message.content}\n\n` : '', activity: undefined }))
+            break
+          case 'final':
+            // Keep the backend session so follow-up questions share conversation history
+            sessionIdRef.current = event.data.session_id || sessionIdRef.current
+            watchTasks(sessionIdRef.current || undefined)
+            updateAssistant(() => ({
+              content: event.data.response || '',
+              isStreaming: false,
+              activity: undefined,
+              pendingAction: event.data.pending_action,
+              pendingActionStatus: event.data.pending_action ? 'pending' : undefined,
+            }))
+            break
+          case 'error':
+            streamError = event.message
+            break
+        }
+      }, abortControllerRef.current.signal)
+
+      if (streamError) {
+        throw new Error(streamError)
+      }
+
+      updateAssistant(() => ({ isStreaming: false, activity: undefined }))
+      setState(prev => ({ ...prev, isLoading: false }))
+
     } catch (error: any) {
       let errorMessage = 'An unexpected error occurred'
 
@@ -94,11 +177,87 @@ export const useChat = () => {
 
       setState(prev => ({
         ...prev,
+        // Drop the placeholder bubble if nothing was streamed into it
+        messages: prev.messages
+          .filter(message => !(message.isStreaming && !message.content))
+          .map(message => message.isStreaming ? { ...message, isStreaming: false, activity: undefined } : message),
         isLoading: false,
         error: errorMessage,
       }))
     }
-  }, [validateInput])
+  }, [validateInput, watchTasks])
+
+  /**
+   * Resume a paused turn (approval, rejection or device selection) and append the reply
+   */
+  const continuePendingAction = useCallback(async (
+    messageId: string,
+    busyStatus: Message['pendingActionStatus'],
+    doneStatus: Message['pendingActionStatus'],
+    request: (action: PendingAction) => Promise<ChatMessageResponse>
+  ) => {
+    const target = state.messages.find(message => message.id === messageId)
+    if (!target?.pendingAction || target.pendingActionStatus !== 'pending') {
+      return
+    }
+
+    const setActionStatus = (status: Message['pendingActionStatus']) => {
+      setState(prev => ({
+        ...prev,
+        messages: prev.messages.map(message =>
+          message.id === messageId ? { ...message, pendingActionStatus: status } : message
+        ),
+      }))
+    }
+
+    setActionStatus(busyStatus)
+    setState(prev => ({ ...prev, isLoading: true, error: null }))
+
+    try {
+      const response = await request(target.pendingAction)
+
+      const assistantMessage: Message = {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: response.response || '',
+        timestamp: new Date(),
+        pendingAction: response.pending_action,
+        pendingActionStatus: response.pending_action ? 'pending' : undefined,
+      }
+
+      setActionStatus(doneStatus)
+      setState(prev => ({
+        ...prev,
+        messages: [...prev.messages, assistantMessage],
+        isLoading: false,
+      }))
+
+    } catch (error: any) {
+      const expired = error.response?.status === 404 || error.response?.status === 410
+      setActionStatus(expired ? 'rejected' : 'pending')
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error.response?.data?.message || error.message || 'Failed to resolve the pending action',
+      }))
+    }
+  }, [state.messages])
+
+  const resolvePendingAction = useCallback((messageId: string, decision: 'approve' | 'reject') =>
+    continuePendingAction(
+      messageId,
+      decision === 'approve' ? 'approving' : 'rejecting',
+      decision === 'approve' ? 'approved' : 'rejected',
+      action => api.resolvePendingAction(action.id, decision, action.sessionId)
+    ), [continuePendingAction])
+
+  const selectDevices = useCallback((messageId: string, deviceIds: string[]) =>
+    continuePendingAction(
+      messageId,
+      'selecting',
+      'selected',
+      action => api.selectDevices(action.id, deviceIds, action.sessionId)
+    ), [continuePendingAction])
 
   const clearMessages = useCallback(() => {
     setState({
@@ -109,6 +268,12 @@ export const useChat = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    if (sessionIdRef.current) {
+      api.clearSession(sessionIdRef.current).catch(() => undefined)
+      sessionIdRef.current = null
+    }
+    taskEventsRef.current?.close()
+    taskEventsRef.current = null
   }, [])
 
   const cancelRequest = useCallback(() => {
@@ -121,6 +286,8 @@ export const useChat = () => {
   return {
     state,
     sendMessage,
+    resolvePendingAction,
+    selectDevices,
     clearMessages,
     cancelRequest,
     validateInput,
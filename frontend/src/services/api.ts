@@ -1,10 +1,28 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios'
-import { ChatMessageRequest, ChatMessageResponse, ValidationError } from '../types/api'
+import { ChatMessageRequest, ChatMessageResponse, ChatStreamEvent, TaskEventType, TrackedTask, ValidationError, WorkingSetResponse } from '../types/api'
 
 const API_BASE_URL = import.meta.env.VITE_APP_API_URL || 'http://localhost:4001/api'
 
+// Delay before a dropped task event stream reconnects, as EventSource would
+const TASK_EVENTS_RETRY_MS = 3000
+
+/**
+ * What the backend accepts when AUTH_ENABLED is on - an OIDC bearer token or an API key
+ */
+export interface ApiCredentials {
+  token?: string
+  apiKey?: string
+}
+
+export type CredentialsProvider = () => ApiCredentials | null | Promise<ApiCredentials | null>
+
+// A key baked in at build time suits internal deployments; apps signing users in plug in a provider instead
+const buildTimeCredentials: CredentialsProvider = () =>
+  import.meta.env.VITE_APP_API_KEY ? { apiKey: import.meta.env.VITE_APP_API_KEY } : null
+
 class ApiClient {
   private instance: AxiosInstance
+  private credentialsProvider: CredentialsProvider = buildTimeCredentials
 
   constructor() {
     this.instance = axios.create({
@@ -20,7 +38,8 @@ class ApiClient {
 
   private setupInterceptors() {
     this.instance.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        Object.entries(await this.authHeaders()).forEach(([name, value]) => config.headers.set(name, value))
         return config
       },
       (error) => {
@@ -33,7 +52,9 @@ class ApiClient {
         return response
       },
       (error) => {
-        if (error.response?.status === 429) {
+        if (error.response?.status === 401) {
+          error.message = 'Authentication required. Please sign in again.'
+        } else if (error.response?.status === 429) {
           error.message = 'Too many requests. Please wait a moment.'
         } else if (error.response?.status === 422) {
           error.message = 'Invalid input. Please check your message.'
@@ -46,15 +67,197 @@ class ApiClient {
     )
   }
 
-  async sendMessage(message: string, options?: AxiosRequestConfig): Promise<ChatMessageResponse> {
+  /**
+   * Where credentials come from, e.g. an OIDC client's current access token. Called before every request.
+   */
+  setCredentialsProvider(provider: CredentialsProvider) {
+    this.credentialsProvider = provider
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const credentials = await this.credentialsProvider()
+    if (credentials?.token) {
+      return { Authorization: `Bearer ${credentials.token}` }
+    }
+    return credentials?.apiKey ? { 'X-API-Key': credentials.apiKey } : {}
+  }
+
+  /**
+   * Open a server-sent event stream with fetch - EventSource can neither POST a body nor send credentials
+   */
+  private async openEventStream(path: string, init: RequestInit): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(await this.authHeaders()),
+        'Accept': 'text/event-stream',
+      },
+    })
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null)
+      const error: any = new Error(body?.error || body?.message || `Request failed with status ${response.status}`)
+      error.response = { status: response.status, data: body }
+      throw error
+    }
+    return response.body
+  }
+
+  /**
+   * Read an event stream to its end, calling onEvent with each event's type and data
+   */
+  private async readEventStream(body: ReadableStream<Uint8Array>, onEvent: (type: string, data: string) => void): Promise<void> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    const dispatch = (block: string) => {
+      let eventType = 'message'
+      const dataLines: string[] = []
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventType = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trim())
+        }
+      }
+
+      if (dataLines.length === 0) return
+      onEvent(eventType, dataLines.join('\n'))
+    }
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split('\n\n')
+      buffer = blocks.pop() || ''
+      blocks.forEach(dispatch)
+    }
+
+    if (buffer.trim()) {
+      dispatch(buffer)
+    }
+  }
+
+  async sendMessage(message: string, sessionId?: string, options?: AxiosRequestConfig): Promise<ChatMessageResponse> {
     const request: ChatMessageRequest = {
       message,
+      ...(sessionId && { session_id: sessionId }),
     }
 
     const response = await this.instance.post<ChatMessageResponse>('/chat', request, options)
     return response.data
   }
 
+  /**
+   * Send a message over the SSE endpoint, invoking onEvent for every server event.
+   * Uses fetch because EventSource cannot POST a body.
+   */
+  async streamMessage(
+    message: string,
+    sessionId: string | undefined,
+    onEvent: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const request: ChatMessageRequest = {
+      message,
+      ...(sessionId && { session_id: sessionId }),
+    }
+
+    const body = await this.openEventStream('/chat/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    })
+
+    await this.readEventStream(body, (eventType, data) => {
+      const payload = JSON.parse(data)
+      if (eventType === 'final') {
+        onEvent({ type: 'final', data: payload })
+      } else {
+        onEvent({ ...payload, type: eventType } as ChatStreamEvent)
+      }
+    })
+  }
+
+  async resolvePendingAction(
+    actionId: string,
+    decision: 'approve' | 'reject',
+    sessionId: string
+  ): Promise<ChatMessageResponse> {
+    const response = await this.instance.post<ChatMessageResponse>(
+      `/chat/actions/${encodeURIComponent(actionId)}/${decision}`,
+      { session_id: sessionId },
+      // Approved operations run the rest of the turn before responding
+      { timeout: 300000 }
+    )
+    return response.data
+  }
+
+  async selectDevices(
+    actionId: string,
+    deviceIds: string[],
+    sessionId: string
+  ): Promise<ChatMessageResponse> {
+    const response = await this.instance.post<ChatMessageResponse>(
+      `/chat/actions/${encodeURIComponent(actionId)}/select`,
+      { device_ids: deviceIds, session_id: sessionId },
+      // The turn resumes and runs its remaining rounds before responding
+      { timeout: 300000 }
+    )
+    return response.data
+  }
+
+  async clearSession(sessionId: string): Promise<{ session_id: string; deleted: boolean }> {
+    const response = await this.instance.delete(`/chat/sessions/${encodeURIComponent(sessionId)}`)
+    return response.data
+  }
+
+  async getWorkingSet(sessionId: string): Promise<WorkingSetResponse> {
+    const response = await this.instance.get<WorkingSetResponse>(`/chat/sessions/${encodeURIComponent(sessionId)}/working-set`)
+    return response.data
+  }
+
+  async clearWorkingSet(sessionId: string): Promise<{ session_id: string; cleared: boolean }> {
+    const response = await this.instance.delete(`/chat/sessions/${encodeURIComponent(sessionId)}/working-set`)
+    return response.data
+  }
+
+  /**
+   * Follow the background tasks (backups, command runs) a session started.
+   * Returns a function that closes the stream.
+   */
+  subscribeTaskEvents(sessionId: string, onEvent: (type: TaskEventType, task: TrackedTask) => void): () => void {
+    const controller = new AbortController()
+    const types = new Set<string>(['task_started', 'task_progress', 'task_completed', 'task_failed', 'task_expired'])
+
+    const follow = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const body = await this.openEventStream(`/tasks/events?session_id=${encodeURIComponent(sessionId)}`, {
+            signal: controller.signal,
+          })
+          await this.readEventStream(body, (type, data) => {
+            if (types.has(type)) onEvent(type as TaskEventType, JSON.parse(data))
+          })
+        } catch (error: any) {
+          const status = error.response?.status
+          // Refused outright - retrying cannot help
+          if (controller.signal.aborted || (status >= 400 && status < 500 && status !== 429)) return
+        }
+        await new Promise(resolve => setTimeout(resolve, TASK_EVENTS_RETRY_MS))
+      }
+    }
+    void follow()
+
+    return () => controller.abort()
+  }
+
   async getHealth(): Promise<{ status: string; timestamp: string }> {
     const response = await this.instance.get('/health')
     return response.data
@@ -10,14 +10,103 @@ export interface ChatMessageRequest {
   session_id?: string
 }
 
+export interface PendingToolAction {
+  toolCallId: string
+  toolName: string
+  arguments: Record<string, unknown>
+  destructive: boolean
+  devices: Array<{ id: string; name?: string; address?: string; type?: string }>
+}
+
+export interface DeviceCandidate {
+  id: string
+  name?: string
+  address?: string
+  type?: string
+  server?: string
+  score: number
+  reason: string
+}
+
+export interface DeviceClarification {
+  term: string
+  reason: 'ambiguous' | 'low_confidence'
+  candidates: DeviceCandidate[]
+}
+
+export interface PendingAction {
+  id: string
+  sessionId: string
+  principalId: string
+  kind: 'confirmation' | 'clarification'
+  createdAt: string
+  expiresAt: string
+  actions: PendingToolAction[]
+  clarifications?: DeviceClarification[]
+}
+
 export interface ChatMessageResponse {
   id: string
   response: string
   session_id: string
-  status: 'success' | 'error' | 'streaming'
+  status: 'success' | 'error' | 'streaming' | 'pending_confirmation' | 'needs_clarification'
   tools_used?: string[]
+  pending_action?: PendingAction
+  stop_reason?: 'completed' | 'off_topic' | 'pending_confirmation' | 'needs_clarification' | 'max_rounds' | 'max_tool_calls' | 'timeout' | 'token_budget' | 'repeated_tool_call' | 'llm_unavailable' | 'cancelled'
 }
 
+export type ChatStreamEvent =
+  | { type: 'token'; round: number; content: string }
+  | { type: 'tool_call_started'; round: number; toolCallId: string; toolName: string; arguments: string }
+  | { type: 'tool_result'; round: number; toolCallId: string; toolName: string; success: boolean; result?: unknown; error?: string }
+  | { type: 'round_completed'; round: number; toolsUsed: string[] }
+  | { type: 'final'; data: ChatMessageResponse }
+  | { type: 'error'; message: string }
+
+export type WorkingSetKind = 'device' | 'backup' | 'command' | 'task'
+
+export interface WorkingSetEntity {
+  kind: WorkingSetKind
+  id: string
+  label: string
+  server?: string
+  role: 'mentioned' | 'listed' | 'viewed' | 'acted_on' | 'created'
+  turn: number
+  lastSeen: string
+  attributes: Record<string, string>
+}
+
+export interface WorkingSetResponse {
+  session_id: string
+  turn: number
+  last_updated: string | null
+  entities: WorkingSetEntity[]
+  lists: Partial<Record<WorkingSetKind, WorkingSetEntity[]>>
+  focus: Partial<Record<WorkingSetKind, WorkingSetEntity[]>>
+}
+
+export interface TrackedTask {
+  id: string
+  kind: 'task' | 'backup' | 'command'
+  entityId: string
+  server?: string
+  sessionId: string
+  principalId: string
+  sourceTool: string
+  deviceIds: string[]
+  related: Partial<Record<'task' | 'backup' | 'command', string>>
+  status: 'running' | 'completed' | 'failed' | 'expired'
+  remoteStatus?: string
+  progress?: number
+  error?: string
+  polls: number
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export type TaskEventType = 'task_started' | 'task_progress' | 'task_completed' | 'task_failed' | 'task_expired'
+
 export interface ValidationError {
   field: string
   message: string
@@ -1,9 +1,14 @@
+import { PendingAction } from './api'
+
 export interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
   isStreaming?: boolean
+  activity?: string
+  pendingAction?: PendingAction
+  pendingActionStatus?: 'pending' | 'approving' | 'rejecting' | 'approved' | 'rejected' | 'selecting' | 'selected'
 }
 
 export interface ChatState {
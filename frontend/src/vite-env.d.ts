@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_APP_API_URL: string
   readonly VITE_APP_TITLE: string
+  readonly VITE_APP_API_KEY?: string
   readonly more: string
 }
 